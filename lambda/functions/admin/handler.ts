@@ -14,11 +14,17 @@
  * POST /admin/users - Create new user
  * PUT /admin/users/{id} - Update user
  * DELETE /admin/users/{id} - Disable user
+ * GET /admin/users/{id}/usage - Get user's usage history
+ *
+ * Webhooks:
+ * GET /admin/webhooks/failed - List failed Stripe webhook events
+ * POST /admin/webhooks/{eventId}/replay - Replay a failed webhook event
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { getDashboardStats, getRevenueData, getUserGrowthData, getRecentActivity } from './dashboard.js';
-import { listUsers, getUser, createUser, updateUser, deleteUser, getUserLogins, setUserPassword } from './users.js';
+import { listUsers, getUser, createUser, updateUser, deleteUser, getUserLogins, getUserUsage, setUserPassword } from './users.js';
+import { listFailedWebhooks, replayWebhook } from './webhooks.js';
 
 const corsHeaders = {
   'Content-Type': 'application/json',
@@ -80,6 +86,13 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return await getUserLogins(userId);
     }
 
+    // User usage history route
+    const usageMatch = path.match(/^\/admin\/users\/([^/]+)\/usage$/);
+    if (usageMatch && method === 'GET') {
+      const userId = decodeURIComponent(usageMatch[1]);
+      return await getUserUsage(userId, event.queryStringParameters);
+    }
+
     // User password route
     const passwordMatch = path.match(/^\/admin\/users\/([^/]+)\/password$/);
     if (passwordMatch && method === 'POST') {
@@ -105,6 +118,17 @@ export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayPr
       }
     }
 
+    // Failed webhook routes
+    if (path === '/admin/webhooks/failed' && method === 'GET') {
+      return await listFailedWebhooks(event.queryStringParameters);
+    }
+
+    const replayMatch = path.match(/^\/admin\/webhooks\/([^/]+)\/replay$/);
+    if (replayMatch && method === 'POST') {
+      const eventId = decodeURIComponent(replayMatch[1]);
+      return await replayWebhook(eventId);
+    }
+
     // Route not found
     return {
       statusCode: 404,
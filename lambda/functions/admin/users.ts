@@ -7,6 +7,7 @@
  * POST /admin/users - Create new user
  * PUT /admin/users/{id} - Update user
  * DELETE /admin/users/{id} - Disable user
+ * GET /admin/users/{id}/usage - Get user's usage history
  */
 
 import { APIGatewayProxyResult } from 'aws-lambda';
@@ -26,6 +27,7 @@ import {
   AttributeType,
 } from '@aws-sdk/client-cognito-identity-provider';
 import { query } from '../../shared/db/index.js';
+import { getUsageHistory, parseUsageHistoryQuery } from '../entitlement/usage/history.js';
 
 const corsHeaders = {
   'Content-Type': 'application/json',
@@ -512,6 +514,56 @@ export async function getUserLogins(userId: string): Promise<APIGatewayProxyResu
   }
 }
 
+/**
+ * Get user's usage history (bucketed)
+ * GET /admin/users/{id}/usage?productId&from&to&granularity=hour|day
+ */
+export async function getUserUsage(
+  userId: string,
+  queryParams: Record<string, string | undefined> | null
+): Promise<APIGatewayProxyResult> {
+  try {
+    // Get user's sub (UUID) from Cognito - usage_events stores sub, not username
+    let userSub = userId;
+    try {
+      const cognitoUser = await cognitoClient.send(new AdminGetUserCommand({
+        UserPoolId: USER_POOL_ID,
+        Username: userId,
+      }));
+      userSub = getAttribute(cognitoUser.UserAttributes, 'sub') || userId;
+    } catch (error) {
+      console.warn('[Users] Could not get user sub, using userId as-is:', error);
+    }
+
+    const parsed = parseUsageHistoryQuery(userSub, queryParams);
+    if ('error' in parsed) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: parsed.error }),
+      };
+    }
+
+    const history = await getUsageHistory(parsed.query);
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        user_id: userId,
+        ...history,
+      }),
+    };
+  } catch (error) {
+    console.error('[Users] Error getting user usage:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Failed to get user usage' }),
+    };
+  }
+}
+
 /**
  * Set user password
  * POST /admin/users/{id}/password
@@ -0,0 +1,193 @@
+/**
+ * Failed Webhook API
+ * Inspects and replays Stripe webhook events that failed processing
+ *
+ * GET /admin/webhooks/failed - List failed webhook events
+ * POST /admin/webhooks/{eventId}/replay - Replay a failed webhook event
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { query } from '../../shared/db/index.js';
+import { FailedWebhookRow, FailedWebhookStatus } from '../billing/webhook/deadLetter.js';
+import { processWebhookEvent } from '../billing/webhook/processor.js';
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+};
+
+const FAILED_WEBHOOK_STATUSES: FailedWebhookStatus[] = ['failed', 'replayed', 'resolved'];
+
+interface FailedWebhookResponse {
+  event_id: string;
+  event_type: string;
+  error: string;
+  attempts: number;
+  status: FailedWebhookStatus;
+  first_failed_at: string;
+  last_failed_at: string;
+  replayed_at: string | null;
+}
+
+function toFailedWebhookResponse(row: FailedWebhookRow): FailedWebhookResponse {
+  return {
+    event_id: row.stripe_event_id,
+    event_type: row.event_type,
+    error: row.error,
+    attempts: row.attempts,
+    status: row.status,
+    first_failed_at: row.first_failed_at.toISOString(),
+    last_failed_at: row.last_failed_at.toISOString(),
+    replayed_at: row.replayed_at?.toISOString() || null,
+  };
+}
+
+/**
+ * List failed webhook events
+ * GET /admin/webhooks/failed
+ *
+ * Query parameters:
+ * - status: failed (default) | replayed | resolved | all
+ * - event_type: Stripe event type filter
+ * - page, per_page: pagination
+ */
+export async function listFailedWebhooks(
+  queryParams: Record<string, string | undefined> | null
+): Promise<APIGatewayProxyResult> {
+  try {
+    const status = queryParams?.['status'] || 'failed';
+    if (status !== 'all' && !FAILED_WEBHOOK_STATUSES.includes(status as FailedWebhookStatus)) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: `status must be one of: ${FAILED_WEBHOOK_STATUSES.join(', ')}, all` }),
+      };
+    }
+
+    const page = Math.max(1, parseInt(queryParams?.['page'] || '1'));
+    const perPage = Math.min(100, Math.max(1, parseInt(queryParams?.['per_page'] || '20')));
+    const offset = (page - 1) * perPage;
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (status !== 'all') {
+      params.push(status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (queryParams?.['event_type']) {
+      params.push(queryParams['event_type']);
+      conditions.push(`event_type = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM failed_webhooks ${where}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0]?.count || '0');
+
+    const result = await query<FailedWebhookRow>(
+      `SELECT * FROM failed_webhooks ${where}
+       ORDER BY last_failed_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, perPage, offset]
+    );
+
+    const items = result.rows.map(toFailedWebhookResponse);
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        items,
+        total,
+        page,
+        per_page: perPage,
+        has_more: offset + items.length < total,
+      }),
+    };
+  } catch (error) {
+    console.error('[Webhooks] Error listing failed webhooks:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Failed to list failed webhooks' }),
+    };
+  }
+}
+
+/**
+ * Replay a failed webhook event
+ * POST /admin/webhooks/{eventId}/replay
+ *
+ * Re-runs the stored event through the same idempotent processing path as
+ * the webhook endpoint. An event that was meanwhile processed by a Stripe
+ * retry is reported as a duplicate and marked resolved.
+ */
+export async function replayWebhook(eventId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const result = await query<FailedWebhookRow>(
+      'SELECT * FROM failed_webhooks WHERE stripe_event_id = $1',
+      [eventId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return {
+        statusCode: 404,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Failed webhook not found' }),
+      };
+    }
+
+    console.log('[Webhooks] Replaying webhook event', {
+      eventId,
+      eventType: row.event_type,
+      status: row.status,
+    });
+
+    let outcome;
+    try {
+      outcome = await processWebhookEvent(row.payload, { replay: true });
+    } catch (error) {
+      return {
+        statusCode: 500,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: `Replay failed: ${(error as Error).message}`,
+          event_id: eventId,
+        }),
+      };
+    }
+
+    if (outcome === 'duplicate') {
+      await query(
+        `UPDATE failed_webhooks SET status = 'resolved' WHERE stripe_event_id = $1 AND status = 'failed'`,
+        [eventId]
+      );
+    }
+
+    const updated = await query<FailedWebhookRow>(
+      'SELECT * FROM failed_webhooks WHERE stripe_event_id = $1',
+      [eventId]
+    );
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        result: outcome,
+        webhook: toFailedWebhookResponse(updated.rows[0] || row),
+      }),
+    };
+  } catch (error) {
+    console.error('[Webhooks] Error replaying webhook:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Failed to replay webhook' }),
+    };
+  }
+}
@@ -14,6 +14,7 @@
  * - custom:tenant_id - User's tenant for multi-tenancy
  * - custom:plan_id - User's subscription plan for entitlement checks
  * - custom:role - User's role for RBAC (optional)
+ * - custom:features - Comma-separated enabled features (edge routing rules)
  *
  * @see https://docs.aws.amazon.com/cognito/latest/developerguide/user-pool-lambda-pre-token-generation.html
  */
@@ -43,7 +44,7 @@ function getDefaultPlanId(env: PreTokenEnv): string {
 
 /**
  * Fetch user entitlement data from database
- * Joins users and entitlements tables to get tenant_id and plan_id
+ * Joins users, entitlements and plans tables to get tenant_id, plan_id and features
  *
  * @param userId - Cognito user ID (sub)
  * @param env - Environment configuration
@@ -62,12 +63,15 @@ async function fetchUserEntitlement(
         u.tenant_id,
         COALESCE(e.plan_id, $2) as plan_id,
         u.status as user_status,
-        e.status as entitlement_status
+        e.status as entitlement_status,
+        p.metadata->'features' as plan_features,
+        e.feature_flags
       FROM users u
       LEFT JOIN entitlements e
         ON u.user_id = e.user_id
         AND e.status = 'active'
         AND (e.end_date IS NULL OR e.end_date > NOW())
+      LEFT JOIN plans p ON e.plan_id = p.id
       WHERE u.user_id = $1
       ORDER BY e.created_at DESC
       LIMIT 1
@@ -79,6 +83,8 @@ async function fetchUserEntitlement(
       plan_id: string;
       user_status: string;
       entitlement_status?: string;
+      plan_features: Record<string, boolean> | null;
+      feature_flags: Record<string, boolean> | null;
     }>(query, [userId, defaultPlanId]);
 
     const row = result.rows[0];
@@ -101,9 +107,16 @@ async function fetchUserEntitlement(
       );
     }
 
+    // Merge feature flags (entitlement overrides plan)
+    const features = {
+      ...(row.plan_features || {}),
+      ...(row.feature_flags || {}),
+    };
+
     return {
       tenant_id: row.tenant_id,
       plan_id: row.plan_id,
+      features: Object.keys(features).filter(name => features[name]),
     };
   } catch (error) {
     console.error('Failed to fetch user entitlement', {
@@ -167,6 +180,7 @@ export const handler: PreTokenGenerationTriggerHandler = async (event) => {
     const claimsToAdd: Record<string, string> = {
       'custom:tenant_id': entitlement.tenant_id || '',
       'custom:plan_id': entitlement.plan_id || 'free',
+      'custom:features': (entitlement.features || []).join(','),
     };
 
     // Optionally include role claim
@@ -114,6 +114,8 @@ export interface CustomClaims {
   'custom:plan_id': string;
   /** User role (optional) */
   'custom:role'?: string;
+  /** Comma-separated enabled features */
+  'custom:features'?: string;
 }
 
 /**
@@ -139,6 +141,8 @@ export interface UserEntitlementData {
   plan_id: string;
   /** User role */
   role?: string;
+  /** Enabled features (plan features merged with entitlement feature flags) */
+  features?: string[];
 }
 
 /**
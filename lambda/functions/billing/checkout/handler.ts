@@ -1,14 +1,19 @@
 /**
  * Checkout Session Creation Handler
  *
- * Creates Stripe Checkout Sessions for subscription purchases.
+ * Creates Stripe Checkout Sessions for subscription purchases and one-time
+ * credit packs.
  * Redirects customers to Stripe-hosted checkout page.
  *
  * Workflow:
  * 1. Extract user ID from JWT (Cognito authorizer)
- * 2. Validate request parameters (plan_id, product_id, URLs)
- * 3. Create Stripe Checkout Session with metadata
- * 4. Return checkout URL for customer redirect
+ * 2. Validate request parameters (plan_id, product_id, URLs, currency, addons, seats)
+ * 3. Resolve the plan's Stripe Price in the requested currency
+ * 4. Resolve add-on line items against the plan's add-ons
+ * 5. Verify the team for seat-based purchases
+ * 6. Validate the promotion code (same checks as POST /catalog/promotion-codes/validate)
+ * 7. Create Stripe Checkout Session with metadata
+ * 8. Return checkout URL for customer redirect
  *
  * @module billing/checkout/handler
  */
@@ -16,8 +21,22 @@
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { getStripeClient } from '../stripe.js';
 import { initializeDatabase, query } from '../../../shared/db/index.js';
+import type { PoolClient } from '../../../shared/db/index.js';
+import { findInvoiceIssuer, toStripeCustomFields, toStripeFooter } from '../invoice/issuer.js';
+import {
+  checkPromotionCode,
+  findDiscountTargetPlan,
+  PROMOTION_CODE_REJECTION_MESSAGES,
+  PromotionCodeRejectionReason,
+} from '../coupons/validation.js';
+import type { PromotionCodeRow } from '../../catalog/types.js';
+import { findPlanPrice, findPlanPriceInCurrency, normalizeCurrency, type PlanPrice } from '../../catalog/planPrices.js';
+import { checkoutTrialDays } from '../../entitlement/trials/trials.js';
+import type Stripe from 'stripe';
 import type { CheckoutSessionRequest, CheckoutSessionResponse } from '../types.js';
 
+type LineItem = Stripe.Checkout.SessionCreateParams.LineItem;
+
 /**
  * Create Stripe Checkout Session
  *
@@ -28,8 +47,13 @@ import type { CheckoutSessionRequest, CheckoutSessionResponse } from '../types.j
  * {
  *   "plan_id": "price_xxx",
  *   "product_id": "prod_xxx",
+ *   "currency": "USD",
  *   "success_url": "https://example.com/success?session_id={CHECKOUT_SESSION_ID}",
- *   "cancel_url": "https://example.com/cancel"
+ *   "cancel_url": "https://example.com/cancel",
+ *   "addons": [{ "price_id": "price_addon_xxx", "quantity": 2 }],
+ *   "team_id": "team-uuid",
+ *   "seats": 10,
+ *   "promotion_code": "SPRING2026"
  * }
  * ```
  *
@@ -76,8 +100,53 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       };
     }
 
+    const pool = await initializeDatabase();
+
+    // Resolve the Stripe Price to charge (the plan's price in the requested currency)
+    const resolvedPrice = await resolvePlanPrice(pool, request);
+    if ('error' in resolvedPrice) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: resolvedPrice.error }),
+      };
+    }
+    const price = resolvedPrice.price;
+
+    // Resolve add-on line items (must belong to the plan, be active and within max_quantity)
+    const addonItems = await resolveAddonLineItems(pool, request, price);
+    if ('error' in addonItems) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ error: addonItems.error }),
+      };
+    }
+
+    // Seat-based purchase: the caller must own the team, which has no subscription yet
+    if (request.team_id) {
+      const teamError = await verifyTeamCheckout(userId, request.team_id, price?.plan_id ?? null);
+      if (teamError) {
+        return {
+          statusCode: teamError.statusCode,
+          body: JSON.stringify({ error: teamError.error }),
+        };
+      }
+    }
+
+    // Promotion code: must apply to the plan and be within the coupon's per-user / per-product caps
+    let promotionCode: PromotionCodeRow | null = null;
+    if (request.promotion_code) {
+      const resolved = await resolvePromotionCode(userId, request, price?.stripe_price_id ?? request.plan_id);
+      if ('error' in resolved) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ error: resolved.error, reason: resolved.reason }),
+        };
+      }
+      promotionCode = resolved.promotionCode;
+    }
+
     // Create Stripe Checkout Session
-    const session = await createCheckoutSession(userId, request);
+    const session = await createCheckoutSession(userId, request, price, addonItems.lineItems, promotionCode);
 
     // Return checkout URL
     const response: CheckoutSessionResponse = {
@@ -89,6 +158,7 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       userId,
       sessionId: session.id,
       planId: request.plan_id,
+      priceId: price?.stripe_price_id,
     });
 
     return {
@@ -120,10 +190,23 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
   }
 };
 
+/**
+ * Session metadata keys set by the server (read by the webhook handlers)
+ */
+const RESERVED_METADATA_KEYS = [
+  'user_id',
+  'product_id',
+  'plan_id',
+  'stripe_price_id',
+  'team_id',
+  'promotion_code_id',
+  'purchase_type',
+];
+
 /**
  * Validate checkout request parameters
  */
-function validateRequest(request: CheckoutSessionRequest): string | null {
+export function validateRequest(request: CheckoutSessionRequest): string | null {
   if (!request.plan_id || typeof request.plan_id !== 'string') {
     return 'Missing or invalid plan_id';
   }
@@ -132,6 +215,10 @@ function validateRequest(request: CheckoutSessionRequest): string | null {
     return 'Missing or invalid product_id';
   }
 
+  if (request.currency !== undefined && !normalizeCurrency(request.currency)) {
+    return 'Invalid currency: must be an ISO 4217 currency code';
+  }
+
   if (!request.success_url || typeof request.success_url !== 'string') {
     return 'Missing or invalid success_url';
   }
@@ -148,37 +235,254 @@ function validateRequest(request: CheckoutSessionRequest): string | null {
     return 'Invalid URL format in success_url or cancel_url';
   }
 
+  if (request.addons !== undefined) {
+    if (!Array.isArray(request.addons)) {
+      return 'Invalid addons: must be an array';
+    }
+
+    const seen = new Set<string>();
+    for (const [index, addon] of request.addons.entries()) {
+      if (!addon?.price_id || typeof addon.price_id !== 'string') {
+        return `Missing or invalid addons[${index}].price_id`;
+      }
+      if (addon.quantity !== undefined && (!Number.isInteger(addon.quantity) || addon.quantity < 1)) {
+        return `Invalid addons[${index}].quantity: must be a positive integer`;
+      }
+      if (seen.has(addon.price_id)) {
+        return `Duplicate add-on: ${addon.price_id}`;
+      }
+      seen.add(addon.price_id);
+    }
+  }
+
+  if (request.seats !== undefined && (!Number.isInteger(request.seats) || request.seats < 1)) {
+    return 'Invalid seats: must be a positive integer';
+  }
+
+  if (request.seats !== undefined && request.seats > 1 && !request.team_id) {
+    return 'team_id is required when purchasing more than one seat';
+  }
+
+  if (request.team_id !== undefined && typeof request.team_id !== 'string') {
+    return 'Invalid team_id';
+  }
+
+  if (request.promotion_code !== undefined && (typeof request.promotion_code !== 'string' || !request.promotion_code.trim())) {
+    return 'Invalid promotion_code';
+  }
+
+  if (request.metadata !== undefined) {
+    if (typeof request.metadata !== 'object' || request.metadata === null || Array.isArray(request.metadata)) {
+      return 'Invalid metadata: must be an object';
+    }
+    const reservedKey = Object.keys(request.metadata).find((key) => RESERVED_METADATA_KEYS.includes(key));
+    if (reservedKey) {
+      return `Reserved metadata key: ${reservedKey}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the plan price of a checkout request
+ * plan_id may be the plan's price in any currency; with `currency` the
+ * plan's price in that currency is charged instead. Prices not in the
+ * catalog are passed to Stripe as they are (price: null).
+ */
+export async function resolvePlanPrice(
+  client: Pick<PoolClient, 'query'>,
+  request: CheckoutSessionRequest
+): Promise<{ price: PlanPrice | null } | { error: string }> {
+  const price = await findPlanPrice(client, request.plan_id);
+  const currency = normalizeCurrency(request.currency);
+  if (!currency || price?.currency === currency) {
+    return { price };
+  }
+
+  if (!price) {
+    return { error: 'Plan not found' };
+  }
+
+  const converted = await findPlanPriceInCurrency(client, price.plan_id, currency);
+  if (!converted) {
+    return { error: `The plan is not sold in ${currency}` };
+  }
+
+  return { price: converted };
+}
+
+/**
+ * Verify that the user can buy a subscription of the plan for the team
+ */
+async function verifyTeamCheckout(
+  userId: string,
+  teamId: string,
+  planId: string | null
+): Promise<{ statusCode: number; error: string } | null> {
+  await initializeDatabase();
+
+  const team = await query<{ owner_user_id: string; product_id: string }>(
+    `SELECT owner_user_id, product_id FROM teams WHERE id = $1 AND deleted_at IS NULL`,
+    [teamId]
+  );
+  if (team.rows.length === 0 || team.rows[0]!.owner_user_id !== userId) {
+    return { statusCode: 404, error: 'Team not found' };
+  }
+
+  const plan = await query<{ product_id: string; billing_period: string }>(
+    `SELECT product_id, billing_period FROM plans WHERE id = $1`,
+    [planId]
+  );
+  if (
+    plan.rows.length === 0 ||
+    plan.rows[0]!.product_id !== team.rows[0]!.product_id ||
+    plan.rows[0]!.billing_period === 'one_time'
+  ) {
+    return { statusCode: 400, error: 'The plan is not a subscription plan of the team\'s product' };
+  }
+
+  const existing = await query(
+    `
+    SELECT id FROM subscriptions
+    WHERE team_id = $1 AND deleted_at IS NULL AND status IN ('active', 'trialing', 'past_due')
+    `,
+    [teamId]
+  );
+  if (existing.rows.length > 0) {
+    return { statusCode: 409, error: 'The team already has a subscription; change seats instead' };
+  }
+
   return null;
 }
 
+/**
+ * Resolve the promotion code of a checkout request
+ * Caps are counted against the product of the requested plan.
+ */
+async function resolvePromotionCode(
+  userId: string,
+  request: CheckoutSessionRequest,
+  stripePriceId: string
+): Promise<{ promotionCode: PromotionCodeRow } | { error: string; reason: PromotionCodeRejectionReason }> {
+  const pool = await initializeDatabase();
+
+  const plan = await findDiscountTargetPlan(pool, stripePriceId);
+  if (!plan) {
+    return { error: PROMOTION_CODE_REJECTION_MESSAGES.not_applicable_to_plan, reason: 'not_applicable_to_plan' };
+  }
+
+  const validation = await checkPromotionCode(pool, request.promotion_code!, plan, userId);
+  if (!validation.valid || !validation.promotionCode) {
+    const reason = validation.reason ?? 'not_found';
+    return { error: PROMOTION_CODE_REJECTION_MESSAGES[reason], reason };
+  }
+
+  return { promotionCode: validation.promotionCode };
+}
+
+/**
+ * Resolve add-on line items of a checkout request
+ * Every add-on must be an active add-on of the requested plan, in the
+ * currency charged for the plan (a Stripe subscription has one currency).
+ */
+export async function resolveAddonLineItems(
+  client: Pick<PoolClient, 'query'>,
+  request: CheckoutSessionRequest,
+  price: PlanPrice | null
+): Promise<{ lineItems: LineItem[] } | { error: string }> {
+  if (!request.addons || request.addons.length === 0) {
+    return { lineItems: [] };
+  }
+
+  const result = await client.query<{
+    stripe_price_id: string;
+    name: string;
+    max_quantity: number | null;
+    currency: string;
+  }>(
+    `
+    SELECT a.stripe_price_id, a.name, a.max_quantity, a.currency
+    FROM plan_addons a
+    WHERE a.plan_id = $1
+      AND a.stripe_price_id = ANY($2::text[])
+      AND a.is_active = true
+      AND a.deleted_at IS NULL
+    `,
+    [price?.plan_id ?? null, request.addons.map((addon) => addon.price_id)]
+  );
+
+  const lineItems: LineItem[] = [];
+  for (const addon of request.addons) {
+    const row = result.rows.find((r) => r.stripe_price_id === addon.price_id);
+    if (!row) {
+      return { error: `Add-on not available for this plan: ${addon.price_id}` };
+    }
+
+    if (row.currency !== price!.currency) {
+      return { error: `Add-on not available in ${price!.currency}: ${row.name}` };
+    }
+
+    const quantity = addon.quantity ?? 1;
+    if (row.max_quantity !== null && quantity > row.max_quantity) {
+      return { error: `Add-on quantity exceeds maximum of ${row.max_quantity}: ${row.name}` };
+    }
+
+    lineItems.push({ price: addon.price_id, quantity });
+  }
+
+  return { lineItems };
+}
+
 /**
  * Create Stripe Checkout Session
  *
  * Configuration:
- * - Mode: subscription (recurring payment)
+ * - Mode: subscription (recurring payment), or payment for one-time credit packs
  * - Payment method types: card (can be extended to include other methods)
  * - Customer creation: automatic
- * - Metadata: Stores user_id, product_id, and plan_id for webhook processing
+ * - Line items: base plan in the requested currency (quantity = seats), metered
+ *   overage price, then add-ons, all taxed with the plan's consumption tax rate (plans.stripe_tax_rate_id)
+ * - One-time purchases: an invoice with the issuer's registration number
+ * - Discounts: the requested promotion code, otherwise customers may enter one
+ * - Metadata: Stores user_id, product_id, plan_id (and team_id, promotion_code_id) for webhook processing
  */
 async function createCheckoutSession(
   userId: string,
-  request: CheckoutSessionRequest
+  request: CheckoutSessionRequest,
+  price: PlanPrice | null,
+  addonItems: LineItem[],
+  promotionCode: PromotionCodeRow | null
 ): Promise<any> {
   // Initialize database connection
-  await initializeDatabase();
+  const pool = await initializeDatabase();
+
+  // Stripe Price charged for the plan (request.plan_id is a Stripe price ID, e.g. price_xxx)
+  const stripePriceId = price?.stripe_price_id ?? request.plan_id;
 
-  // Look up internal plan_id and trial_period_days from the stripe_price_id
-  // request.plan_id is the Stripe price ID (e.g., price_xxx)
+  // Look up trial_period_days and the other checkout settings of the plan
   let internalPlanId: string | undefined;
   let trialPeriodDays: number | undefined;
+  let meteredPriceId: string | undefined;
+  let taxRateId: string | undefined;
+  let isOneTime = false;
   try {
-    const planResult = await query<{ id: string; trial_period_days: number | null }>(
-      'SELECT id, trial_period_days FROM plans WHERE stripe_price_id = $1',
-      [request.plan_id]
+    const planResult = await query<{
+      id: string;
+      trial_period_days: number | null;
+      metered_price_id: string | null;
+      billing_period: string;
+      stripe_tax_rate_id: string | null;
+    }>(
+      'SELECT id, trial_period_days, metered_price_id, billing_period, stripe_tax_rate_id FROM plans WHERE id = $1',
+      [price?.plan_id ?? null]
     );
     if (planResult.rows.length > 0) {
       internalPlanId = planResult.rows[0]!.id;
       trialPeriodDays = planResult.rows[0]!.trial_period_days || undefined;
+      meteredPriceId = planResult.rows[0]!.metered_price_id || undefined;
+      taxRateId = planResult.rows[0]!.stripe_tax_rate_id || undefined;
+      isOneTime = planResult.rows[0]!.billing_period === 'one_time';
       console.log('[CheckoutHandler] Found internal plan_id:', internalPlanId, 'trial_period_days:', trialPeriodDays);
     } else {
       console.warn('[CheckoutHandler] Plan not found for stripe_price_id:', request.plan_id);
@@ -187,28 +491,88 @@ async function createCheckoutSession(
     console.warn('[CheckoutHandler] Could not look up internal plan_id:', err);
   }
 
+  // One trial per product: no Stripe trial after a no-card trial (POST /me/trials)
+  trialPeriodDays = await checkoutTrialDays(pool, userId, request.product_id, trialPeriodDays);
+
+  // Server-set keys come last so client metadata cannot override them
+  const metadata = {
+    ...(request.metadata || {}),
+    user_id: userId,
+    product_id: request.product_id,
+    plan_id: internalPlanId || '',
+    stripe_price_id: stripePriceId,
+    ...(request.team_id ? { team_id: request.team_id } : {}),
+    ...(promotionCode ? { promotion_code_id: promotionCode.id } : {}),
+  };
+
+  // Stripe rejects discounts together with allow_promotion_codes
+  const discountParams = promotionCode
+    ? { discounts: [{ promotion_code: promotionCode.stripe_promotion_code_id }] }
+    : { allow_promotion_codes: true };
+
+  // Consumption tax of the plan (add-ons and metered usage follow the plan)
+  const taxRates = taxRateId ? { tax_rates: [taxRateId] } : {};
+
   const stripe = await getStripeClient();
+
+  // One-time plans are prepaid credit packs: a payment (not a subscription)
+  // credited to the ledger by the checkout.session.completed webhook
+  if (isOneTime) {
+    // Payments have no invoice by default; create one so the purchase gets a
+    // (qualified) invoice like subscription payments
+    const issuer = await findInvoiceIssuer(pool, request.product_id);
+
+    return stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+      line_items: [{ price: stripePriceId, quantity: 1, ...taxRates }],
+      success_url: request.success_url,
+      cancel_url: request.cancel_url,
+      client_reference_id: userId,
+      metadata: { ...metadata, purchase_type: 'credit_pack' },
+      ...discountParams,
+      billing_address_collection: 'auto',
+      // Payment mode does not create a customer by default
+      customer_creation: 'always',
+      invoice_creation: {
+        enabled: true,
+        invoice_data: {
+          metadata: { user_id: userId, product_id: request.product_id },
+          ...(issuer
+            ? { custom_fields: toStripeCustomFields(issuer), footer: toStripeFooter(issuer) }
+            : {}),
+        },
+      },
+      payment_intent_data: {
+        metadata: {
+          user_id: userId,
+          product_id: request.product_id,
+          plan_id: internalPlanId || '',
+        },
+      },
+    });
+  }
+
   const session = await stripe.checkout.sessions.create({
     mode: 'subscription',
     payment_method_types: ['card'],
     line_items: [
       {
-        price: request.plan_id,
-        quantity: 1,
+        price: stripePriceId,
+        quantity: request.seats ?? 1,
+        ...taxRates,
       },
+      // Metered overage price (quantity is reported via usage records)
+      ...(meteredPriceId ? [{ price: meteredPriceId, ...taxRates }] : []),
+      // Add-on prices (mapped back to plan_addons by the subscription webhook)
+      ...addonItems.map((item) => ({ ...item, ...taxRates })),
     ],
     success_url: request.success_url,
     cancel_url: request.cancel_url,
     client_reference_id: userId,
-    metadata: {
-      user_id: userId,
-      product_id: request.product_id,
-      plan_id: internalPlanId || '',
-      stripe_price_id: request.plan_id,
-      ...(request.metadata || {}),
-    },
-    // Allow promotion codes
-    allow_promotion_codes: true,
+    metadata,
+    // Requested promotion code, or allow customers to enter one
+    ...discountParams,
     // Billing address collection
     billing_address_collection: 'auto',
     // Automatically assign customer email from session
@@ -219,6 +583,7 @@ async function createCheckoutSession(
         user_id: userId,
         product_id: request.product_id,
         plan_id: internalPlanId || '',
+        ...(request.team_id ? { team_id: request.team_id } : {}),
       },
       // Apply trial period if configured in the plan
       ...(trialPeriodDays ? { trial_period_days: trialPeriodDays } : {}),
@@ -0,0 +1,53 @@
+/**
+ * Coupon Redemption Limits
+ *
+ * Stripe only enforces a coupon's overall max_redemptions. The per-user and
+ * per-product caps (coupons.max_redemptions_per_user / _per_product) are
+ * checked against coupon_redemptions when a promotion code is validated or
+ * passed to checkout.
+ *
+ * @module billing/coupons/redemptions
+ */
+
+import type { PoolClient } from '../../../shared/db/index.js';
+import type { CouponRow } from '../../catalog/types.js';
+
+/**
+ * Cap that a redemption would exceed
+ */
+export type RedemptionLimitReason = 'user_limit_reached' | 'product_limit_reached';
+
+/**
+ * Check the per-user and per-product caps of a coupon
+ * The per-user cap is skipped when the user is unknown (public validation).
+ *
+ * @returns The cap that is reached, or null if the coupon can be redeemed
+ */
+export async function checkRedemptionLimits(
+  client: Pick<PoolClient, 'query'>,
+  coupon: Pick<CouponRow, 'id' | 'max_redemptions_per_user' | 'max_redemptions_per_product'>,
+  userId: string | null,
+  productId: string | null
+): Promise<RedemptionLimitReason | null> {
+  if (coupon.max_redemptions_per_product !== null && productId) {
+    const result = await client.query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM coupon_redemptions WHERE coupon_id = $1 AND product_id = $2`,
+      [coupon.id, productId]
+    );
+    if (parseInt(result.rows[0]?.count || '0') >= coupon.max_redemptions_per_product) {
+      return 'product_limit_reached';
+    }
+  }
+
+  if (coupon.max_redemptions_per_user !== null && userId) {
+    const result = await client.query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM coupon_redemptions WHERE coupon_id = $1 AND user_id = $2`,
+      [coupon.id, userId]
+    );
+    if (parseInt(result.rows[0]?.count || '0') >= coupon.max_redemptions_per_user) {
+      return 'user_limit_reached';
+    }
+  }
+
+  return null;
+}
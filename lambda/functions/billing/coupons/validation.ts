@@ -0,0 +1,271 @@
+/**
+ * Promotion Code Validation
+ *
+ * Checks whether a promotion code applies to a plan and computes the
+ * discounted price. Used by the public validation endpoint
+ * (POST /catalog/promotion-codes/validate) for pricing pages and by checkout,
+ * so a code accepted by the pricing page is accepted by checkout.
+ *
+ * Restrictions checked:
+ * - Promotion code and coupon active, not expired, under max_redemptions
+ * - Coupon product restrictions (coupons.applies_to_products)
+ * - amount_off currency and the promotion code's minimum amount
+ * - Per-product cap, and with a known user the per-user cap and first-time-only codes
+ *
+ * @module billing/coupons/validation
+ */
+
+import type { PoolClient } from '../../../shared/db/index.js';
+import type { CouponDuration, CouponRow, PromotionCodeRow } from '../../catalog/types.js';
+import { checkRedemptionLimits, RedemptionLimitReason } from './redemptions.js';
+
+/**
+ * Reason a promotion code does not apply
+ */
+export type PromotionCodeRejectionReason =
+  | 'not_found'
+  | 'inactive'
+  | 'expired'
+  | 'max_redemptions_reached'
+  | 'not_applicable_to_plan'
+  | 'currency_mismatch'
+  | 'minimum_amount_not_met'
+  | 'first_time_transaction_only'
+  | RedemptionLimitReason;
+
+/**
+ * Messages of the rejection reasons (API error messages)
+ */
+export const PROMOTION_CODE_REJECTION_MESSAGES: Record<PromotionCodeRejectionReason, string> = {
+  not_found: 'Promotion code not found',
+  inactive: 'Promotion code is no longer active',
+  expired: 'Promotion code has expired',
+  max_redemptions_reached: 'Promotion code has reached its maximum number of redemptions',
+  not_applicable_to_plan: 'Promotion code does not apply to this plan',
+  currency_mismatch: 'Promotion code is not available in the plan currency',
+  minimum_amount_not_met: 'Plan price is below the minimum amount of the promotion code',
+  first_time_transaction_only: 'Promotion code is only available for a first purchase',
+  user_limit_reached: 'Promotion code has already been redeemed the maximum number of times by this user',
+  product_limit_reached: 'Promotion code has reached its redemption limit for this product',
+};
+
+/**
+ * Plan a promotion code is validated against
+ */
+export interface DiscountTargetPlan {
+  /** plans.id */
+  id: string;
+  product_id: string;
+  stripe_price_id: string;
+  /** Stripe Product ID of the plan's product (coupon applies_to) */
+  stripe_product_id: string | null;
+  price_amount: number;
+  currency: string;
+}
+
+/**
+ * Result of a promotion code validation
+ */
+export interface PromotionCodeValidation {
+  valid: boolean;
+  reason: PromotionCodeRejectionReason | null;
+  /** The promotion code (null if not found) */
+  promotionCode: PromotionCodeRow | null;
+  /** Its coupon (null if not found) */
+  coupon: CouponRow | null;
+  currency: string;
+  /** Plan price */
+  original_amount: number;
+  /** Discount per billing period (0 if invalid) */
+  discount_amount: number;
+  /** Price after the discount */
+  discounted_amount: number;
+  /** How long the discount lasts (null if invalid) */
+  duration: CouponDuration | null;
+  duration_in_months: number | null;
+}
+
+/**
+ * Find an active plan by its Stripe Price ID (the plan_id of checkout requests)
+ * A price in an additional currency validates against that currency's amount.
+ */
+export async function findDiscountTargetPlan(
+  client: Pick<PoolClient, 'query'>,
+  stripePriceId: string
+): Promise<DiscountTargetPlan | null> {
+  const result = await client.query<DiscountTargetPlan>(
+    `
+    SELECT p.id, p.product_id, price.stripe_price_id, pr.stripe_product_id, price.price_amount, price.currency
+    FROM (
+      SELECT id as plan_id, stripe_price_id, price_amount, currency FROM plans
+      UNION ALL
+      SELECT pp.plan_id, pp.stripe_price_id, pp.price_amount, pp.currency
+      FROM plan_prices pp
+      JOIN plans cp ON pp.plan_id = cp.id AND pp.plan_version_id = cp.current_version_id
+    ) price
+    JOIN plans p ON price.plan_id = p.id
+    JOIN products pr ON p.product_id = pr.id
+    WHERE price.stripe_price_id = $1
+      AND p.is_active = true
+      AND p.deleted_at IS NULL
+    `,
+    [stripePriceId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Discount of a coupon on a price
+ * Percentages are rounded like Stripe (to the nearest unit); fixed amounts
+ * never exceed the price.
+ */
+export function computeDiscountAmount(
+  coupon: Pick<CouponRow, 'percent_off' | 'amount_off'>,
+  priceAmount: number
+): number {
+  if (coupon.percent_off !== null) {
+    // DECIMAL columns are returned as strings
+    return Math.round((priceAmount * Number(coupon.percent_off)) / 100);
+  }
+  return Math.min(coupon.amount_off ?? 0, priceAmount);
+}
+
+/**
+ * Whether a timestamp is in the past
+ */
+function isPast(timestamp: Date | null): boolean {
+  return timestamp !== null && timestamp.getTime() <= Date.now();
+}
+
+/**
+ * Check why a promotion code does not apply to a plan
+ */
+async function findRejectionReason(
+  client: Pick<PoolClient, 'query'>,
+  promotionCode: PromotionCodeRow,
+  coupon: CouponRow,
+  plan: DiscountTargetPlan,
+  userId: string | null
+): Promise<PromotionCodeRejectionReason | null> {
+  if (!promotionCode.is_active || !coupon.is_active || coupon.deleted_at !== null) {
+    return 'inactive';
+  }
+
+  if (isPast(promotionCode.expires_at) || isPast(coupon.redeem_by)) {
+    return 'expired';
+  }
+
+  if (
+    (promotionCode.max_redemptions !== null && promotionCode.times_redeemed >= promotionCode.max_redemptions) ||
+    (coupon.max_redemptions !== null && coupon.times_redeemed >= coupon.max_redemptions)
+  ) {
+    return 'max_redemptions_reached';
+  }
+
+  if (
+    coupon.applies_to_products &&
+    coupon.applies_to_products.length > 0 &&
+    (!plan.stripe_product_id || !coupon.applies_to_products.includes(plan.stripe_product_id))
+  ) {
+    return 'not_applicable_to_plan';
+  }
+
+  if (coupon.amount_off !== null && coupon.currency?.toLowerCase() !== plan.currency.toLowerCase()) {
+    return 'currency_mismatch';
+  }
+
+  if (
+    promotionCode.minimum_amount !== null &&
+    (promotionCode.minimum_amount_currency?.toLowerCase() !== plan.currency.toLowerCase() ||
+      plan.price_amount < promotionCode.minimum_amount)
+  ) {
+    return 'minimum_amount_not_met';
+  }
+
+  // A user who already has a Stripe customer has made a purchase before
+  if (promotionCode.first_time_transaction && userId) {
+    const customer = await client.query(`SELECT 1 FROM customers WHERE user_id = $1`, [userId]);
+    if (customer.rows.length > 0) {
+      return 'first_time_transaction_only';
+    }
+  }
+
+  return checkRedemptionLimits(client, coupon, userId, plan.product_id);
+}
+
+/**
+ * Validate a promotion code for a plan
+ *
+ * @param client - Database client or pool
+ * @param code - Code entered by the customer (case-insensitive)
+ * @param plan - Plan to be purchased
+ * @param userId - Purchasing user, or null when unknown (public validation)
+ */
+export async function checkPromotionCode(
+  client: Pick<PoolClient, 'query'>,
+  code: string,
+  plan: DiscountTargetPlan,
+  userId: string | null
+): Promise<PromotionCodeValidation> {
+  const rejected = (
+    reason: PromotionCodeRejectionReason,
+    promotionCode: PromotionCodeRow | null = null,
+    coupon: CouponRow | null = null
+  ): PromotionCodeValidation => ({
+    valid: false,
+    reason,
+    promotionCode,
+    coupon,
+    currency: plan.currency,
+    original_amount: plan.price_amount,
+    discount_amount: 0,
+    discounted_amount: plan.price_amount,
+    duration: null,
+    duration_in_months: null,
+  });
+
+  // Prefer an active code when a code was re-created after deactivation
+  const promotionCodeResult = await client.query<PromotionCodeRow>(
+    `
+    SELECT * FROM promotion_codes
+    WHERE LOWER(code) = LOWER($1) AND deleted_at IS NULL
+    ORDER BY is_active DESC, created_at DESC
+    LIMIT 1
+    `,
+    [code.trim()]
+  );
+  const promotionCode = promotionCodeResult.rows[0];
+  if (!promotionCode) {
+    return rejected('not_found');
+  }
+
+  const couponResult = await client.query<CouponRow>(
+    `SELECT * FROM coupons WHERE id = $1`,
+    [promotionCode.coupon_id]
+  );
+  const coupon = couponResult.rows[0];
+  if (!coupon) {
+    return rejected('not_found', promotionCode);
+  }
+
+  const reason = await findRejectionReason(client, promotionCode, coupon, plan, userId);
+  if (reason) {
+    return rejected(reason, promotionCode, coupon);
+  }
+
+  const discountAmount = computeDiscountAmount(coupon, plan.price_amount);
+
+  return {
+    valid: true,
+    reason: null,
+    promotionCode,
+    coupon,
+    currency: plan.currency,
+    original_amount: plan.price_amount,
+    discount_amount: discountAmount,
+    discounted_amount: plan.price_amount - discountAmount,
+    duration: coupon.duration,
+    duration_in_months: coupon.duration_in_months,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Dunning email
+ *
+ * Renders the "update your card" / "complete your payment" email
+ * (sent via shared/utils/email).
+ *
+ * @module billing/dunning/email
+ */
+
+import type { RenderedEmail } from '../../../shared/utils/email.js';
+
+/**
+ * Payment failure details used in the template
+ */
+export interface DunningEmailContext {
+  event_type: 'invoice.payment_failed' | 'invoice.payment_action_required';
+  product_name: string | null;
+  amount_due: number;
+  currency: string | null;
+  /** Next automatic retry (null when Stripe has given up) */
+  next_payment_attempt: Date | null;
+  /** Stripe hosted invoice page (pay / update payment method) */
+  hosted_invoice_url: string | null;
+}
+
+/**
+ * Render the dunning email template
+ */
+export function renderDunningEmail(context: DunningEmailContext): RenderedEmail {
+  const service = context.product_name || 'ご利用中のサービス';
+  const amount = formatAmount(context.amount_due, context.currency);
+
+  let subject: string;
+  const lines: string[] = [];
+
+  if (context.event_type === 'invoice.payment_action_required') {
+    subject = `【${service}】お支払いの確認が必要です`;
+    lines.push(
+      `${service}のお支払い (${amount}) を完了するには、カード会社による本人認証が必要です。`,
+      '以下のページからお支払いを完了してください。',
+    );
+  } else if (context.next_payment_attempt) {
+    subject = `【${service}】お支払いに失敗しました`;
+    lines.push(
+      `${service}のお支払い (${amount}) に失敗しました。`,
+      'カードの有効期限や利用限度額をご確認のうえ、お支払い方法を更新してください。',
+      `次回の再請求予定日時: ${context.next_payment_attempt.toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}`,
+    );
+  } else {
+    subject = `【${service}】お支払いが確認できないためご利用を停止しました`;
+    lines.push(
+      `${service}のお支払い (${amount}) が確認できなかったため、ご利用を一時停止しました。`,
+      'お支払い方法を更新してお支払いいただくと、ご利用を再開できます。',
+    );
+  }
+
+  if (context.hosted_invoice_url) {
+    lines.push('', context.hosted_invoice_url);
+  }
+
+  lines.push('', '※このメールは送信専用アドレスから送信しています。');
+
+  return { subject, text: lines.join('\n') };
+}
+
+/**
+ * Format an amount in the currency's smallest unit
+ */
+function formatAmount(amount: number, currency: string | null): string {
+  const code = (currency || 'jpy').toUpperCase();
+  // JPY is a zero-decimal currency in Stripe
+  const value = code === 'JPY' ? amount : amount / 100;
+  return new Intl.NumberFormat('ja-JP', { style: 'currency', currency: code }).format(value);
+}
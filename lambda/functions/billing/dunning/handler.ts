@@ -0,0 +1,132 @@
+/**
+ * Dunning Notification Handler
+ *
+ * Scheduled job (EventBridge) that emails customers whose subscription
+ * payment failed or needs authentication, and suspends entitlements whose
+ * grace period has lapsed.
+ *
+ * Workflow:
+ * 1. Suspend entitlements in grace past grace_until
+ * 2. Select payment_failures rows with a pending notification
+ * 3. Render the "update your card" / "complete your payment" email
+ * 4. Send it through SES
+ * 5. Record the notification status
+ *
+ * Failed sends are retried on the next run and marked failed after
+ * MAX_NOTIFICATION_ATTEMPTS.
+ *
+ * @module billing/dunning/handler
+ */
+
+import { ScheduledHandler } from 'aws-lambda';
+import { initializeDatabase, query } from '../../../shared/db/index.js';
+import { isEmailConfigured, sendEmail } from '../../../shared/utils/email.js';
+import { renderDunningEmail } from './email.js';
+import { suspendLapsedGrace } from '../webhook/dunning.js';
+
+/**
+ * Maximum notifications sent per invocation
+ */
+const NOTIFY_BATCH_SIZE = 100;
+
+/**
+ * Send attempts before a notification is marked failed
+ */
+const MAX_NOTIFICATION_ATTEMPTS = 5;
+
+/**
+ * Pending payment failure joined with product and customer email
+ */
+interface PendingNotificationRow {
+  id: string;
+  event_type: 'invoice.payment_failed' | 'invoice.payment_action_required';
+  amount_due: number;
+  currency: string | null;
+  next_payment_attempt: Date | null;
+  hosted_invoice_url: string | null;
+  notification_attempts: number;
+  product_name: string | null;
+  email: string | null;
+}
+
+/**
+ * Dunning Notification Handler
+ */
+export const handler: ScheduledHandler = async () => {
+  console.log('[DunningNotify] Starting dunning notifications');
+
+  const pool = await initializeDatabase();
+
+  const lapsed = await suspendLapsedGrace(pool);
+
+  const pending = await query<PendingNotificationRow>(
+    `
+    SELECT
+      f.id,
+      f.event_type,
+      f.amount_due,
+      f.currency,
+      f.next_payment_attempt,
+      f.hosted_invoice_url,
+      f.notification_attempts,
+      pr.name as product_name,
+      COALESCE(f.email, c.email) as email
+    FROM payment_failures f
+    LEFT JOIN subscriptions s ON f.subscription_id = s.id
+    LEFT JOIN plans p ON s.plan_id = p.id
+    LEFT JOIN products pr ON p.product_id = pr.id
+    LEFT JOIN customers c ON f.user_id = c.user_id
+    WHERE f.notification_status = 'pending'
+      AND (f.notification_attempts = 0 OR f.updated_at <= NOW() - INTERVAL '1 minute' * POWER(2, f.notification_attempts))
+    ORDER BY f.created_at ASC
+    LIMIT $1
+    `,
+    [NOTIFY_BATCH_SIZE]
+  );
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const row of pending.rows) {
+    let status: 'pending' | 'sent' | 'failed' | 'skipped';
+    let lastError: string | null = null;
+
+    if (!row.email || !isEmailConfigured()) {
+      status = 'skipped';
+    } else {
+      try {
+        await sendEmail(row.email, renderDunningEmail(row));
+        status = 'sent';
+        sent++;
+      } catch (error) {
+        lastError = (error as Error).message;
+        status = row.notification_attempts + 1 >= MAX_NOTIFICATION_ATTEMPTS ? 'failed' : 'pending';
+        failed++;
+        console.error('[DunningNotify] Notification failed', {
+          paymentFailureId: row.id,
+          attempts: row.notification_attempts + 1,
+          error: lastError,
+        });
+      }
+    }
+
+    await query(
+      `
+      UPDATE payment_failures
+      SET
+        notification_status = $1,
+        notification_attempts = notification_attempts + 1,
+        last_error = $2
+      WHERE id = $3
+      `,
+      [status, lastError, row.id]
+    );
+  }
+
+  console.log('[DunningNotify] Dunning notifications completed', {
+    lapsed,
+    pending: pending.rows.length,
+    sent,
+    failed,
+  });
+};
@@ -0,0 +1,116 @@
+/**
+ * Invoice Issuer Settings
+ *
+ * Resolves the issuer printed on qualified invoices (適格請求書) and the
+ * fields passed to Stripe so its invoices carry the registration number:
+ * - Product issuer (invoice_issuers.product_id) overrides the platform default
+ * - Stripe invoices get the issuer as custom fields and footer
+ *
+ * @module billing/invoice/issuer
+ */
+
+import type Stripe from 'stripe';
+import type { PoolClient } from '../../../shared/db/index.js';
+import type { InvoiceIssuer } from '../types.js';
+
+/**
+ * Registration number format: "T" + 13 digits
+ */
+export const REGISTRATION_NUMBER_PATTERN = /^T\d{13}$/;
+
+/**
+ * Database row from invoice_issuers table
+ */
+export interface InvoiceIssuerRow {
+  id: string;
+  /** NULL for the platform-wide default issuer */
+  product_id: string | null;
+  name: string;
+  registration_number: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Find the issuer of a product's invoices
+ * Falls back to the platform default when the product has no issuer.
+ */
+export async function findInvoiceIssuer(
+  client: Pick<PoolClient, 'query'>,
+  productId: string | null
+): Promise<InvoiceIssuerRow | null> {
+  const result = await client.query<InvoiceIssuerRow>(
+    `
+    SELECT * FROM invoice_issuers
+    WHERE product_id = $1 OR product_id IS NULL
+    ORDER BY product_id IS NULL
+    LIMIT 1
+    `,
+    [productId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Issuer details of a document
+ */
+export function toInvoiceIssuer(row: InvoiceIssuerRow): InvoiceIssuer {
+  return {
+    name: row.name,
+    registration_number: row.registration_number,
+    address: row.address,
+    phone: row.phone,
+    email: row.email,
+  };
+}
+
+/**
+ * Stripe invoice custom fields for the issuer (values are limited to 140 characters)
+ */
+export function toStripeCustomFields(issuer: InvoiceIssuerRow): Array<{ name: string; value: string }> {
+  return [
+    { name: '登録番号', value: issuer.registration_number },
+    { name: '発行事業者', value: issuer.name.slice(0, 140) },
+  ];
+}
+
+/**
+ * Stripe invoice footer with the issuer's contact details
+ */
+export function toStripeFooter(issuer: InvoiceIssuerRow): string {
+  return [
+    `${issuer.name} (登録番号: ${issuer.registration_number})`,
+    issuer.address,
+    [issuer.phone, issuer.email].filter(Boolean).join(' / ') || null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Apply the issuer to a draft Stripe invoice
+ * Finalized invoices are immutable and are left unchanged.
+ *
+ * @returns Whether the invoice was updated
+ */
+export async function applyIssuerToInvoice(
+  stripe: Stripe,
+  invoice: Stripe.Invoice,
+  issuer: InvoiceIssuerRow
+): Promise<boolean> {
+  if (invoice.status !== 'draft') {
+    return false;
+  }
+
+  await stripe.invoices.update(invoice.id, {
+    custom_fields: toStripeCustomFields(issuer),
+    footer: toStripeFooter(issuer),
+  });
+
+  return true;
+}
@@ -0,0 +1,291 @@
+/**
+ * Qualified Invoice PDF Rendering
+ *
+ * Renders a qualified invoice document as a minimal PDF (A4 portrait).
+ * Text uses the standard Japanese CID font HeiseiKakuGo-W5 with the
+ * UniJIS-UCS2-H encoding, which PDF viewers provide without embedding,
+ * so no font files or PDF libraries are needed.
+ *
+ * @module billing/invoice/pdf
+ */
+
+import type { QualifiedInvoiceDocument } from '../types.js';
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const ROW_HEIGHT = 20;
+
+/** Table column anchors (descriptions are left-aligned, numbers right-aligned) */
+const COLUMNS = {
+  description: MARGIN + 6,
+  descriptionWidth: 280,
+  quantity: 390,
+  taxRate: 460,
+  amount: PAGE_WIDTH - MARGIN - 6,
+};
+
+/**
+ * Content stream builder for one page
+ * Positions are given from the top of the page.
+ */
+class PageBuilder {
+  private readonly ops: string[] = [];
+
+  text(text: string, x: number, top: number, size: number): void {
+    this.ops.push(`BT /F1 ${size} Tf ${x.toFixed(2)} ${(PAGE_HEIGHT - top).toFixed(2)} Td <${encodeText(text)}> Tj ET`);
+  }
+
+  textRight(text: string, right: number, top: number, size: number): void {
+    this.text(text, right - textWidth(text, size), top, size);
+  }
+
+  textCenter(text: string, top: number, size: number): void {
+    this.text(text, (PAGE_WIDTH - textWidth(text, size)) / 2, top, size);
+  }
+
+  line(x1: number, top1: number, x2: number, top2: number, width = 0.5): void {
+    this.ops.push(`${width} w ${x1} ${PAGE_HEIGHT - top1} m ${x2} ${PAGE_HEIGHT - top2} l S`);
+  }
+
+  fillRect(x: number, top: number, width: number, height: number, gray: number): void {
+    this.ops.push(`${gray} g ${x} ${PAGE_HEIGHT - top - height} ${width} ${height} re f 0 g`);
+  }
+
+  toStream(): string {
+    return this.ops.join('\n');
+  }
+}
+
+/**
+ * Encode text as a UCS-2 (big endian) hex string
+ * Characters outside the BMP are replaced with "?".
+ */
+function encodeText(text: string): string {
+  let hex = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    hex += (code > 0xffff || code < 0x20 ? 0x3f : code).toString(16).padStart(4, '0');
+  }
+  return hex;
+}
+
+/**
+ * Approximate text width: half-width for ASCII and half-width katakana
+ */
+function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    width += code < 0x80 || (code >= 0xff61 && code <= 0xff9f) ? 0.5 : 1;
+  }
+  return width * size;
+}
+
+/**
+ * Truncate text to a maximum width
+ */
+function fitText(text: string, maxWidth: number, size: number): string {
+  if (textWidth(text, size) <= maxWidth) {
+    return text;
+  }
+
+  let fitted = '';
+  for (const char of text) {
+    if (textWidth(`${fitted}${char}…`, size) > maxWidth) {
+      break;
+    }
+    fitted += char;
+  }
+  return `${fitted}…`;
+}
+
+/**
+ * Format an amount in the currency's smallest unit
+ */
+export function formatAmount(amount: number, currency: string): string {
+  const formatter = new Intl.NumberFormat('ja-JP', { style: 'currency', currency: currency.toUpperCase() });
+  const digits = formatter.resolvedOptions().maximumFractionDigits ?? 0;
+  return formatter.format(amount / 10 ** digits);
+}
+
+/**
+ * Format a date as YYYY年M月D日 (JST)
+ */
+export function formatDate(iso: string): string {
+  return new Intl.DateTimeFormat('ja-JP', {
+    timeZone: 'Asia/Tokyo',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  }).format(new Date(iso));
+}
+
+function taxLabel(rate: number, inclusive: boolean): string {
+  return `${rate}% ${inclusive ? '税込' : '税抜'}`;
+}
+
+/**
+ * Draw the header of the line item table
+ */
+function drawTableHeader(page: PageBuilder, top: number): number {
+  page.fillRect(MARGIN, top, PAGE_WIDTH - MARGIN * 2, ROW_HEIGHT, 0.92);
+  page.text('内容', COLUMNS.description, top + 14, 9);
+  page.textRight('数量', COLUMNS.quantity, top + 14, 9);
+  page.textRight('税率', COLUMNS.taxRate, top + 14, 9);
+  page.textRight('金額', COLUMNS.amount, top + 14, 9);
+  return top + ROW_HEIGHT;
+}
+
+/**
+ * Render a qualified invoice document as PDF
+ */
+export function renderQualifiedInvoicePdf(document: QualifiedInvoiceDocument): Buffer {
+  const pages: PageBuilder[] = [];
+  const newPage = (): PageBuilder => {
+    const page = new PageBuilder();
+    pages.push(page);
+    return page;
+  };
+  const { currency } = document;
+
+  // Title and document details
+  let page = newPage();
+  page.textCenter('適格請求書', 70, 20);
+
+  const detailsX = 340;
+  page.text(`請求書番号: ${document.document_number}`, detailsX, 110, 9);
+  page.text(`発行日: ${formatDate(document.issued_at)}`, detailsX, 124, 9);
+  page.text(`取引日: ${formatDate(document.transaction_date)}`, detailsX, 138, 9);
+
+  // Recipient
+  const recipient = fitText(`${document.recipient.name} 御中`, 260, 13);
+  page.text(recipient, MARGIN, 125, 13);
+  page.line(MARGIN, 131, MARGIN + 260, 131);
+
+  // Issuer
+  let issuerTop = 166;
+  page.text(fitText(document.issuer.name, PAGE_WIDTH - MARGIN - detailsX, 11), detailsX, issuerTop, 11);
+  for (const detail of [
+    `登録番号: ${document.issuer.registration_number}`,
+    document.issuer.address,
+    document.issuer.phone ? `TEL: ${document.issuer.phone}` : null,
+    document.issuer.email,
+  ]) {
+    if (detail) {
+      issuerTop += 14;
+      page.text(fitText(detail, PAGE_WIDTH - MARGIN - detailsX, 9), detailsX, issuerTop, 9);
+    }
+  }
+
+  // Total amount
+  page.text('ご請求金額 (税込)', MARGIN, 180, 10);
+  page.text(formatAmount(document.total, currency), MARGIN, 206, 18);
+  page.line(MARGIN, 214, MARGIN + 260, 214);
+
+  // Line items
+  let top = drawTableHeader(page, Math.max(issuerTop + 30, 250));
+  for (const line of document.lines) {
+    if (top + ROW_HEIGHT > PAGE_HEIGHT - MARGIN) {
+      page = newPage();
+      top = drawTableHeader(page, MARGIN);
+    }
+
+    const description = `${line.reduced_rate ? '※ ' : ''}${line.description}`;
+    page.text(fitText(description, COLUMNS.descriptionWidth, 9), COLUMNS.description, top + 14, 9);
+    if (line.quantity !== null) {
+      page.textRight(String(line.quantity), COLUMNS.quantity, top + 14, 9);
+    }
+    page.textRight(taxLabel(line.tax_rate, line.tax_inclusive), COLUMNS.taxRate, top + 14, 9);
+    page.textRight(formatAmount(line.amount, currency), COLUMNS.amount, top + 14, 9);
+    page.line(MARGIN, top + ROW_HEIGHT, PAGE_WIDTH - MARGIN, top + ROW_HEIGHT, 0.25);
+    top += ROW_HEIGHT;
+  }
+
+  // Totals per tax rate
+  const hasReducedRate = document.lines.some((line) => line.reduced_rate);
+  const summaryHeight = ROW_HEIGHT * (document.tax_breakdown.length + 3) + 40;
+  if (top + summaryHeight > PAGE_HEIGHT - MARGIN) {
+    page = newPage();
+    top = MARGIN;
+  }
+
+  top += 24;
+  const labelX = 300;
+  for (const breakdown of document.tax_breakdown) {
+    page.text(`${breakdown.tax_rate}%対象`, labelX, top, 9);
+    page.textRight(
+      `${formatAmount(breakdown.total, currency)} (税込)  うち消費税 ${formatAmount(breakdown.tax_amount, currency)}`,
+      COLUMNS.amount,
+      top,
+      9
+    );
+    top += ROW_HEIGHT;
+  }
+
+  page.line(labelX, top - 12, PAGE_WIDTH - MARGIN, top - 12);
+  for (const [label, amount, size] of [
+    ['小計 (税抜)', document.subtotal, 10],
+    ['消費税', document.tax_total, 10],
+    ['合計 (税込)', document.total, 12],
+  ] as const) {
+    top += 4;
+    page.text(label, labelX, top, size);
+    page.textRight(formatAmount(amount, currency), COLUMNS.amount, top, size);
+    top += ROW_HEIGHT;
+  }
+
+  if (hasReducedRate) {
+    page.text('※ は軽減税率対象', MARGIN, top + 10, 9);
+  }
+
+  return buildPdf(pages.map((p) => p.toStream()));
+}
+
+/**
+ * Assemble the PDF file (objects, cross-reference table and trailer)
+ */
+function buildPdf(contentStreams: string[]): Buffer {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+
+  // 1: catalog, 2: pages, 3-5: font, then page + content pairs
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[3] =
+    '<< /Type /Font /Subtype /Type0 /BaseFont /HeiseiKakuGo-W5 /Encoding /UniJIS-UCS2-H /DescendantFonts [4 0 R] >>';
+  objects[4] =
+    '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /HeiseiKakuGo-W5' +
+    ' /CIDSystemInfo << /Registry (Adobe) /Ordering (Japan1) /Supplement 2 >>' +
+    ' /FontDescriptor 5 0 R /DW 1000 /W [1 95 500 231 632 500] >>';
+  objects[5] =
+    '<< /Type /FontDescriptor /FontName /HeiseiKakuGo-W5 /Flags 4 /FontBBox [-92 -250 1010 922]' +
+    ' /ItalicAngle 0 /Ascent 752 /Descent -221 /CapHeight 737 /StemV 114 >>';
+
+  let nextId = 6;
+  for (const stream of contentStreams) {
+    const pageId = nextId++;
+    const contentId = nextId++;
+    pageIds.push(pageId);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]` +
+      ` /Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  }
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
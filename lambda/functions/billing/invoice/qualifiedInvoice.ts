@@ -0,0 +1,288 @@
+/**
+ * Qualified Invoice (適格請求書) Documents
+ *
+ * Builds the qualified invoice of a paid Stripe invoice:
+ * - Issuer name and registration number (invoice_issuers)
+ * - Transaction date, line items with their tax rate (reduced rate marked)
+ * - Amount and consumption tax per tax rate, rounded down once per rate
+ * - Recipient name
+ *
+ * Documents are generated on first request and stored in qualified_invoices;
+ * later requests return the stored document unchanged.
+ *
+ * @module billing/invoice/qualifiedInvoice
+ */
+
+import type Stripe from 'stripe';
+import type { PoolClient } from '../../../shared/db/index.js';
+import { findInvoiceIssuer, toInvoiceIssuer } from './issuer.js';
+import { REDUCED_TAX_RATE, STANDARD_TAX_RATE } from './taxRates.js';
+import type {
+  QualifiedInvoiceDocument,
+  QualifiedInvoiceLine,
+  QualifiedInvoiceTaxBreakdown,
+} from '../types.js';
+
+/**
+ * Error with the HTTP status to respond with
+ */
+export class QualifiedInvoiceError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'QualifiedInvoiceError';
+  }
+}
+
+/**
+ * Tax configuration of a plan (plans.tax_rate / tax_inclusive)
+ */
+interface PlanTaxSetting {
+  tax_rate: number;
+  tax_inclusive: boolean;
+}
+
+/**
+ * Tax settings of the plans behind Stripe prices
+ * Metered and add-on prices use the tax settings of their plan.
+ */
+async function findPlanTaxSettings(
+  client: Pick<PoolClient, 'query'>,
+  priceIds: string[]
+): Promise<Map<string, PlanTaxSetting>> {
+  if (priceIds.length === 0) {
+    return new Map();
+  }
+
+  // NUMERIC columns are returned as strings
+  const result = await client.query<{ price_id: string; tax_rate: string; tax_inclusive: boolean }>(
+    `
+    SELECT stripe_price_id AS price_id, tax_rate, tax_inclusive FROM plans
+    WHERE stripe_price_id = ANY($1::text[])
+    UNION ALL
+    SELECT pv.stripe_price_id, p.tax_rate, p.tax_inclusive
+    FROM plan_versions pv
+    JOIN plans p ON pv.plan_id = p.id
+    WHERE pv.stripe_price_id = ANY($1::text[]) AND pv.stripe_price_id <> p.stripe_price_id
+    UNION ALL
+    SELECT pp.stripe_price_id, p.tax_rate, p.tax_inclusive
+    FROM plan_prices pp
+    JOIN plans p ON pp.plan_id = p.id
+    WHERE pp.stripe_price_id = ANY($1::text[])
+    UNION ALL
+    SELECT metered_price_id, tax_rate, tax_inclusive FROM plans
+    WHERE metered_price_id = ANY($1::text[])
+    UNION ALL
+    SELECT a.stripe_price_id, p.tax_rate, p.tax_inclusive
+    FROM plan_addons a
+    JOIN plans p ON a.plan_id = p.id
+    WHERE a.stripe_price_id = ANY($1::text[])
+    `,
+    [priceIds]
+  );
+
+  return new Map(
+    result.rows.map((row) => [row.price_id, { tax_rate: Number(row.tax_rate), tax_inclusive: row.tax_inclusive }])
+  );
+}
+
+/**
+ * Tax rate of an invoice line
+ *
+ * Lines taxed in Stripe use their Tax Rate. Lines without one were charged
+ * their price as is, so the plan's rate is treated as included in the amount.
+ */
+function resolveLineTax(
+  line: Stripe.InvoiceLineItem,
+  invoice: Stripe.Invoice,
+  planTaxes: Map<string, PlanTaxSetting>
+): PlanTaxSetting {
+  const stripeRate = line.tax_rates?.[0] ?? invoice.default_tax_rates?.[0];
+  if (stripeRate) {
+    return { tax_rate: stripeRate.percentage, tax_inclusive: stripeRate.inclusive };
+  }
+
+  const plan = line.price ? planTaxes.get(line.price.id) : undefined;
+  return { tax_rate: plan?.tax_rate ?? STANDARD_TAX_RATE, tax_inclusive: true };
+}
+
+/**
+ * Compute the amounts per tax rate
+ * The consumption tax is rounded down once per rate (one rounding per invoice).
+ */
+export function computeTaxBreakdown(lines: QualifiedInvoiceLine[]): QualifiedInvoiceTaxBreakdown[] {
+  const groups = new Map<string, QualifiedInvoiceTaxBreakdown>();
+
+  for (const line of lines) {
+    const key = `${line.tax_rate}:${line.tax_inclusive}`;
+    const group = groups.get(key) ?? {
+      tax_rate: line.tax_rate,
+      tax_inclusive: line.tax_inclusive,
+      taxable_amount: 0,
+      tax_amount: 0,
+      total: 0,
+    };
+    // Accumulate the line amounts in `total`; split into tax below
+    group.total += line.amount;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      if (group.tax_inclusive) {
+        const taxAmount = Math.floor((group.total * group.tax_rate) / (100 + group.tax_rate));
+        return { ...group, taxable_amount: group.total - taxAmount, tax_amount: taxAmount };
+      }
+      const taxAmount = Math.floor((group.total * group.tax_rate) / 100);
+      return { ...group, taxable_amount: group.total, tax_amount: taxAmount, total: group.total + taxAmount };
+    })
+    .sort((a, b) => b.tax_rate - a.tax_rate);
+}
+
+/**
+ * Build the qualified invoice document of a paid invoice
+ */
+export async function buildQualifiedInvoice(
+  client: Pick<PoolClient, 'query'>,
+  invoice: Stripe.Invoice,
+  lines: Stripe.InvoiceLineItem[],
+  issuer: QualifiedInvoiceDocument['issuer'],
+  issuedAt: Date
+): Promise<QualifiedInvoiceDocument> {
+  const priceIds = lines.flatMap((line) => (line.price ? [line.price.id] : []));
+  const planTaxes = await findPlanTaxSettings(client, priceIds);
+
+  const documentLines: QualifiedInvoiceLine[] = lines.map((line) => {
+    const tax = resolveLineTax(line, invoice, planTaxes);
+    const discount = (line.discount_amounts ?? []).reduce((sum, d) => sum + d.amount, 0);
+    return {
+      description: line.description ?? '',
+      quantity: line.quantity,
+      amount: line.amount - discount,
+      tax_rate: tax.tax_rate,
+      tax_inclusive: tax.tax_inclusive,
+      reduced_rate: tax.tax_rate === REDUCED_TAX_RATE,
+    };
+  });
+
+  const taxBreakdown = computeTaxBreakdown(documentLines);
+  const paidAt = invoice.status_transitions?.paid_at ?? invoice.created;
+
+  return {
+    document_number: invoice.number ?? invoice.id,
+    stripe_invoice_id: invoice.id,
+    issued_at: issuedAt.toISOString(),
+    transaction_date: new Date(paidAt * 1000).toISOString(),
+    currency: invoice.currency,
+    issuer,
+    recipient: {
+      name: invoice.customer_name || invoice.customer_email || '',
+      email: invoice.customer_email,
+    },
+    lines: documentLines,
+    tax_breakdown: taxBreakdown,
+    subtotal: taxBreakdown.reduce((sum, b) => sum + b.taxable_amount, 0),
+    tax_total: taxBreakdown.reduce((sum, b) => sum + b.tax_amount, 0),
+    total: taxBreakdown.reduce((sum, b) => sum + b.total, 0),
+  };
+}
+
+/**
+ * Product of an invoice
+ * Subscription invoices carry it in the subscription metadata, one-time
+ * purchases in the invoice metadata (set by checkout).
+ */
+async function resolveInvoiceProductId(
+  client: Pick<PoolClient, 'query'>,
+  invoice: Stripe.Invoice
+): Promise<string | null> {
+  const fromMetadata =
+    invoice.subscription_details?.metadata?.['product_id'] ?? invoice.metadata?.['product_id'];
+  if (fromMetadata) {
+    return fromMetadata;
+  }
+
+  const subscriptionId = typeof invoice.subscription === 'string'
+    ? invoice.subscription
+    : invoice.subscription?.id;
+  if (!subscriptionId) {
+    return null;
+  }
+
+  const result = await client.query<{ product_id: string }>(
+    `
+    SELECT p.product_id
+    FROM subscriptions s
+    JOIN plans p ON s.plan_id = p.id
+    WHERE s.stripe_subscription_id = $1
+    `,
+    [subscriptionId]
+  );
+
+  return result.rows[0]?.product_id ?? null;
+}
+
+/**
+ * Issue (or return the already issued) qualified invoice of a paid invoice
+ *
+ * @throws {QualifiedInvoiceError} 409 if the invoice is not paid or no issuer is configured
+ */
+export async function issueQualifiedInvoice(
+  client: PoolClient,
+  stripe: Stripe,
+  userId: string,
+  invoice: Stripe.Invoice
+): Promise<QualifiedInvoiceDocument> {
+  const existing = await client.query<{ document: QualifiedInvoiceDocument }>(
+    `SELECT document FROM qualified_invoices WHERE stripe_invoice_id = $1`,
+    [invoice.id]
+  );
+  if (existing.rows[0]) {
+    return existing.rows[0].document;
+  }
+
+  if (invoice.status !== 'paid') {
+    throw new QualifiedInvoiceError(409, 'Qualified invoices can only be issued for paid invoices');
+  }
+
+  const productId = await resolveInvoiceProductId(client, invoice);
+  const issuer = await findInvoiceIssuer(client, productId);
+  if (!issuer) {
+    throw new QualifiedInvoiceError(409, 'Invoice issuer is not configured');
+  }
+
+  const lines = await stripe.invoices
+    .listLineItems(invoice.id, { limit: 100 })
+    .autoPagingToArray({ limit: 10000 });
+
+  const document = await buildQualifiedInvoice(client, invoice, lines, toInvoiceIssuer(issuer), new Date());
+
+  // A concurrent request may have issued the document first; keep that one
+  const inserted = await client.query<{ document: QualifiedInvoiceDocument }>(
+    `
+    INSERT INTO qualified_invoices (
+      stripe_invoice_id, user_id, product_id, issuer_id, document_number, document, issued_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (stripe_invoice_id) DO NOTHING
+    RETURNING document
+    `,
+    [invoice.id, userId, productId, issuer.id, document.document_number, JSON.stringify(document), document.issued_at]
+  );
+  if (inserted.rows[0]) {
+    console.log('[QualifiedInvoice] Qualified invoice issued', {
+      invoiceId: invoice.id,
+      documentNumber: document.document_number,
+      issuerId: issuer.id,
+    });
+    return inserted.rows[0].document;
+  }
+
+  const stored = await client.query<{ document: QualifiedInvoiceDocument }>(
+    `SELECT document FROM qualified_invoices WHERE stripe_invoice_id = $1`,
+    [invoice.id]
+  );
+  return stored.rows[0]!.document;
+}
@@ -0,0 +1,70 @@
+/**
+ * Consumption Tax Rates
+ *
+ * Maps the plan tax configuration (plans.tax_rate / tax_inclusive) to Stripe
+ * Tax Rates. Stripe Tax Rates cannot change their percentage, so one Tax Rate
+ * per (percentage, inclusive) pair is reused by every plan.
+ *
+ * @module billing/invoice/taxRates
+ */
+
+import type Stripe from 'stripe';
+
+/**
+ * Standard consumption tax rate (標準税率)
+ */
+export const STANDARD_TAX_RATE = 10;
+
+/**
+ * Reduced consumption tax rate (軽減税率)
+ */
+export const REDUCED_TAX_RATE = 8;
+
+/**
+ * Validate a tax rate percentage
+ */
+export function isValidTaxRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value < 100;
+}
+
+/**
+ * Find or create the Stripe Tax Rate for a consumption tax rate
+ *
+ * @param percentage - Tax rate in percent (e.g. 10)
+ * @param inclusive - Whether prices include the tax
+ * @returns Stripe Tax Rate ID
+ */
+export async function ensureStripeTaxRate(
+  stripe: Stripe,
+  percentage: number,
+  inclusive: boolean
+): Promise<string> {
+  const existing = await stripe.taxRates.list({ active: true, inclusive, limit: 100 });
+  const match = existing.data.find(
+    (rate) =>
+      rate.percentage === percentage &&
+      rate.country === 'JP' &&
+      rate.metadata?.['purpose'] === 'consumption_tax'
+  );
+  if (match) {
+    return match.id;
+  }
+
+  const created = await stripe.taxRates.create({
+    display_name: '消費税',
+    description: `消費税 ${percentage}%${percentage === REDUCED_TAX_RATE ? ' (軽減税率)' : ''}`,
+    percentage,
+    inclusive,
+    country: 'JP',
+    tax_type: 'jct',
+    metadata: { purpose: 'consumption_tax' },
+  });
+
+  console.log('[TaxRates] Stripe tax rate created', {
+    taxRateId: created.id,
+    percentage,
+    inclusive,
+  });
+
+  return created.id;
+}
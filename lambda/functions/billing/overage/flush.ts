@@ -0,0 +1,194 @@
+/**
+ * Overage Flush
+ *
+ * Reports accumulated metered overage (usage_overage) to Stripe as
+ * subscription-item usage records.
+ *
+ * Workflow:
+ * 1. Select usage_overage rows with unreported overage
+ * 2. Resolve the subscription item for the plan's metered price
+ * 3. Report the period's total overage to Stripe
+ * 4. Mark the reported quantity in the database
+ *
+ * Idempotency:
+ * Each period is reported with action 'set' at the period start timestamp,
+ * so Stripe always holds the period's cumulative overage no matter how many
+ * times the flush runs. Requests also carry an idempotency key derived from
+ * the row and quantity, so retries of the same flush are deduplicated.
+ *
+ * The database and Stripe client are passed in (OverageStripeClient) so the
+ * flush can be run against stubs.
+ *
+ * @module billing/overage/flush
+ */
+
+import type { Pool } from 'pg';
+import type Stripe from 'stripe';
+
+/**
+ * Stripe accepts usage for a closed period until the invoice is finalized
+ * (about one hour after the period ends)
+ */
+const REPORTING_GRACE_PERIOD = '1 hour';
+
+/**
+ * Maximum rows reported per invocation
+ */
+const FLUSH_BATCH_SIZE = 500;
+
+/**
+ * Subset of the Stripe client used by the flush
+ * The real Stripe client satisfies it; tests pass a stub.
+ */
+export interface OverageStripeClient {
+  subscriptionItems: {
+    list(params: Stripe.SubscriptionItemListParams): Promise<Stripe.ApiList<Stripe.SubscriptionItem>>;
+    createUsageRecord(
+      id: string,
+      params: Stripe.SubscriptionItemCreateUsageRecordParams,
+      options?: Stripe.RequestOptions
+    ): Promise<Stripe.UsageRecord>;
+  };
+}
+
+/**
+ * Unreported overage row joined with its subscription
+ */
+interface PendingOverageRow {
+  id: string;
+  metered_price_id: string;
+  stripe_subscription_item_id: string | null;
+  stripe_subscription_id: string;
+  period_start: Date;
+  overage_quantity: number;
+  reported_quantity: number;
+}
+
+/**
+ * Flush result counts
+ */
+export interface OverageFlushResult {
+  pending: number;
+  reported: number;
+  failed: number;
+}
+
+/**
+ * Report every unreported overage row
+ * Rows are reported independently; a failure is recorded in last_error
+ * and retried on the next run.
+ *
+ * @param db - PostgreSQL pool (or stub)
+ * @param stripe - Stripe client (or stub)
+ */
+export async function flushOverage(
+  db: Pick<Pool, 'query'>,
+  stripe: OverageStripeClient
+): Promise<OverageFlushResult> {
+  const pending = await db.query<PendingOverageRow>(
+    `
+    SELECT
+      o.id,
+      o.metered_price_id,
+      o.stripe_subscription_item_id,
+      s.stripe_subscription_id,
+      o.period_start,
+      o.overage_quantity,
+      o.reported_quantity
+    FROM usage_overage o
+    JOIN subscriptions s ON o.subscription_id = s.id
+    WHERE o.overage_quantity > o.reported_quantity
+      AND o.period_end > NOW() - INTERVAL '${REPORTING_GRACE_PERIOD}'
+      AND s.stripe_subscription_id IS NOT NULL
+    ORDER BY o.period_end ASC
+    LIMIT $1
+    `,
+    [FLUSH_BATCH_SIZE]
+  );
+
+  let reported = 0;
+  let failed = 0;
+
+  for (const row of pending.rows) {
+    try {
+      await reportOverage(db, stripe, row);
+      reported++;
+    } catch (error) {
+      failed++;
+      console.error('[OverageFlush] Failed to report overage', {
+        overageId: row.id,
+        subscriptionId: row.stripe_subscription_id,
+        error: (error as Error).message,
+      });
+      await db.query(
+        `UPDATE usage_overage SET last_error = $1 WHERE id = $2`,
+        [(error as Error).message, row.id]
+      );
+    }
+  }
+
+  return { pending: pending.rows.length, reported, failed };
+}
+
+/**
+ * Report a period's cumulative overage to Stripe
+ */
+async function reportOverage(
+  db: Pick<Pool, 'query'>,
+  stripe: OverageStripeClient,
+  row: PendingOverageRow
+): Promise<void> {
+  const itemId = row.stripe_subscription_item_id
+    || await findMeteredItem(stripe, row.stripe_subscription_id, row.metered_price_id);
+
+  await stripe.subscriptionItems.createUsageRecord(
+    itemId,
+    {
+      quantity: row.overage_quantity,
+      timestamp: Math.floor(row.period_start.getTime() / 1000),
+      action: 'set',
+    },
+    {
+      idempotencyKey: `overage-${row.id}-${row.overage_quantity}`,
+    }
+  );
+
+  // Only move reported_quantity forward (concurrent flushes may race)
+  await db.query(
+    `
+    UPDATE usage_overage
+    SET
+      reported_quantity = GREATEST(reported_quantity, $1),
+      stripe_subscription_item_id = $2,
+      last_reported_at = NOW(),
+      last_error = NULL
+    WHERE id = $3
+    `,
+    [row.overage_quantity, itemId, row.id]
+  );
+
+  console.log('[OverageFlush] Overage reported', {
+    overageId: row.id,
+    subscriptionItemId: itemId,
+    quantity: row.overage_quantity,
+    previouslyReported: row.reported_quantity,
+  });
+}
+
+/**
+ * Find the subscription item billed with the metered price
+ */
+async function findMeteredItem(
+  stripe: OverageStripeClient,
+  subscriptionId: string,
+  meteredPriceId: string
+): Promise<string> {
+  const items = await stripe.subscriptionItems.list({ subscription: subscriptionId });
+  const item = items.data.find((i) => i.price.id === meteredPriceId);
+
+  if (!item) {
+    throw new Error(`Metered price ${meteredPriceId} not found on subscription ${subscriptionId}`);
+  }
+
+  return item.id;
+}
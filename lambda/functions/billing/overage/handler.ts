@@ -0,0 +1,26 @@
+/**
+ * Overage Flush Handler
+ *
+ * Scheduled job (EventBridge) that reports accumulated metered overage to
+ * Stripe as subscription-item usage records (see flush.ts).
+ *
+ * @module billing/overage/handler
+ */
+
+import { ScheduledHandler } from 'aws-lambda';
+import { initializeDatabase } from '../../../shared/db/index.js';
+import { getStripeClient } from '../stripe.js';
+import { flushOverage } from './flush.js';
+
+/**
+ * Overage Flush Handler
+ */
+export const handler: ScheduledHandler = async () => {
+  console.log('[OverageFlush] Starting overage flush');
+
+  const [pool, stripe] = await Promise.all([initializeDatabase(), getStripeClient()]);
+
+  const result = await flushOverage(pool, stripe);
+
+  console.log('[OverageFlush] Overage flush completed', result);
+};
@@ -0,0 +1,55 @@
+/**
+ * Stripe Reconciliation Handler
+ *
+ * Scheduled job (EventBridge) that compares Stripe customers and
+ * subscriptions with the customers / subscriptions / entitlements tables
+ * and logs a report of the differences.
+ *
+ * The schedule runs in report mode. Invoke with { "fix": true } to apply
+ * corrections through the webhook event handlers.
+ *
+ * @module billing/reconcile/handler
+ */
+
+import { Handler } from 'aws-lambda';
+import { initializeDatabase } from '../../../shared/db/index.js';
+import { getStripeClient } from '../stripe.js';
+import type { ReconciliationReport } from '../types.js';
+import { reconcile } from './reconcile.js';
+
+/**
+ * Invocation payload
+ */
+interface ReconcileEvent {
+  /** Apply corrections (default: report only) */
+  fix?: boolean;
+}
+
+/**
+ * Stripe Reconciliation Handler
+ */
+export const handler: Handler<ReconcileEvent, ReconciliationReport> = async (event) => {
+  const fix = event?.fix === true;
+
+  console.log('[Reconcile] Starting Stripe reconciliation', { mode: fix ? 'fix' : 'report' });
+
+  const [pool, stripe] = await Promise.all([initializeDatabase(), getStripeClient()]);
+
+  const report = await reconcile(pool, stripe, { fix });
+
+  console.log('[Reconcile] Stripe reconciliation completed', {
+    mode: report.mode,
+    stripeCustomers: report.stripe_customers,
+    stripeSubscriptions: report.stripe_subscriptions,
+    discrepancies: report.discrepancies.length,
+    summary: report.summary,
+    fixed: report.fixed,
+    fixFailed: report.fix_failed,
+  });
+
+  for (const discrepancy of report.discrepancies) {
+    console.log('[Reconcile] Discrepancy', discrepancy);
+  }
+
+  return report;
+};
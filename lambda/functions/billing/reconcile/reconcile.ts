@@ -0,0 +1,560 @@
+/**
+ * Stripe ↔ Database Reconciliation
+ *
+ * Detects drift between Stripe and the customers / subscriptions /
+ * entitlements tables, e.g. when a webhook was skipped because
+ * isAllowedProduct could not resolve the product from event metadata.
+ *
+ * Workflow:
+ * 1. Page through all Stripe customers and subscriptions
+ * 2. Load the database state
+ * 3. Diff both sides (pure, see diffStripeAndDatabase)
+ * 4. Fix mode: apply corrections through the webhook event handlers,
+ *    one transaction per customer / subscription
+ *
+ * Subscriptions belong to us when one of their item prices is a plan's
+ * stripe_price_id, so metadata is not required.
+ *
+ * The Stripe client is passed in (ReconcileStripeClient) so the job can be
+ * run against a stub.
+ *
+ * @module billing/reconcile/reconcile
+ */
+
+import { Pool, PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import type {
+  ReconciliationDiscrepancy,
+  ReconciliationReport,
+  SubscriptionStatus,
+} from '../types.js';
+import { upsertCustomer } from '../webhook/events/checkoutCompleted.js';
+import { handleSubscriptionUpdated } from '../webhook/events/subscriptionUpdated.js';
+import { handleSubscriptionDeleted } from '../webhook/events/subscriptionDeleted.js';
+import { handleSubscriptionPaused } from '../webhook/events/subscriptionPaused.js';
+
+/**
+ * Stripe list page size (Stripe maximum)
+ */
+const STRIPE_PAGE_SIZE = 100;
+
+/**
+ * Subset of the Stripe client used by the job
+ * The real Stripe client satisfies it; tests pass a stub.
+ */
+export interface ReconcileStripeClient {
+  customers: {
+    list(params?: Stripe.CustomerListParams): Promise<Stripe.ApiList<Stripe.Customer>>;
+  };
+  subscriptions: {
+    list(params?: Stripe.SubscriptionListParams): Promise<Stripe.ApiList<Stripe.Subscription>>;
+  };
+}
+
+/**
+ * Stripe side of the comparison
+ */
+export interface StripeState {
+  customers: Stripe.Customer[];
+  subscriptions: Stripe.Subscription[];
+}
+
+/**
+ * Database side of the comparison
+ */
+export interface DatabaseState {
+  customers: Array<{ user_id: string; stripe_customer_id: string; email: string | null }>;
+  subscriptions: Array<{
+    id: string;
+    user_id: string;
+    stripe_subscription_id: string;
+    stripe_customer_id: string;
+    status: SubscriptionStatus;
+    current_period_end: Date | null;
+    cancel_at_period_end: boolean;
+    /** Stripe Price of the subscription's plan version */
+    stripe_price_id: string | null;
+  }>;
+  /** Entitlement statuses (active, grace, suspended) by internal subscription ID */
+  entitlements: Map<string, string[]>;
+  /** Stripe Price of every plan version */
+  planPriceIds: Set<string>;
+}
+
+/**
+ * Stripe statuses whose subscription should exist in the database
+ * (incomplete checkouts are created by checkout.session.completed)
+ */
+const LIVE_STRIPE_STATUSES: Stripe.Subscription.Status[] = [
+  'active',
+  'trialing',
+  'past_due',
+  'unpaid',
+  'paused',
+];
+
+/**
+ * Stripe statuses after which the subscription has ended
+ */
+const ENDED_STATUSES: string[] = ['canceled', 'incomplete_expired'];
+
+/**
+ * Fetch every item of a Stripe list endpoint
+ */
+export async function listAll<T extends { id: string }>(
+  list: (params: { limit: number; starting_after?: string }) => Promise<Stripe.ApiList<T>>
+): Promise<T[]> {
+  const items: T[] = [];
+  let startingAfter: string | undefined;
+
+  for (;;) {
+    const page = await list({
+      limit: STRIPE_PAGE_SIZE,
+      ...(startingAfter ? { starting_after: startingAfter } : {}),
+    });
+    items.push(...page.data);
+
+    const last = page.data[page.data.length - 1];
+    if (!page.has_more || !last) {
+      return items;
+    }
+    startingAfter = last.id;
+  }
+}
+
+/**
+ * Fetch all Stripe customers and subscriptions (including canceled ones)
+ */
+export async function fetchStripeState(stripe: ReconcileStripeClient): Promise<StripeState> {
+  const [customers, subscriptions] = await Promise.all([
+    listAll((params) => stripe.customers.list(params)),
+    listAll((params) => stripe.subscriptions.list({ ...params, status: 'all' })),
+  ]);
+
+  return { customers, subscriptions };
+}
+
+/**
+ * Load customers, subscriptions and entitlements
+ */
+export async function loadDatabaseState(client: PoolClient): Promise<DatabaseState> {
+  const customers = await client.query(
+    `SELECT user_id, stripe_customer_id, email FROM customers`
+  );
+
+  const subscriptions = await client.query(
+    `
+    SELECT
+      s.id,
+      s.user_id,
+      s.stripe_subscription_id,
+      s.stripe_customer_id,
+      s.status,
+      s.current_period_end,
+      s.cancel_at_period_end,
+      COALESCE(pp.stripe_price_id, pv.stripe_price_id, p.stripe_price_id) as stripe_price_id
+    FROM subscriptions s
+    LEFT JOIN plans p ON s.plan_id = p.id
+    LEFT JOIN plan_versions pv ON s.plan_version_id = pv.id
+    LEFT JOIN plan_prices pp ON pp.plan_version_id = s.plan_version_id AND pp.currency = s.currency
+    WHERE s.deleted_at IS NULL AND s.stripe_subscription_id IS NOT NULL
+    `
+  );
+
+  const entitlementRows = await client.query(
+    `
+    SELECT subscription_id, status
+    FROM entitlements
+    WHERE subscription_id IS NOT NULL AND status IN ('active', 'grace', 'suspended')
+    `
+  );
+
+  const entitlements = new Map<string, string[]>();
+  for (const row of entitlementRows.rows) {
+    const statuses = entitlements.get(row.subscription_id) || [];
+    statuses.push(row.status);
+    entitlements.set(row.subscription_id, statuses);
+  }
+
+  // Every version's price in every currency (grandfathered subscriptions keep older prices)
+  const plans = await client.query(
+    `
+    SELECT stripe_price_id FROM plans WHERE stripe_price_id IS NOT NULL
+    UNION
+    SELECT stripe_price_id FROM plan_versions
+    UNION
+    SELECT stripe_price_id FROM plan_prices
+    `
+  );
+
+  return {
+    customers: customers.rows,
+    subscriptions: subscriptions.rows,
+    entitlements,
+    planPriceIds: new Set(plans.rows.map((row) => row.stripe_price_id)),
+  };
+}
+
+/**
+ * Stripe customer ID of a subscription (string or expanded object)
+ */
+function customerIdOf(subscription: Stripe.Subscription): string {
+  return typeof subscription.customer === 'string'
+    ? subscription.customer
+    : subscription.customer.id;
+}
+
+/**
+ * Price IDs of a subscription's items
+ */
+function priceIdsOf(subscription: Stripe.Subscription): string[] {
+  return (subscription.items?.data || []).map((item) => item.price.id);
+}
+
+/**
+ * Whether the entitlement statuses of a subscription match its Stripe status
+ *
+ * - active / trialing: an active entitlement
+ * - past_due: in grace, or suspended after the final payment attempt
+ * - unpaid / paused: no usable (active or grace) entitlement
+ * - canceled / incomplete_expired: no active, grace or suspended entitlement
+ */
+export function isEntitlementInSync(stripeStatus: string, entitlementStatuses: string[]): boolean {
+  const usable = entitlementStatuses.some((status) => status === 'active' || status === 'grace');
+
+  switch (stripeStatus) {
+    case 'active':
+    case 'trialing':
+      return entitlementStatuses.includes('active');
+    case 'past_due':
+      return !entitlementStatuses.includes('active')
+        && (entitlementStatuses.includes('grace') || entitlementStatuses.includes('suspended'));
+    case 'unpaid':
+    case 'paused':
+      return !usable;
+    case 'canceled':
+    case 'incomplete_expired':
+      return entitlementStatuses.length === 0;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Diff Stripe and the database
+ *
+ * Pure function: no I/O, so it can be tested with plain objects.
+ */
+export function diffStripeAndDatabase(
+  stripe: StripeState,
+  db: DatabaseState
+): ReconciliationDiscrepancy[] {
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+
+  // Our subscriptions: at least one item price belongs to a plan
+  const ourSubscriptions = stripe.subscriptions.filter((subscription) =>
+    priceIdsOf(subscription).some((priceId) => db.planPriceIds.has(priceId))
+  );
+
+  const stripeCustomers = new Map(stripe.customers.map((customer) => [customer.id, customer]));
+  const stripeSubscriptionIds = new Set(stripe.subscriptions.map((subscription) => subscription.id));
+  const dbCustomers = new Map(db.customers.map((customer) => [customer.stripe_customer_id, customer]));
+  const dbSubscriptions = new Map(db.subscriptions.map((row) => [row.stripe_subscription_id, row]));
+
+  // --- Customers ---
+
+  for (const customer of db.customers) {
+    const stripeCustomer = stripeCustomers.get(customer.stripe_customer_id);
+
+    if (!stripeCustomer) {
+      discrepancies.push({
+        issue: 'customer_not_in_stripe',
+        stripe_customer_id: customer.stripe_customer_id,
+        stripe_subscription_id: null,
+        user_id: customer.user_id,
+        fixable: false,
+      });
+      continue;
+    }
+
+    if (stripeCustomer.email && stripeCustomer.email !== customer.email) {
+      discrepancies.push({
+        issue: 'customer_email_mismatch',
+        stripe_customer_id: customer.stripe_customer_id,
+        stripe_subscription_id: null,
+        user_id: customer.user_id,
+        fields: { email: { database: customer.email, stripe: stripeCustomer.email } },
+        fixable: true,
+      });
+    }
+  }
+
+  const missingCustomers = new Set<string>();
+  for (const subscription of ourSubscriptions) {
+    const customerId = customerIdOf(subscription);
+    if (
+      !LIVE_STRIPE_STATUSES.includes(subscription.status)
+      || dbCustomers.has(customerId)
+      || missingCustomers.has(customerId)
+    ) {
+      continue;
+    }
+
+    missingCustomers.add(customerId);
+    const userId = subscription.metadata?.['user_id']
+      || stripeCustomers.get(customerId)?.metadata?.['user_id']
+      || null;
+
+    discrepancies.push({
+      issue: 'customer_missing',
+      stripe_customer_id: customerId,
+      stripe_subscription_id: subscription.id,
+      user_id: userId,
+      // user_id comes from checkout metadata; without it the customer cannot be mapped
+      fixable: userId !== null,
+    });
+  }
+
+  // --- Subscriptions and entitlements ---
+
+  for (const subscription of ourSubscriptions) {
+    const customerId = customerIdOf(subscription);
+    const row = dbSubscriptions.get(subscription.id);
+    const customerResolvable = dbCustomers.has(customerId) || Boolean(subscription.metadata?.['user_id']);
+
+    if (!row) {
+      if (LIVE_STRIPE_STATUSES.includes(subscription.status)) {
+        discrepancies.push({
+          issue: 'subscription_missing',
+          stripe_customer_id: customerId,
+          stripe_subscription_id: subscription.id,
+          user_id: dbCustomers.get(customerId)?.user_id || subscription.metadata?.['user_id'] || null,
+          fields: { status: { database: null, stripe: subscription.status } },
+          fixable: customerResolvable,
+        });
+      }
+      continue;
+    }
+
+    const fields: Record<string, { database: unknown; stripe: unknown }> = {};
+
+    if (row.status !== subscription.status) {
+      fields['status'] = { database: row.status, stripe: subscription.status };
+    }
+
+    if (!ENDED_STATUSES.includes(subscription.status)) {
+      const priceIds = priceIdsOf(subscription);
+      if (row.stripe_price_id && !priceIds.includes(row.stripe_price_id)) {
+        fields['price'] = { database: row.stripe_price_id, stripe: priceIds };
+      }
+
+      const dbPeriodEnd = row.current_period_end
+        ? Math.floor(new Date(row.current_period_end).getTime() / 1000)
+        : null;
+      if (dbPeriodEnd !== subscription.current_period_end) {
+        fields['current_period_end'] = {
+          database: row.current_period_end ? new Date(row.current_period_end).toISOString() : null,
+          stripe: new Date(subscription.current_period_end * 1000).toISOString(),
+        };
+      }
+
+      if (row.cancel_at_period_end !== subscription.cancel_at_period_end) {
+        fields['cancel_at_period_end'] = {
+          database: row.cancel_at_period_end,
+          stripe: subscription.cancel_at_period_end,
+        };
+      }
+    }
+
+    if (Object.keys(fields).length > 0) {
+      discrepancies.push({
+        issue: 'subscription_mismatch',
+        stripe_customer_id: customerId,
+        stripe_subscription_id: subscription.id,
+        user_id: row.user_id,
+        fields,
+        fixable: true,
+      });
+    }
+
+    const entitlementStatuses = db.entitlements.get(row.id) || [];
+    if (!isEntitlementInSync(subscription.status, entitlementStatuses)) {
+      discrepancies.push({
+        issue: 'entitlement_mismatch',
+        stripe_customer_id: customerId,
+        stripe_subscription_id: subscription.id,
+        user_id: row.user_id,
+        fields: { entitlement_status: { database: entitlementStatuses, stripe: subscription.status } },
+        fixable: true,
+      });
+    }
+  }
+
+  for (const row of db.subscriptions) {
+    if (!ENDED_STATUSES.includes(row.status) && !stripeSubscriptionIds.has(row.stripe_subscription_id)) {
+      discrepancies.push({
+        issue: 'subscription_not_in_stripe',
+        stripe_customer_id: row.stripe_customer_id,
+        stripe_subscription_id: row.stripe_subscription_id,
+        user_id: row.user_id,
+        fields: { status: { database: row.status, stripe: null } },
+        fixable: false,
+      });
+    }
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Apply the webhook handler(s) for a subscription's current Stripe state
+ */
+async function applySubscriptionFix(
+  client: PoolClient,
+  subscription: Stripe.Subscription
+): Promise<void> {
+  if (ENDED_STATUSES.includes(subscription.status)) {
+    await handleSubscriptionDeleted(client, subscription);
+    return;
+  }
+
+  // Creates the subscription if missing and syncs status / plan / entitlements
+  await handleSubscriptionUpdated(client, subscription);
+
+  if (subscription.status === 'paused') {
+    await handleSubscriptionPaused(client, subscription);
+  }
+}
+
+/**
+ * Run a fix in its own transaction and record the outcome
+ */
+async function runFix(
+  pool: Pool,
+  targets: ReconciliationDiscrepancy[],
+  fix: (client: PoolClient) => Promise<void>
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await fix(client);
+    await client.query('COMMIT');
+
+    for (const discrepancy of targets) {
+      discrepancy.fix_status = 'fixed';
+    }
+  } catch (error) {
+    await client.query('ROLLBACK');
+
+    console.error('[Reconcile] Fix failed', {
+      stripeCustomerId: targets[0]?.stripe_customer_id,
+      stripeSubscriptionId: targets[0]?.stripe_subscription_id,
+      error: (error as Error).message,
+    });
+
+    for (const discrepancy of targets) {
+      discrepancy.fix_status = 'failed';
+      discrepancy.fix_error = (error as Error).message;
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Apply corrections for fixable discrepancies
+ * Customers are fixed first because the subscription handlers look them up.
+ */
+async function applyFixes(
+  pool: Pool,
+  stripe: StripeState,
+  discrepancies: ReconciliationDiscrepancy[]
+): Promise<void> {
+  const stripeCustomers = new Map(stripe.customers.map((customer) => [customer.id, customer]));
+  const stripeSubscriptions = new Map(stripe.subscriptions.map((subscription) => [subscription.id, subscription]));
+  const fixable = discrepancies.filter((discrepancy) => discrepancy.fixable);
+
+  // Customers
+  for (const discrepancy of fixable) {
+    if (discrepancy.issue !== 'customer_missing' && discrepancy.issue !== 'customer_email_mismatch') {
+      continue;
+    }
+
+    const customerId = discrepancy.stripe_customer_id as string;
+    const userId = discrepancy.user_id as string;
+    await runFix(pool, [discrepancy], (client) =>
+      upsertCustomer(client, userId, customerId, stripeCustomers.get(customerId)?.email || null)
+    );
+  }
+
+  // Subscriptions: one handler run covers all issues of the subscription
+  const bySubscription = new Map<string, ReconciliationDiscrepancy[]>();
+  for (const discrepancy of fixable) {
+    if (
+      discrepancy.issue !== 'subscription_missing'
+      && discrepancy.issue !== 'subscription_mismatch'
+      && discrepancy.issue !== 'entitlement_mismatch'
+    ) {
+      continue;
+    }
+
+    const subscriptionId = discrepancy.stripe_subscription_id as string;
+    const targets = bySubscription.get(subscriptionId) || [];
+    targets.push(discrepancy);
+    bySubscription.set(subscriptionId, targets);
+  }
+
+  for (const [subscriptionId, targets] of bySubscription) {
+    const subscription = stripeSubscriptions.get(subscriptionId) as Stripe.Subscription;
+    await runFix(pool, targets, (client) => applySubscriptionFix(client, subscription));
+  }
+}
+
+/**
+ * Reconcile Stripe with the database
+ *
+ * @param pool - PostgreSQL pool
+ * @param stripe - Stripe client (or stub)
+ * @param options.fix - apply corrections (default: report only)
+ * @returns Reconciliation report
+ */
+export async function reconcile(
+  pool: Pool,
+  stripe: ReconcileStripeClient,
+  options: { fix?: boolean } = {}
+): Promise<ReconciliationReport> {
+  const startedAt = new Date();
+
+  const stripeState = await fetchStripeState(stripe);
+
+  const client = await pool.connect();
+  let dbState: DatabaseState;
+  try {
+    dbState = await loadDatabaseState(client);
+  } finally {
+    client.release();
+  }
+
+  const discrepancies = diffStripeAndDatabase(stripeState, dbState);
+
+  if (options.fix) {
+    await applyFixes(pool, stripeState, discrepancies);
+  }
+
+  const summary: ReconciliationReport['summary'] = {};
+  for (const discrepancy of discrepancies) {
+    summary[discrepancy.issue] = (summary[discrepancy.issue] || 0) + 1;
+  }
+
+  return {
+    mode: options.fix ? 'fix' : 'report',
+    started_at: startedAt.toISOString(),
+    finished_at: new Date().toISOString(),
+    stripe_customers: stripeState.customers.length,
+    stripe_subscriptions: stripeState.subscriptions.length,
+    discrepancies,
+    summary,
+    fixed: discrepancies.filter((discrepancy) => discrepancy.fix_status === 'fixed').length,
+    fix_failed: discrepancies.filter((discrepancy) => discrepancy.fix_status === 'failed').length,
+  };
+}
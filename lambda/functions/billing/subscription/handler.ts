@@ -6,8 +6,12 @@
  * - GET  /subscriptions/:id       - Get subscription details
  * - POST /subscriptions/cancel    - Cancel subscription (at period end)
  * - POST /subscriptions/resume    - Resume canceled subscription
- * - POST /subscriptions/update    - Update/change subscription plan
+ * - POST /subscriptions/update    - Update/change subscription plan (immediately or at period end)
+ * - POST /subscriptions/:id/preview-change - Preview the invoice of a plan change
  * - GET  /subscriptions/portal    - Get Stripe Customer Portal URL
+ * - GET  /me/invoices             - List the user's invoices and receipts
+ * - GET  /me/invoices/:id         - Get invoice details with line items
+ * - GET  /me/invoices/:id/qualified-invoice - Qualified invoice (適格請求書) as JSON or PDF
  *
  * @module billing/subscription/handler
  */
@@ -15,7 +19,26 @@
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { initializeDatabase, query } from '../../../shared/db/index.js';
 import { getStripeClient } from '../stripe.js';
-import type { SubscriptionResponse, SubscriptionStatus } from '../types.js';
+import { findPlanPriceInCurrency } from '../../catalog/planPrices.js';
+import { getInvoice, getQualifiedInvoice, listInvoices } from './invoices.js';
+import {
+  cancelScheduledChange,
+  findBaseItem,
+  getPendingScheduledChange,
+  previewPlanChangeInvoice,
+  recordScheduledChange,
+  schedulePlanChange,
+  toPreviewLine,
+} from './planChange.js';
+import type {
+  PlanChangePreviewRequest,
+  PlanChangePreviewResponse,
+  PlanChangeTiming,
+  SubscriptionResponse,
+  SubscriptionStatus,
+} from '../types.js';
+
+const PLAN_CHANGE_TIMINGS: PlanChangeTiming[] = ['immediate', 'period_end'];
 
 /**
  * CORS headers
@@ -49,6 +72,31 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
   console.log('[SubscriptionHandler] Request:', { method, path, action });
 
   try {
+    // GET /me/invoices, GET /me/invoices/{id}, GET /me/invoices/{id}/qualified-invoice
+    if (pathParts[0] === 'me' && action === 'invoices') {
+      const userId = getUserId(event);
+      if (!userId) {
+        return {
+          statusCode: 401,
+          headers: corsHeaders,
+          body: JSON.stringify({ error: 'Unauthorized' }),
+        };
+      }
+      if (method !== 'GET') {
+        return {
+          statusCode: 405,
+          headers: corsHeaders,
+          body: JSON.stringify({ error: 'Method Not Allowed' }),
+        };
+      }
+      if (pathParts[2] && pathParts[3] === 'qualified-invoice') {
+        return await getQualifiedInvoice(event, userId, decodeURIComponent(pathParts[2]));
+      }
+      return pathParts[2]
+        ? await getInvoice(userId, decodeURIComponent(pathParts[2]))
+        : await listInvoices(event, userId);
+    }
+
     // Route based on method and action
     if (method === 'GET') {
       if (action === 'portal') {
@@ -63,6 +111,11 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     }
 
     if (method === 'POST') {
+      // POST /subscriptions/{id}/preview-change
+      if (pathParts[2] === 'preview-change') {
+        return await previewPlanChange(event, action);
+      }
+
       switch (action) {
         case 'cancel':
           return await cancelSubscription(event);
@@ -248,9 +301,9 @@ async function cancelSubscription(event: Parameters<APIGatewayProxyHandler>[0]):
     };
   }
 
-  const result = await query<{ stripe_subscription_id: string }>(
+  const result = await query<{ id: string; stripe_subscription_id: string }>(
     `
-    SELECT stripe_subscription_id
+    SELECT id, stripe_subscription_id
     FROM subscriptions
     WHERE user_id = $1
       AND status IN ('active', 'trialing')
@@ -272,7 +325,9 @@ async function cancelSubscription(event: Parameters<APIGatewayProxyHandler>[0]):
   const subscriptionId = result.rows[0]!.stripe_subscription_id;
 
   // Cancel subscription at period end via Stripe
+  // (a pending period-end plan change is dropped with the cancellation)
   const stripe = await getStripeClient();
+  await cancelScheduledChange(stripe, result.rows[0]!.id);
   const updatedSubscription = await stripe.subscriptions.update(subscriptionId, {
     cancel_at_period_end: true,
   });
@@ -362,8 +417,9 @@ async function resumeSubscription(event: Parameters<APIGatewayProxyHandler>[0]):
  * POST /subscriptions/update
  *
  * Request body:
- * - new_plan_id: UUID of the new plan
+ * - new_plan_id: UUID of the new plan (the current plan cancels a scheduled change)
  * - proration_behavior: 'create_prorations' (default for upgrade) | 'none' (for downgrade)
+ * - timing: 'immediate' (default) | 'period_end' (applied at renewal via a Stripe subscription schedule)
  */
 async function updatePlan(event: Parameters<APIGatewayProxyHandler>[0]): Promise<APIGatewayProxyResult> {
   const userId = getUserId(event);
@@ -383,7 +439,7 @@ async function updatePlan(event: Parameters<APIGatewayProxyHandler>[0]): Promise
     };
   }
 
-  const { new_plan_id, proration_behavior = 'create_prorations' } = JSON.parse(event.body);
+  const { new_plan_id, proration_behavior = 'create_prorations', timing = 'immediate' } = JSON.parse(event.body);
   if (!new_plan_id) {
     return {
       statusCode: 400,
@@ -392,9 +448,17 @@ async function updatePlan(event: Parameters<APIGatewayProxyHandler>[0]): Promise
     };
   }
 
+  if (!PLAN_CHANGE_TIMINGS.includes(timing)) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: `timing must be one of: ${PLAN_CHANGE_TIMINGS.join(', ')}` }),
+    };
+  }
+
   // Get new plan's Stripe price ID
-  const planResult = await query<{ stripe_price_id: string; price_amount: number; name: string; product_id: string }>(
-    `SELECT stripe_price_id, price_amount, name, product_id FROM plans WHERE id = $1 AND is_active = true AND deleted_at IS NULL`,
+  const planResult = await query<{ currency: string; name: string; product_id: string }>(
+    `SELECT currency, name, product_id FROM plans WHERE id = $1 AND is_active = true AND deleted_at IS NULL`,
     [new_plan_id]
   );
 
@@ -409,14 +473,28 @@ async function updatePlan(event: Parameters<APIGatewayProxyHandler>[0]): Promise
   const newPlan = planResult.rows[0]!;
 
   // Get current subscription
-  const subResult = await query<{ id: string; stripe_subscription_id: string; plan_id: string }>(
+  const subResult = await query<{
+    id: string;
+    stripe_subscription_id: string;
+    plan_id: string;
+    stripe_price_id: string | null;
+    currency: string | null;
+  }>(
     `
-    SELECT id, stripe_subscription_id, plan_id
-    FROM subscriptions
-    WHERE user_id = $1
-      AND status IN ('active', 'trialing')
-      AND deleted_at IS NULL
-    ORDER BY created_at DESC
+    SELECT
+      s.id,
+      s.stripe_subscription_id,
+      s.plan_id,
+      COALESCE(pp.stripe_price_id, pv.stripe_price_id, p.stripe_price_id) as stripe_price_id,
+      s.currency
+    FROM subscriptions s
+    LEFT JOIN plans p ON s.plan_id = p.id
+    LEFT JOIN plan_versions pv ON s.plan_version_id = pv.id
+    LEFT JOIN plan_prices pp ON pp.plan_version_id = s.plan_version_id AND pp.currency = s.currency
+    WHERE s.user_id = $1
+      AND s.status IN ('active', 'trialing')
+      AND s.deleted_at IS NULL
+    ORDER BY s.created_at DESC
     LIMIT 1
     `,
     [userId]
@@ -432,11 +510,41 @@ async function updatePlan(event: Parameters<APIGatewayProxyHandler>[0]): Promise
 
   const currentSub = subResult.rows[0]!;
   const subscriptionId = currentSub.stripe_subscription_id;
+  const stripe = await getStripeClient();
+
+  // Changing to the current plan cancels a scheduled change
+  if (new_plan_id === currentSub.plan_id) {
+    const canceled = await cancelScheduledChange(stripe, currentSub.id);
+    return {
+      statusCode: canceled ? 200 : 400,
+      headers: corsHeaders,
+      body: JSON.stringify(
+        canceled
+          ? { message: 'Scheduled plan change canceled', subscription_id: subscriptionId }
+          : { error: 'Already subscribed to this plan' }
+      ),
+    };
+  }
+
+  // A Stripe subscription has one currency: change to the new plan's price in it
+  const newPrice = await findPlanPriceInCurrency(
+    await initializeDatabase(),
+    new_plan_id,
+    currentSub.currency ?? newPlan.currency
+  );
+  if (!newPrice) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: `The plan is not sold in ${currentSub.currency}` }),
+    };
+  }
 
   // Retrieve current subscription from Stripe
-  const stripe = await getStripeClient();
   const currentSubscription = await stripe.subscriptions.retrieve(subscriptionId);
-  const currentItemId = currentSubscription.items.data[0]?.id;
+  // Swap the base plan item only (add-on and metered items stay attached)
+  const currentItem = findBaseItem(currentSubscription, currentSub.stripe_price_id);
+  const currentItemId = currentItem?.id;
 
   if (!currentItemId) {
     return {
@@ -446,9 +554,55 @@ async function updatePlan(event: Parameters<APIGatewayProxyHandler>[0]): Promise
     };
   }
 
+  // Period-end change: Stripe switches the price at renewal; the
+  // customer.subscription.updated webhook then updates plan and entitlements
+  if (timing === 'period_end') {
+    const schedule = await schedulePlanChange(stripe, currentSubscription, currentItem!, newPrice.stripe_price_id);
+    const effectiveAt = new Date(currentSubscription.current_period_end * 1000);
+
+    await recordScheduledChange({
+      subscription_id: currentSub.id,
+      from_plan_id: currentSub.plan_id,
+      to_plan_id: new_plan_id,
+      stripe_schedule_id: schedule.id,
+      effective_at: effectiveAt,
+      requested_by: userId,
+    });
+
+    console.log('[SubscriptionHandler] Plan change scheduled', {
+      userId,
+      subscriptionId,
+      old_plan_id: currentSub.plan_id,
+      new_plan_id,
+      scheduleId: schedule.id,
+      effectiveAt: effectiveAt.toISOString(),
+    });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        message: 'Subscription plan change scheduled',
+        subscription_id: subscriptionId,
+        new_plan: {
+          id: new_plan_id,
+          name: newPlan.name,
+          price_amount: newPrice.price_amount,
+          currency: newPrice.currency,
+        },
+        timing,
+        effective_date: effectiveAt.toISOString(),
+      }),
+    };
+  }
+
+  // An immediate change replaces a pending period-end change
+  await cancelScheduledChange(stripe, currentSub.id);
+
   // Update subscription with new price
   const updatedSubscription = await stripe.subscriptions.update(subscriptionId, {
-    items: [{ id: currentItemId, price: newPlan.stripe_price_id }],
+    // Keep the quantity (seats of team subscriptions)
+    items: [{ id: currentItemId, price: newPrice.stripe_price_id, quantity: currentItem?.quantity ?? 1 }],
     proration_behavior: proration_behavior as 'create_prorations' | 'none' | 'always_invoice',
   });
 
@@ -458,10 +612,14 @@ async function updatePlan(event: Parameters<APIGatewayProxyHandler>[0]): Promise
     [new_plan_id, currentSub.id]
   );
 
-  // Update entitlements table
+  // Update entitlements table (including the assigned seats of a team subscription)
   await query(
-    `UPDATE entitlements SET plan_id = $1, updated_at = NOW() WHERE user_id = $2 AND product_id = $3 AND status = 'active'`,
-    [new_plan_id, userId, newPlan.product_id]
+    `
+    UPDATE entitlements SET plan_id = $1, updated_at = NOW()
+    WHERE status = 'active'
+      AND (subscription_id = $4 OR (user_id = $2 AND product_id = $3))
+    `,
+    [new_plan_id, userId, newPlan.product_id, currentSub.id]
   );
 
   console.log('[SubscriptionHandler] Subscription plan updated', {
@@ -482,13 +640,209 @@ async function updatePlan(event: Parameters<APIGatewayProxyHandler>[0]): Promise
       new_plan: {
         id: new_plan_id,
         name: newPlan.name,
-        price_amount: newPlan.price_amount,
+        price_amount: newPrice.price_amount,
+        currency: newPrice.currency,
       },
+      timing,
       effective_date: new Date().toISOString(),
     }),
   };
 }
 
+/**
+ * Preview a Plan Change
+ * POST /subscriptions/{id}/preview-change
+ *
+ * Returns the Stripe upcoming invoice with the plan change applied, without
+ * changing anything. Request body: see PlanChangePreviewRequest.
+ */
+async function previewPlanChange(
+  event: Parameters<APIGatewayProxyHandler>[0],
+  subscriptionId: string
+): Promise<APIGatewayProxyResult> {
+  const userId = getUserId(event);
+  if (!userId) {
+    return {
+      statusCode: 401,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Unauthorized' }),
+    };
+  }
+
+  if (!event.body) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Missing request body' }),
+    };
+  }
+
+  const request: PlanChangePreviewRequest = JSON.parse(event.body);
+  const timing = request.timing ?? 'immediate';
+  if (!request.new_plan_id) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Missing new_plan_id' }),
+    };
+  }
+
+  if (!PLAN_CHANGE_TIMINGS.includes(timing)) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: `timing must be one of: ${PLAN_CHANGE_TIMINGS.join(', ')}` }),
+    };
+  }
+
+  const subResult = await query<{
+    id: string;
+    stripe_subscription_id: string;
+    plan_id: string;
+    stripe_price_id: string | null;
+    product_id: string | null;
+    currency: string | null;
+  }>(
+    `
+    SELECT
+      s.id,
+      s.stripe_subscription_id,
+      s.plan_id,
+      COALESCE(pp.stripe_price_id, pv.stripe_price_id, p.stripe_price_id) as stripe_price_id,
+      p.product_id,
+      s.currency
+    FROM subscriptions s
+    LEFT JOIN plans p ON s.plan_id = p.id
+    LEFT JOIN plan_versions pv ON s.plan_version_id = pv.id
+    LEFT JOIN plan_prices pp ON pp.plan_version_id = s.plan_version_id AND pp.currency = s.currency
+    WHERE (s.id::text = $1 OR s.stripe_subscription_id = $1)
+      AND s.user_id = $2
+      AND s.status IN ('active', 'trialing')
+      AND s.deleted_at IS NULL
+    `,
+    [subscriptionId, userId]
+  );
+
+  if (subResult.rows.length === 0) {
+    return {
+      statusCode: 404,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Subscription not found' }),
+    };
+  }
+
+  const currentSub = subResult.rows[0]!;
+
+  const planResult = await query<{ currency: string; product_id: string; billing_period: string }>(
+    `SELECT currency, product_id, billing_period FROM plans WHERE id = $1 AND is_active = true AND deleted_at IS NULL`,
+    [request.new_plan_id]
+  );
+
+  if (planResult.rows.length === 0) {
+    return {
+      statusCode: 404,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Plan not found' }),
+    };
+  }
+
+  const newPlan = planResult.rows[0]!;
+
+  if (request.new_plan_id === currentSub.plan_id) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Already subscribed to this plan' }),
+    };
+  }
+
+  if (newPlan.product_id !== currentSub.product_id || newPlan.billing_period === 'one_time') {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'The plan is not a subscription plan of the same product' }),
+    };
+  }
+
+  const newPrice = await findPlanPriceInCurrency(
+    await initializeDatabase(),
+    request.new_plan_id,
+    currentSub.currency ?? newPlan.currency
+  );
+  if (!newPrice) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: `The plan is not sold in ${currentSub.currency}` }),
+    };
+  }
+
+  const stripe = await getStripeClient();
+  const subscription = await stripe.subscriptions.retrieve(currentSub.stripe_subscription_id);
+  const baseItem = findBaseItem(subscription, currentSub.stripe_price_id);
+  if (!baseItem) {
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Failed to retrieve subscription items' }),
+    };
+  }
+
+  const invoice = await previewPlanChangeInvoice(
+    stripe,
+    subscription,
+    baseItem,
+    newPrice.stripe_price_id,
+    timing,
+    request.proration_behavior ?? 'create_prorations'
+  );
+
+  const pending = await getPendingScheduledChange(currentSub.id);
+  const lines = invoice.lines.data.map(toPreviewLine);
+  const effectiveAt = timing === 'immediate'
+    ? new Date()
+    : new Date(subscription.current_period_end * 1000);
+
+  const response: PlanChangePreviewResponse = {
+    subscription_id: currentSub.stripe_subscription_id,
+    current_plan_id: currentSub.plan_id,
+    new_plan_id: request.new_plan_id,
+    timing,
+    effective_at: effectiveAt.toISOString(),
+    currency: invoice.currency,
+    proration_amount: lines
+      .filter((line) => line.proration)
+      .reduce((sum, line) => sum + line.amount, 0),
+    upcoming_invoice: {
+      subtotal: invoice.subtotal,
+      tax: invoice.tax,
+      total: invoice.total,
+      amount_due: invoice.amount_due,
+      next_payment_attempt: invoice.next_payment_attempt
+        ? new Date(invoice.next_payment_attempt * 1000).toISOString()
+        : null,
+      lines,
+    },
+    ...(pending
+      ? { scheduled_change: { to_plan_id: pending.to_plan_id, effective_at: pending.effective_at.toISOString() } }
+      : {}),
+  };
+
+  console.log('[SubscriptionHandler] Plan change previewed', {
+    userId,
+    subscriptionId: currentSub.stripe_subscription_id,
+    newPlanId: request.new_plan_id,
+    timing,
+    amountDue: invoice.amount_due,
+  });
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders,
+    body: JSON.stringify(response),
+  };
+}
+
 /**
  * Get Stripe Customer Portal URL
  * GET /subscriptions/portal
@@ -0,0 +1,303 @@
+/**
+ * Invoice Listing for End Users
+ *
+ * Provides the caller's Stripe invoices and receipts for in-app billing pages:
+ * - GET /me/invoices      - List invoices (newest first, cursor paginated)
+ * - GET /me/invoices/:id  - Get an invoice with all line items
+ * - GET /me/invoices/:id/qualified-invoice - Qualified invoice (適格請求書) as JSON or PDF
+ *
+ * Invoices are read from Stripe for the caller's customer (customers table);
+ * invoices of other customers are reported as not found.
+ *
+ * @module billing/subscription/invoices
+ */
+
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import type Stripe from 'stripe';
+import { query, transaction } from '../../../shared/db/index.js';
+import { getStripeClient } from '../stripe.js';
+import { renderQualifiedInvoicePdf } from '../invoice/pdf.js';
+import { issueQualifiedInvoice, QualifiedInvoiceError } from '../invoice/qualifiedInvoice.js';
+import type { InvoiceLineResponse, InvoiceListResponse, InvoiceResponse } from '../types.js';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const INVOICE_STATUSES: Stripe.InvoiceListParams.Status[] = ['draft', 'open', 'paid', 'uncollectible', 'void'];
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+/**
+ * Stripe Customer ID of a user
+ */
+async function getCustomerId(userId: string): Promise<string | null> {
+  const result = await query<{ stripe_customer_id: string }>(
+    `SELECT stripe_customer_id FROM customers WHERE user_id = $1`,
+    [userId]
+  );
+
+  return result.rows[0]?.stripe_customer_id ?? null;
+}
+
+function toIsoString(timestamp: number | null | undefined): string | null {
+  return timestamp ? new Date(timestamp * 1000).toISOString() : null;
+}
+
+/**
+ * Convert a Stripe invoice line to the response format
+ */
+function toInvoiceLine(line: Stripe.InvoiceLineItem): InvoiceLineResponse {
+  return {
+    id: line.id,
+    description: line.description,
+    amount: line.amount,
+    quantity: line.quantity,
+    tax_amounts: (line.tax_amounts ?? []).map((tax) => ({
+      amount: tax.amount,
+      inclusive: tax.inclusive,
+      tax_rate: typeof tax.tax_rate === 'string' ? tax.tax_rate : tax.tax_rate?.id ?? null,
+    })),
+    proration: line.proration,
+    period_start: new Date(line.period.start * 1000).toISOString(),
+    period_end: new Date(line.period.end * 1000).toISOString(),
+    price_id: line.price?.id ?? null,
+  };
+}
+
+/**
+ * Convert a Stripe invoice to the response format
+ * The receipt URL needs the charge expanded.
+ */
+export function toInvoiceResponse(
+  invoice: Stripe.Invoice,
+  lines: Stripe.InvoiceLineItem[],
+  hasMoreLines: boolean
+): InvoiceResponse {
+  const charge = invoice.charge && typeof invoice.charge !== 'string' ? invoice.charge : null;
+
+  return {
+    id: invoice.id,
+    number: invoice.number,
+    status: invoice.status,
+    currency: invoice.currency,
+    subtotal: invoice.subtotal,
+    tax: invoice.tax,
+    total: invoice.total,
+    amount_due: invoice.amount_due,
+    amount_paid: invoice.amount_paid,
+    amount_remaining: invoice.amount_remaining,
+    created_at: new Date(invoice.created * 1000).toISOString(),
+    period_start: new Date(invoice.period_start * 1000).toISOString(),
+    period_end: new Date(invoice.period_end * 1000).toISOString(),
+    due_date: toIsoString(invoice.due_date),
+    paid_at: toIsoString(invoice.status_transitions?.paid_at),
+    subscription_id: typeof invoice.subscription === 'string'
+      ? invoice.subscription
+      : invoice.subscription?.id ?? null,
+    invoice_pdf: invoice.invoice_pdf ?? null,
+    hosted_invoice_url: invoice.hosted_invoice_url ?? null,
+    receipt_url: charge?.receipt_url ?? null,
+    lines: lines.map(toInvoiceLine),
+    has_more_lines: hasMoreLines,
+  };
+}
+
+/**
+ * Fetch one page of a customer's invoices (newest first)
+ */
+export async function fetchInvoicePage(
+  stripe: Pick<Stripe, 'invoices'>,
+  customerId: string,
+  options: { limit: number; startingAfter?: string; status?: Stripe.InvoiceListParams.Status }
+): Promise<InvoiceListResponse> {
+  const invoices = await stripe.invoices.list({
+    customer: customerId,
+    limit: options.limit,
+    ...(options.startingAfter ? { starting_after: options.startingAfter } : {}),
+    ...(options.status ? { status: options.status } : {}),
+    expand: ['data.charge'],
+  });
+
+  return {
+    invoices: invoices.data.map((invoice) =>
+      toInvoiceResponse(invoice, invoice.lines.data, invoice.lines.has_more)
+    ),
+    has_more: invoices.has_more,
+    next_cursor: invoices.has_more ? invoices.data[invoices.data.length - 1]?.id ?? null : null,
+  };
+}
+
+/**
+ * List the caller's invoices
+ * GET /me/invoices?limit=10&starting_after=in_xxx&status=paid
+ *
+ * Users without a Stripe customer get an empty list. Each invoice carries
+ * the first page of its lines (has_more_lines tells whether more exist).
+ */
+export async function listInvoices(
+  event: APIGatewayProxyEvent,
+  userId: string
+): Promise<APIGatewayProxyResult> {
+  const params = event.queryStringParameters || {};
+
+  const limit = params['limit'] ? parseInt(params['limit'], 10) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: `limit must be between 1 and ${MAX_LIMIT}` }),
+    };
+  }
+
+  const status = params['status'] as Stripe.InvoiceListParams.Status | undefined;
+  if (status && !INVOICE_STATUSES.includes(status)) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: `status must be one of: ${INVOICE_STATUSES.join(', ')}` }),
+    };
+  }
+
+  const customerId = await getCustomerId(userId);
+  if (!customerId) {
+    const empty: InvoiceListResponse = { invoices: [], has_more: false, next_cursor: null };
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify(empty),
+    };
+  }
+
+  const stripe = await getStripeClient();
+  const response = await fetchInvoicePage(stripe, customerId, {
+    limit,
+    startingAfter: params['starting_after'],
+    status,
+  });
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders,
+    body: JSON.stringify(response),
+  };
+}
+
+/**
+ * Retrieve an invoice of a Stripe customer
+ *
+ * @returns The invoice, or null if it does not exist or belongs to another customer
+ */
+export async function retrieveCustomerInvoice(
+  stripe: Pick<Stripe, 'invoices'>,
+  customerId: string | null,
+  invoiceId: string
+): Promise<Stripe.Invoice | null> {
+  if (!customerId) {
+    return null;
+  }
+
+  let invoice: Stripe.Invoice;
+  try {
+    invoice = await stripe.invoices.retrieve(invoiceId, { expand: ['charge'] });
+  } catch (error) {
+    if ((error as Stripe.errors.StripeError).code === 'resource_missing') {
+      return null;
+    }
+    throw error;
+  }
+
+  const invoiceCustomerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id;
+  return invoiceCustomerId === customerId ? invoice : null;
+}
+
+/**
+ * Get one of the caller's invoices with all line items
+ * GET /me/invoices/{invoiceId}
+ */
+export async function getInvoice(userId: string, invoiceId: string): Promise<APIGatewayProxyResult> {
+  const stripe = await getStripeClient();
+  const invoice = await retrieveCustomerInvoice(stripe, await getCustomerId(userId), invoiceId);
+  if (!invoice) {
+    return {
+      statusCode: 404,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Invoice not found' }),
+    };
+  }
+
+  const lines = await stripe.invoices.listLineItems(invoiceId, { limit: 100 }).autoPagingToArray({ limit: 10000 });
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders,
+    body: JSON.stringify(toInvoiceResponse(invoice, lines, false)),
+  };
+}
+
+/**
+ * Get the qualified invoice (適格請求書) of one of the caller's paid invoices
+ * GET /me/invoices/{invoiceId}/qualified-invoice?format=json|pdf
+ *
+ * The document is issued on the first request and returned unchanged after.
+ * PDF responses are base64 encoded for API Gateway (binary media type).
+ */
+export async function getQualifiedInvoice(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  invoiceId: string
+): Promise<APIGatewayProxyResult> {
+  const format = event.queryStringParameters?.['format'] || 'json';
+  if (format !== 'json' && format !== 'pdf') {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'format must be one of: json, pdf' }),
+    };
+  }
+
+  const stripe = await getStripeClient();
+  const invoice = await retrieveCustomerInvoice(stripe, await getCustomerId(userId), invoiceId);
+  if (!invoice) {
+    return {
+      statusCode: 404,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Invoice not found' }),
+    };
+  }
+
+  try {
+    const document = await transaction((client) => issueQualifiedInvoice(client, stripe, userId, invoice));
+
+    if (format === 'pdf') {
+      return {
+        statusCode: 200,
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="invoice-${document.document_number}.pdf"`,
+        },
+        body: renderQualifiedInvoicePdf(document).toString('base64'),
+        isBase64Encoded: true,
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify(document),
+    };
+  } catch (error) {
+    if (error instanceof QualifiedInvoiceError) {
+      return {
+        statusCode: error.statusCode,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: error.message }),
+      };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Plan Change Helpers
+ *
+ * Preview and scheduling of plan changes:
+ * - Preview: Stripe upcoming invoice with the base plan item swapped
+ * - Period-end changes: Stripe subscription schedule with the current items
+ *   until the period ends and the new plan from the renewal on; the schedule
+ *   is released after the renewal so the subscription continues normally
+ *
+ * Pending period-end changes are recorded in scheduled_plan_changes.
+ *
+ * @module billing/subscription/planChange
+ */
+
+import type Stripe from 'stripe';
+import { query, transaction } from '../../../shared/db/index.js';
+import type {
+  PlanChangePreviewLine,
+  PlanChangeTiming,
+  ScheduledPlanChangeStatus,
+} from '../types.js';
+
+/**
+ * Database row from scheduled_plan_changes table
+ */
+export interface ScheduledPlanChangeRow {
+  id: string;
+  subscription_id: string;
+  from_plan_id: string | null;
+  to_plan_id: string;
+  stripe_schedule_id: string;
+  effective_at: Date;
+  status: ScheduledPlanChangeStatus;
+  requested_by: string | null;
+  applied_at: Date | null;
+  canceled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+type ProrationBehavior = 'create_prorations' | 'none' | 'always_invoice';
+
+/**
+ * Find the base plan item of a Stripe subscription
+ * Falls back to the first item when the current price is unknown.
+ */
+export function findBaseItem(
+  subscription: Stripe.Subscription,
+  currentPriceId: string | null
+): Stripe.SubscriptionItem | undefined {
+  return (
+    subscription.items.data.find((item) => item.price.id === currentPriceId) ??
+    subscription.items.data[0]
+  );
+}
+
+/**
+ * Preview the upcoming invoice of a plan change
+ *
+ * - immediate: prorations for the rest of the current period (as of now)
+ * - period_end: the renewal invoice on the new plan, without prorations
+ */
+export async function previewPlanChangeInvoice(
+  stripe: Stripe,
+  subscription: Stripe.Subscription,
+  baseItem: Stripe.SubscriptionItem,
+  newPriceId: string,
+  timing: PlanChangeTiming,
+  prorationBehavior: ProrationBehavior
+): Promise<Stripe.UpcomingInvoice> {
+  return stripe.invoices.retrieveUpcoming({
+    customer: subscription.customer as string,
+    subscription: subscription.id,
+    subscription_items: [{ id: baseItem.id, price: newPriceId, quantity: baseItem.quantity ?? 1 }],
+    subscription_proration_behavior: timing === 'immediate' ? prorationBehavior : 'none',
+    ...(timing === 'immediate'
+      ? { subscription_proration_date: Math.floor(Date.now() / 1000) }
+      : {}),
+  });
+}
+
+/**
+ * Convert an upcoming invoice line to the preview response format
+ */
+export function toPreviewLine(line: Stripe.InvoiceLineItem): PlanChangePreviewLine {
+  return {
+    description: line.description,
+    amount: line.amount,
+    proration: line.proration,
+    period_start: new Date(line.period.start * 1000).toISOString(),
+    period_end: new Date(line.period.end * 1000).toISOString(),
+  };
+}
+
+/**
+ * Items of a subscription as schedule phase items
+ * Metered prices have no quantity.
+ */
+function toPhaseItems(
+  items: Stripe.SubscriptionItem[],
+  replace?: { itemId: string; priceId: string }
+): Stripe.SubscriptionScheduleUpdateParams.Phase.Item[] {
+  return items.map((item) => {
+    const price = item.id === replace?.itemId ? replace.priceId : item.price.id;
+    return item.price.recurring?.usage_type === 'metered'
+      ? { price }
+      : { price, quantity: item.quantity ?? 1 };
+  });
+}
+
+/**
+ * Schedule a plan change for the end of the current period
+ * Reuses the subscription's schedule if it already has one.
+ *
+ * @returns Stripe subscription schedule
+ */
+export async function schedulePlanChange(
+  stripe: Stripe,
+  subscription: Stripe.Subscription,
+  baseItem: Stripe.SubscriptionItem,
+  newPriceId: string
+): Promise<Stripe.SubscriptionSchedule> {
+  const existingScheduleId = typeof subscription.schedule === 'string'
+    ? subscription.schedule
+    : subscription.schedule?.id;
+
+  const schedule = existingScheduleId
+    ? await stripe.subscriptionSchedules.retrieve(existingScheduleId)
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+
+  return stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'release',
+    proration_behavior: 'none',
+    phases: [
+      {
+        items: toPhaseItems(subscription.items.data),
+        start_date: schedule.current_phase?.start_date ?? subscription.current_period_start,
+        end_date: subscription.current_period_end,
+      },
+      {
+        items: toPhaseItems(subscription.items.data, { itemId: baseItem.id, priceId: newPriceId }),
+        iterations: 1,
+      },
+    ],
+    metadata: { purpose: 'scheduled_plan_change' },
+  });
+}
+
+/**
+ * Get the pending scheduled plan change of a subscription
+ */
+export async function getPendingScheduledChange(
+  subscriptionId: string
+): Promise<ScheduledPlanChangeRow | null> {
+  const result = await query<ScheduledPlanChangeRow>(
+    `SELECT * FROM scheduled_plan_changes WHERE subscription_id = $1 AND status = 'scheduled'`,
+    [subscriptionId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Record a scheduled plan change (replaces a pending one)
+ */
+export async function recordScheduledChange(
+  change: Pick<
+    ScheduledPlanChangeRow,
+    'subscription_id' | 'from_plan_id' | 'to_plan_id' | 'stripe_schedule_id' | 'effective_at' | 'requested_by'
+  >
+): Promise<ScheduledPlanChangeRow> {
+  return transaction(async (client) => {
+    await client.query(
+      `
+      UPDATE scheduled_plan_changes
+      SET status = 'canceled', canceled_at = NOW()
+      WHERE subscription_id = $1 AND status = 'scheduled'
+      `,
+      [change.subscription_id]
+    );
+
+    const result = await client.query<ScheduledPlanChangeRow>(
+      `
+      INSERT INTO scheduled_plan_changes (
+        subscription_id, from_plan_id, to_plan_id, stripe_schedule_id, effective_at, requested_by
+      )
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+      `,
+      [
+        change.subscription_id,
+        change.from_plan_id,
+        change.to_plan_id,
+        change.stripe_schedule_id,
+        change.effective_at,
+        change.requested_by,
+      ]
+    );
+
+    return result.rows[0]!;
+  });
+}
+
+/**
+ * Cancel the pending scheduled plan change of a subscription
+ * Releases the Stripe schedule so the subscription stays on its current plan.
+ *
+ * @returns Whether a pending change was canceled
+ */
+export async function cancelScheduledChange(
+  stripe: Stripe,
+  subscriptionId: string
+): Promise<boolean> {
+  const pending = await getPendingScheduledChange(subscriptionId);
+  if (!pending) {
+    return false;
+  }
+
+  const schedule = await stripe.subscriptionSchedules.retrieve(pending.stripe_schedule_id);
+  if (schedule.status === 'active' || schedule.status === 'not_started') {
+    await stripe.subscriptionSchedules.release(pending.stripe_schedule_id);
+  }
+
+  await query(
+    `UPDATE scheduled_plan_changes SET status = 'canceled', canceled_at = NOW() WHERE id = $1`,
+    [pending.id]
+  );
+
+  console.log('[PlanChange] Scheduled plan change canceled', {
+    subscriptionId,
+    toPlanId: pending.to_plan_id,
+    scheduleId: pending.stripe_schedule_id,
+  });
+
+  return true;
+}
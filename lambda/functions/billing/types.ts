@@ -13,18 +13,38 @@ import type Stripe from 'stripe';
  * Checkout Session creation request
  */
 export interface CheckoutSessionRequest {
-  /** Stripe Price ID (e.g., price_xxx) */
+  /** Stripe Price ID (e.g., price_xxx) of the plan in any of its currencies */
   plan_id: string;
   /** Product/Service ID in our system */
   product_id: string;
+  /** Currency to charge (default: the currency of plan_id's price) */
+  currency?: string;
   /** URL to redirect on successful checkout */
   success_url: string;
   /** URL to redirect on cancelled checkout */
   cancel_url: string;
+  /** Add-ons purchased with the plan (extra subscription items) */
+  addons?: CheckoutAddonItem[];
+  /** Team that owns the subscription (seat-based purchase; caller must be the team owner) */
+  team_id?: string;
+  /** Number of seats (quantity of the base plan item, default: 1) */
+  seats?: number;
+  /** Promotion code to apply (checked against the coupon's per-user / per-product caps) */
+  promotion_code?: string;
   /** Optional metadata */
   metadata?: Record<string, string>;
 }
 
+/**
+ * Add-on line item of a checkout request
+ */
+export interface CheckoutAddonItem {
+  /** Stripe Price ID of the add-on (plan_addons.stripe_price_id) */
+  price_id: string;
+  /** Number of units (default: 1) */
+  quantity?: number;
+}
+
 /**
  * Checkout Session creation response
  */
@@ -158,6 +178,7 @@ export type PaymentStatus =
  */
 export type SupportedWebhookEvent =
   | 'checkout.session.completed'
+  | 'invoice.created'
   | 'invoice.paid'
   | 'invoice.payment_failed'
   | 'customer.subscription.updated'
@@ -195,3 +216,275 @@ export interface SuccessResponse<T = unknown> {
  * API Response type
  */
 export type ApiResponse<T = unknown> = SuccessResponse<T> | ErrorResponse;
+
+/**
+ * Grace period for plans without metadata.grace_period_days
+ * Entitlements of a past-due subscription keep access for this many days.
+ */
+export const DEFAULT_GRACE_PERIOD_DAYS = 7;
+
+/**
+ * Reconciliation discrepancy kinds (Stripe vs database)
+ * - customer_missing: Stripe customer of one of our subscriptions has no customers row
+ * - customer_email_mismatch: customers.email differs from the Stripe customer
+ * - customer_not_in_stripe: customers row whose Stripe customer no longer exists
+ * - subscription_missing: Stripe subscription for one of our plans has no subscriptions row
+ * - subscription_mismatch: status, plan, period end or cancel flag differs
+ * - subscription_not_in_stripe: live subscriptions row unknown to Stripe
+ * - entitlement_mismatch: entitlement status does not match the Stripe subscription status
+ */
+export type ReconciliationIssue =
+  | 'customer_missing'
+  | 'customer_email_mismatch'
+  | 'customer_not_in_stripe'
+  | 'subscription_missing'
+  | 'subscription_mismatch'
+  | 'subscription_not_in_stripe'
+  | 'entitlement_mismatch';
+
+/**
+ * Single difference found by the reconciliation job
+ */
+export interface ReconciliationDiscrepancy {
+  issue: ReconciliationIssue;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  user_id: string | null;
+  /** Differing fields (database value vs Stripe value) */
+  fields?: Record<string, { database: unknown; stripe: unknown }>;
+  /** Whether fix mode can correct it through the webhook event handlers */
+  fixable: boolean;
+  /** Set in fix mode */
+  fix_status?: 'fixed' | 'failed';
+  fix_error?: string;
+}
+
+/**
+ * Reconciliation job report
+ */
+export interface ReconciliationReport {
+  mode: 'report' | 'fix';
+  started_at: string;
+  finished_at: string;
+  stripe_customers: number;
+  stripe_subscriptions: number;
+  discrepancies: ReconciliationDiscrepancy[];
+  /** Discrepancy counts by issue */
+  summary: Partial<Record<ReconciliationIssue, number>>;
+  fixed: number;
+  fix_failed: number;
+}
+
+/**
+ * Limits granted by add-ons (plan_addons.limits per unit, entitlements.addon_limits summed)
+ */
+export interface AddonLimits {
+  /** Added to the default meter's usage_limit */
+  usage_limit?: number;
+  /** Added to the limit of named meters */
+  meters?: Record<string, number>;
+}
+
+/**
+ * Subscription item kind (subscription_items.item_type)
+ */
+export type SubscriptionItemType = 'plan' | 'metered' | 'addon' | 'unknown';
+
+/**
+ * When a plan change takes effect
+ * - immediate: now, with proration
+ * - period_end: at renewal, via a Stripe subscription schedule (no proration)
+ */
+export type PlanChangeTiming = 'immediate' | 'period_end';
+
+/**
+ * Scheduled plan change status (scheduled_plan_changes.status)
+ */
+export type ScheduledPlanChangeStatus = 'scheduled' | 'applied' | 'canceled';
+
+/**
+ * Request for POST /subscriptions/{id}/preview-change
+ */
+export interface PlanChangePreviewRequest {
+  /** UUID of the target plan */
+  new_plan_id: string;
+  /** Default: immediate */
+  timing?: PlanChangeTiming;
+  /** Proration for immediate changes (default: create_prorations) */
+  proration_behavior?: 'create_prorations' | 'none' | 'always_invoice';
+}
+
+/**
+ * Invoice line of a plan change preview
+ */
+export interface PlanChangePreviewLine {
+  description: string | null;
+  /** Amount in the currency's smallest unit (negative for credits) */
+  amount: number;
+  /** Whether the line is a proration (credit for unused time / charge for remaining time) */
+  proration: boolean;
+  period_start: string;
+  period_end: string;
+}
+
+/**
+ * Response for POST /subscriptions/{id}/preview-change
+ */
+export interface PlanChangePreviewResponse {
+  subscription_id: string;
+  current_plan_id: string;
+  new_plan_id: string;
+  timing: PlanChangeTiming;
+  /** When the new plan takes effect */
+  effective_at: string;
+  currency: string;
+  /** Net of the proration lines (0 for period_end changes) */
+  proration_amount: number;
+  /** Upcoming invoice with the change applied */
+  upcoming_invoice: {
+    subtotal: number;
+    tax: number | null;
+    total: number;
+    amount_due: number;
+    /** When the upcoming invoice is issued */
+    next_payment_attempt: string | null;
+    lines: PlanChangePreviewLine[];
+  };
+  /** Period-end change already pending (replaced if this change is applied) */
+  scheduled_change?: {
+    to_plan_id: string;
+    effective_at: string;
+  };
+}
+
+/**
+ * Invoice line in GET /me/invoices responses
+ */
+export interface InvoiceLineResponse {
+  id: string;
+  description: string | null;
+  /** Amount in the currency's smallest unit (negative for credits) */
+  amount: number;
+  quantity: number | null;
+  /** Tax amounts on the line */
+  tax_amounts: Array<{ amount: number; inclusive: boolean; tax_rate: string | null }>;
+  proration: boolean;
+  period_start: string;
+  period_end: string;
+  /** Stripe Price ID */
+  price_id: string | null;
+}
+
+/**
+ * Invoice in GET /me/invoices responses
+ */
+export interface InvoiceResponse {
+  /** Stripe Invoice ID */
+  id: string;
+  /** Invoice number shown on the PDF */
+  number: string | null;
+  status: Stripe.Invoice.Status | null;
+  currency: string;
+  subtotal: number;
+  tax: number | null;
+  total: number;
+  amount_due: number;
+  amount_paid: number;
+  amount_remaining: number;
+  created_at: string;
+  period_start: string;
+  period_end: string;
+  due_date: string | null;
+  paid_at: string | null;
+  /** Stripe Subscription ID (null for one-time payments) */
+  subscription_id: string | null;
+  /** Invoice PDF */
+  invoice_pdf: string | null;
+  /** Stripe hosted invoice page (pay / download) */
+  hosted_invoice_url: string | null;
+  /** Receipt of the payment (paid invoices) */
+  receipt_url: string | null;
+  lines: InvoiceLineResponse[];
+  /** Whether the invoice has more lines than returned (list responses) */
+  has_more_lines: boolean;
+}
+
+/**
+ * Response for GET /me/invoices
+ */
+export interface InvoiceListResponse {
+  invoices: InvoiceResponse[];
+  has_more: boolean;
+  /** Pass as starting_after to get the next page */
+  next_cursor: string | null;
+}
+
+/**
+ * Issuer details on qualified invoices (invoice_issuers)
+ */
+export interface InvoiceIssuer {
+  /** 発行事業者の氏名又は名称 */
+  name: string;
+  /** 登録番号 ("T" + 13 digits) */
+  registration_number: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+/**
+ * Line of a qualified invoice document
+ */
+export interface QualifiedInvoiceLine {
+  description: string;
+  quantity: number | null;
+  /** Amount after discounts (tax included when tax_inclusive) */
+  amount: number;
+  /** Consumption tax rate in percent */
+  tax_rate: number;
+  tax_inclusive: boolean;
+  /** Reduced tax rate line (軽減税率対象, marked ※) */
+  reduced_rate: boolean;
+}
+
+/**
+ * Amounts per tax rate of a qualified invoice document
+ * The tax is computed (and rounded down) once per rate and invoice.
+ */
+export interface QualifiedInvoiceTaxBreakdown {
+  tax_rate: number;
+  tax_inclusive: boolean;
+  /** Amount excluding tax (税抜) */
+  taxable_amount: number;
+  /** Consumption tax (消費税額) */
+  tax_amount: number;
+  /** Amount including tax (税込) */
+  total: number;
+}
+
+/**
+ * Qualified invoice (適格請求書) document issued from a paid invoice
+ */
+export interface QualifiedInvoiceDocument {
+  /** Document number (the Stripe invoice number) */
+  document_number: string;
+  stripe_invoice_id: string;
+  issued_at: string;
+  /** Transaction date (取引年月日): when the invoice was paid */
+  transaction_date: string;
+  currency: string;
+  issuer: InvoiceIssuer;
+  recipient: {
+    /** 交付を受ける事業者の氏名又は名称 */
+    name: string;
+    email: string | null;
+  };
+  lines: QualifiedInvoiceLine[];
+  tax_breakdown: QualifiedInvoiceTaxBreakdown[];
+  /** Sum of taxable_amount */
+  subtotal: number;
+  /** Sum of tax_amount */
+  tax_total: number;
+  /** Sum of total */
+  total: number;
+}
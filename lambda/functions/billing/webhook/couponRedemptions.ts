@@ -0,0 +1,143 @@
+/**
+ * Coupon Redemptions
+ *
+ * Records the coupon discounts of a completed checkout in coupon_redemptions
+ * for campaign analytics and the per-user / per-product caps. Discounts and
+ * their promotion codes are read from the session's total_details breakdown
+ * (never from the session metadata), which webhook payloads only include
+ * when expanded, so the session is retrieved.
+ *
+ * @module billing/webhook/couponRedemptions
+ */
+
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import { getStripeClient } from '../stripe.js';
+
+/**
+ * Discounts applied to a checkout session with their amounts
+ */
+async function getSessionDiscounts(
+  session: Stripe.Checkout.Session
+): Promise<Stripe.Checkout.Session.TotalDetails.Breakdown.Discount[]> {
+  if (session.total_details?.breakdown) {
+    return session.total_details.breakdown.discounts;
+  }
+
+  // amount_discount is not enough to skip the lookup: a code applied to a
+  // trial discounts nothing on the first invoice but still counts as a redemption
+  const stripe = await getStripeClient();
+  const expanded = await stripe.checkout.sessions.retrieve(session.id, {
+    expand: ['total_details.breakdown'],
+  });
+  return expanded.total_details?.breakdown?.discounts ?? [];
+}
+
+/**
+ * Record the coupon redemptions of a completed checkout session
+ * Idempotent per session and coupon (uq_coupon_redemptions_session_coupon).
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param userId - User ID of the purchaser
+ * @param session - Stripe Checkout Session
+ */
+export async function recordCouponRedemptions(
+  client: PoolClient,
+  userId: string,
+  session: Stripe.Checkout.Session
+): Promise<void> {
+  const discounts = await getSessionDiscounts(session);
+  if (discounts.length === 0) {
+    return;
+  }
+
+  const planId = session.metadata?.plan_id || null;
+  let productId: string | null = null;
+  if (planId) {
+    const plan = await client.query<{ product_id: string }>(
+      `SELECT product_id FROM plans WHERE id = $1`,
+      [planId]
+    );
+    productId = plan.rows[0]?.product_id ?? null;
+  }
+
+  const subscriptionId = typeof session.subscription === 'string'
+    ? session.subscription
+    : session.subscription?.id ?? null;
+
+  for (const { amount, discount } of discounts) {
+    const coupon = await client.query<{ id: string }>(
+      `SELECT id FROM coupons WHERE stripe_coupon_id = $1`,
+      [discount.coupon.id]
+    );
+    const couponId = coupon.rows[0]?.id;
+    if (!couponId) {
+      console.warn('[CouponRedemptions] Coupon not managed by the catalog, skipping', {
+        sessionId: session.id,
+        stripeCouponId: discount.coupon.id,
+      });
+      continue;
+    }
+
+    const stripePromotionCodeId = typeof discount.promotion_code === 'string'
+      ? discount.promotion_code
+      : discount.promotion_code?.id ?? null;
+    let promotionCodeId: string | null = null;
+    if (stripePromotionCodeId) {
+      const promotionCode = await client.query<{ id: string }>(
+        `SELECT id FROM promotion_codes WHERE stripe_promotion_code_id = $1`,
+        [stripePromotionCodeId]
+      );
+      promotionCodeId = promotionCode.rows[0]?.id ?? null;
+    }
+
+    const result = await client.query(
+      `
+      INSERT INTO coupon_redemptions (
+        coupon_id, promotion_code_id, user_id, product_id, plan_id,
+        stripe_checkout_session_id, stripe_subscription_id, currency,
+        amount_subtotal, amount_discount, amount_total
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (stripe_checkout_session_id, coupon_id) DO NOTHING
+      `,
+      [
+        couponId,
+        promotionCodeId,
+        userId,
+        productId,
+        planId,
+        session.id,
+        subscriptionId,
+        session.currency ?? '',
+        session.amount_subtotal ?? 0,
+        amount,
+        session.amount_total ?? 0,
+      ]
+    );
+
+    // Keep the local counters in step with Stripe
+    if (result.rowCount) {
+      await client.query(
+        `UPDATE coupons SET times_redeemed = times_redeemed + 1 WHERE id = $1`,
+        [couponId]
+      );
+      if (promotionCodeId) {
+        await client.query(
+          `UPDATE promotion_codes SET times_redeemed = times_redeemed + 1 WHERE id = $1`,
+          [promotionCodeId]
+        );
+      }
+    }
+
+    console.log('[CouponRedemptions] Coupon redemption recorded', {
+      userId,
+      couponId,
+      promotionCodeId,
+      productId,
+      sessionId: session.id,
+      amountDiscount: amount,
+      duplicate: result.rowCount === 0,
+    });
+  }
+}
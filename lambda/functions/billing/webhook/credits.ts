@@ -0,0 +1,176 @@
+/**
+ * Credit Pack Purchases
+ *
+ * A completed one-time (payment mode) checkout of a credit pack plan opens a
+ * lot in credit_ledger. The plan defines the pack in its metadata:
+ * - credits: credits granted per purchase (required)
+ * - credit_expiry_days: days until the credits expire (optional, default: never)
+ *
+ * The pack is the plan of the paid line item, not the session metadata (which
+ * the checkout request can extend). A buyer without an entitlement for the
+ * product gets a credit-only entitlement (quota 0), so POST /me/usage can
+ * draw the credits.
+ *
+ * @module billing/webhook/credits
+ */
+
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import { getStripeClient } from '../stripe.js';
+
+/**
+ * Stripe Price IDs of the line items of a checkout session
+ * Webhook payloads only include line items when expanded, so they are listed.
+ */
+async function getLineItemPriceIds(session: Stripe.Checkout.Session): Promise<string[]> {
+  const lineItems = session.line_items
+    ?? await (await getStripeClient()).checkout.sessions.listLineItems(session.id, { limit: 10 });
+  return lineItems.data
+    .map((item) => item.price?.id)
+    .filter((priceId): priceId is string => Boolean(priceId));
+}
+
+/**
+ * Find the credit pack plan of the paid Stripe Prices
+ * Matches the price of any plan version and its currency prices.
+ */
+async function findCreditPackPlan(
+  client: PoolClient,
+  priceIds: string[]
+): Promise<string | null> {
+  if (priceIds.length === 0) {
+    return null;
+  }
+
+  const result = await client.query<{ plan_id: string }>(
+    `
+    SELECT plan_id FROM plan_versions WHERE stripe_price_id = ANY($1::text[])
+    UNION
+    SELECT plan_id FROM plan_prices WHERE stripe_price_id = ANY($1::text[])
+    UNION
+    SELECT id FROM plans WHERE stripe_price_id = ANY($1::text[])
+    `,
+    [priceIds]
+  );
+
+  // A credit pack checkout has a single line item
+  return result.rows[0]?.plan_id ?? null;
+}
+
+/**
+ * Give a credit pack buyer without an entitlement for the product a
+ * credit-only entitlement (usage_limit 0: all usage is paid from credits)
+ * A subscription of the product later takes over the entitlement.
+ */
+export async function ensureCreditEntitlement(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  planId: string
+): Promise<void> {
+  const result = await client.query(
+    `
+    INSERT INTO entitlements (user_id, product_id, plan_id, status, usage_limit, usage_count)
+    VALUES ($1, $2, $3, 'active', 0, 0)
+    ON CONFLICT (user_id, product_id) WHERE status IN ('active', 'grace') DO NOTHING
+    `,
+    [userId, productId, planId]
+  );
+
+  if (result.rowCount) {
+    console.log('[Credits] Credit-only entitlement granted', { userId, productId, planId });
+  }
+}
+
+/**
+ * Credit a completed credit pack checkout to the ledger
+ * Idempotent per checkout session (credit_ledger.stripe_checkout_session_id).
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param userId - User ID of the purchaser
+ * @param session - Stripe Checkout Session (mode: payment)
+ *
+ * @throws {Error} If the paid price is not a credit pack (kept in the dead-letter for replay)
+ */
+export async function recordCreditPurchase(
+  client: PoolClient,
+  userId: string,
+  session: Stripe.Checkout.Session
+): Promise<void> {
+  if (session.payment_status !== 'paid') {
+    console.log('[Credits] Checkout not paid yet, credits not granted', {
+      sessionId: session.id,
+      paymentStatus: session.payment_status,
+    });
+    return;
+  }
+
+  const priceIds = await getLineItemPriceIds(session);
+  const planId = await findCreditPackPlan(client, priceIds);
+  if (!planId) {
+    throw new Error(`No plan found for the credit pack checkout prices: ${priceIds.join(', ')}`);
+  }
+
+  const planResult = await client.query<{
+    product_id: string;
+    credits: number | null;
+    credit_expiry_days: number | null;
+  }>(
+    `
+    SELECT
+      product_id,
+      (metadata->>'credits')::int as credits,
+      (metadata->>'credit_expiry_days')::int as credit_expiry_days
+    FROM plans
+    WHERE id = $1
+    `,
+    [planId]
+  );
+
+  const plan = planResult.rows[0];
+  if (!plan) {
+    throw new Error(`Plan not found: ${planId}`);
+  }
+  if (!plan.credits || plan.credits <= 0) {
+    throw new Error(`Plan ${planId} is not a credit pack (metadata.credits is not set)`);
+  }
+
+  const result = await client.query(
+    `
+    INSERT INTO credit_ledger (
+      user_id, product_id, entry_type, amount, remaining, expires_at,
+      plan_id, stripe_checkout_session_id, metadata
+    )
+    VALUES (
+      $1, $2, 'purchase', $3, $3,
+      CASE WHEN $4::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $4::int) END,
+      $5, $6, $7
+    )
+    ON CONFLICT (stripe_checkout_session_id) DO NOTHING
+    `,
+    [
+      userId,
+      plan.product_id,
+      plan.credits,
+      plan.credit_expiry_days,
+      planId,
+      session.id,
+      JSON.stringify({
+        amount_total: session.amount_total,
+        currency: session.currency,
+        payment_intent: session.payment_intent,
+      }),
+    ]
+  );
+
+  await ensureCreditEntitlement(client, userId, plan.product_id, planId);
+
+  console.log('[Credits] Credit pack purchase recorded', {
+    userId,
+    productId: plan.product_id,
+    credits: plan.credits,
+    expiryDays: plan.credit_expiry_days,
+    sessionId: session.id,
+    duplicate: result.rowCount === 0,
+  });
+}
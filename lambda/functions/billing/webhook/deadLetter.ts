@@ -0,0 +1,109 @@
+/**
+ * Failed Webhook (Dead-Letter) Storage
+ *
+ * Stripe events whose handler throws are persisted in failed_webhooks with
+ * their payload, last error and attempt count, so they can be inspected and
+ * replayed from the admin API after the cause has been fixed.
+ *
+ * The webhook transaction is rolled back on failure, so failures are
+ * recorded outside of it; recovery (a later Stripe retry or an admin
+ * replay) is recorded inside the processing transaction.
+ *
+ * @module billing/webhook/deadLetter
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../../../shared/db/index.js';
+
+/**
+ * Failed webhook status
+ * - failed: not processed yet
+ * - replayed: processed by an admin replay
+ * - resolved: processed by a later Stripe retry
+ */
+export type FailedWebhookStatus = 'failed' | 'replayed' | 'resolved';
+
+/**
+ * Database row structure for failed_webhooks table
+ */
+export interface FailedWebhookRow {
+  id: string;
+  stripe_event_id: string;
+  event_type: string;
+  payload: { id: string; type: string; [key: string]: unknown };
+  error: string;
+  attempts: number;
+  status: FailedWebhookStatus;
+  first_failed_at: Date;
+  last_failed_at: Date;
+  replayed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Record a failed processing attempt of a Stripe event
+ *
+ * Repeated failures of the same event increment attempts and keep the
+ * latest error. Never throws: failing to record must not mask the
+ * original error.
+ */
+export async function recordFailedWebhook(
+  stripeEvent: { id: string; type: string },
+  error: Error
+): Promise<void> {
+  try {
+    await query(
+      `
+      INSERT INTO failed_webhooks (stripe_event_id, event_type, payload, error)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (stripe_event_id) DO UPDATE SET
+        payload = EXCLUDED.payload,
+        error = EXCLUDED.error,
+        attempts = failed_webhooks.attempts + 1,
+        status = 'failed',
+        last_failed_at = NOW()
+      `,
+      [stripeEvent.id, stripeEvent.type, JSON.stringify(stripeEvent), error.message]
+    );
+
+    console.log('[DeadLetter] Failed webhook recorded', {
+      eventId: stripeEvent.id,
+      eventType: stripeEvent.type,
+    });
+  } catch (recordError) {
+    console.error('[DeadLetter] Failed to record failed webhook:', {
+      eventId: stripeEvent.id,
+      error: (recordError as Error).message,
+    });
+  }
+}
+
+/**
+ * Mark a previously failed event as processed
+ * No-op if the event never failed.
+ *
+ * @param client - PostgreSQL client (in the processing transaction)
+ * @param eventId - Stripe Event ID
+ * @param status - 'replayed' (admin replay) or 'resolved' (Stripe retry)
+ */
+export async function markFailedWebhookRecovered(
+  client: PoolClient,
+  eventId: string,
+  status: Exclude<FailedWebhookStatus, 'failed'>
+): Promise<void> {
+  const result = await client.query(
+    `
+    UPDATE failed_webhooks
+    SET
+      status = $2,
+      replayed_at = CASE WHEN $2 = 'replayed' THEN NOW() ELSE replayed_at END
+    WHERE stripe_event_id = $1 AND status = 'failed'
+    `,
+    [eventId, status]
+  );
+
+  if (result.rowCount) {
+    console.log('[DeadLetter] Failed webhook recovered', { eventId, status });
+  }
+}
@@ -0,0 +1,416 @@
+/**
+ * Dunning State Management
+ *
+ * Shared by the payment failure webhook handlers to track the dunning
+ * lifecycle of a subscription:
+ *
+ * 1. Payment fails -> subscription enters dunning: status past_due,
+ *    dunning_started_at set, entitlements move to 'grace' and keep access
+ *    until grace_until (plans.metadata.grace_period_days)
+ * 2. Every failed attempt is recorded in payment_failures, which also queues
+ *    the "update your card" email (sent by the dunningNotify worker)
+ * 3. Stripe gives up (no further retry) or pauses the subscription ->
+ *    entitlements are suspended (a final failed attempt skips the grace period)
+ * 4. Grace period lapses before payment -> the entitlement is suspended by
+ *    the dunningNotify worker (frees the user's active/grace slot for the product)
+ * 5. Invoice is paid -> dunning ends and entitlements in grace or suspended
+ *    during dunning are restored to 'active'
+ *
+ * @module billing/webhook/dunning
+ */
+
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import { DEFAULT_GRACE_PERIOD_DAYS } from '../types.js';
+
+/**
+ * Payment failure event types recorded in payment_failures
+ */
+export type PaymentFailureEventType = 'invoice.payment_failed' | 'invoice.payment_action_required';
+
+/**
+ * Subscription referenced by an invoice
+ */
+export interface DunningSubscription {
+  /** Internal subscription ID */
+  id: string;
+  user_id: string;
+  stripe_subscription_id: string;
+}
+
+/**
+ * Look up the subscription of an invoice
+ *
+ * @returns Subscription record or null (one-off invoice or unknown subscription)
+ */
+export async function findInvoiceSubscription(
+  client: PoolClient,
+  invoice: Stripe.Invoice
+): Promise<DunningSubscription | null> {
+  const subscriptionId = typeof invoice.subscription === 'string'
+    ? invoice.subscription
+    : invoice.subscription?.id;
+
+  if (!subscriptionId) {
+    return null;
+  }
+
+  const result = await client.query(
+    `SELECT id, user_id, stripe_subscription_id FROM subscriptions WHERE stripe_subscription_id = $1`,
+    [subscriptionId]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Look up the user of an invoice's Stripe customer
+ */
+export async function findCustomerUserId(
+  client: PoolClient,
+  invoice: Stripe.Invoice
+): Promise<string | null> {
+  const customerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id;
+  if (!customerId) {
+    return null;
+  }
+
+  const result = await client.query(
+    `SELECT user_id FROM customers WHERE stripe_customer_id = $1`,
+    [customerId]
+  );
+
+  return result.rows[0]?.user_id || null;
+}
+
+/**
+ * Whether Stripe has stopped retrying an automatically collected invoice
+ */
+export function isFinalPaymentAttempt(invoice: Stripe.Invoice): boolean {
+  return invoice.collection_method === 'charge_automatically'
+    && invoice.attempted
+    && invoice.next_payment_attempt === null;
+}
+
+/**
+ * Record a failed payment attempt and queue its notification
+ *
+ * Each attempt is recorded once (unique per invoice, event type and attempt),
+ * so redelivered events do not send duplicate emails.
+ *
+ * @returns true if the attempt was newly recorded
+ */
+export async function recordPaymentFailure(
+  client: PoolClient,
+  userId: string,
+  subscription: DunningSubscription | null,
+  invoice: Stripe.Invoice,
+  eventType: PaymentFailureEventType
+): Promise<boolean> {
+  const lastError = invoice.last_finalization_error;
+  const charge = typeof invoice.charge === 'object' ? invoice.charge : null;
+
+  const result = await client.query(
+    `
+    INSERT INTO payment_failures (
+      user_id,
+      subscription_id,
+      stripe_subscription_id,
+      stripe_invoice_id,
+      event_type,
+      attempt_count,
+      amount_due,
+      currency,
+      failure_code,
+      failure_message,
+      next_payment_attempt,
+      hosted_invoice_url,
+      email
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    ON CONFLICT (stripe_invoice_id, event_type, attempt_count) DO NOTHING
+    `,
+    [
+      userId,
+      subscription?.id || null,
+      subscription?.stripe_subscription_id || null,
+      invoice.id,
+      eventType,
+      invoice.attempt_count || 0,
+      invoice.amount_due,
+      invoice.currency,
+      charge?.failure_code || lastError?.code || null,
+      charge?.failure_message || lastError?.message || null,
+      invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null,
+      invoice.hosted_invoice_url || null,
+      invoice.customer_email || null,
+    ]
+  );
+
+  const recorded = (result.rowCount || 0) > 0;
+
+  console.log('[Dunning] Payment failure recorded', {
+    userId,
+    invoiceId: invoice.id,
+    eventType,
+    attemptCount: invoice.attempt_count,
+    nextPaymentAttempt: invoice.next_payment_attempt,
+    duplicate: !recorded,
+  });
+
+  return recorded;
+}
+
+/**
+ * Put a subscription into dunning
+ *
+ * The subscription is marked past_due and its entitlements enter the grace
+ * period, so the user keeps access while Stripe retries the payment.
+ * With options.grace false (Stripe has stopped retrying) only the dunning
+ * state is recorded; the caller suspends the entitlements.
+ */
+export async function startDunning(
+  client: PoolClient,
+  subscription: DunningSubscription,
+  options: { grace?: boolean } = {}
+): Promise<void> {
+  await client.query(
+    `
+    UPDATE subscriptions
+    SET
+      status = CASE WHEN status IN ('active', 'trialing') THEN 'past_due' ELSE status END,
+      updated_at = NOW()
+    WHERE id = $1
+    `,
+    [subscription.id]
+  );
+
+  if (options.grace === false) {
+    await markDunningStarted(client, subscription.id);
+  } else {
+    await enterGrace(client, subscription.id);
+  }
+
+  console.log('[Dunning] Subscription in dunning', {
+    subscriptionId: subscription.stripe_subscription_id,
+    userId: subscription.user_id,
+    grace: options.grace !== false,
+  });
+}
+
+/**
+ * Record when a subscription entered dunning (kept from the first failure)
+ * endDunning only restores suspended entitlements of subscriptions in dunning.
+ */
+export async function markDunningStarted(
+  client: PoolClient,
+  subscriptionId: string
+): Promise<void> {
+  await client.query(
+    `
+    UPDATE subscriptions
+    SET dunning_started_at = COALESCE(dunning_started_at, NOW()), updated_at = NOW()
+    WHERE id = $1
+    `,
+    [subscriptionId]
+  );
+}
+
+/**
+ * Move the active entitlements of a subscription into the grace period
+ *
+ * grace_until is set from the plan's metadata.grace_period_days
+ * (default: DEFAULT_GRACE_PERIOD_DAYS). Entitlements already in grace keep
+ * their original deadline. The subscription is marked as in dunning, also
+ * when grace is entered from customer.subscription.updated.
+ *
+ * @returns Number of entitlements moved into grace
+ */
+export async function enterGrace(
+  client: PoolClient,
+  subscriptionId: string
+): Promise<number> {
+  await markDunningStarted(client, subscriptionId);
+
+  const result = await client.query(
+    `
+    UPDATE entitlements e
+    SET
+      status = 'grace',
+      grace_until = NOW() + make_interval(days => COALESCE(
+        (SELECT (p.metadata->>'grace_period_days')::int FROM plans p WHERE p.id = e.plan_id),
+        $2
+      )),
+      updated_at = NOW()
+    WHERE e.subscription_id = $1 AND e.status = 'active'
+    RETURNING e.entitlement_id, e.grace_until
+    `,
+    [subscriptionId, DEFAULT_GRACE_PERIOD_DAYS]
+  );
+
+  if (result.rows.length > 0) {
+    console.log('[Dunning] Entitlements in grace', {
+      subscriptionId,
+      graceUntil: result.rows[0].grace_until,
+      count: result.rows.length,
+    });
+  }
+
+  return result.rows.length;
+}
+
+/**
+ * Move the entitlements of a subscription out of the grace period
+ *
+ * @returns Number of entitlements restored to active
+ */
+export async function exitGrace(
+  client: PoolClient,
+  subscriptionId: string
+): Promise<number> {
+  const result = await client.query(
+    `
+    UPDATE entitlements
+    SET status = 'active', grace_until = NULL, updated_at = NOW()
+    WHERE subscription_id = $1 AND status = 'grace'
+    `,
+    [subscriptionId]
+  );
+
+  const restored = result.rowCount || 0;
+  if (restored > 0) {
+    console.log('[Dunning] Entitlements out of grace', { subscriptionId, restored });
+  }
+
+  return restored;
+}
+
+/**
+ * Suspend the active or in-grace entitlements of a subscription
+ * Used when Stripe gives up collecting payment or pauses the subscription.
+ *
+ * @returns Number of entitlements suspended
+ */
+export async function suspendEntitlements(
+  client: PoolClient,
+  subscriptionId: string,
+  reason: string
+): Promise<number> {
+  const result = await client.query(
+    `
+    UPDATE entitlements
+    SET status = 'suspended', grace_until = NULL, updated_at = NOW()
+    WHERE subscription_id = $1 AND status IN ('active', 'grace')
+    `,
+    [subscriptionId]
+  );
+
+  const suspended = result.rowCount || 0;
+
+  console.log('[Dunning] Entitlements suspended', {
+    subscriptionId,
+    reason,
+    suspended,
+    action: 'SUSPEND_ACCESS',
+  });
+
+  return suspended;
+}
+
+/**
+ * Suspend entitlements whose grace period has passed
+ * Run by the dunningNotify worker; Stripe may keep retrying for longer than
+ * the grace period, and a lapsed entitlement must not hold the user's
+ * active/grace slot for the product.
+ *
+ * @returns Number of entitlements suspended
+ */
+export async function suspendLapsedGrace(
+  client: Pick<PoolClient, 'query'>,
+  batchSize = 500
+): Promise<number> {
+  const result = await client.query(
+    `
+    UPDATE entitlements
+    SET status = 'suspended', grace_until = NULL, updated_at = NOW()
+    WHERE entitlement_id IN (
+      SELECT entitlement_id
+      FROM entitlements
+      WHERE status = 'grace' AND grace_until <= NOW()
+      ORDER BY grace_until
+      LIMIT $1
+      FOR UPDATE SKIP LOCKED
+    )
+    `,
+    [batchSize]
+  );
+
+  const suspended = result.rowCount || 0;
+  if (suspended > 0) {
+    console.log('[Dunning] Lapsed grace entitlements suspended', {
+      suspended,
+      action: 'SUSPEND_ACCESS',
+    });
+  }
+
+  return suspended;
+}
+
+/**
+ * End dunning after a successful payment
+ *
+ * Moves entitlements out of grace, clears the dunning state and restores
+ * entitlements suspended during dunning (unless the user already has
+ * another usable entitlement for the product).
+ *
+ * @returns Number of entitlements restored
+ */
+export async function endDunning(
+  client: PoolClient,
+  stripeSubscriptionId: string
+): Promise<number> {
+  const subResult = await client.query(
+    `SELECT id, dunning_started_at FROM subscriptions WHERE stripe_subscription_id = $1`,
+    [stripeSubscriptionId]
+  );
+
+  if (!subResult.rows.length) {
+    return 0;
+  }
+
+  const { id: subscriptionId, dunning_started_at: dunningStartedAt } = subResult.rows[0];
+
+  const outOfGrace = await exitGrace(client, subscriptionId);
+
+  if (!dunningStartedAt) {
+    return outOfGrace;
+  }
+
+  await client.query(
+    `UPDATE subscriptions SET dunning_started_at = NULL, updated_at = NOW() WHERE id = $1`,
+    [subscriptionId]
+  );
+
+  const result = await client.query(
+    `
+    UPDATE entitlements e
+    SET status = 'active', updated_at = NOW()
+    WHERE e.subscription_id = $1
+      AND e.status = 'suspended'
+      AND NOT EXISTS (
+        SELECT 1 FROM entitlements a
+        WHERE a.user_id = e.user_id AND a.product_id = e.product_id AND a.status IN ('active', 'grace')
+      )
+    `,
+    [subscriptionId]
+  );
+
+  const restored = outOfGrace + (result.rowCount || 0);
+
+  console.log('[Dunning] Dunning ended', {
+    subscriptionId: stripeSubscriptionId,
+    restored,
+  });
+
+  return restored;
+}
@@ -9,12 +9,18 @@
  * 2. Create or update customer record in database
  * 3. Create subscription record
  * 4. Update user's subscription status
+ * 5. Payment mode (credit pack): credit the purchase to the ledger
+ * 6. Record coupon redemptions (analytics and redemption caps)
+ * 7. Subscription checkout: mark a no-card trial of the product converted
  *
  * @module billing/webhook/events/checkoutCompleted
  */
 
 import { PoolClient } from 'pg';
 import type Stripe from 'stripe';
+import { recordCreditPurchase } from '../credits.js';
+import { recordCouponRedemptions } from '../couponRedemptions.js';
+import { markTrialConverted } from '../../../entitlement/trials/trials.js';
 
 /**
  * Handle checkout.session.completed webhook event
@@ -23,6 +29,7 @@ import type Stripe from 'stripe';
  * - Customer completes payment for a subscription
  * - Free trial starts (if configured)
  * - Setup mode checkout completes (payment method saved)
+ * - Customer pays for a one-time credit pack (payment mode)
  *
  * @param client - PostgreSQL client (in active transaction)
  * @param session - Stripe Checkout Session object
@@ -54,12 +61,33 @@ export async function handleCheckoutCompleted(
       throw new Error('Missing customer_id in checkout session');
     }
 
+    // team_id is a reserved key set by the checkout handler after the owner check
+    const teamId = await resolveTeam(client, userId, session.metadata?.team_id);
+
     // 1. Create or update customer record
-    await upsertCustomer(client, userId, customerId, session);
+    await upsertCustomer(
+      client,
+      userId,
+      customerId,
+      session.customer_details?.email || session.customer_email
+    );
 
     // 2. If subscription exists, create subscription record
     if (subscriptionId) {
-      await createSubscription(client, userId, customerId, subscriptionId, planId);
+      await createSubscription(client, userId, customerId, subscriptionId, planId, teamId);
+    }
+
+    // 3. One-time credit pack purchase
+    if (session.mode === 'payment') {
+      await recordCreditPurchase(client, userId, session);
+    }
+
+    // 4. Coupon discounts of the checkout
+    await recordCouponRedemptions(client, userId, session);
+
+    // 5. Trial-to-paid conversion
+    if (subscriptionId) {
+      await convertTrial(client, userId, subscriptionId);
     }
 
     console.log('[CheckoutCompleted] Successfully processed checkout completion', {
@@ -75,15 +103,14 @@ export async function handleCheckoutCompleted(
 
 /**
  * Create or update customer record
+ * Also used by the reconciliation job to restore missing customers.
  */
-async function upsertCustomer(
+export async function upsertCustomer(
   client: PoolClient,
   userId: string,
   customerId: string,
-  session: Stripe.Checkout.Session
+  email: string | null
 ): Promise<void> {
-  const email = session.customer_details?.email || session.customer_email;
-
   await client.query(
     `
     INSERT INTO customers (user_id, stripe_customer_id, email, created_at, updated_at)
@@ -100,18 +127,69 @@ async function upsertCustomer(
   console.log('[CheckoutCompleted] Customer record upserted', { userId, customerId, email });
 }
 
+/**
+ * Resolve the team of a seat-based checkout
+ * The purchaser must still own the team; otherwise the event fails and is
+ * kept in the dead-letter for review.
+ */
+async function resolveTeam(
+  client: PoolClient,
+  userId: string,
+  teamId: string | undefined
+): Promise<string | null> {
+  if (!teamId) {
+    return null;
+  }
+
+  const result = await client.query(
+    `SELECT id FROM teams WHERE id = $1 AND owner_user_id = $2 AND deleted_at IS NULL`,
+    [teamId, userId]
+  );
+  if (result.rows.length === 0) {
+    throw new Error(`Team ${teamId} is not owned by the purchaser`);
+  }
+
+  return teamId;
+}
+
+/**
+ * Mark the user's no-card trial of the purchased product converted
+ */
+async function convertTrial(
+  client: PoolClient,
+  userId: string,
+  stripeSubscriptionId: string
+): Promise<void> {
+  const result = await client.query<{ id: string; plan_id: string; product_id: string }>(
+    `
+    SELECT s.id, s.plan_id, p.product_id
+    FROM subscriptions s
+    JOIN plans p ON s.plan_id = p.id
+    WHERE s.stripe_subscription_id = $1
+    `,
+    [stripeSubscriptionId]
+  );
+  const subscription = result.rows[0];
+  if (!subscription) {
+    return;
+  }
+
+  await markTrialConverted(client, userId, subscription.product_id, subscription.plan_id, subscription.id);
+}
+
 /**
  * Create subscription record
  *
- * Note: Initial subscription details (period, status) will be populated
- * by the customer.subscription.created or customer.subscription.updated webhook
+ * Note: Initial subscription details (period, status, seat quantity) will be
+ * populated by the customer.subscription.created or customer.subscription.updated webhook
  */
 async function createSubscription(
   client: PoolClient,
   userId: string,
   customerId: string,
   subscriptionId: string,
-  planId: string | undefined
+  planId: string | undefined,
+  teamId: string | null
 ): Promise<void> {
   // Check if subscription already exists
   const existing = await client.query(
@@ -169,14 +247,15 @@ async function createSubscription(
       plan_id,
       stripe_subscription_id,
       stripe_customer_id,
+      team_id,
       status,
       cancel_at_period_end,
       created_at,
       updated_at
     )
-    VALUES ($1, $2, $3, $4, $5, 'incomplete', false, NOW(), NOW())
+    VALUES ($1, $2, $3, $4, $5, $6, 'incomplete', false, NOW(), NOW())
     `,
-    [tenantId, userId, finalPlanId, subscriptionId, customerId]
+    [tenantId, userId, finalPlanId, subscriptionId, customerId, teamId]
   );
 
   console.log('[CheckoutCompleted] Subscription record created', {
@@ -184,5 +263,6 @@ async function createSubscription(
     subscriptionId,
     tenantId,
     planId: finalPlanId,
+    teamId,
   });
 }
@@ -0,0 +1,67 @@
+/**
+ * Invoice Created Event Handler
+ *
+ * Handles the invoice.created webhook event from Stripe.
+ * Renewal invoices stay in draft for about an hour before Stripe finalizes
+ * them; in that window the issuer (name and registration number for the
+ * qualified invoice system) is added as custom fields and footer so the
+ * Stripe invoice PDF carries them.
+ *
+ * Invoices finalized on creation (the first invoice of a checkout) cannot be
+ * changed and are skipped; their qualified invoice is available from
+ * GET /me/invoices/{id}/qualified-invoice.
+ *
+ * @module billing/webhook/events/invoiceCreated
+ */
+
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import { getStripeClient } from '../../stripe.js';
+import { applyIssuerToInvoice, findInvoiceIssuer } from '../../invoice/issuer.js';
+
+/**
+ * Handle invoice.created webhook event
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param invoice - Stripe Invoice object
+ *
+ * @throws {Error} If the Stripe update fails
+ */
+export async function handleInvoiceCreated(
+  client: PoolClient,
+  invoice: Stripe.Invoice
+): Promise<void> {
+  console.log('[InvoiceCreated] Processing invoice.created event', {
+    invoiceId: invoice.id,
+    status: invoice.status,
+    subscriptionId: invoice.subscription,
+  });
+
+  if (invoice.status !== 'draft') {
+    console.log('[InvoiceCreated] Invoice already finalized, skipping', { invoiceId: invoice.id });
+    return;
+  }
+
+  try {
+    const productId =
+      invoice.subscription_details?.metadata?.['product_id'] ?? invoice.metadata?.['product_id'] ?? null;
+
+    const issuer = await findInvoiceIssuer(client, productId);
+    if (!issuer) {
+      console.log('[InvoiceCreated] No invoice issuer configured, skipping', { invoiceId: invoice.id, productId });
+      return;
+    }
+
+    const stripe = await getStripeClient();
+    await applyIssuerToInvoice(stripe, invoice, issuer);
+
+    console.log('[InvoiceCreated] Issuer applied to invoice', {
+      invoiceId: invoice.id,
+      issuerId: issuer.id,
+      registrationNumber: issuer.registration_number,
+    });
+  } catch (error) {
+    console.error('[InvoiceCreated] Error processing invoice.created event:', error);
+    throw new Error(`Invoice created handler failed: ${(error as Error).message}`);
+  }
+}
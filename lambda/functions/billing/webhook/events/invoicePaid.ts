@@ -9,12 +9,15 @@
  * 2. Create payment record in database
  * 3. Update subscription billing period (if applicable)
  * 4. Grant/extend access to product/service
+ * 5. End dunning: entitlements in the grace period (or suspended after
+ *    failed payments) return to active
  *
  * @module billing/webhook/events/invoicePaid
  */
 
 import { PoolClient } from 'pg';
 import type Stripe from 'stripe';
+import { endDunning } from '../dunning.js';
 
 /**
  * Handle invoice.paid webhook event
@@ -69,6 +72,7 @@ export async function handleInvoicePaid(
     // 1. Update subscription billing period first (this is more important)
     if (subscriptionId) {
       await updateSubscriptionPeriod(client, subscriptionId, invoice);
+      await endDunning(client, subscriptionId);
     }
 
     // 2. Create payment record if we have user_id
@@ -0,0 +1,75 @@
+/**
+ * Invoice Payment Action Required Event Handler
+ *
+ * Handles the invoice.payment_action_required webhook event from Stripe.
+ * The payment needs customer action (e.g. 3D Secure authentication), so the
+ * subscription enters dunning and the customer is asked to complete payment.
+ *
+ * Workflow:
+ * 1. Resolve the user and subscription of the invoice
+ * 2. Record the attempt (queues the "complete your payment" email)
+ * 3. Put the subscription into dunning (grace)
+ *
+ * @module billing/webhook/events/invoicePaymentActionRequired
+ */
+
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import {
+  findCustomerUserId,
+  findInvoiceSubscription,
+  recordPaymentFailure,
+  startDunning,
+} from '../dunning.js';
+
+/**
+ * Handle invoice.payment_action_required webhook event
+ *
+ * This event is triggered when:
+ * - A renewal payment requires 3D Secure / SCA authentication
+ * - The payment method needs to be confirmed by the customer
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param invoice - Stripe Invoice object
+ *
+ * @throws {Error} If database operations fail
+ */
+export async function handleInvoicePaymentActionRequired(
+  client: PoolClient,
+  invoice: Stripe.Invoice
+): Promise<void> {
+  console.log('[InvoicePaymentActionRequired] Processing invoice.payment_action_required event', {
+    invoiceId: invoice.id,
+    customerId: invoice.customer,
+    subscriptionId: invoice.subscription,
+  });
+
+  try {
+    const subscription = await findInvoiceSubscription(client, invoice);
+
+    const userId = subscription?.user_id || await findCustomerUserId(client, invoice);
+
+    if (!userId) {
+      console.warn('[InvoicePaymentActionRequired] Could not find user_id for invoice, skipping', {
+        customerId: invoice.customer,
+        invoiceId: invoice.id,
+      });
+      return;
+    }
+
+    await recordPaymentFailure(client, userId, subscription, invoice, 'invoice.payment_action_required');
+
+    if (subscription) {
+      await startDunning(client, subscription);
+    }
+
+    console.log('[InvoicePaymentActionRequired] Successfully processed payment action request', {
+      userId,
+      invoiceId: invoice.id,
+      subscriptionId: subscription?.stripe_subscription_id,
+    });
+  } catch (error) {
+    console.error('[InvoicePaymentActionRequired] Error processing payment action required event:', error);
+    throw new Error(`Invoice payment action required handler failed: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Invoice Payment Failed Event Handler
+ *
+ * Handles the invoice.payment_failed webhook event from Stripe.
+ * Starts or continues dunning for the invoice's subscription.
+ *
+ * Workflow:
+ * 1. Resolve the user and subscription of the invoice
+ * 2. Record the failed attempt (queues the "update your card" email)
+ * 3. Put the subscription into dunning (grace) while Stripe retries
+ * 4. Suspend entitlements, without grace, when Stripe has given up retrying
+ *
+ * @module billing/webhook/events/invoicePaymentFailed
+ */
+
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import {
+  findCustomerUserId,
+  findInvoiceSubscription,
+  isFinalPaymentAttempt,
+  recordPaymentFailure,
+  startDunning,
+  suspendEntitlements,
+} from '../dunning.js';
+
+/**
+ * Handle invoice.payment_failed webhook event
+ *
+ * This event is triggered when:
+ * - A subscription renewal payment fails (card declined, expired, etc.)
+ * - A Smart Retries / retry schedule attempt fails
+ * - The final retry fails (next_payment_attempt is null)
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param invoice - Stripe Invoice object
+ *
+ * @throws {Error} If database operations fail
+ */
+export async function handleInvoicePaymentFailed(
+  client: PoolClient,
+  invoice: Stripe.Invoice
+): Promise<void> {
+  console.log('[InvoicePaymentFailed] Processing invoice.payment_failed event', {
+    invoiceId: invoice.id,
+    customerId: invoice.customer,
+    subscriptionId: invoice.subscription,
+    attemptCount: invoice.attempt_count,
+    nextPaymentAttempt: invoice.next_payment_attempt,
+  });
+
+  try {
+    const subscription = await findInvoiceSubscription(client, invoice);
+
+    const userId = subscription?.user_id || await findCustomerUserId(client, invoice);
+
+    if (!userId) {
+      console.warn('[InvoicePaymentFailed] Could not find user_id for invoice, skipping', {
+        customerId: invoice.customer,
+        invoiceId: invoice.id,
+      });
+      return;
+    }
+
+    await recordPaymentFailure(client, userId, subscription, invoice, 'invoice.payment_failed');
+
+    if (!subscription) {
+      // One-off invoice: nothing to dun
+      return;
+    }
+
+    const final = isFinalPaymentAttempt(invoice);
+
+    // Stripe has given up: no grace, access is cut off until the invoice is paid
+    await startDunning(client, subscription, { grace: !final });
+    if (final) {
+      await suspendEntitlements(client, subscription.id, 'payment_retries_exhausted');
+    }
+
+    console.log('[InvoicePaymentFailed] Successfully processed payment failure', {
+      userId,
+      invoiceId: invoice.id,
+      subscriptionId: subscription.stripe_subscription_id,
+      final,
+    });
+  } catch (error) {
+    console.error('[InvoicePaymentFailed] Error processing invoice payment failed event:', error);
+    throw new Error(`Invoice payment failed handler failed: ${(error as Error).message}`);
+  }
+}
@@ -146,13 +146,14 @@ async function revokeAccess(
 
     // Update entitlements to revoked status
     if (productId) {
+      // All entitlements of the subscription (the purchaser's, or every assigned team seat)
       await client.query(
         `
         UPDATE entitlements
         SET status = 'revoked', updated_at = NOW()
-        WHERE user_id = $1 AND product_id = $2 AND subscription_id = $3
+        WHERE product_id = $1 AND subscription_id = $2
         `,
-        [userId, productId, internalSubId]
+        [productId, internalSubId]
       );
     }
 
@@ -0,0 +1,69 @@
+/**
+ * Subscription Paused Event Handler
+ *
+ * Handles the customer.subscription.paused webhook event from Stripe.
+ * Marks the subscription as paused and suspends access to product/service.
+ *
+ * Workflow:
+ * 1. Update subscription status to 'paused'
+ * 2. Suspend the subscription's active entitlements
+ *
+ * @module billing/webhook/events/subscriptionPaused
+ */
+
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import { suspendEntitlements } from '../dunning.js';
+
+/**
+ * Handle customer.subscription.paused webhook event
+ *
+ * This event is triggered when:
+ * - A trial ends without a payment method (trial_settings.end_behavior = pause)
+ * - The subscription is paused through the API
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param subscription - Stripe Subscription object
+ *
+ * @throws {Error} If database operations fail
+ */
+export async function handleSubscriptionPaused(
+  client: PoolClient,
+  subscription: Stripe.Subscription
+): Promise<void> {
+  console.log('[SubscriptionPaused] Processing customer.subscription.paused event', {
+    subscriptionId: subscription.id,
+    customerId: subscription.customer,
+  });
+
+  try {
+    const result = await client.query(
+      `
+      UPDATE subscriptions
+      SET status = 'paused', updated_at = NOW()
+      WHERE stripe_subscription_id = $1
+      RETURNING id, user_id
+      `,
+      [subscription.id]
+    );
+
+    if (!result.rows.length) {
+      console.warn('[SubscriptionPaused] Subscription not found in database', {
+        subscriptionId: subscription.id,
+      });
+      return;
+    }
+
+    const { id: internalSubId, user_id: userId } = result.rows[0];
+
+    await suspendEntitlements(client, internalSubId, 'subscription_paused');
+
+    console.log('[SubscriptionPaused] Successfully processed subscription pause', {
+      userId,
+      subscriptionId: subscription.id,
+    });
+  } catch (error) {
+    console.error('[SubscriptionPaused] Error processing subscription paused event:', error);
+    throw new Error(`Subscription paused handler failed: ${(error as Error).message}`);
+  }
+}
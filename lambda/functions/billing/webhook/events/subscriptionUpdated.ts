@@ -9,6 +9,10 @@
  * 2. Update subscription record in database
  * 3. Handle plan changes (upgrades/downgrades)
  * 4. Update cancellation status if changed
+ * 5. Move entitlements into the grace period (past_due) or back out of it
+ * 6. Sync subscription items (base plan, metered price, add-ons) and add-on limits
+ * 7. Team subscriptions: sync the seat quantity; seat entitlements follow plan changes
+ * 8. Mark a scheduled (period-end) plan change applied once the plan switched
  *
  * @module billing/webhook/events/subscriptionUpdated
  */
@@ -16,6 +20,8 @@
 import { PoolClient } from 'pg';
 import type Stripe from 'stripe';
 import type { SubscriptionStatus } from '../../types';
+import { enterGrace, exitGrace, markDunningStarted, suspendEntitlements } from '../dunning.js';
+import { findBasePlan, syncSubscriptionItems } from '../subscriptionItems.js';
 
 /**
  * Handle customer.subscription.updated webhook event
@@ -89,26 +95,21 @@ async function updateSubscription(
     : null;
   const cancelAtPeriodEnd = subscription.cancel_at_period_end;
 
-  // Extract price_id from subscription items
-  // Assuming single-item subscriptions for simplicity
-  const firstItem = subscription.items.data[0];
-  const priceId = firstItem?.price.id;
-
-  // Look up plan_id from stripe_price_id
-  let planId: string | null = null;
-  if (priceId) {
-    const planResult = await client.query(
-      `SELECT id FROM plans WHERE stripe_price_id = $1`,
-      [priceId]
-    );
-    if (planResult.rows.length > 0) {
-      planId = planResult.rows[0].id;
-    }
-  }
+  // Look up plan_id from the base plan item (other items are metered prices or add-ons)
+  const basePlan = await findBasePlan(client, subscription);
+  const planId = basePlan?.planId ?? null;
+  // Price version of the base item (grandfathered subscriptions stay on older versions)
+  const planVersionId = basePlan?.planVersionId ?? null;
+  const priceId = basePlan?.priceId;
+  // Seats are the quantity of the base plan item
+  const seatQuantity = basePlan?.quantity ?? null;
+  // Currency the subscription is billed in (the plan currency or an additional currency)
+  const currency = subscription.currency ? subscription.currency.toUpperCase() : null;
+  const metadataTeamId = subscription.metadata?.['team_id'] || null;
 
   // Check if subscription exists
   const existing = await client.query(
-    `SELECT id, plan_id FROM subscriptions WHERE stripe_subscription_id = $1`,
+    `SELECT id, plan_id, team_id FROM subscriptions WHERE stripe_subscription_id = $1`,
     [subscription.id]
   );
 
@@ -119,10 +120,14 @@ async function updateSubscription(
       UPDATE subscriptions
       SET
         plan_id = COALESCE($1, plan_id),
+        plan_version_id = CASE WHEN $1::uuid IS NULL THEN plan_version_id ELSE $9::uuid END,
         status = $2,
         current_period_start = $3,
         current_period_end = $4,
         cancel_at_period_end = $5,
+        seat_quantity = COALESCE($7, seat_quantity),
+        team_id = COALESCE(team_id, $8),
+        currency = COALESCE($10, currency),
         updated_at = NOW()
       WHERE stripe_subscription_id = $6
       `,
@@ -133,6 +138,10 @@ async function updateSubscription(
         periodEnd,
         cancelAtPeriodEnd,
         subscription.id,
+        seatQuantity,
+        metadataTeamId,
+        planVersionId,
+        currency,
       ]
     );
 
@@ -143,10 +152,35 @@ async function updateSubscription(
       planId,
     });
 
+    const internalSubId = existing.rows[0].id;
+    const teamId = existing.rows[0].team_id || metadataTeamId;
+
     // Create or update entitlement if subscription is active or trialing
+    // (team subscriptions grant entitlements per assigned seat instead)
     if (status === 'active' || status === 'trialing') {
-      const internalSubId = existing.rows[0].id;
-      await createOrUpdateEntitlement(client, userId, existing.rows[0].plan_id || planId, internalSubId);
+      await exitGrace(client, internalSubId);
+      if (teamId) {
+        await syncTeamSeats(client, internalSubId, planId, seatQuantity);
+      } else {
+        await createOrUpdateEntitlement(client, userId, planId || existing.rows[0].plan_id, internalSubId);
+      }
+    }
+
+    // Payment is past due: keep access during the plan's grace period
+    if (status === 'past_due') {
+      await enterGrace(client, internalSubId);
+    }
+
+    // Stripe marks the subscription unpaid when it gives up retrying payment
+    if (status === 'unpaid') {
+      await markDunningStarted(client, internalSubId);
+      await suspendEntitlements(client, internalSubId, 'subscription_unpaid');
+    }
+
+    await syncSubscriptionItems(client, internalSubId, subscription);
+
+    if (planId && planId !== existing.rows[0].plan_id) {
+      await markScheduledChangeApplied(client, internalSubId, planId);
     }
   } else {
     // Create new subscription (in case checkout.session.completed was missed)
@@ -194,10 +228,14 @@ async function updateSubscription(
         current_period_start,
         current_period_end,
         cancel_at_period_end,
+        team_id,
+        seat_quantity,
+        plan_version_id,
+        currency,
         created_at,
         updated_at
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW(), NOW())
       RETURNING id
       `,
       [
@@ -210,6 +248,10 @@ async function updateSubscription(
         periodStart,
         periodEnd,
         cancelAtPeriodEnd,
+        metadataTeamId,
+        seatQuantity ?? 1,
+        planId ? planVersionId : null,
+        currency,
       ]
     );
 
@@ -219,16 +261,20 @@ async function updateSubscription(
       status,
       tenantId,
       planId: finalPlanId,
+      teamId: metadataTeamId,
     });
 
     // Create entitlement if subscription is active or trialing
-    if (status === 'active' || status === 'trialing') {
+    // (team subscriptions grant entitlements when seats are assigned)
+    if (!metadataTeamId && (status === 'active' || status === 'trialing')) {
       await createOrUpdateEntitlement(client, userId, finalPlanId, result.rows[0].id);
     }
+
+    await syncSubscriptionItems(client, result.rows[0].id, subscription);
   }
 
   // Log plan change if applicable
-  if (firstItem && priceId) {
+  if (priceId) {
     logPlanChange(subscription.id, priceId, status);
   }
 }
@@ -268,10 +314,20 @@ async function createOrUpdateEntitlement(
 
   if (existingEntitlement.rows.length > 0) {
     // Update existing entitlement
+    // A credit-only entitlement (credit pack, quota 0) takes the plan's quota
     await client.query(
       `
       UPDATE entitlements
-      SET plan_id = $1, subscription_id = $2, updated_at = NOW()
+      SET plan_id = $1,
+          subscription_id = $2,
+          plan_version_id = (SELECT plan_version_id FROM subscriptions WHERE id = $2),
+          usage_limit = CASE
+            WHEN subscription_id IS NULL
+              AND plan_id IN (SELECT id FROM plans WHERE billing_period = 'one_time')
+            THEN NULL
+            ELSE usage_limit
+          END,
+          updated_at = NOW()
       WHERE user_id = $3 AND product_id = $4 AND status = 'active'
       `,
       [planId, subscriptionId, userId, productId]
@@ -280,8 +336,8 @@ async function createOrUpdateEntitlement(
     // Insert new entitlement
     await client.query(
       `
-      INSERT INTO entitlements (user_id, product_id, plan_id, subscription_id, status)
-      VALUES ($1, $2, $3, $4, 'active')
+      INSERT INTO entitlements (user_id, product_id, plan_id, subscription_id, plan_version_id, status)
+      VALUES ($1, $2, $3, $4, (SELECT plan_version_id FROM subscriptions WHERE id = $4), 'active')
       `,
       [userId, productId, planId, subscriptionId]
     );
@@ -295,6 +351,86 @@ async function createOrUpdateEntitlement(
   });
 }
 
+/**
+ * Sync the seat entitlements of a team subscription
+ * Assigned seats follow plan changes. Seats are only unassigned through the
+ * Teams API, so a quantity below the assigned seats is logged for follow-up.
+ */
+async function syncTeamSeats(
+  client: PoolClient,
+  subscriptionId: string,
+  planId: string | null,
+  seatQuantity: number | null
+): Promise<void> {
+  if (planId) {
+    await client.query(
+      `
+      UPDATE entitlements e
+      SET plan_id = $1, plan_version_id = s.plan_version_id, updated_at = NOW()
+      FROM subscriptions s
+      WHERE e.subscription_id = $2
+        AND s.id = e.subscription_id
+        AND e.status IN ('active', 'grace')
+        AND (e.plan_id IS DISTINCT FROM $1 OR e.plan_version_id IS DISTINCT FROM s.plan_version_id)
+      `,
+      [planId, subscriptionId]
+    );
+  }
+
+  const assigned = await client.query<{ count: string }>(
+    `
+    SELECT COUNT(*) as count
+    FROM entitlements
+    WHERE subscription_id = $1 AND status IN ('active', 'grace')
+    `,
+    [subscriptionId]
+  );
+  const assignedSeats = parseInt(assigned.rows[0]?.count || '0');
+
+  if (seatQuantity !== null && assignedSeats > seatQuantity) {
+    console.warn('[SubscriptionUpdated] More seats assigned than purchased', {
+      subscriptionId,
+      seatQuantity,
+      assignedSeats,
+    });
+  }
+
+  console.log('[SubscriptionUpdated] Team seats synced', {
+    subscriptionId,
+    planId,
+    seatQuantity,
+    assignedSeats,
+  });
+}
+
+/**
+ * Mark the scheduled plan change of a subscription applied
+ * Stripe switches the price at renewal through the subscription schedule.
+ */
+async function markScheduledChangeApplied(
+  client: PoolClient,
+  subscriptionId: string,
+  planId: string
+): Promise<void> {
+  const result = await client.query(
+    `
+    UPDATE scheduled_plan_changes
+    SET status = 'applied', applied_at = NOW()
+    WHERE subscription_id = $1 AND status = 'scheduled' AND to_plan_id = $2
+    RETURNING stripe_schedule_id
+    `,
+    [subscriptionId, planId]
+  );
+
+  if (result.rows.length > 0) {
+    console.log('[SubscriptionUpdated] Scheduled plan change applied', {
+      subscriptionId,
+      planId,
+      scheduleId: result.rows[0].stripe_schedule_id,
+    });
+  }
+}
+
 /**
  * Log plan changes for analytics and debugging
  */
@@ -8,7 +8,8 @@
  * - Stripe signature verification for security
  * - Database-level idempotency using processed_webhooks table
  * - Transaction-based processing (all-or-nothing)
- * - Event routing to specialized handlers
+ * - Event routing to specialized handlers (see processor.ts)
+ * - Failed events stored in failed_webhooks for admin replay
  * - Comprehensive error handling and logging
  *
  * Reference: Section 7.4.1 - Webhook冪等性保証
@@ -17,13 +18,8 @@
  */
 
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
-import { initializeDatabase } from '../../../shared/db/index.js';
 import { getStripeClient, getWebhookSecret } from '../stripe.js';
-import { checkIdempotency } from './idempotency.js';
-import { handleCheckoutCompleted } from './events/checkoutCompleted.js';
-import { handleInvoicePaid } from './events/invoicePaid.js';
-import { handleSubscriptionUpdated } from './events/subscriptionUpdated.js';
-import { handleSubscriptionDeleted } from './events/subscriptionDeleted.js';
+import { processWebhookEvent } from './processor.js';
 
 /**
  * Stripe Webhook Handler
@@ -84,163 +80,22 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     eventType: stripeEvent.type,
   });
 
-  // Initialize database and process webhook event with transaction and idempotency
-  const pool = await initializeDatabase();
-  const client = await pool.connect();
   try {
-    await client.query('BEGIN');
-
-    // Idempotency check - skip if already processed
-    const isNew = await checkIdempotency(client, stripeEvent.id, stripeEvent.type);
-    if (!isNew) {
-      await client.query('ROLLBACK');
-      console.log('[WebhookHandler] Event already processed (idempotent skip)', {
-        eventId: stripeEvent.id,
-      });
-      return {
-        statusCode: 200,
-        body: JSON.stringify({ message: 'Already processed' }),
-      };
-    }
-
-    // Route event to appropriate handler
-    await routeEvent(client, stripeEvent);
-
-    // Commit transaction
-    await client.query('COMMIT');
-
-    console.log('[WebhookHandler] Successfully processed webhook event', {
-      eventId: stripeEvent.id,
-      eventType: stripeEvent.type,
-    });
+    const result = await processWebhookEvent(stripeEvent);
 
     return {
       statusCode: 200,
-      body: JSON.stringify({ message: 'OK' }),
+      body: JSON.stringify({ message: result === 'duplicate' ? 'Already processed' : 'OK' }),
     };
   } catch (error) {
-    // Rollback transaction on error
-    await client.query('ROLLBACK');
-
-    console.error('[WebhookHandler] Error processing webhook event:', {
-      eventId: stripeEvent.id,
-      eventType: stripeEvent.type,
-      error: (error as Error).message,
-      stack: (error as Error).stack,
-    });
-
+    // Already rolled back and recorded in failed_webhooks; Stripe will retry
     return {
       statusCode: 500,
       body: JSON.stringify({ error: 'Internal error' }),
     };
-  } finally {
-    client.release();
   }
 };
 
-/**
- * Check if product exists in our database
- * Used to filter webhooks to only process events for our products
- */
-async function isAllowedProduct(client: any, productId: string | undefined): Promise<boolean> {
-  if (!productId) return false;
-
-  const result = await client.query(
-    'SELECT 1 FROM products WHERE id = $1 LIMIT 1',
-    [productId]
-  );
-  return result.rowCount > 0;
-}
-
-/**
- * Extract product_id from Stripe event data
- */
-function extractProductId(stripeEvent: any): string | undefined {
-  const data = stripeEvent.data.object;
-
-  // Check metadata first (set during checkout creation)
-  if (data.metadata?.product_id) {
-    return data.metadata.product_id;
-  }
-
-  // For subscriptions, check subscription metadata
-  if (data.subscription_details?.metadata?.product_id) {
-    return data.subscription_details.metadata.product_id;
-  }
-
-  // For invoices, check subscription metadata or lines
-  if (data.subscription && typeof data.subscription === 'object') {
-    return data.subscription.metadata?.product_id;
-  }
-
-  return undefined;
-}
-
-/**
- * Route Stripe event to appropriate handler
- *
- * Supported event types:
- * - checkout.session.completed: Customer completes checkout
- * - invoice.paid: Subscription payment succeeds
- * - customer.subscription.created: New subscription created
- * - customer.subscription.updated: Subscription details change
- * - customer.subscription.deleted: Subscription is canceled
- *
- * @param client - PostgreSQL client (in active transaction)
- * @param stripeEvent - Verified Stripe event
- */
-async function routeEvent(client: any, stripeEvent: any): Promise<void> {
-  // Extract and validate product_id
-  const productId = extractProductId(stripeEvent);
-
-  // Check if this product belongs to us
-  const isAllowed = await isAllowedProduct(client, productId);
-  if (!isAllowed) {
-    console.log('[WebhookHandler] Skipping event - product not in our database', {
-      eventType: stripeEvent.type,
-      eventId: stripeEvent.id,
-      productId: productId || 'not found',
-    });
-    return;
-  }
-
-  console.log('[WebhookHandler] Processing event for product', {
-    eventType: stripeEvent.type,
-    productId,
-  });
-
-  switch (stripeEvent.type) {
-    case 'checkout.session.completed':
-      await handleCheckoutCompleted(client, stripeEvent.data.object);
-      break;
-
-    case 'invoice.paid':
-      await handleInvoicePaid(client, stripeEvent.data.object);
-      break;
-
-    case 'customer.subscription.created':
-      // Treat created the same as updated - creates entitlement
-      await handleSubscriptionUpdated(client, stripeEvent.data.object);
-      break;
-
-    case 'customer.subscription.updated':
-      await handleSubscriptionUpdated(client, stripeEvent.data.object);
-      break;
-
-    case 'customer.subscription.deleted':
-      await handleSubscriptionDeleted(client, stripeEvent.data.object);
-      break;
-
-    default:
-      console.log('[WebhookHandler] Unhandled event type (skipping)', {
-        eventType: stripeEvent.type,
-        eventId: stripeEvent.id,
-      });
-      // Don't throw error - we still mark as processed to avoid retries
-      break;
-  }
-}
-
 /**
  * Graceful shutdown handler
  * Closes database pool when Lambda container is terminated
@@ -0,0 +1,226 @@
+/**
+ * Webhook Event Processor
+ *
+ * Processes a verified Stripe event inside a transaction behind the
+ * processed_webhooks idempotency check. Shared by the webhook endpoint and
+ * the admin replay API so both take exactly the same path.
+ *
+ * Failed events are rolled back and stored in failed_webhooks (dead-letter);
+ * a later successful run (Stripe retry or admin replay) marks them recovered.
+ *
+ * Reference: Section 7.4.1 - Webhook冪等性保証
+ *
+ * @module billing/webhook/processor
+ */
+
+import { initializeDatabase } from '../../../shared/db/index.js';
+import { checkIdempotency } from './idempotency.js';
+import { recordFailedWebhook, markFailedWebhookRecovered } from './deadLetter.js';
+import { handleCheckoutCompleted } from './events/checkoutCompleted.js';
+import { handleInvoiceCreated } from './events/invoiceCreated.js';
+import { handleInvoicePaid } from './events/invoicePaid.js';
+import { handleInvoicePaymentFailed } from './events/invoicePaymentFailed.js';
+import { handleInvoicePaymentActionRequired } from './events/invoicePaymentActionRequired.js';
+import { handleSubscriptionUpdated } from './events/subscriptionUpdated.js';
+import { handleSubscriptionDeleted } from './events/subscriptionDeleted.js';
+import { handleSubscriptionPaused } from './events/subscriptionPaused.js';
+
+/**
+ * Result of processing a Stripe event
+ * - processed: handlers ran and the transaction committed
+ * - duplicate: event was already processed (idempotent skip)
+ */
+export type ProcessResult = 'processed' | 'duplicate';
+
+/**
+ * Process a verified Stripe event
+ *
+ * 1. BEGIN and register the event in processed_webhooks (idempotency)
+ * 2. Route the event to its handler
+ * 3. Mark a previous dead-letter entry recovered and COMMIT
+ *
+ * On error the transaction is rolled back (so the event can be retried),
+ * the failure is recorded in failed_webhooks and the error is rethrown.
+ *
+ * @param stripeEvent - Verified Stripe event
+ * @param options.replay - true when invoked from the admin replay API
+ * @returns Processing result
+ */
+export async function processWebhookEvent(
+  stripeEvent: any,
+  options: { replay?: boolean } = {}
+): Promise<ProcessResult> {
+  const pool = await initializeDatabase();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Idempotency check - skip if already processed
+    const isNew = await checkIdempotency(client, stripeEvent.id, stripeEvent.type);
+    if (!isNew) {
+      await client.query('ROLLBACK');
+      console.log('[WebhookProcessor] Event already processed (idempotent skip)', {
+        eventId: stripeEvent.id,
+      });
+      return 'duplicate';
+    }
+
+    // Route event to appropriate handler
+    await routeEvent(client, stripeEvent);
+
+    await markFailedWebhookRecovered(
+      client,
+      stripeEvent.id,
+      options.replay ? 'replayed' : 'resolved'
+    );
+
+    // Commit transaction
+    await client.query('COMMIT');
+
+    console.log('[WebhookProcessor] Successfully processed webhook event', {
+      eventId: stripeEvent.id,
+      eventType: stripeEvent.type,
+      replay: options.replay || false,
+    });
+
+    return 'processed';
+  } catch (error) {
+    // Rollback transaction on error
+    await client.query('ROLLBACK');
+
+    console.error('[WebhookProcessor] Error processing webhook event:', {
+      eventId: stripeEvent.id,
+      eventType: stripeEvent.type,
+      error: (error as Error).message,
+      stack: (error as Error).stack,
+    });
+
+    await recordFailedWebhook(stripeEvent, error as Error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Check if product exists in our database
+ * Used to filter webhooks to only process events for our products
+ */
+async function isAllowedProduct(client: any, productId: string | undefined): Promise<boolean> {
+  if (!productId) return false;
+
+  const result = await client.query(
+    'SELECT 1 FROM products WHERE id = $1 LIMIT 1',
+    [productId]
+  );
+  return result.rowCount > 0;
+}
+
+/**
+ * Extract product_id from Stripe event data
+ */
+function extractProductId(stripeEvent: any): string | undefined {
+  const data = stripeEvent.data.object;
+
+  // Check metadata first (set during checkout creation)
+  if (data.metadata?.product_id) {
+    return data.metadata.product_id;
+  }
+
+  // For subscriptions, check subscription metadata
+  if (data.subscription_details?.metadata?.product_id) {
+    return data.subscription_details.metadata.product_id;
+  }
+
+  // For invoices, check subscription metadata or lines
+  if (data.subscription && typeof data.subscription === 'object') {
+    return data.subscription.metadata?.product_id;
+  }
+
+  return undefined;
+}
+
+/**
+ * Route Stripe event to appropriate handler
+ *
+ * Supported event types:
+ * - checkout.session.completed: Customer completes checkout
+ * - invoice.created: Draft invoice created (adds the invoice issuer)
+ * - invoice.paid: Subscription payment succeeds
+ * - invoice.payment_failed: Subscription payment fails (dunning)
+ * - invoice.payment_action_required: Payment needs customer authentication (dunning)
+ * - customer.subscription.created: New subscription created
+ * - customer.subscription.updated: Subscription details change
+ * - customer.subscription.deleted: Subscription is canceled
+ * - customer.subscription.paused: Subscription is paused
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param stripeEvent - Verified Stripe event
+ */
+export async function routeEvent(client: any, stripeEvent: any): Promise<void> {
+  // Extract and validate product_id
+  const productId = extractProductId(stripeEvent);
+
+  // Check if this product belongs to us
+  const isAllowed = await isAllowedProduct(client, productId);
+  if (!isAllowed) {
+    console.log('[WebhookProcessor] Skipping event - product not in our database', {
+      eventType: stripeEvent.type,
+      eventId: stripeEvent.id,
+      productId: productId || 'not found',
+    });
+    return;
+  }
+
+  console.log('[WebhookProcessor] Processing event for product', {
+    eventType: stripeEvent.type,
+    productId,
+  });
+
+  switch (stripeEvent.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(client, stripeEvent.data.object);
+      break;
+
+    case 'invoice.created':
+      await handleInvoiceCreated(client, stripeEvent.data.object);
+      break;
+
+    case 'invoice.paid':
+      await handleInvoicePaid(client, stripeEvent.data.object);
+      break;
+
+    case 'invoice.payment_failed':
+      await handleInvoicePaymentFailed(client, stripeEvent.data.object);
+      break;
+
+    case 'invoice.payment_action_required':
+      await handleInvoicePaymentActionRequired(client, stripeEvent.data.object);
+      break;
+
+    case 'customer.subscription.created':
+      // Treat created the same as updated - creates entitlement
+      await handleSubscriptionUpdated(client, stripeEvent.data.object);
+      break;
+
+    case 'customer.subscription.updated':
+      await handleSubscriptionUpdated(client, stripeEvent.data.object);
+      break;
+
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(client, stripeEvent.data.object);
+      break;
+
+    case 'customer.subscription.paused':
+      await handleSubscriptionPaused(client, stripeEvent.data.object);
+      break;
+
+    default:
+      console.log('[WebhookProcessor] Unhandled event type (skipping)', {
+        eventType: stripeEvent.type,
+        eventId: stripeEvent.id,
+      });
+      // Don't throw error - we still mark as processed to avoid retries
+      break;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Subscription Items
+ *
+ * Maps every item of a Stripe subscription to the catalog:
+ * - plan: base plan price (plan_versions.stripe_price_id, any version)
+ * - metered: metered overage price (plans.metered_price_id)
+ * - addon: add-on price (plan_addons.stripe_price_id)
+ *
+ * Items are mirrored in subscription_items, and the add-on limits
+ * (plan_addons.limits x quantity) are summed into entitlements.addon_limits
+ * so usage checks see base plan + add-ons.
+ *
+ * @module billing/webhook/subscriptionItems
+ */
+
+import { PoolClient } from 'pg';
+import type Stripe from 'stripe';
+import type { AddonLimits, SubscriptionItemType } from '../types.js';
+
+/**
+ * Catalog row a subscription item maps to
+ */
+interface ResolvedItem {
+  item_type: SubscriptionItemType;
+  plan_id: string | null;
+  addon_id: string | null;
+}
+
+/**
+ * Find the base plan of a subscription
+ * The base plan is the item whose price is a Stripe Price of a plan version,
+ * in the plan currency or an additional currency (grandfathered
+ * subscriptions keep an older version's price; item order is
+ * not significant once add-ons are attached).
+ *
+ * @returns Plan ID, plan version, price and quantity (seats), or null if no item matches a plan
+ */
+export async function findBasePlan(
+  client: PoolClient,
+  subscription: Stripe.Subscription
+): Promise<{ planId: string; planVersionId: string | null; priceId: string; quantity: number } | null> {
+  const priceIds = subscription.items.data.map((item) => item.price.id);
+  if (priceIds.length === 0) {
+    return null;
+  }
+
+  // Plans without versions (e.g. seeded with a Stripe Price directly) match on the plan itself
+  const result = await client.query<{ id: string; version_id: string | null; stripe_price_id: string }>(
+    `
+    SELECT plan_id as id, id as version_id, stripe_price_id
+    FROM plan_versions
+    WHERE stripe_price_id = ANY($1::text[])
+    UNION ALL
+    SELECT plan_id, plan_version_id, stripe_price_id
+    FROM plan_prices
+    WHERE stripe_price_id = ANY($1::text[])
+    UNION ALL
+    SELECT id, NULL, stripe_price_id
+    FROM plans
+    WHERE stripe_price_id = ANY($1::text[]) AND current_version_id IS NULL
+    `,
+    [priceIds]
+  );
+
+  // Follow the subscription's item order when several items match
+  for (const item of subscription.items.data) {
+    const plan = result.rows.find((row) => row.stripe_price_id === item.price.id);
+    if (plan) {
+      return {
+        planId: plan.id,
+        planVersionId: plan.version_id,
+        priceId: item.price.id,
+        quantity: item.quantity ?? 1,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the catalog row for a Stripe price
+ */
+async function resolveItem(client: PoolClient, priceId: string): Promise<ResolvedItem> {
+  const plan = await client.query(
+    `
+    SELECT plan_id as id, true as is_base FROM plan_versions WHERE stripe_price_id = $1
+    UNION ALL
+    SELECT plan_id, true FROM plan_prices WHERE stripe_price_id = $1
+    UNION ALL
+    SELECT id, stripe_price_id = $1 as is_base
+    FROM plans
+    WHERE stripe_price_id = $1 OR metered_price_id = $1
+    LIMIT 1
+    `,
+    [priceId]
+  );
+  if (plan.rows.length > 0) {
+    return {
+      item_type: plan.rows[0].is_base ? 'plan' : 'metered',
+      plan_id: plan.rows[0].id,
+      addon_id: null,
+    };
+  }
+
+  const addon = await client.query(
+    `SELECT id, plan_id FROM plan_addons WHERE stripe_price_id = $1`,
+    [priceId]
+  );
+  if (addon.rows.length > 0) {
+    return { item_type: 'addon', plan_id: addon.rows[0].plan_id, addon_id: addon.rows[0].id };
+  }
+
+  return { item_type: 'unknown', plan_id: null, addon_id: null };
+}
+
+/**
+ * Sum add-on limits over purchased quantities
+ */
+export function sumAddonLimits(
+  addons: Array<{ limits: AddonLimits | null; quantity: number }>
+): AddonLimits {
+  const total: AddonLimits = {};
+
+  for (const { limits, quantity } of addons) {
+    if (limits?.usage_limit) {
+      total.usage_limit = (total.usage_limit || 0) + limits.usage_limit * quantity;
+    }
+    for (const [meter, limit] of Object.entries(limits?.meters || {})) {
+      total.meters = total.meters || {};
+      total.meters[meter] = (total.meters[meter] || 0) + limit * quantity;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Recalculate entitlements.addon_limits of a subscription's entitlements
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param subscriptionId - Internal subscription ID
+ */
+export async function updateEntitlementAddonLimits(
+  client: PoolClient,
+  subscriptionId: string
+): Promise<void> {
+  const addons = await client.query(
+    `
+    SELECT a.limits, si.quantity
+    FROM subscription_items si
+    JOIN plan_addons a ON si.addon_id = a.id
+    WHERE si.subscription_id = $1
+    `,
+    [subscriptionId]
+  );
+
+  const addonLimits = sumAddonLimits(addons.rows);
+
+  await client.query(
+    `
+    UPDATE entitlements
+    SET addon_limits = $2, updated_at = NOW()
+    WHERE subscription_id = $1 AND status IN ('active', 'grace', 'suspended')
+    `,
+    [subscriptionId, JSON.stringify(addonLimits)]
+  );
+
+  console.log('[SubscriptionItems] Entitlement add-on limits updated', {
+    subscriptionId,
+    addonLimits,
+  });
+}
+
+/**
+ * Mirror a Stripe subscription's items into subscription_items
+ * and update the add-on limits of its entitlements
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param subscriptionId - Internal subscription ID
+ * @param subscription - Stripe Subscription object
+ */
+export async function syncSubscriptionItems(
+  client: PoolClient,
+  subscriptionId: string,
+  subscription: Stripe.Subscription
+): Promise<void> {
+  const items = subscription.items?.data || [];
+
+  for (const item of items) {
+    const resolved = await resolveItem(client, item.price.id);
+
+    if (resolved.item_type === 'unknown') {
+      console.warn('[SubscriptionItems] Subscription item price not in catalog', {
+        subscriptionId: subscription.id,
+        itemId: item.id,
+        priceId: item.price.id,
+      });
+    }
+
+    await client.query(
+      `
+      INSERT INTO subscription_items (
+        subscription_id, stripe_subscription_item_id, stripe_price_id,
+        item_type, plan_id, addon_id, quantity
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (stripe_subscription_item_id)
+      DO UPDATE SET
+        stripe_price_id = EXCLUDED.stripe_price_id,
+        item_type = EXCLUDED.item_type,
+        plan_id = EXCLUDED.plan_id,
+        addon_id = EXCLUDED.addon_id,
+        quantity = EXCLUDED.quantity
+      `,
+      [
+        subscriptionId,
+        item.id,
+        item.price.id,
+        resolved.item_type,
+        resolved.plan_id,
+        resolved.addon_id,
+        // Metered items have no quantity
+        item.quantity ?? 1,
+      ]
+    );
+  }
+
+  // Items removed from the subscription
+  await client.query(
+    `
+    DELETE FROM subscription_items
+    WHERE subscription_id = $1 AND NOT (stripe_subscription_item_id = ANY($2::text[]))
+    `,
+    [subscriptionId, items.map((item) => item.id)]
+  );
+
+  await updateEntitlementAddonLimits(client, subscriptionId);
+}
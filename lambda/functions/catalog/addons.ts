@@ -0,0 +1,459 @@
+/**
+ * Plan Add-on Management Functions
+ * Handles CRUD operations for add-on prices attached to a plan
+ * (sold as extra subscription items on top of the base plan)
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import Stripe from 'stripe';
+import { query, transaction } from '../../shared/db/index.js';
+import { setCacheValue, getCacheValue, deleteCachePattern } from '../../shared/utils/redis.js';
+import { getStripeApiKey } from '../../shared/utils/secrets.js';
+import {
+  PlanRow,
+  PlanAddonRow,
+  PlanAddonLimits,
+  PlanAddonResponse,
+  CreatePlanAddonRequest,
+  UpdatePlanAddonRequest,
+  CatalogCacheKeys,
+  CatalogCacheTTL,
+} from './types.js';
+
+/**
+ * Lazily initialized Stripe client
+ */
+let stripeClient: Stripe | null = null;
+
+/**
+ * Get or initialize Stripe client
+ */
+async function getStripeClient(): Promise<Stripe> {
+  if (!stripeClient) {
+    const apiKey = await getStripeApiKey();
+    stripeClient = new Stripe(apiKey, {
+      apiVersion: '2023-10-16',
+      typescript: true,
+      appInfo: {
+        name: 'CCAGI Catalog Service',
+        version: '1.0.0',
+      },
+    });
+    console.log('[Addons] Stripe client initialized');
+  }
+  return stripeClient;
+}
+
+/**
+ * Converts PlanAddonRow to PlanAddonResponse
+ */
+function toPlanAddonResponse(row: PlanAddonRow): PlanAddonResponse {
+  return {
+    id: row.id,
+    plan_id: row.plan_id,
+    name: row.name,
+    description: row.description,
+    stripe_price_id: row.stripe_price_id,
+    price_amount: row.price_amount,
+    currency: row.currency,
+    limits: row.limits || {},
+    max_quantity: row.max_quantity,
+    is_active: row.is_active,
+    metadata: row.metadata || {},
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Validates add-on limits (non-negative integers)
+ */
+function validateLimits(limits: PlanAddonLimits): string | null {
+  const isCount = (value: unknown): boolean =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+  if (limits.usage_limit !== undefined && !isCount(limits.usage_limit)) {
+    return 'limits.usage_limit must be a non-negative integer';
+  }
+  for (const [meter, limit] of Object.entries(limits.meters || {})) {
+    if (!isCount(limit)) {
+      return `limits.meters.${meter} must be a non-negative integer`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates max_quantity (positive integer or null)
+ */
+function validateMaxQuantity(maxQuantity: number | null | undefined): string | null {
+  if (maxQuantity === undefined || maxQuantity === null) {
+    return null;
+  }
+  if (!Number.isInteger(maxQuantity) || maxQuantity < 1) {
+    return 'max_quantity must be a positive integer';
+  }
+  return null;
+}
+
+/**
+ * Invalidates add-on cache of a plan
+ */
+async function invalidateAddonCache(planId: string): Promise<void> {
+  try {
+    await deleteCachePattern(`${CatalogCacheKeys.planAddons(planId)}*`);
+  } catch (error) {
+    console.warn('[Addons] Failed to invalidate cache:', error);
+  }
+}
+
+/**
+ * 400 Bad Request response
+ */
+function badRequest(message: string): APIGatewayProxyResult {
+  return {
+    statusCode: 400,
+    body: JSON.stringify({
+      error: 'Bad Request',
+      message,
+    }),
+  };
+}
+
+/**
+ * GET /admin/plans/{id}/addons
+ * GET /catalog/plans/{id}/addons (active add-ons only)
+ * List add-ons of a plan
+ */
+export async function listPlanAddons(planId: string, activeOnly = false): Promise<APIGatewayProxyResult> {
+  try {
+    const cacheKey = `${CatalogCacheKeys.planAddons(planId)}:${activeOnly ? 'active' : 'all'}`;
+
+    // Check cache (graceful - don't fail if Redis is unavailable)
+    try {
+      const cached = await getCacheValue<{ items: PlanAddonResponse[] }>(cacheKey);
+      if (cached) {
+        console.log('[Addons] Cache hit for list');
+        return {
+          statusCode: 200,
+          headers: { 'Content-Type': 'application/json', 'X-Cache': 'HIT' },
+          body: JSON.stringify(cached),
+        };
+      }
+    } catch (cacheError) {
+      console.warn('[Addons] Cache read failed, continuing without cache:', cacheError);
+    }
+
+    const planResult = await query<{ id: string }>(
+      'SELECT id FROM plans WHERE id = $1 AND deleted_at IS NULL',
+      [planId]
+    );
+
+    if (planResult.rows.length === 0) {
+      return {
+        statusCode: 404,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Plan not found',
+        }),
+      };
+    }
+
+    const result = await query<PlanAddonRow>(
+      `SELECT * FROM plan_addons
+       WHERE plan_id = $1 AND deleted_at IS NULL
+       ${activeOnly ? 'AND is_active = true' : ''}
+       ORDER BY price_amount ASC, created_at ASC`,
+      [planId]
+    );
+
+    const response = { items: result.rows.map(toPlanAddonResponse) };
+
+    try {
+      await setCacheValue(cacheKey, response, CatalogCacheTTL.PLAN);
+    } catch (cacheError) {
+      console.warn('[Addons] Cache write failed, continuing without cache:', cacheError);
+    }
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json', 'X-Cache': 'MISS' },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('[Addons] List error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to list plan add-ons',
+      }),
+    };
+  }
+}
+
+/**
+ * POST /admin/plans/{id}/addons
+ * Create an add-on with a Stripe Price on the plan's product
+ * The price recurs on the same interval as the plan so it can share the subscription.
+ */
+export async function createPlanAddon(planId: string, body: string): Promise<APIGatewayProxyResult> {
+  try {
+    const request: CreatePlanAddonRequest = JSON.parse(body);
+
+    // Validate required fields
+    if (!request.name || request.price_amount === undefined) {
+      return badRequest('Missing required fields: name, price_amount');
+    }
+
+    if (!Number.isInteger(request.price_amount) || request.price_amount < 0) {
+      return badRequest('price_amount must be a non-negative integer');
+    }
+
+    const validationError = validateLimits(request.limits || {}) || validateMaxQuantity(request.max_quantity);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    // Use transaction so a failed insert does not leave an orphaned add-on row
+    const result = await transaction(async (client) => {
+      const planResult = await client.query<PlanRow & { stripe_product_id: string }>(
+        `SELECT p.*, pr.stripe_product_id
+         FROM plans p
+         JOIN products pr ON p.product_id = pr.id
+         WHERE p.id = $1 AND p.deleted_at IS NULL`,
+        [planId]
+      );
+
+      if (planResult.rows.length === 0) {
+        throw new Error('Plan not found');
+      }
+
+      const plan = planResult.rows[0]!;
+      if (plan.billing_period === 'one_time') {
+        throw new Error('Add-ons require a recurring plan');
+      }
+
+      const stripe = await getStripeClient();
+      const stripePrice = await stripe.prices.create({
+        product: plan.stripe_product_id,
+        unit_amount: request.price_amount,
+        currency: plan.currency.toLowerCase(),
+        nickname: `${plan.name} - ${request.name}`,
+        recurring: {
+          interval: plan.billing_period === 'yearly' ? 'year' : 'month',
+        },
+        metadata: {
+          plan_id: planId,
+          addon_name: request.name,
+        },
+      });
+
+      console.log('[Addons] Stripe Price created:', stripePrice.id);
+
+      const addonResult = await client.query<PlanAddonRow>(
+        `INSERT INTO plan_addons (
+          plan_id, name, description, stripe_price_id, price_amount,
+          currency, limits, max_quantity, is_active, metadata
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING *`,
+        [
+          planId,
+          request.name,
+          request.description || null,
+          stripePrice.id,
+          request.price_amount,
+          plan.currency,
+          JSON.stringify(request.limits || {}),
+          request.max_quantity ?? null,
+          request.is_active ?? true,
+          JSON.stringify(request.metadata || {}),
+        ]
+      );
+
+      return addonResult.rows[0];
+    });
+
+    if (!result) {
+      throw new Error('Failed to create plan add-on');
+    }
+
+    await invalidateAddonCache(planId);
+
+    return {
+      statusCode: 201,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toPlanAddonResponse(result)),
+    };
+  } catch (error) {
+    console.error('[Addons] Create error:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to create plan add-on';
+    const statusCode = errorMessage.includes('not found')
+      ? 404
+      : errorMessage.includes('recurring plan') ? 400 : 500;
+
+    return {
+      statusCode,
+      body: JSON.stringify({
+        error: statusCode === 404 ? 'Not Found' : statusCode === 400 ? 'Bad Request' : 'Internal Server Error',
+        message: errorMessage,
+      }),
+    };
+  }
+}
+
+/**
+ * PUT /admin/plans/{id}/addons/{addonId}
+ * Update an add-on (Stripe Price is immutable, only DB fields updated)
+ * Changed limits are applied to existing subscriptions on their next subscription update.
+ */
+export async function updatePlanAddon(
+  planId: string,
+  addonId: string,
+  body: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const request: UpdatePlanAddonRequest = JSON.parse(body);
+
+    const validationError =
+      (request.limits !== undefined ? validateLimits(request.limits) : null) ||
+      validateMaxQuantity(request.max_quantity);
+    if (validationError) {
+      return badRequest(validationError);
+    }
+
+    // Build dynamic UPDATE query
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramIndex = 1;
+
+    if (request.name !== undefined) {
+      updates.push(`name = $${paramIndex++}`);
+      values.push(request.name);
+    }
+    if (request.description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      values.push(request.description);
+    }
+    if (request.limits !== undefined) {
+      updates.push(`limits = $${paramIndex++}`);
+      values.push(JSON.stringify(request.limits));
+    }
+    if (request.max_quantity !== undefined) {
+      updates.push(`max_quantity = $${paramIndex++}`);
+      values.push(request.max_quantity);
+    }
+    if (request.is_active !== undefined) {
+      updates.push(`is_active = $${paramIndex++}`);
+      values.push(request.is_active);
+    }
+    if (request.metadata !== undefined) {
+      updates.push(`metadata = $${paramIndex++}`);
+      values.push(JSON.stringify(request.metadata));
+    }
+
+    if (updates.length === 0) {
+      return badRequest('No fields to update');
+    }
+
+    values.push(addonId, planId);
+
+    const result = await query<PlanAddonRow>(
+      `UPDATE plan_addons
+       SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND plan_id = $${paramIndex + 1} AND deleted_at IS NULL
+       RETURNING *`,
+      values
+    );
+
+    if (result.rows.length === 0) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Plan add-on not found',
+        }),
+      };
+    }
+
+    await invalidateAddonCache(planId);
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toPlanAddonResponse(result.rows[0]!)),
+    };
+  } catch (error) {
+    console.error('[Addons] Update error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to update plan add-on',
+      }),
+    };
+  }
+}
+
+/**
+ * DELETE /admin/plans/{id}/addons/{addonId}
+ * Soft delete an add-on (archives in Stripe)
+ * Existing subscription items keep their add-on until removed from the subscription.
+ */
+export async function deletePlanAddon(planId: string, addonId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const result = await query<PlanAddonRow>(
+      `UPDATE plan_addons
+       SET deleted_at = CURRENT_TIMESTAMP, is_active = false
+       WHERE id = $1 AND plan_id = $2 AND deleted_at IS NULL
+       RETURNING *`,
+      [addonId, planId]
+    );
+
+    if (result.rows.length === 0) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Plan add-on not found',
+        }),
+      };
+    }
+
+    const addon = result.rows[0]!;
+
+    // Archive Stripe Price
+    try {
+      const stripe = await getStripeClient();
+      await stripe.prices.update(addon.stripe_price_id, { active: false });
+      console.log('[Addons] Stripe Price archived:', addon.stripe_price_id);
+    } catch (stripeError) {
+      console.warn('[Addons] Failed to archive Stripe Price:', stripeError);
+      // Soft delete stands even if Stripe update fails
+    }
+
+    await invalidateAddonCache(planId);
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        success: true,
+        message: 'Plan add-on deleted successfully',
+        id: addonId,
+      }),
+    };
+  } catch (error) {
+    console.error('[Addons] Delete error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to delete plan add-on',
+      }),
+    };
+  }
+}
@@ -1,11 +1,12 @@
 /**
  * Coupon Management Functions
- * Handles CRUD operations for coupons with Stripe integration
+ * Handles CRUD operations for coupons with Stripe integration and
+ * redemption analytics (coupon_redemptions, recorded by the billing webhook)
  */
 
 import { APIGatewayProxyResult } from 'aws-lambda';
 import Stripe from 'stripe';
-import { query, transaction } from '../../shared/db/index.js';
+import { initializeDatabase, query, transaction } from '../../shared/db/index.js';
 import { setCacheValue, getCacheValue, deleteCachePattern } from '../../shared/utils/redis.js';
 import { getStripeApiKey } from '../../shared/utils/secrets.js';
 import {
@@ -16,11 +17,21 @@ import {
   PromotionCodeRow,
   PromotionCodeResponse,
   CreatePromotionCodeRequest,
+  CouponRedemptionRow,
+  CouponRedemptionResponse,
+  CouponRedemptionsResponse,
+  ValidatePromotionCodeRequest,
+  PromotionCodeValidationResponse,
   ListResponse,
   PaginationParams,
   CatalogCacheKeys,
   CatalogCacheTTL,
 } from './types.js';
+import {
+  checkPromotionCode,
+  findDiscountTargetPlan,
+  PROMOTION_CODE_REJECTION_MESSAGES,
+} from '../billing/coupons/validation.js';
 
 /**
  * Lazily initialized Stripe client
@@ -60,6 +71,9 @@ function toCouponResponse(row: CouponRow): CouponResponse {
     duration: row.duration,
     duration_in_months: row.duration_in_months,
     max_redemptions: row.max_redemptions,
+    max_redemptions_per_user: row.max_redemptions_per_user,
+    max_redemptions_per_product: row.max_redemptions_per_product,
+    applies_to_products: row.applies_to_products,
     times_redeemed: row.times_redeemed,
     redeem_by: row.redeem_by ? row.redeem_by.toISOString() : null,
     is_active: row.is_active,
@@ -92,6 +106,34 @@ function toPromotionCodeResponse(row: PromotionCodeRow, coupon?: CouponRow): Pro
   };
 }
 
+/**
+ * Converts CouponRedemptionRow to CouponRedemptionResponse
+ */
+function toCouponRedemptionResponse(row: CouponRedemptionRow): CouponRedemptionResponse {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    email: row.email,
+    product_id: row.product_id,
+    plan_id: row.plan_id,
+    promotion_code: row.promotion_code,
+    stripe_checkout_session_id: row.stripe_checkout_session_id,
+    stripe_subscription_id: row.stripe_subscription_id,
+    currency: row.currency,
+    amount_subtotal: row.amount_subtotal,
+    amount_discount: row.amount_discount,
+    amount_total: row.amount_total,
+    redeemed_at: row.redeemed_at.toISOString(),
+  };
+}
+
+/**
+ * Validates a per-user / per-product redemption cap (null removes the cap on update)
+ */
+function isValidRedemptionCap(value: number | null | undefined): boolean {
+  return value === undefined || value === null || (Number.isInteger(value) && value > 0);
+}
+
 /**
  * Parses pagination parameters from query string
  */
@@ -356,6 +398,18 @@ export async function createCoupon(body: string): Promise<APIGatewayProxyResult>
       };
     }
 
+    // Validate per-user / per-product caps (enforced by checkout, not Stripe)
+    if (!isValidRedemptionCap(request.max_redemptions_per_user) ||
+        !isValidRedemptionCap(request.max_redemptions_per_product)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'max_redemptions_per_user and max_redemptions_per_product must be positive integers',
+        }),
+      };
+    }
+
     // Create Stripe coupon
     const stripe = await getStripeClient();
 
@@ -401,9 +455,10 @@ export async function createCoupon(body: string): Promise<APIGatewayProxyResult>
     const result = await query<CouponRow>(
       `INSERT INTO coupons (
         stripe_coupon_id, name, percent_off, amount_off, currency,
-        duration, duration_in_months, max_redemptions, redeem_by, metadata
+        duration, duration_in_months, max_redemptions, redeem_by, metadata,
+        max_redemptions_per_user, max_redemptions_per_product, applies_to_products
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       RETURNING *`,
       [
         stripeCoupon.id,
@@ -416,6 +471,9 @@ export async function createCoupon(body: string): Promise<APIGatewayProxyResult>
         request.max_redemptions || null,
         request.redeem_by ? new Date(request.redeem_by) : null,
         JSON.stringify(request.metadata || {}),
+        request.max_redemptions_per_user || null,
+        request.max_redemptions_per_product || null,
+        request.applies_to_products && request.applies_to_products.length > 0 ? request.applies_to_products : null,
       ]
     );
 
@@ -464,6 +522,17 @@ export async function updateCoupon(couponId: string, body: string): Promise<APIG
 
     const currentCoupon = currentResult.rows[0]!;
 
+    if (!isValidRedemptionCap(request.max_redemptions_per_user) ||
+        !isValidRedemptionCap(request.max_redemptions_per_product)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'max_redemptions_per_user and max_redemptions_per_product must be positive integers or null',
+        }),
+      };
+    }
+
     // Update Stripe coupon name if changed
     if (request.name && request.name !== currentCoupon.name) {
       const stripe = await getStripeClient();
@@ -486,6 +555,15 @@ export async function updateCoupon(couponId: string, body: string): Promise<APIG
       updates.push(`metadata = $${paramIndex++}`);
       values.push(JSON.stringify(request.metadata));
     }
+    // Redemption caps are local only (Stripe has no per-user / per-product limits)
+    if (request.max_redemptions_per_user !== undefined) {
+      updates.push(`max_redemptions_per_user = $${paramIndex++}`);
+      values.push(request.max_redemptions_per_user);
+    }
+    if (request.max_redemptions_per_product !== undefined) {
+      updates.push(`max_redemptions_per_product = $${paramIndex++}`);
+      values.push(request.max_redemptions_per_product);
+    }
 
     if (updates.length === 0) {
       return {
@@ -573,6 +651,114 @@ export async function deleteCoupon(couponId: string): Promise<APIGatewayProxyRes
   }
 }
 
+// ============================================
+// Coupon Redemption Analytics
+// ============================================
+
+/**
+ * GET /admin/coupons/{id}/redemptions
+ * Redemption totals (per currency and product) and the redeeming users, newest first
+ */
+export async function getCouponRedemptions(
+  couponId: string,
+  queryParams: Record<string, string | undefined> | null
+): Promise<APIGatewayProxyResult> {
+  try {
+    const { page, per_page, offset } = parsePaginationParams(queryParams);
+
+    // Deleted coupons keep their history
+    const couponResult = await query<{ id: string }>('SELECT id FROM coupons WHERE id = $1', [couponId]);
+    if (couponResult.rows.length === 0) {
+      return {
+        statusCode: 404,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ error: 'Not Found', message: 'Coupon not found' }),
+      };
+    }
+
+    // Amounts of different currencies cannot be added up
+    const totalsResult = await query<{
+      currency: string;
+      redemptions: string;
+      unique_users: string;
+      amount_discount: string;
+      amount_total: string;
+    }>(
+      `SELECT
+         currency,
+         COUNT(*) as redemptions,
+         COUNT(DISTINCT user_id) as unique_users,
+         COALESCE(SUM(amount_discount), 0) as amount_discount,
+         COALESCE(SUM(amount_total), 0) as amount_total
+       FROM coupon_redemptions
+       WHERE coupon_id = $1
+       GROUP BY currency
+       ORDER BY currency`,
+      [couponId]
+    );
+
+    const byProductResult = await query<{ product_id: string | null; redemptions: string }>(
+      `SELECT product_id, COUNT(*) as redemptions
+       FROM coupon_redemptions
+       WHERE coupon_id = $1
+       GROUP BY product_id
+       ORDER BY COUNT(*) DESC`,
+      [couponId]
+    );
+
+    const listResult = await query<CouponRedemptionRow>(
+      `SELECT
+         r.id, r.user_id, c.email, r.product_id, r.plan_id, pc.code as promotion_code,
+         r.stripe_checkout_session_id, r.stripe_subscription_id, r.currency,
+         r.amount_subtotal, r.amount_discount, r.amount_total, r.redeemed_at
+       FROM coupon_redemptions r
+       LEFT JOIN promotion_codes pc ON r.promotion_code_id = pc.id
+       LEFT JOIN customers c ON r.user_id = c.user_id
+       WHERE r.coupon_id = $1
+       ORDER BY r.redeemed_at DESC
+       LIMIT $2 OFFSET $3`,
+      [couponId, per_page, offset]
+    );
+
+    const totals = totalsResult.rows.map((row) => ({
+      currency: row.currency,
+      redemptions: parseInt(row.redemptions),
+      unique_users: parseInt(row.unique_users),
+      amount_discount: Number(row.amount_discount),
+      amount_total: Number(row.amount_total),
+    }));
+    const total = totals.reduce((sum, t) => sum + t.redemptions, 0);
+    const items = listResult.rows.map(toCouponRedemptionResponse);
+
+    const response: CouponRedemptionsResponse = {
+      coupon_id: couponId,
+      totals,
+      by_product: byProductResult.rows.map((row) => ({
+        product_id: row.product_id,
+        redemptions: parseInt(row.redemptions),
+      })),
+      items,
+      total,
+      page,
+      per_page,
+      has_more: offset + items.length < total,
+    };
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('[Coupons] Redemptions error:', error);
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Internal Server Error', message: 'Failed to get coupon redemptions' }),
+    };
+  }
+}
+
 // ============================================
 // Promotion Code CRUD Operations
 // ============================================
@@ -849,3 +1035,76 @@ export async function deletePromotionCode(codeId: string): Promise<APIGatewayPro
     };
   }
 }
+
+// ============================================
+// Promotion Code Validation (public)
+// ============================================
+
+/**
+ * POST /catalog/promotion-codes/validate
+ * Check a promotion code against a plan before checkout (pricing pages)
+ *
+ * The caller is anonymous, so per-user caps and first-purchase-only codes
+ * are checked again by checkout.
+ */
+export async function validatePromotionCode(body: string): Promise<APIGatewayProxyResult> {
+  try {
+    const request: ValidatePromotionCodeRequest = JSON.parse(body);
+
+    // Validate required fields
+    if (!request.code || !request.product_id || !request.plan_id) {
+      return {
+        statusCode: 400,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'Missing required fields: code, product_id, plan_id',
+        }),
+      };
+    }
+
+    const pool = await initializeDatabase();
+
+    const plan = await findDiscountTargetPlan(pool, request.plan_id);
+    if (!plan || plan.product_id !== request.product_id) {
+      return {
+        statusCode: 404,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ error: 'Not Found', message: 'Plan not found' }),
+      };
+    }
+
+    const validation = await checkPromotionCode(pool, request.code, plan, null);
+
+    const response: PromotionCodeValidationResponse = {
+      valid: validation.valid,
+      code: request.code,
+      reason: validation.reason,
+      message: validation.reason ? PROMOTION_CODE_REJECTION_MESSAGES[validation.reason] : null,
+      plan_id: plan.stripe_price_id,
+      currency: validation.currency,
+      original_amount: validation.original_amount,
+      discount_amount: validation.discount_amount,
+      discounted_amount: validation.discounted_amount,
+      percent_off: validation.valid && validation.coupon?.percent_off != null
+        ? Number(validation.coupon.percent_off)
+        : null,
+      amount_off: validation.valid ? validation.coupon?.amount_off ?? null : null,
+      duration: validation.duration,
+      duration_in_months: validation.duration_in_months,
+    };
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('[Coupons] Validate promotion code error:', error);
+    return {
+      statusCode: 500,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Internal Server Error', message: 'Failed to validate promotion code' }),
+    };
+  }
+}
@@ -1,29 +1,49 @@
 /**
  * Catalog Service Lambda Handler
- * Manages products, plans, tenants, dashboard, users, coupons, and promotion codes
+ * Manages products, plans, tenants, dashboard, users, coupons, promotion codes, and failed webhooks
  *
  * Public Endpoints (no auth required):
  * - GET    /catalog/products        - List products (public)
- * - GET    /catalog/plans           - List plans (public)
+ * - GET    /catalog/plans           - List plans (public; prices in the `currency` query parameter or the request locale)
+ * - GET    /catalog/plans/{id}/addons - List active add-ons of a plan (public)
+ * - POST   /catalog/promotion-codes/validate - Check a promotion code against a plan (public)
  *
  * Admin Endpoints (admin auth required):
  * - GET    /admin/products          - List products
  * - POST   /admin/products          - Create product
  * - PUT    /admin/products/{id}     - Update product
  * - DELETE /admin/products/{id}     - Delete product
+ * - GET    /admin/products/{id}/webhooks             - List product webhooks
+ * - POST   /admin/products/{id}/webhooks             - Register product webhook
+ * - DELETE /admin/products/{id}/webhooks/{webhookId} - Delete product webhook
  * - GET    /admin/plans             - List plans
  * - POST   /admin/plans             - Create plan (with Stripe integration)
  * - PUT    /admin/plans/{id}        - Update plan
  * - DELETE /admin/plans/{id}        - Delete plan
+ * - GET    /admin/plans/{id}/addons           - List plan add-ons
+ * - POST   /admin/plans/{id}/addons           - Create plan add-on (with Stripe integration)
+ * - PUT    /admin/plans/{id}/addons/{addonId} - Update plan add-on
+ * - DELETE /admin/plans/{id}/addons/{addonId} - Delete plan add-on
+ * - GET    /admin/plans/{id}/versions         - List plan price versions with subscriber counts
+ * - POST   /admin/plans/{id}/versions         - Create a price version (new Stripe Price, existing subscribers keep theirs)
+ * - POST   /admin/plans/{id}/migrations       - Migrate an old version's subscribers to the current version (dry run by default)
+ * - GET    /admin/plans/{id}/prices           - List the current version's prices in every currency
+ * - POST   /admin/plans/{id}/prices           - Add a currency to the current version (with Stripe integration)
  * - GET    /admin/tenants           - List tenants
  * - POST   /admin/tenants           - Create tenant
  *
+ * Invoice Issuer Endpoints (admin auth required):
+ * - GET    /admin/invoice-issuers           - List invoice issuers
+ * - PUT    /admin/invoice-issuers/{scope}   - Set the issuer ("default" or a product ID)
+ * - DELETE /admin/invoice-issuers/{scope}   - Delete the issuer
+ *
  * Coupon Endpoints (admin auth required):
  * - GET    /admin/coupons           - List coupons
  * - GET    /admin/coupons/{id}      - Get coupon
  * - POST   /admin/coupons           - Create coupon (with Stripe integration)
  * - PUT    /admin/coupons/{id}      - Update coupon
  * - DELETE /admin/coupons/{id}      - Delete coupon
+ * - GET    /admin/coupons/{id}/redemptions - Redemption totals and redeeming users
  *
  * Promotion Code Endpoints (admin auth required):
  * - GET    /admin/promotion-codes           - List promotion codes
@@ -41,19 +61,30 @@
  * - GET    /admin/users             - List users (Cognito)
  * - GET    /admin/users/{id}        - Get user
  * - GET    /admin/users/{id}/logins - Get user's product login history
+ * - GET    /admin/users/{id}/usage  - Get user's usage history (bucketed)
  * - POST   /admin/users             - Create user
  * - PUT    /admin/users/{id}        - Update user
  * - DELETE /admin/users/{id}        - Disable user
+ *
+ * Failed Webhook Endpoints (admin auth required):
+ * - GET    /admin/webhooks/failed            - List failed Stripe webhook events
+ * - POST   /admin/webhooks/{eventId}/replay  - Replay a failed webhook event
  */
 
 import { APIGatewayProxyHandler, APIGatewayProxyResult, APIGatewayProxyEventQueryStringParameters } from 'aws-lambda';
 import { initializeDatabase } from '../../shared/db/index.js';
 import { getProduct, listProducts, createProduct, updateProduct, deleteProduct } from './products.js';
 import { getPlan, listPlans, createPlan, updatePlan, deletePlan } from './plans.js';
+import { listPlanPrices, createPlanPrice, resolveRequestCurrency } from './planPrices.js';
+import { listPlanAddons, createPlanAddon, updatePlanAddon, deletePlanAddon } from './addons.js';
+import { listPlanVersions, createPlanVersion, migratePlanCohort } from './planVersions.js';
 import { getTenant, listTenants, createTenant } from './tenants.js';
-import { getCoupon, listCoupons, createCoupon, updateCoupon, deleteCoupon, getPromotionCode, listPromotionCodes, createPromotionCode, deletePromotionCode } from './coupons.js';
+import { listInvoiceIssuers, upsertInvoiceIssuer, deleteInvoiceIssuer } from './invoiceIssuers.js';
+import { listProductWebhooks, createProductWebhook, deleteProductWebhook } from './webhooks.js';
+import { getCoupon, listCoupons, createCoupon, updateCoupon, deleteCoupon, getCouponRedemptions, getPromotionCode, listPromotionCodes, createPromotionCode, deletePromotionCode, validatePromotionCode } from './coupons.js';
 import { getDashboardStats, getRevenueData, getUserGrowthData, getRecentActivity } from '../admin/dashboard.js';
-import { listUsers, getUser, createUser, updateUser, deleteUser, getUserLogins, setUserPassword } from '../admin/users.js';
+import { listUsers, getUser, createUser, updateUser, deleteUser, getUserLogins, getUserUsage, setUserPassword } from '../admin/users.js';
+import { listFailedWebhooks, replayWebhook } from '../admin/webhooks.js';
 import { AdminCheckResult } from './types.js';
 
 /**
@@ -182,8 +213,12 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       }
     }
 
-    // Public catalog paths only allow GET requests
-    if (isPublic && method !== 'GET') {
+    const resourceType = getResourceType(path);
+    const resourceId = extractResourceId(path);
+
+    // Public catalog paths only allow GET requests (and promotion code validation)
+    const isPromotionCodeValidation = resourceType === 'promotion-codes' && resourceId === 'validate';
+    if (isPublic && method !== 'GET' && !(isPromotionCodeValidation && method === 'POST')) {
       return {
         statusCode: 405,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -194,9 +229,6 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       };
     }
 
-    const resourceType = getResourceType(path);
-    const resourceId = extractResourceId(path);
-
     console.log('[Catalog] Request:', {
       method,
       path,
@@ -210,17 +242,28 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     // Route to appropriate handler
     switch (resourceType) {
       case 'products':
-        result = await handleProductsRoute(method, resourceId, event.body, event.queryStringParameters);
+        result = await handleProductsRoute(method, resourceId, event.body, event.queryStringParameters, path);
         break;
 
       case 'plans':
-        result = await handlePlansRoute(method, resourceId, event.body, event.queryStringParameters);
+        result = await handlePlansRoute(
+          method,
+          resourceId,
+          event.body,
+          event.queryStringParameters,
+          path,
+          event.headers?.['Accept-Language'] ?? event.headers?.['accept-language']
+        );
         break;
 
       case 'tenants':
         result = await handleTenantsRoute(method, resourceId, event.body, event.queryStringParameters);
         break;
 
+      case 'invoice-issuers':
+        result = await handleInvoiceIssuersRoute(method, resourceId, event.body);
+        break;
+
       case 'dashboard':
         result = await handleDashboardRoute(method, path);
         break;
@@ -230,13 +273,21 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
         break;
 
       case 'coupons':
-        result = await handleCouponsRoute(method, resourceId, event.body, event.queryStringParameters);
+        result = await handleCouponsRoute(method, resourceId, event.body, event.queryStringParameters, path);
         break;
 
       case 'promotion-codes':
+        if (isPromotionCodeValidation) {
+          result = await handlePromotionCodeValidationRoute(method, event.body);
+          break;
+        }
         result = await handlePromotionCodesRoute(method, resourceId, event.body, event.queryStringParameters);
         break;
 
+      case 'webhooks':
+        result = await handleWebhooksRoute(method, resourceId, event.queryStringParameters, path, isPublic);
+        break;
+
       default:
         result = {
           statusCode: 404,
@@ -291,8 +342,18 @@ async function handleProductsRoute(
   method: string,
   resourceId: string | null,
   body: string | null,
-  queryParams: APIGatewayProxyEventQueryStringParameters | null
+  queryParams: APIGatewayProxyEventQueryStringParameters | null,
+  path: string
 ): Promise<APIGatewayProxyResult> {
+  // Check for sub-routes like /admin/products/{id}/webhooks/{webhookId}
+  const pathParts = path.split('/').filter(Boolean);
+  const subRoute = pathParts.length >= 4 ? pathParts[3] : null;
+  const subResourceId = pathParts[4] ?? null;
+
+  if (resourceId && subRoute === 'webhooks' && !isPublicCatalogPath(path)) {
+    return handleProductWebhooksRoute(method, resourceId, subResourceId, body);
+  }
+
   switch (method) {
     case 'GET':
       if (resourceId) {
@@ -352,6 +413,57 @@ async function handleProductsRoute(
   }
 }
 
+/**
+ * Handles /admin/products/{id}/webhooks routes
+ */
+async function handleProductWebhooksRoute(
+  method: string,
+  productId: string,
+  webhookId: string | null,
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  switch (method) {
+    case 'GET':
+      // GET /admin/products/{id}/webhooks
+      return listProductWebhooks(productId);
+
+    case 'POST':
+      if (!body) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Request body required',
+          }),
+        };
+      }
+      // POST /admin/products/{id}/webhooks
+      return createProductWebhook(productId, body);
+
+    case 'DELETE':
+      if (!webhookId) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Webhook ID required',
+          }),
+        };
+      }
+      // DELETE /admin/products/{id}/webhooks/{webhookId}
+      return deleteProductWebhook(productId, webhookId);
+
+    default:
+      return {
+        statusCode: 405,
+        body: JSON.stringify({
+          error: 'Method Not Allowed',
+          message: `Method ${method} not allowed for product webhooks`,
+        }),
+      };
+  }
+}
+
 /**
  * Handles /admin/plans routes
  */
@@ -359,16 +471,48 @@ async function handlePlansRoute(
   method: string,
   resourceId: string | null,
   body: string | null,
-  queryParams: APIGatewayProxyEventQueryStringParameters | null
+  queryParams: APIGatewayProxyEventQueryStringParameters | null,
+  path: string,
+  acceptLanguage: string | undefined
 ): Promise<APIGatewayProxyResult> {
+  // Check for sub-routes like /admin/plans/{id}/addons/{addonId}
+  const pathParts = path.split('/').filter(Boolean);
+  const subRoute = pathParts.length >= 4 ? pathParts[3] : null;
+  const subResourceId = pathParts[4] ?? null;
+
+  if (resourceId && subRoute === 'addons') {
+    return handlePlanAddonsRoute(method, resourceId, subResourceId, body, isPublicCatalogPath(path));
+  }
+
+  if (resourceId && (subRoute === 'versions' || subRoute === 'migrations') && !isPublicCatalogPath(path)) {
+    return handlePlanVersionsRoute(method, resourceId, subRoute, body);
+  }
+
+  if (resourceId && subRoute === 'prices' && !isPublicCatalogPath(path)) {
+    return handlePlanPricesRoute(method, resourceId, body);
+  }
+
   switch (method) {
-    case 'GET':
+    case 'GET': {
+      // Public catalog prices follow the buyer's locale; admins see the plan currency unless asked
+      const resolved = resolveRequestCurrency(queryParams, isPublicCatalogPath(path) ? acceptLanguage : undefined);
+      if ('error' in resolved) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: resolved.error,
+          }),
+        };
+      }
+
       if (resourceId) {
         // GET /admin/plans/{id}
-        return getPlan(resourceId);
+        return getPlan(resourceId, resolved.currency);
       }
-      // GET /admin/plans
-      return listPlans(queryParams);
+      // GET /admin/plans, GET /catalog/plans
+      return listPlans(queryParams, resolved.currency);
+    }
 
     case 'POST':
       if (!body) {
@@ -420,6 +564,146 @@ async function handlePlansRoute(
   }
 }
 
+/**
+ * Handles /admin/plans/{id}/addons and /catalog/plans/{id}/addons routes
+ */
+async function handlePlanAddonsRoute(
+  method: string,
+  planId: string,
+  addonId: string | null,
+  body: string | null,
+  isPublic: boolean
+): Promise<APIGatewayProxyResult> {
+  switch (method) {
+    case 'GET':
+      // GET /admin/plans/{id}/addons, GET /catalog/plans/{id}/addons
+      return listPlanAddons(planId, isPublic);
+
+    case 'POST':
+      if (!body) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Request body required',
+          }),
+        };
+      }
+      // POST /admin/plans/{id}/addons
+      return createPlanAddon(planId, body);
+
+    case 'PUT':
+      if (!addonId || !body) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Add-on ID and request body required',
+          }),
+        };
+      }
+      // PUT /admin/plans/{id}/addons/{addonId}
+      return updatePlanAddon(planId, addonId, body);
+
+    case 'DELETE':
+      if (!addonId) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Add-on ID required',
+          }),
+        };
+      }
+      // DELETE /admin/plans/{id}/addons/{addonId}
+      return deletePlanAddon(planId, addonId);
+
+    default:
+      return {
+        statusCode: 405,
+        body: JSON.stringify({
+          error: 'Method Not Allowed',
+          message: `Method ${method} not allowed for plan add-ons`,
+        }),
+      };
+  }
+}
+
+/**
+ * Handles /admin/plans/{id}/versions and /admin/plans/{id}/migrations routes
+ */
+async function handlePlanVersionsRoute(
+  method: string,
+  planId: string,
+  subRoute: 'versions' | 'migrations',
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  if (method === 'GET' && subRoute === 'versions') {
+    // GET /admin/plans/{id}/versions
+    return listPlanVersions(planId);
+  }
+
+  if (method !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({
+        error: 'Method Not Allowed',
+        message: `Method ${method} not allowed for plan ${subRoute}`,
+      }),
+    };
+  }
+
+  if (!body) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        error: 'Bad Request',
+        message: 'Request body required',
+      }),
+    };
+  }
+
+  // POST /admin/plans/{id}/versions, POST /admin/plans/{id}/migrations
+  return subRoute === 'versions' ? createPlanVersion(planId, body) : migratePlanCohort(planId, body);
+}
+
+/**
+ * Handles /admin/plans/{id}/prices routes
+ */
+async function handlePlanPricesRoute(
+  method: string,
+  planId: string,
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  switch (method) {
+    case 'GET':
+      // GET /admin/plans/{id}/prices
+      return listPlanPrices(planId);
+
+    case 'POST':
+      if (!body) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Request body required',
+          }),
+        };
+      }
+      // POST /admin/plans/{id}/prices
+      return createPlanPrice(planId, body);
+
+    default:
+      return {
+        statusCode: 405,
+        body: JSON.stringify({
+          error: 'Method Not Allowed',
+          message: `Method ${method} not allowed for plan prices`,
+        }),
+      };
+  }
+}
+
 /**
  * Handles /admin/tenants routes
  */
@@ -502,6 +786,56 @@ async function handleDashboardRoute(
   };
 }
 
+/**
+ * Handles /admin/invoice-issuers routes
+ */
+async function handleInvoiceIssuersRoute(
+  method: string,
+  scope: string | null,
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  switch (method) {
+    case 'GET':
+      // GET /admin/invoice-issuers
+      return listInvoiceIssuers();
+
+    case 'PUT':
+      if (!scope || !body) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Issuer scope and request body required',
+          }),
+        };
+      }
+      // PUT /admin/invoice-issuers/{scope}
+      return upsertInvoiceIssuer(scope, body);
+
+    case 'DELETE':
+      if (!scope) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Issuer scope required',
+          }),
+        };
+      }
+      // DELETE /admin/invoice-issuers/{scope}
+      return deleteInvoiceIssuer(scope);
+
+    default:
+      return {
+        statusCode: 405,
+        body: JSON.stringify({
+          error: 'Method Not Allowed',
+          message: `Method ${method} not allowed for invoice issuers`,
+        }),
+      };
+  }
+}
+
 /**
  * Handles /admin/users routes
  */
@@ -522,6 +856,10 @@ async function handleUsersRoute(
         // GET /admin/users/{id}/logins
         return getUserLogins(resourceId);
       }
+      if (resourceId && subRoute === 'usage' && !isPublicCatalogPath(path)) {
+        // GET /admin/users/{id}/usage
+        return getUserUsage(resourceId, queryParams);
+      }
       if (resourceId) {
         // GET /admin/users/{id}
         return getUser(resourceId);
@@ -590,8 +928,35 @@ async function handleCouponsRoute(
   method: string,
   resourceId: string | null,
   body: string | null,
-  queryParams: APIGatewayProxyEventQueryStringParameters | null
+  queryParams: APIGatewayProxyEventQueryStringParameters | null,
+  path: string
 ): Promise<APIGatewayProxyResult> {
+  // Sub-route /admin/coupons/{id}/redemptions
+  const subRoute = path.split('/').filter(Boolean)[3] ?? null;
+  if (resourceId && subRoute === 'redemptions') {
+    // Redemptions carry purchaser details: admin paths only
+    if (isPublicCatalogPath(path)) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Resource not found',
+        }),
+      };
+    }
+    if (method !== 'GET') {
+      return {
+        statusCode: 405,
+        body: JSON.stringify({
+          error: 'Method Not Allowed',
+          message: `Method ${method} not allowed for coupon redemptions`,
+        }),
+      };
+    }
+    // GET /admin/coupons/{id}/redemptions
+    return getCouponRedemptions(resourceId, queryParams);
+  }
+
   switch (method) {
     case 'GET':
       if (resourceId) {
@@ -651,6 +1016,37 @@ async function handleCouponsRoute(
   }
 }
 
+/**
+ * Handles /catalog/promotion-codes/validate
+ */
+async function handlePromotionCodeValidationRoute(
+  method: string,
+  body: string | null
+): Promise<APIGatewayProxyResult> {
+  if (method !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({
+        error: 'Method Not Allowed',
+        message: `Method ${method} not allowed for promotion code validation`,
+      }),
+    };
+  }
+
+  if (!body) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        error: 'Bad Request',
+        message: 'Request body required',
+      }),
+    };
+  }
+
+  // POST /catalog/promotion-codes/validate
+  return validatePromotionCode(body);
+}
+
 /**
  * Handles /admin/promotion-codes routes
  */
@@ -705,3 +1101,47 @@ async function handlePromotionCodesRoute(
       };
   }
 }
+
+/**
+ * Handles /admin/webhooks routes (failed Stripe webhook events)
+ */
+async function handleWebhooksRoute(
+  method: string,
+  resourceId: string | null,
+  queryParams: APIGatewayProxyEventQueryStringParameters | null,
+  path: string,
+  isPublic: boolean
+): Promise<APIGatewayProxyResult> {
+  // Check for sub-routes like /admin/webhooks/{eventId}/replay
+  const pathParts = path.split('/').filter(Boolean);
+  const subRoute = pathParts.length >= 4 ? pathParts[3] : null;
+
+  // Failed events carry Stripe payloads: admin paths only
+  if (isPublic) {
+    return {
+      statusCode: 404,
+      body: JSON.stringify({
+        error: 'Not Found',
+        message: 'Webhook endpoint not found',
+      }),
+    };
+  }
+
+  if (method === 'GET' && resourceId === 'failed' && !subRoute) {
+    // GET /admin/webhooks/failed
+    return listFailedWebhooks(queryParams);
+  }
+
+  if (method === 'POST' && resourceId && subRoute === 'replay') {
+    // POST /admin/webhooks/{eventId}/replay
+    return replayWebhook(decodeURIComponent(resourceId));
+  }
+
+  return {
+    statusCode: 404,
+    body: JSON.stringify({
+      error: 'Not Found',
+      message: 'Webhook endpoint not found',
+    }),
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Invoice Issuer Management Functions
+ * Handles the issuer details printed on qualified invoices (適格請求書):
+ * a platform-wide default ("default") and per-product overrides
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { query } from '../../shared/db/index.js';
+import { InvoiceIssuerRow, REGISTRATION_NUMBER_PATTERN } from '../billing/invoice/issuer.js';
+import { InvoiceIssuerResponse, UpsertInvoiceIssuerRequest } from './types.js';
+
+/**
+ * Scope of the platform-wide default issuer in paths
+ */
+const DEFAULT_SCOPE = 'default';
+
+/**
+ * Converts InvoiceIssuerRow to InvoiceIssuerResponse
+ */
+function toInvoiceIssuerResponse(row: InvoiceIssuerRow): InvoiceIssuerResponse {
+  return {
+    id: row.id,
+    product_id: row.product_id,
+    name: row.name,
+    registration_number: row.registration_number,
+    address: row.address,
+    phone: row.phone,
+    email: row.email,
+    metadata: row.metadata || {},
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Product ID of a scope (null for the default issuer)
+ */
+function scopeProductId(scope: string): string | null {
+  return scope === DEFAULT_SCOPE ? null : scope;
+}
+
+/**
+ * GET /admin/invoice-issuers
+ * List the default issuer and product issuers
+ */
+export async function listInvoiceIssuers(): Promise<APIGatewayProxyResult> {
+  try {
+    const result = await query<InvoiceIssuerRow>(
+      `SELECT * FROM invoice_issuers
+       ORDER BY product_id IS NOT NULL, created_at ASC`
+    );
+
+    const items = result.rows.map(toInvoiceIssuerResponse);
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items, total: items.length }),
+    };
+  } catch (error) {
+    console.error('[InvoiceIssuers] List error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to list invoice issuers',
+      }),
+    };
+  }
+}
+
+/**
+ * PUT /admin/invoice-issuers/{scope}
+ * Create or replace the issuer of a scope ("default" or a product ID)
+ */
+export async function upsertInvoiceIssuer(scope: string, body: string): Promise<APIGatewayProxyResult> {
+  try {
+    const request: UpsertInvoiceIssuerRequest = JSON.parse(body);
+
+    // Validate required fields
+    if (!request.name || !request.registration_number) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'Missing required fields: name, registration_number',
+        }),
+      };
+    }
+
+    if (!REGISTRATION_NUMBER_PATTERN.test(request.registration_number)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'Invalid registration_number. Must be "T" followed by 13 digits',
+        }),
+      };
+    }
+
+    const productId = scopeProductId(scope);
+    if (productId) {
+      const product = await query<{ id: string }>(
+        'SELECT id FROM products WHERE id = $1 AND deleted_at IS NULL',
+        [productId]
+      );
+      if (product.rows.length === 0) {
+        return {
+          statusCode: 404,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            error: 'Not Found',
+            message: 'Product not found',
+          }),
+        };
+      }
+    }
+
+    const values = [
+      request.name,
+      request.registration_number,
+      request.address ?? null,
+      request.phone ?? null,
+      request.email ?? null,
+      JSON.stringify(request.metadata || {}),
+    ];
+
+    // The default issuer has no product_id, so it cannot use ON CONFLICT (product_id)
+    let result = await query<InvoiceIssuerRow>(
+      `UPDATE invoice_issuers
+       SET name = $1, registration_number = $2, address = $3, phone = $4, email = $5, metadata = $6
+       WHERE product_id IS NOT DISTINCT FROM $7
+       RETURNING *`,
+      [...values, productId]
+    );
+
+    let statusCode = 200;
+    if (result.rows.length === 0) {
+      result = await query<InvoiceIssuerRow>(
+        `INSERT INTO invoice_issuers (name, registration_number, address, phone, email, metadata, product_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [...values, productId]
+      );
+      statusCode = 201;
+    }
+
+    const issuer = result.rows[0];
+    if (!issuer) {
+      throw new Error('Failed to save invoice issuer');
+    }
+
+    console.log('[InvoiceIssuers] Saved invoice issuer:', {
+      id: issuer.id,
+      scope,
+      registrationNumber: issuer.registration_number,
+    });
+
+    return {
+      statusCode,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toInvoiceIssuerResponse(issuer)),
+    };
+  } catch (error) {
+    console.error('[InvoiceIssuers] Save error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to save invoice issuer',
+      }),
+    };
+  }
+}
+
+/**
+ * DELETE /admin/invoice-issuers/{scope}
+ * Delete the issuer of a scope; product invoices fall back to the default issuer
+ */
+export async function deleteInvoiceIssuer(scope: string): Promise<APIGatewayProxyResult> {
+  try {
+    const result = await query(
+      'DELETE FROM invoice_issuers WHERE product_id IS NOT DISTINCT FROM $1',
+      [scopeProductId(scope)]
+    );
+
+    if (result.rowCount === 0) {
+      return {
+        statusCode: 404,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Invoice issuer not found',
+        }),
+      };
+    }
+
+    console.log('[InvoiceIssuers] Deleted invoice issuer:', { scope });
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        success: true,
+        message: 'Invoice issuer deleted successfully',
+        scope,
+      }),
+    };
+  } catch (error) {
+    console.error('[InvoiceIssuers] Delete error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to delete invoice issuer',
+      }),
+    };
+  }
+}
@@ -0,0 +1,470 @@
+/**
+ * Plan Price Management Functions
+ * A plan is sold in its own currency (plans.currency) and in additional
+ * currencies, each backed by its own Stripe Price on the current version.
+ * The public catalog picks the currency from the `currency` query parameter
+ * or the request locale; checkout charges the matching Stripe Price.
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import Stripe from 'stripe';
+import { query, transaction } from '../../shared/db/index.js';
+import type { PoolClient } from '../../shared/db/index.js';
+import { deleteCachePattern } from '../../shared/utils/redis.js';
+import { getStripeApiKey } from '../../shared/utils/secrets.js';
+import {
+  PlanRow,
+  PlanVersionRow,
+  PlanPriceRow,
+  PlanPriceResponse,
+  CreatePlanPriceRequest,
+  CatalogCacheKeys,
+} from './types.js';
+
+/**
+ * Currency of the locale regions we sell in
+ */
+const REGION_CURRENCIES: Record<string, string> = {
+  JP: 'JPY',
+  US: 'USD',
+  // Euro area
+  AT: 'EUR', BE: 'EUR', CY: 'EUR', DE: 'EUR', EE: 'EUR', ES: 'EUR', FI: 'EUR',
+  FR: 'EUR', GR: 'EUR', HR: 'EUR', IE: 'EUR', IT: 'EUR', LT: 'EUR', LU: 'EUR',
+  LV: 'EUR', MT: 'EUR', NL: 'EUR', PT: 'EUR', SI: 'EUR', SK: 'EUR',
+};
+
+/**
+ * Currency of locales without a region (e.g. Accept-Language: ja, de)
+ */
+const LANGUAGE_CURRENCIES: Record<string, string> = {
+  ja: 'JPY',
+  en: 'USD',
+  de: 'EUR',
+  fr: 'EUR',
+  it: 'EUR',
+  nl: 'EUR',
+  fi: 'EUR',
+};
+
+/**
+ * A purchasable price of a plan (plan currency or an additional currency)
+ */
+export interface PlanPrice {
+  /** plans.id */
+  plan_id: string;
+  stripe_price_id: string;
+  price_amount: number;
+  currency: string;
+}
+
+/**
+ * Lazily initialized Stripe client
+ */
+let stripeClient: Stripe | null = null;
+
+/**
+ * Get or initialize Stripe client
+ */
+async function getStripeClient(): Promise<Stripe> {
+  if (!stripeClient) {
+    const apiKey = await getStripeApiKey();
+    stripeClient = new Stripe(apiKey, {
+      apiVersion: '2023-10-16',
+      typescript: true,
+      appInfo: {
+        name: 'CCAGI Catalog Service',
+        version: '1.0.0',
+      },
+    });
+    console.log('[PlanPrices] Stripe client initialized');
+  }
+  return stripeClient;
+}
+
+/**
+ * Normalize a currency code to upper case, or null if it is not an ISO 4217 code
+ */
+export function normalizeCurrency(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^[a-zA-Z]{3}$/.test(value.trim())) {
+    return null;
+  }
+  return value.trim().toUpperCase();
+}
+
+/**
+ * Currency of a locale list (Accept-Language header or a single locale such as en-US)
+ * Locales are tried in order of preference; the first one we sell in wins.
+ */
+export function currencyFromLocale(locale: string | undefined): string | null {
+  if (!locale) {
+    return null;
+  }
+
+  const locales = locale
+    .split(',')
+    .map((entry, index) => {
+      const [tag = '', ...params] = entry.trim().split(';');
+      const q = params.find((param) => param.trim().startsWith('q='));
+      return { tag: tag.trim(), quality: q ? Number(q.trim().slice(2)) || 0 : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of locales) {
+    const [language = '', ...subtags] = tag.split(/[-_]/);
+    const region = subtags.find((subtag) => /^[a-zA-Z]{2}$/.test(subtag))?.toUpperCase();
+    if (region) {
+      const currency = REGION_CURRENCIES[region];
+      if (currency) {
+        return currency;
+      }
+      // A region we do not sell in (e.g. en-GB) falls through to the next locale
+      continue;
+    }
+    const currency = LANGUAGE_CURRENCIES[language.toLowerCase()];
+    if (currency) {
+      return currency;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Currency requested by a catalog request
+ * The `currency` query parameter wins over the locale (`locale` query
+ * parameter or Accept-Language header). null means the plan currency.
+ */
+export function resolveRequestCurrency(
+  queryParams: Record<string, string | undefined> | null,
+  acceptLanguage: string | undefined
+): { currency: string | null } | { error: string } {
+  const requested = queryParams?.['currency'];
+  if (requested !== undefined) {
+    const currency = normalizeCurrency(requested);
+    return currency ? { currency } : { error: 'currency must be an ISO 4217 currency code' };
+  }
+
+  return { currency: currencyFromLocale(queryParams?.['locale'] ?? acceptLanguage) };
+}
+
+/**
+ * Converts the own price of a plan (or plan version) and its currency prices
+ * to responses (plan currency first)
+ */
+export function toPlanPriceResponses(
+  plan: Pick<PlanRow, 'currency' | 'price_amount' | 'stripe_price_id'>,
+  rows: PlanPriceRow[]
+): PlanPriceResponse[] {
+  return [
+    {
+      currency: plan.currency,
+      price_amount: plan.price_amount,
+      stripe_price_id: plan.stripe_price_id,
+      is_default: true,
+    },
+    ...rows
+      .filter((row) => row.currency !== plan.currency)
+      .sort((a, b) => a.currency.localeCompare(b.currency))
+      .map((row) => ({
+        currency: row.currency,
+        price_amount: row.price_amount,
+        stripe_price_id: row.stripe_price_id,
+        is_default: false,
+      })),
+  ];
+}
+
+/**
+ * Load the currency prices of the current version of plans
+ *
+ * @returns Currency prices by plan ID
+ */
+export async function loadPlanPrices(planIds: string[]): Promise<Map<string, PlanPriceRow[]>> {
+  const prices = new Map<string, PlanPriceRow[]>();
+  if (planIds.length === 0) {
+    return prices;
+  }
+
+  const result = await query<PlanPriceRow>(
+    `
+    SELECT pp.*
+    FROM plan_prices pp
+    JOIN plans p ON pp.plan_id = p.id AND pp.plan_version_id = p.current_version_id
+    WHERE pp.plan_id = ANY($1::uuid[])
+    `,
+    [planIds]
+  );
+
+  for (const row of result.rows) {
+    prices.set(row.plan_id, [...(prices.get(row.plan_id) ?? []), row]);
+  }
+  return prices;
+}
+
+/**
+ * Find a purchasable price by its Stripe Price ID
+ * Matches the plan's own price and the currency prices of its current version.
+ */
+export async function findPlanPrice(
+  client: Pick<PoolClient, 'query'>,
+  stripePriceId: string
+): Promise<PlanPrice | null> {
+  const result = await client.query<PlanPrice>(
+    `
+    SELECT id as plan_id, stripe_price_id, price_amount, currency
+    FROM plans
+    WHERE stripe_price_id = $1
+    UNION ALL
+    SELECT pp.plan_id, pp.stripe_price_id, pp.price_amount, pp.currency
+    FROM plan_prices pp
+    JOIN plans p ON pp.plan_id = p.id AND pp.plan_version_id = p.current_version_id
+    WHERE pp.stripe_price_id = $1
+    LIMIT 1
+    `,
+    [stripePriceId]
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Find the purchasable price of a plan in a currency
+ */
+export async function findPlanPriceInCurrency(
+  client: Pick<PoolClient, 'query'>,
+  planId: string,
+  currency: string
+): Promise<PlanPrice | null> {
+  const result = await client.query<PlanPrice>(
+    `
+    SELECT id as plan_id, stripe_price_id, price_amount, currency
+    FROM plans
+    WHERE id = $1 AND currency = $2
+    UNION ALL
+    SELECT pp.plan_id, pp.stripe_price_id, pp.price_amount, pp.currency
+    FROM plan_prices pp
+    JOIN plans p ON pp.plan_id = p.id AND pp.plan_version_id = p.current_version_id
+    WHERE pp.plan_id = $1 AND pp.currency = $2
+    LIMIT 1
+    `,
+    [planId, currency]
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Validate a currency price request against the plan
+ *
+ * @returns Error message, or null if valid
+ */
+export function validatePlanPriceRequest(
+  plan: Pick<PlanRow, 'currency' | 'metered_price_id'>,
+  request: CreatePlanPriceRequest
+): string | null {
+  // Every item of a Stripe subscription must be in the same currency
+  if (plan.metered_price_id) {
+    return 'Plans with a metered price are only sold in the plan currency';
+  }
+
+  const currency = normalizeCurrency(request?.currency);
+  if (!currency) {
+    return 'currency must be an ISO 4217 currency code';
+  }
+  if (currency === plan.currency) {
+    return `${currency} is the plan currency`;
+  }
+
+  if (!Number.isInteger(request.price_amount) || request.price_amount < 0) {
+    return 'price_amount must be a non-negative integer';
+  }
+
+  return null;
+}
+
+/**
+ * Create the Stripe Price of a plan version in an additional currency
+ * Interval, trial and tax behavior follow the version.
+ */
+export async function createCurrencyPrice(
+  stripe: Stripe,
+  client: Pick<PoolClient, 'query'>,
+  plan: PlanRow & { stripe_product_id: string },
+  version: PlanVersionRow,
+  request: CreatePlanPriceRequest
+): Promise<PlanPriceRow> {
+  const currency = normalizeCurrency(request.currency)!;
+  const interval = plan.billing_period === 'monthly' ? 'month' : plan.billing_period === 'yearly' ? 'year' : null;
+
+  const price = await stripe.prices.create({
+    product: plan.stripe_product_id,
+    unit_amount: request.price_amount,
+    currency: currency.toLowerCase(),
+    nickname: `${plan.name} v${version.version} ${currency}`,
+    tax_behavior: plan.tax_inclusive ? 'inclusive' : 'exclusive',
+    ...(interval
+      ? {
+          recurring: {
+            interval,
+            ...(version.trial_period_days ? { trial_period_days: version.trial_period_days } : {}),
+          },
+        }
+      : {}),
+    metadata: {
+      plan_id: plan.id,
+      plan_name: plan.name,
+      plan_version: String(version.version),
+      billing_period: plan.billing_period,
+    },
+  });
+  console.log('[PlanPrices] Stripe Price created:', price.id, currency);
+
+  const result = await client.query<PlanPriceRow>(
+    `INSERT INTO plan_prices (plan_id, plan_version_id, currency, price_amount, stripe_price_id)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [plan.id, version.id, currency, request.price_amount, price.id]
+  );
+  return result.rows[0]!;
+}
+
+/**
+ * GET /admin/plans/{id}/prices
+ * List the prices of the plan's current version in every currency
+ */
+export async function listPlanPrices(planId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const plan = await query<PlanRow>(
+      'SELECT * FROM plans WHERE id = $1 AND deleted_at IS NULL',
+      [planId]
+    );
+    if (plan.rows.length === 0) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Plan not found',
+        }),
+      };
+    }
+
+    const prices = await loadPlanPrices([planId]);
+    const items = toPlanPriceResponses(plan.rows[0]!, prices.get(planId) ?? []);
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ plan_id: planId, items }),
+    };
+  } catch (error) {
+    console.error('[PlanPrices] List error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to list plan prices',
+      }),
+    };
+  }
+}
+
+/**
+ * POST /admin/plans/{id}/prices
+ * Add a currency to the plan's current version
+ *
+ * Currency prices cannot be changed: a new version (POST /admin/plans/{id}/versions)
+ * sets new prices, grandfathering the subscribers of the old ones.
+ */
+export async function createPlanPrice(planId: string, body: string): Promise<APIGatewayProxyResult> {
+  try {
+    const request: CreatePlanPriceRequest = JSON.parse(body);
+
+    const result = await transaction<
+      { statusCode: number; error: string; message: string } | { plan: PlanRow; price: PlanPriceRow }
+    >(async (client) => {
+      const planResult = await client.query<PlanRow & { stripe_product_id: string }>(
+        `
+        SELECT p.*, pr.stripe_product_id
+        FROM plans p
+        JOIN products pr ON p.product_id = pr.id
+        WHERE p.id = $1 AND p.deleted_at IS NULL
+        FOR UPDATE OF p
+        `,
+        [planId]
+      );
+      const plan = planResult.rows[0];
+      if (!plan) {
+        return { statusCode: 404, error: 'Not Found', message: 'Plan not found' };
+      }
+
+      const validationError = validatePlanPriceRequest(plan, request);
+      if (validationError) {
+        return { statusCode: 400, error: 'Bad Request', message: validationError };
+      }
+
+      const versionResult = await client.query<PlanVersionRow>(
+        'SELECT * FROM plan_versions WHERE id = $1',
+        [plan.current_version_id]
+      );
+      const version = versionResult.rows[0];
+      if (!version) {
+        return { statusCode: 400, error: 'Bad Request', message: 'Plan has no current version' };
+      }
+
+      const currency = normalizeCurrency(request.currency)!;
+      const existing = await client.query(
+        'SELECT id FROM plan_prices WHERE plan_version_id = $1 AND currency = $2',
+        [version.id, currency]
+      );
+      if (existing.rows.length > 0) {
+        return {
+          statusCode: 409,
+          error: 'Conflict',
+          message: `The plan already has a ${currency} price; change it with a new version`,
+        };
+      }
+
+      const stripe = await getStripeClient();
+      const price = await createCurrencyPrice(stripe, client, plan, version, request);
+      return { plan, price };
+    });
+
+    if ('error' in result) {
+      return {
+        statusCode: result.statusCode,
+        body: JSON.stringify({
+          error: result.error,
+          message: result.message,
+        }),
+      };
+    }
+
+    try {
+      await deleteCachePattern(`${CatalogCacheKeys.plan(planId)}*`);
+      await deleteCachePattern(`${CatalogCacheKeys.productPlans(result.plan.product_id)}*`);
+    } catch (error) {
+      console.warn('[PlanPrices] Failed to invalidate cache:', error);
+    }
+
+    const response: PlanPriceResponse = {
+      currency: result.price.currency,
+      price_amount: result.price.price_amount,
+      stripe_price_id: result.price.stripe_price_id,
+      is_default: false,
+    };
+
+    return {
+      statusCode: 201,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('[PlanPrices] Create error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to create plan price',
+      }),
+    };
+  }
+}
@@ -0,0 +1,752 @@
+/**
+ * Plan Version Management Functions
+ * Price changes create an immutable plan version with its own Stripe Price.
+ * New checkouts use the current version; existing subscribers stay on the
+ * version they purchased (grandfathered) until an admin migrates the cohort.
+ * A version's prices in additional currencies (plan_prices) are versioned with it.
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import Stripe from 'stripe';
+import type { PoolClient } from 'pg';
+import { query, transaction } from '../../shared/db/index.js';
+import { deleteCachePattern } from '../../shared/utils/redis.js';
+import { getStripeApiKey } from '../../shared/utils/secrets.js';
+import {
+  createCurrencyPrice,
+  normalizeCurrency,
+  toPlanPriceResponses,
+  validatePlanPriceRequest,
+} from './planPrices.js';
+import {
+  PlanRow,
+  PlanVersionRow,
+  PlanPriceRow,
+  PlanVersionResponse,
+  CreatePlanVersionRequest,
+  PlanMigrationRequest,
+  PlanMigrationReport,
+  PlanMigrationSubscription,
+  CatalogCacheKeys,
+} from './types.js';
+
+/**
+ * Subscription statuses that are billed at a plan version
+ */
+const BILLED_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+/**
+ * Default and maximum subscriptions migrated per request
+ */
+const DEFAULT_MIGRATION_LIMIT = 100;
+const MAX_MIGRATION_LIMIT = 500;
+
+/**
+ * Lazily initialized Stripe client
+ */
+let stripeClient: Stripe | null = null;
+
+/**
+ * Get or initialize Stripe client
+ */
+async function getStripeClient(): Promise<Stripe> {
+  if (!stripeClient) {
+    const apiKey = await getStripeApiKey();
+    stripeClient = new Stripe(apiKey, {
+      apiVersion: '2023-10-16',
+      typescript: true,
+      appInfo: {
+        name: 'CCAGI Catalog Service',
+        version: '1.0.0',
+      },
+    });
+    console.log('[PlanVersions] Stripe client initialized');
+  }
+  return stripeClient;
+}
+
+/**
+ * Converts PlanVersionRow to PlanVersionResponse
+ */
+function toPlanVersionResponse(
+  row: PlanVersionRow,
+  currentVersionId: string | null,
+  subscriberCount: number,
+  priceRows: PlanPriceRow[]
+): PlanVersionResponse {
+  return {
+    id: row.id,
+    plan_id: row.plan_id,
+    version: row.version,
+    stripe_price_id: row.stripe_price_id,
+    price_amount: row.price_amount,
+    currency: row.currency,
+    trial_period_days: row.trial_period_days,
+    prices: toPlanPriceResponses(row, priceRows),
+    is_current: row.id === currentVersionId,
+    subscriber_count: subscriberCount,
+    created_at: row.created_at.toISOString(),
+    superseded_at: row.superseded_at ? row.superseded_at.toISOString() : null,
+  };
+}
+
+/**
+ * Invalidates plan cache
+ */
+async function invalidatePlanCache(planId: string, productId: string): Promise<void> {
+  try {
+    await deleteCachePattern(`${CatalogCacheKeys.plan(planId)}*`);
+    await deleteCachePattern(`${CatalogCacheKeys.productPlans(productId)}*`);
+  } catch (error) {
+    console.warn('[PlanVersions] Failed to invalidate cache:', error);
+  }
+}
+
+/**
+ * Get a plan that is not deleted
+ */
+async function findPlan(planId: string): Promise<PlanRow | null> {
+  const result = await query<PlanRow>(
+    'SELECT * FROM plans WHERE id = $1 AND deleted_at IS NULL',
+    [planId]
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * GET /admin/plans/{id}/versions
+ * List the versions of a plan with their subscriber counts (newest first)
+ */
+export async function listPlanVersions(planId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const plan = await findPlan(planId);
+    if (!plan) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Plan not found',
+        }),
+      };
+    }
+
+    const result = await query<PlanVersionRow & { subscriber_count: string }>(
+      `
+      SELECT
+        pv.*,
+        (
+          SELECT COUNT(*) FROM subscriptions s
+          WHERE s.plan_version_id = pv.id
+            AND s.status = ANY($2::text[])
+            AND s.deleted_at IS NULL
+        ) as subscriber_count
+      FROM plan_versions pv
+      WHERE pv.plan_id = $1
+      ORDER BY pv.version DESC
+      `,
+      [planId, BILLED_SUBSCRIPTION_STATUSES]
+    );
+
+    const prices = await query<PlanPriceRow>('SELECT * FROM plan_prices WHERE plan_id = $1', [planId]);
+
+    const items = result.rows.map((row) =>
+      toPlanVersionResponse(
+        row,
+        plan.current_version_id,
+        parseInt(row.subscriber_count),
+        prices.rows.filter((price) => price.plan_version_id === row.id)
+      )
+    );
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ plan_id: planId, items }),
+    };
+  } catch (error) {
+    console.error('[PlanVersions] List error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to list plan versions',
+      }),
+    };
+  }
+}
+
+/**
+ * POST /admin/plans/{id}/versions
+ * Create a new price version and make it the current version
+ *
+ * The previous version's Stripe Prices are archived: they can no longer be
+ * purchased, but existing subscriptions keep renewing at them. Additional
+ * currencies are sold at the new version only if listed in `prices`.
+ */
+export async function createPlanVersion(planId: string, body: string): Promise<APIGatewayProxyResult> {
+  try {
+    const request: CreatePlanVersionRequest = JSON.parse(body);
+
+    if (!Number.isInteger(request.price_amount) || request.price_amount < 0) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'price_amount must be a non-negative integer',
+        }),
+      };
+    }
+
+    if (
+      request.trial_period_days !== undefined &&
+      request.trial_period_days !== null &&
+      (!Number.isInteger(request.trial_period_days) || request.trial_period_days < 0)
+    ) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'trial_period_days must be a non-negative integer or null',
+        }),
+      };
+    }
+
+    if (request.prices !== undefined && !Array.isArray(request.prices)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'prices must be an array',
+        }),
+      };
+    }
+    const currencyPrices = request.prices ?? [];
+
+    const result = await transaction(async (client) => {
+      // Lock the plan so concurrent requests get consecutive version numbers
+      const planResult = await client.query<PlanRow & { stripe_product_id: string }>(
+        `
+        SELECT p.*, pr.stripe_product_id
+        FROM plans p
+        JOIN products pr ON p.product_id = pr.id
+        WHERE p.id = $1 AND p.deleted_at IS NULL
+        FOR UPDATE OF p
+        `,
+        [planId]
+      );
+      const plan = planResult.rows[0];
+      if (!plan) {
+        return null;
+      }
+
+      const seen = new Set<string>();
+      for (const [index, price] of currencyPrices.entries()) {
+        const validationError = validatePlanPriceRequest(plan, price)
+          ?? (seen.has(normalizeCurrency(price.currency)!) ? `Duplicate currency: ${price.currency}` : null);
+        if (validationError) {
+          return { error: `prices[${index}]: ${validationError}` };
+        }
+        seen.add(normalizeCurrency(price.currency)!);
+      }
+
+      const previous = await client.query<PlanVersionRow>(
+        'SELECT * FROM plan_versions WHERE plan_id = $1 ORDER BY version DESC LIMIT 1',
+        [planId]
+      );
+      const previousVersion = previous.rows[0] ?? null;
+      const version = (previousVersion?.version ?? 0) + 1;
+      const trialPeriodDays = request.trial_period_days === undefined
+        ? plan.trial_period_days
+        : request.trial_period_days;
+
+      const stripe = await getStripeClient();
+      const interval = plan.billing_period === 'monthly' ? 'month' : plan.billing_period === 'yearly' ? 'year' : null;
+      const price = await stripe.prices.create({
+        product: plan.stripe_product_id,
+        unit_amount: request.price_amount,
+        currency: plan.currency.toLowerCase(),
+        nickname: `${plan.name} v${version}`,
+        tax_behavior: plan.tax_inclusive ? 'inclusive' : 'exclusive',
+        ...(interval
+          ? { recurring: { interval, ...(trialPeriodDays ? { trial_period_days: trialPeriodDays } : {}) } }
+          : {}),
+        metadata: {
+          plan_id: plan.id,
+          plan_name: plan.name,
+          plan_version: String(version),
+          billing_period: plan.billing_period,
+        },
+      });
+      console.log('[PlanVersions] Stripe Price created:', price.id);
+
+      const versionResult = await client.query<PlanVersionRow>(
+        `INSERT INTO plan_versions (plan_id, version, stripe_price_id, price_amount, currency, trial_period_days)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [planId, version, price.id, request.price_amount, plan.currency, trialPeriodDays]
+      );
+      const created = versionResult.rows[0]!;
+
+      const createdPrices: PlanPriceRow[] = [];
+      for (const price of currencyPrices) {
+        createdPrices.push(await createCurrencyPrice(stripe, client, plan, created, price));
+      }
+
+      await client.query(
+        'UPDATE plan_versions SET superseded_at = NOW() WHERE plan_id = $1 AND id <> $2 AND superseded_at IS NULL',
+        [planId, created.id]
+      );
+
+      // New checkouts use the current version's price
+      await client.query(
+        `UPDATE plans
+         SET current_version_id = $1, stripe_price_id = $2, price_amount = $3, trial_period_days = $4
+         WHERE id = $5`,
+        [created.id, created.stripe_price_id, created.price_amount, created.trial_period_days, planId]
+      );
+
+      if (previousVersion) {
+        const previousPrices = await client.query<{ stripe_price_id: string }>(
+          'SELECT stripe_price_id FROM plan_prices WHERE plan_version_id = $1',
+          [previousVersion.id]
+        );
+        const archivedPriceIds = [
+          previousVersion.stripe_price_id,
+          ...previousPrices.rows.map((row) => row.stripe_price_id),
+        ];
+
+        for (const priceId of archivedPriceIds) {
+          try {
+            await stripe.prices.update(priceId, { active: false });
+            console.log('[PlanVersions] Stripe Price archived:', priceId);
+          } catch (stripeError) {
+            console.warn('[PlanVersions] Failed to archive Stripe Price:', stripeError);
+          }
+        }
+      }
+
+      return { plan, version: created, prices: createdPrices };
+    });
+
+    if (!result) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Plan not found',
+        }),
+      };
+    }
+
+    if ('error' in result) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: result.error,
+        }),
+      };
+    }
+
+    await invalidatePlanCache(planId, result.plan.product_id);
+
+    return {
+      statusCode: 201,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toPlanVersionResponse(result.version, result.version.id, 0, result.prices)),
+    };
+  } catch (error) {
+    console.error('[PlanVersions] Create error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to create plan version',
+      }),
+    };
+  }
+}
+
+/**
+ * Subscription of a migration cohort
+ */
+interface CohortSubscriptionRow {
+  id: string;
+  stripe_subscription_id: string | null;
+  user_id: string;
+  team_id: string | null;
+  status: string;
+  seat_quantity: number | null;
+  current_period_end: Date | null;
+  cancel_at_period_end: boolean;
+  has_scheduled_change: boolean;
+}
+
+/**
+ * Why a subscription is left on its version, or null if it can be migrated
+ */
+function findSkipReason(row: CohortSubscriptionRow): string | null {
+  if (!row.stripe_subscription_id) {
+    return 'no_stripe_subscription';
+  }
+  if (row.cancel_at_period_end) {
+    return 'cancel_at_period_end';
+  }
+  if (row.has_scheduled_change) {
+    return 'scheduled_plan_change';
+  }
+  return null;
+}
+
+/**
+ * Price of a plan version in the currency of a migration
+ */
+export interface VersionPrice {
+  stripe_price_id: string;
+  price_amount: number;
+}
+
+/**
+ * Database access of a cohort migration
+ * shared/db's query / transaction satisfy it; tests pass a stub.
+ */
+export interface CohortMigrationDatabase {
+  query<T>(text: string, params?: unknown[]): Promise<{ rows: T[] }>;
+  transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Subset of the Stripe client used by a cohort migration
+ * The real Stripe client satisfies it; tests pass a stub.
+ */
+export interface CohortMigrationStripeClient {
+  subscriptions: {
+    retrieve(id: string): Promise<Stripe.Subscription>;
+    update(id: string, params: Stripe.SubscriptionUpdateParams): Promise<Stripe.Subscription>;
+  };
+}
+
+/**
+ * Cohort of a migration: the subscriptions on `from` billed in `currency`
+ */
+export interface CohortMigration {
+  plan: PlanRow;
+  from: PlanVersionRow;
+  to: PlanVersionRow;
+  currency: string;
+  fromPrice: VersionPrice;
+  toPrice: VersionPrice;
+  /** Maximum subscriptions migrated */
+  limit: number;
+}
+
+/**
+ * Find the price of a plan version in a currency (its own price or a plan_prices row)
+ */
+async function findVersionPrice(
+  plan: PlanRow,
+  version: PlanVersionRow,
+  currency: string
+): Promise<VersionPrice | null> {
+  if (currency === plan.currency) {
+    return { stripe_price_id: version.stripe_price_id, price_amount: version.price_amount };
+  }
+
+  const result = await query<VersionPrice>(
+    'SELECT stripe_price_id, price_amount FROM plan_prices WHERE plan_version_id = $1 AND currency = $2',
+    [version.id, currency]
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Move one subscription to the new version's price
+ * The new price applies from the next renewal (no proration).
+ */
+async function migrateSubscription(
+  db: CohortMigrationDatabase,
+  stripe: CohortMigrationStripeClient,
+  row: CohortSubscriptionRow,
+  from: VersionPrice,
+  to: VersionPrice & { version_id: string }
+): Promise<void> {
+  const subscription = await stripe.subscriptions.retrieve(row.stripe_subscription_id!);
+  const baseItem = subscription.items.data.find((item) => item.price.id === from.stripe_price_id);
+  if (!baseItem) {
+    throw new Error(`Price ${from.stripe_price_id} not found on the Stripe subscription`);
+  }
+
+  await stripe.subscriptions.update(subscription.id, {
+    items: [{ id: baseItem.id, price: to.stripe_price_id, quantity: baseItem.quantity ?? 1 }],
+    proration_behavior: 'none',
+  });
+
+  await db.transaction(async (client) => {
+    await client.query(
+      'UPDATE subscriptions SET plan_version_id = $1, updated_at = NOW() WHERE id = $2',
+      [to.version_id, row.id]
+    );
+    await client.query(
+      `UPDATE entitlements
+       SET plan_version_id = $1, updated_at = NOW()
+       WHERE subscription_id = $2 AND status IN ('active', 'grace', 'suspended')`,
+      [to.version_id, row.id]
+    );
+  });
+}
+
+/**
+ * Migrate a cohort to the current version's price
+ * Without a Stripe client (dry run) the cohort is only reported.
+ *
+ * @param db - Database access (or stub)
+ * @param stripe - Stripe client (or stub), null for a dry run
+ * @param migration - Cohort and prices of the migration
+ */
+export async function migrateCohort(
+  db: CohortMigrationDatabase,
+  stripe: CohortMigrationStripeClient | null,
+  migration: CohortMigration
+): Promise<PlanMigrationReport> {
+  const { plan, from, to, currency, fromPrice, toPrice, limit } = migration;
+
+  const cohort = await db.query<CohortSubscriptionRow>(
+    `
+    SELECT
+      s.id,
+      s.stripe_subscription_id,
+      s.user_id,
+      s.team_id,
+      s.status,
+      s.seat_quantity,
+      s.current_period_end,
+      s.cancel_at_period_end,
+      EXISTS (
+        SELECT 1 FROM scheduled_plan_changes spc
+        WHERE spc.subscription_id = s.id AND spc.status = 'scheduled'
+      ) as has_scheduled_change
+    FROM subscriptions s
+    WHERE s.plan_version_id = $1
+      AND s.status = ANY($2::text[])
+      AND s.deleted_at IS NULL
+      AND COALESCE(s.currency, $3) = $4
+    ORDER BY s.created_at
+    `,
+    [from.id, BILLED_SUBSCRIPTION_STATUSES, plan.currency, currency]
+  );
+
+  const subscriptions: PlanMigrationSubscription[] = [];
+  let migrated = 0;
+  let skipped = 0;
+  let failed = 0;
+  let remaining = 0;
+  let revenueChange = 0;
+
+  for (const row of cohort.rows) {
+    const entry: PlanMigrationSubscription = {
+      subscription_id: row.id,
+      stripe_subscription_id: row.stripe_subscription_id ?? '',
+      user_id: row.user_id,
+      team_id: row.team_id,
+      status: row.status,
+      seat_quantity: row.seat_quantity ?? 1,
+      current_period_end: row.current_period_end ? row.current_period_end.toISOString() : null,
+      action: 'migrate',
+    };
+
+    const skipReason = findSkipReason(row);
+    if (skipReason) {
+      subscriptions.push({ ...entry, action: 'skipped', reason: skipReason });
+      skipped++;
+      continue;
+    }
+
+    // Skipped subscriptions are always reported; the rest up to the limit
+    if (migrated + failed >= limit) {
+      remaining++;
+      continue;
+    }
+
+    if (stripe) {
+      try {
+        await migrateSubscription(db, stripe, row, fromPrice, { ...toPrice, version_id: to.id });
+        entry.action = 'migrated';
+      } catch (error) {
+        console.error('[PlanVersions] Subscription migration failed:', { subscriptionId: row.id, error });
+        subscriptions.push({ ...entry, action: 'failed', reason: (error as Error).message });
+        failed++;
+        continue;
+      }
+    }
+
+    subscriptions.push(entry);
+    migrated++;
+    revenueChange += (toPrice.price_amount - fromPrice.price_amount) * entry.seat_quantity;
+  }
+
+  return {
+    plan_id: plan.id,
+    dry_run: stripe === null,
+    from_version: from.version,
+    to_version: to.version,
+    currency,
+    billing_period: plan.billing_period,
+    from_price_amount: fromPrice.price_amount,
+    to_price_amount: toPrice.price_amount,
+    total: cohort.rows.length,
+    migrated,
+    skipped,
+    failed,
+    remaining,
+    revenue_change_per_period: revenueChange,
+    subscriptions,
+  };
+}
+
+/**
+ * POST /admin/plans/{id}/migrations
+ * Migrate the subscribers of an old plan version to the current version
+ *
+ * Dry run (default) reports the cohort and the revenue change without
+ * changing anything. A migration covers the subscriptions billed in one
+ * currency (default: the plan currency), which the current version must
+ * also be sold in. Subscriptions cancelling at period end or with a
+ * scheduled plan change are skipped. Migrated subscriptions pay the new
+ * price from their next renewal.
+ */
+export async function migratePlanCohort(planId: string, body: string): Promise<APIGatewayProxyResult> {
+  try {
+    const request: PlanMigrationRequest = JSON.parse(body);
+    const dryRun = request.dry_run !== false;
+
+    if (!Number.isInteger(request.from_version)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'from_version must be a version number',
+        }),
+      };
+    }
+
+    if (
+      request.limit !== undefined &&
+      (!Number.isInteger(request.limit) || request.limit < 1 || request.limit > MAX_MIGRATION_LIMIT)
+    ) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: `limit must be an integer from 1 to ${MAX_MIGRATION_LIMIT}`,
+        }),
+      };
+    }
+    const limit = request.limit ?? DEFAULT_MIGRATION_LIMIT;
+
+    const requestedCurrency = request.currency === undefined ? null : normalizeCurrency(request.currency);
+    if (request.currency !== undefined && !requestedCurrency) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'currency must be an ISO 4217 currency code',
+        }),
+      };
+    }
+
+    const plan = await findPlan(planId);
+    if (!plan) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Plan not found',
+        }),
+      };
+    }
+
+    const versions = await query<PlanVersionRow>(
+      'SELECT * FROM plan_versions WHERE plan_id = $1 AND (version = $2 OR id = $3)',
+      [planId, request.from_version, plan.current_version_id]
+    );
+    const from = versions.rows.find((row) => row.version === request.from_version);
+    const to = versions.rows.find((row) => row.id === plan.current_version_id);
+
+    if (!from || !to) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: from ? 'Plan has no current version' : `Plan version ${request.from_version} not found`,
+        }),
+      };
+    }
+
+    if (from.id === to.id) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: `Version ${from.version} is the current version`,
+        }),
+      };
+    }
+
+    const currency = requestedCurrency ?? plan.currency;
+    const fromPrice = await findVersionPrice(plan, from, currency);
+    if (!fromPrice) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: `Plan version ${from.version} has no ${currency} price`,
+        }),
+      };
+    }
+
+    const toPrice = await findVersionPrice(plan, to, currency);
+    if (!toPrice) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: `The current version ${to.version} has no ${currency} price`,
+        }),
+      };
+    }
+
+    const report = await migrateCohort(
+      { query, transaction },
+      dryRun ? null : await getStripeClient(),
+      { plan, from, to, currency, fromPrice, toPrice, limit }
+    );
+
+    console.log('[PlanVersions] Cohort migration', {
+      planId,
+      dryRun,
+      fromVersion: from.version,
+      toVersion: to.version,
+      currency,
+      total: report.total,
+      migrated: report.migrated,
+      skipped: report.skipped,
+      failed: report.failed,
+      remaining: report.remaining,
+    });
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(report),
+    };
+  } catch (error) {
+    console.error('[PlanVersions] Migration error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to migrate plan version',
+      }),
+    };
+  }
+}
@@ -8,8 +8,11 @@ import Stripe from 'stripe';
 import { query, transaction } from '../../shared/db/index.js';
 import { setCacheValue, getCacheValue, deleteCachePattern } from '../../shared/utils/redis.js';
 import { getStripeApiKey } from '../../shared/utils/secrets.js';
+import { ensureStripeTaxRate, isValidTaxRate, STANDARD_TAX_RATE } from '../billing/invoice/taxRates.js';
+import { loadPlanPrices, toPlanPriceResponses } from './planPrices.js';
 import {
   PlanRow,
+  PlanPriceRow,
   PlanResponse,
   CreatePlanRequest,
   UpdatePlanRequest,
@@ -45,17 +48,27 @@ async function getStripeClient(): Promise<Stripe> {
 
 /**
  * Converts PlanRow to PlanResponse
+ * With a currency the plan is sold in, the price fields are that currency's;
+ * otherwise they are the plan currency's.
  */
-function toPlanResponse(row: PlanRow): PlanResponse {
+function toPlanResponse(row: PlanRow, priceRows: PlanPriceRow[] = [], currency: string | null = null): PlanResponse {
+  const prices = toPlanPriceResponses(row, priceRows);
+  const selected = prices.find((price) => price.currency === currency) ?? prices[0]!;
+
   return {
     id: row.id,
     product_id: row.product_id,
     name: row.name,
-    stripe_price_id: row.stripe_price_id,
+    stripe_price_id: selected.stripe_price_id,
+    metered_price_id: row.metered_price_id ?? null,
     billing_period: row.billing_period,
-    price_amount: row.price_amount,
-    currency: row.currency,
+    price_amount: selected.price_amount,
+    currency: selected.currency,
     trial_period_days: row.trial_period_days,
+    tax_rate: Number(row.tax_rate),
+    tax_inclusive: row.tax_inclusive,
+    current_version_id: row.current_version_id ?? null,
+    prices,
     is_active: row.is_active,
     metadata: row.metadata || {},
     created_at: row.created_at.toISOString(),
@@ -80,10 +93,10 @@ function parsePaginationParams(queryParams: Record<string, string | undefined> |
 async function invalidatePlanCache(planId?: string, productId?: string): Promise<void> {
   try {
     if (planId) {
-      await deleteCachePattern(CatalogCacheKeys.plan(planId));
+      await deleteCachePattern(`${CatalogCacheKeys.plan(planId)}*`);
     }
     if (productId) {
-      await deleteCachePattern(CatalogCacheKeys.productPlans(productId));
+      await deleteCachePattern(`${CatalogCacheKeys.productPlans(productId)}*`);
     }
   } catch (error) {
     console.warn('[Plans] Failed to invalidate cache:', error);
@@ -126,6 +139,7 @@ async function createStripePrice(
       unit_amount: request.price_amount,
       currency: request.currency || 'jpy',
       nickname: request.name,
+      tax_behavior: request.tax_inclusive === false ? 'exclusive' : 'inclusive',
       metadata: {
         plan_name: request.name,
         billing_period: request.billing_period,
@@ -153,11 +167,13 @@ async function createStripePrice(
 /**
  * GET /admin/plans/{id}
  * Get a single plan by ID
+ *
+ * @param currency - Currency of the price fields (null: the plan currency)
  */
-export async function getPlan(planId: string): Promise<APIGatewayProxyResult> {
+export async function getPlan(planId: string, currency: string | null = null): Promise<APIGatewayProxyResult> {
   try {
     // Check cache
-    const cacheKey = CatalogCacheKeys.plan(planId);
+    const cacheKey = currency ? `${CatalogCacheKeys.plan(planId)}:currency:${currency}` : CatalogCacheKeys.plan(planId);
     let cached: PlanResponse | null = null;
     try {
       cached = await getCacheValue<PlanResponse>(cacheKey);
@@ -189,7 +205,8 @@ export async function getPlan(planId: string): Promise<APIGatewayProxyResult> {
       };
     }
 
-    const response = toPlanResponse(result.rows[0]!);
+    const prices = await loadPlanPrices([planId]);
+    const response = toPlanResponse(result.rows[0]!, prices.get(planId), currency);
 
     // Cache response
     try {
@@ -219,18 +236,21 @@ export async function getPlan(planId: string): Promise<APIGatewayProxyResult> {
 /**
  * GET /admin/plans
  * List all plans with optional product_id filter
+ *
+ * @param currency - Currency of the price fields (null: each plan's currency)
  */
 export async function listPlans(
-  queryParams: Record<string, string | undefined> | null
+  queryParams: Record<string, string | undefined> | null,
+  currency: string | null = null
 ): Promise<APIGatewayProxyResult> {
   try {
     const { page, per_page, offset } = parsePaginationParams(queryParams);
     const productId = queryParams?.['product_id'];
 
     // Build cache key
-    const cacheKey = productId
+    const cacheKey = (productId
       ? `${CatalogCacheKeys.productPlans(productId)}:page:${page}:per_page:${per_page}`
-      : `catalog:plans:all:page:${page}:per_page:${per_page}`;
+      : `catalog:plans:all:page:${page}:per_page:${per_page}`) + (currency ? `:currency:${currency}` : '');
 
     // Check cache (graceful - don't fail if Redis is unavailable)
     try {
@@ -266,7 +286,8 @@ export async function listPlans(
     listQuery += ' ORDER BY created_at DESC LIMIT $' + (values.length + 1) + ' OFFSET $' + (values.length + 2);
     const result = await query<PlanRow>(listQuery, [...values, per_page, offset]);
 
-    const items = result.rows.map(toPlanResponse);
+    const prices = await loadPlanPrices(result.rows.map((row) => row.id));
+    const items = result.rows.map((row) => toPlanResponse(row, prices.get(row.id), currency));
     const hasMore = offset + items.length < total;
 
     const response: ListResponse<PlanResponse> = {
@@ -331,6 +352,19 @@ export async function createPlan(body: string): Promise<APIGatewayProxyResult> {
       };
     }
 
+    if (request.tax_rate !== undefined && !isValidTaxRate(request.tax_rate)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'tax_rate must be a number from 0 to less than 100',
+        }),
+      };
+    }
+
+    const taxRate = request.tax_rate ?? STANDARD_TAX_RATE;
+    const taxInclusive = request.tax_inclusive ?? true;
+
     // Use transaction to ensure atomicity
     const result = await transaction(async (client) => {
       // Verify product exists and get Stripe Product ID
@@ -345,16 +379,18 @@ export async function createPlan(body: string): Promise<APIGatewayProxyResult> {
 
       const stripeProductId = productResult.rows[0].stripe_product_id as string;
 
-      // Create Stripe Price
+      // Create Stripe Price and resolve the Stripe Tax Rate of the plan's consumption tax
       const stripePrice = await createStripePrice(stripeProductId, request);
+      const stripeTaxRateId = await ensureStripeTaxRate(await getStripeClient(), taxRate, taxInclusive);
 
       // Create plan in database
       const planResult = await client.query<PlanRow>(
         `INSERT INTO plans (
           product_id, name, stripe_price_id, billing_period,
-          price_amount, currency, trial_period_days, is_active, metadata
+          price_amount, currency, trial_period_days, is_active, metadata,
+          metered_price_id, tax_rate, tax_inclusive, stripe_tax_rate_id
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
         RETURNING *`,
         [
           request.product_id,
@@ -366,10 +402,29 @@ export async function createPlan(body: string): Promise<APIGatewayProxyResult> {
           request.trial_period_days || null,
           request.is_active ?? true,
           JSON.stringify(request.metadata || {}),
+          request.metered_price_id || null,
+          taxRate,
+          taxInclusive,
+          stripeTaxRateId,
         ]
       );
 
-      return planResult.rows[0];
+      const plan = planResult.rows[0]!;
+
+      // The initial price is version 1 of the plan
+      const versionResult = await client.query<{ id: string }>(
+        `INSERT INTO plan_versions (plan_id, version, stripe_price_id, price_amount, currency, trial_period_days)
+         VALUES ($1, 1, $2, $3, $4, $5)
+         RETURNING id`,
+        [plan.id, plan.stripe_price_id, plan.price_amount, plan.currency, plan.trial_period_days]
+      );
+
+      const updated = await client.query<PlanRow>(
+        'UPDATE plans SET current_version_id = $1 WHERE id = $2 RETURNING *',
+        [versionResult.rows[0]!.id, plan.id]
+      );
+
+      return updated.rows[0];
     });
 
     if (!result) {
@@ -402,14 +457,32 @@ export async function createPlan(body: string): Promise<APIGatewayProxyResult> {
   }
 }
 
+/**
+ * Fields of a plan's price, changed only through a new plan version
+ */
+const VERSIONED_PLAN_FIELDS = ['price_amount', 'currency', 'billing_period', 'trial_period_days', 'stripe_price_id'];
+
 /**
  * PUT /admin/plans/{id}
  * Update an existing plan (Stripe Price is immutable, only DB fields updated)
+ * Price changes create a new plan version (POST /admin/plans/{id}/versions)
+ * so existing subscribers keep their price.
  */
 export async function updatePlan(planId: string, body: string): Promise<APIGatewayProxyResult> {
   try {
     const request: UpdatePlanRequest = JSON.parse(body);
 
+    const versionedFields = VERSIONED_PLAN_FIELDS.filter((field) => field in request);
+    if (versionedFields.length > 0) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: `${versionedFields.join(', ')} cannot be updated in place; create a plan version with POST /admin/plans/${planId}/versions`,
+        }),
+      };
+    }
+
     // Build dynamic UPDATE query
     const updates: string[] = [];
     const values: unknown[] = [];
@@ -423,10 +496,61 @@ export async function updatePlan(planId: string, body: string): Promise<APIGatew
       updates.push(`is_active = $${paramIndex++}`);
       values.push(request.is_active);
     }
+    if (request.metered_price_id !== undefined) {
+      // Every item of a Stripe subscription must be in the same currency
+      if (request.metered_price_id && (await loadPlanPrices([planId])).has(planId)) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'Plans sold in additional currencies cannot have a metered price',
+          }),
+        };
+      }
+      updates.push(`metered_price_id = $${paramIndex++}`);
+      values.push(request.metered_price_id);
+    }
     if (request.metadata !== undefined) {
       updates.push(`metadata = $${paramIndex++}`);
       values.push(JSON.stringify(request.metadata));
     }
+    if (request.tax_rate !== undefined || request.tax_inclusive !== undefined) {
+      if (request.tax_rate !== undefined && !isValidTaxRate(request.tax_rate)) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: 'tax_rate must be a number from 0 to less than 100',
+          }),
+        };
+      }
+
+      const current = await query<Pick<PlanRow, 'tax_rate' | 'tax_inclusive'>>(
+        'SELECT tax_rate, tax_inclusive FROM plans WHERE id = $1 AND deleted_at IS NULL',
+        [planId]
+      );
+      if (current.rows.length === 0) {
+        return {
+          statusCode: 404,
+          body: JSON.stringify({
+            error: 'Not Found',
+            message: 'Plan not found',
+          }),
+        };
+      }
+
+      // Existing subscriptions keep their tax rate; new checkouts use the new one
+      const taxRate = request.tax_rate ?? Number(current.rows[0]!.tax_rate);
+      const taxInclusive = request.tax_inclusive ?? current.rows[0]!.tax_inclusive;
+      const stripeTaxRateId = await ensureStripeTaxRate(await getStripeClient(), taxRate, taxInclusive);
+
+      updates.push(`tax_rate = $${paramIndex++}`);
+      values.push(taxRate);
+      updates.push(`tax_inclusive = $${paramIndex++}`);
+      values.push(taxInclusive);
+      updates.push(`stripe_tax_rate_id = $${paramIndex++}`);
+      values.push(stripeTaxRateId);
+    }
 
     if (updates.length === 0) {
       return {
@@ -464,7 +588,8 @@ export async function updatePlan(planId: string, body: string): Promise<APIGatew
     // Invalidate cache
     await invalidatePlanCache(planId, plan.product_id);
 
-    const response = toPlanResponse(plan);
+    const prices = await loadPlanPrices([planId]);
+    const response = toPlanResponse(plan, prices.get(planId));
 
     return {
       statusCode: 200,
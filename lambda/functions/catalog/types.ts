@@ -39,6 +39,8 @@ export interface PlanRow {
   name: string;
   /** Stripe Price ID */
   stripe_price_id: string;
+  /** Stripe metered Price ID for usage above usage_limit */
+  metered_price_id: string | null;
   /** Billing period */
   billing_period: 'monthly' | 'yearly' | 'one_time';
   /** Price amount in smallest currency unit */
@@ -47,6 +49,14 @@ export interface PlanRow {
   currency: string;
   /** Trial period in days */
   trial_period_days: number | null;
+  /** Consumption tax rate in percent (NUMERIC, returned as string) */
+  tax_rate: string;
+  /** Whether price_amount includes the tax */
+  tax_inclusive: boolean;
+  /** Stripe Tax Rate applied at checkout */
+  stripe_tax_rate_id: string | null;
+  /** Price version sold to new customers (its price is mirrored in the columns above) */
+  current_version_id: string | null;
   /** Whether the plan is active */
   is_active: boolean;
   /** Additional metadata */
@@ -149,6 +159,12 @@ export interface CreatePlanRequest {
   currency?: string;
   /** Trial period in days */
   trial_period_days?: number;
+  /** Stripe metered Price ID for usage above usage_limit */
+  metered_price_id?: string;
+  /** Consumption tax rate in percent (default: 10, reduced rate: 8) */
+  tax_rate?: number;
+  /** Whether price_amount includes the tax (default: true) */
+  tax_inclusive?: boolean;
   /** Whether the plan is active */
   is_active?: boolean;
   /** Additional metadata */
@@ -161,6 +177,12 @@ export interface CreatePlanRequest {
 export interface UpdatePlanRequest {
   /** Plan name */
   name?: string;
+  /** Stripe metered Price ID for usage above usage_limit (null to disable) */
+  metered_price_id?: string | null;
+  /** Consumption tax rate in percent (applies to new checkouts) */
+  tax_rate?: number;
+  /** Whether price_amount includes the tax (applies to new checkouts) */
+  tax_inclusive?: boolean;
   /** Whether the plan is active */
   is_active?: boolean;
   /** Additional metadata */
@@ -179,6 +201,8 @@ export interface PlanResponse {
   name: string;
   /** Stripe Price ID */
   stripe_price_id: string;
+  /** Stripe metered Price ID for usage above usage_limit */
+  metered_price_id: string | null;
   /** Billing period */
   billing_period: string;
   /** Price amount in smallest currency unit */
@@ -187,6 +211,14 @@ export interface PlanResponse {
   currency: string;
   /** Trial period in days */
   trial_period_days: number | null;
+  /** Consumption tax rate in percent */
+  tax_rate: number;
+  /** Whether price_amount includes the tax */
+  tax_inclusive: boolean;
+  /** Current price version */
+  current_version_id: string | null;
+  /** Prices of the current version in every currency (the plan currency first) */
+  prices: PlanPriceResponse[];
   /** Whether the plan is active */
   is_active: boolean;
   /** Additional metadata */
@@ -197,6 +229,162 @@ export interface PlanResponse {
   updated_at: string;
 }
 
+/**
+ * Database row structure for plan_versions table
+ * Versions are immutable; each has its own Stripe Price.
+ */
+export interface PlanVersionRow {
+  id: string;
+  plan_id: string;
+  /** Version number (1, 2, ...) */
+  version: number;
+  stripe_price_id: string;
+  price_amount: number;
+  currency: string;
+  trial_period_days: number | null;
+  created_at: Date;
+  /** When a newer version replaced it */
+  superseded_at: Date | null;
+}
+
+/**
+ * Database row structure for plan_prices table
+ * Price of a plan version in an additional currency, with its own Stripe Price.
+ */
+export interface PlanPriceRow {
+  id: string;
+  plan_id: string;
+  plan_version_id: string;
+  /** Currency code (ISO 4217, upper case) */
+  currency: string;
+  price_amount: number;
+  stripe_price_id: string;
+  created_at: Date;
+}
+
+/**
+ * Price of a plan in one currency
+ */
+export interface PlanPriceResponse {
+  /** Currency code (ISO 4217, upper case) */
+  currency: string;
+  /** Price amount in smallest currency unit */
+  price_amount: number;
+  /** Stripe Price ID (plan_id of checkout requests) */
+  stripe_price_id: string;
+  /** Whether this is the plan currency */
+  is_default: boolean;
+}
+
+/**
+ * Request body for POST /admin/plans/{id}/prices
+ * Adds a currency to the current version.
+ */
+export interface CreatePlanPriceRequest {
+  /** Currency code (ISO 4217), other than the plan currency */
+  currency: string;
+  /** Price amount in smallest currency unit */
+  price_amount: number;
+}
+
+/**
+ * Request body for POST /admin/plans/{id}/versions
+ * Billing period and currency are those of the plan.
+ */
+export interface CreatePlanVersionRequest {
+  /** New price in smallest currency unit */
+  price_amount: number;
+  /** Trial period in days (default: the current version's) */
+  trial_period_days?: number | null;
+  /** Prices in additional currencies (currencies not listed are not sold at the new version) */
+  prices?: CreatePlanPriceRequest[];
+}
+
+/**
+ * Plan version API response
+ */
+export interface PlanVersionResponse {
+  id: string;
+  plan_id: string;
+  version: number;
+  stripe_price_id: string;
+  price_amount: number;
+  currency: string;
+  trial_period_days: number | null;
+  /** Prices of the version in every currency (the plan currency first) */
+  prices: PlanPriceResponse[];
+  /** Whether new checkouts use this version */
+  is_current: boolean;
+  /** Subscriptions billed at this version (active, trialing, past_due) */
+  subscriber_count: number;
+  created_at: string;
+  superseded_at: string | null;
+}
+
+/**
+ * Request body for POST /admin/plans/{id}/migrations
+ * Moves the subscribers of an old version to the current version.
+ */
+export interface PlanMigrationRequest {
+  /** Version to migrate from */
+  from_version: number;
+  /** Currency of the subscriptions to migrate (default: the plan currency) */
+  currency?: string;
+  /** Report only, without changing subscriptions (default: true) */
+  dry_run?: boolean;
+  /** Maximum subscriptions migrated per request (default: 100, max: 500) */
+  limit?: number;
+}
+
+/**
+ * Outcome for one subscription of a cohort migration
+ * - migrate: will be migrated (dry run)
+ * - migrated: the Stripe subscription now uses the new price
+ * - skipped: left on the old version (see reason)
+ * - failed: the Stripe update failed (see reason)
+ */
+export type PlanMigrationAction = 'migrate' | 'migrated' | 'skipped' | 'failed';
+
+/**
+ * Subscription in a cohort migration report
+ */
+export interface PlanMigrationSubscription {
+  subscription_id: string;
+  stripe_subscription_id: string;
+  user_id: string;
+  team_id: string | null;
+  status: string;
+  seat_quantity: number;
+  /** Renewal at which the new price applies (ISO 8601) */
+  current_period_end: string | null;
+  action: PlanMigrationAction;
+  reason?: string;
+}
+
+/**
+ * Response for POST /admin/plans/{id}/migrations
+ */
+export interface PlanMigrationReport {
+  plan_id: string;
+  dry_run: boolean;
+  from_version: number;
+  to_version: number;
+  currency: string;
+  billing_period: string;
+  from_price_amount: number;
+  to_price_amount: number;
+  /** Subscriptions on the old version billed in the currency */
+  total: number;
+  migrated: number;
+  skipped: number;
+  failed: number;
+  /** Subscriptions left on the old version after the limit (run again) */
+  remaining: number;
+  /** Change of recurring revenue per billing period for the migrated (or migratable) seats */
+  revenue_change_per_period: number;
+  subscriptions: PlanMigrationSubscription[];
+}
+
 /**
  * Request body for POST /admin/tenants
  */
@@ -300,6 +488,12 @@ export interface CouponRow {
   duration_in_months: number | null;
   /** Maximum redemptions */
   max_redemptions: number | null;
+  /** Maximum redemptions by one user */
+  max_redemptions_per_user: number | null;
+  /** Maximum redemptions within one product */
+  max_redemptions_per_product: number | null;
+  /** Stripe Product IDs the coupon applies to (null = all products) */
+  applies_to_products: string[] | null;
   /** Number of times redeemed */
   times_redeemed: number;
   /** Expiration timestamp */
@@ -334,6 +528,10 @@ export interface CreateCouponRequest {
   duration_in_months?: number;
   /** Maximum redemptions */
   max_redemptions?: number;
+  /** Maximum redemptions by one user (enforced at checkout) */
+  max_redemptions_per_user?: number;
+  /** Maximum redemptions within one product (enforced at checkout) */
+  max_redemptions_per_product?: number;
   /** Expiration date (ISO string) */
   redeem_by?: string;
   /** Stripe Product IDs this coupon applies to (if not set, applies to all) */
@@ -348,6 +546,10 @@ export interface CreateCouponRequest {
 export interface UpdateCouponRequest {
   /** Coupon name */
   name?: string;
+  /** Maximum redemptions by one user (null removes the cap) */
+  max_redemptions_per_user?: number | null;
+  /** Maximum redemptions within one product (null removes the cap) */
+  max_redemptions_per_product?: number | null;
   /** Additional metadata */
   metadata?: Record<string, unknown>;
 }
@@ -374,6 +576,12 @@ export interface CouponResponse {
   duration_in_months: number | null;
   /** Maximum redemptions */
   max_redemptions: number | null;
+  /** Maximum redemptions by one user */
+  max_redemptions_per_user: number | null;
+  /** Maximum redemptions within one product */
+  max_redemptions_per_product: number | null;
+  /** Stripe Product IDs the coupon applies to (null = all products) */
+  applies_to_products: string[] | null;
   /** Times redeemed */
   times_redeemed: number;
   /** Expiration timestamp */
@@ -483,6 +691,361 @@ export interface PromotionCodeResponse {
   coupon?: CouponResponse;
 }
 
+/**
+ * Request body for POST /catalog/promotion-codes/validate
+ */
+export interface ValidatePromotionCodeRequest {
+  /** The code the customer entered */
+  code: string;
+  /** Product ID */
+  product_id: string;
+  /** Stripe Price ID of the plan (the plan_id passed to checkout) */
+  plan_id: string;
+}
+
+/**
+ * Response of POST /catalog/promotion-codes/validate
+ */
+export interface PromotionCodeValidationResponse {
+  /** Whether the code applies to the plan */
+  valid: boolean;
+  /** The code as entered */
+  code: string;
+  /** Reason code when not valid (e.g. "expired", "not_applicable_to_plan") */
+  reason: string | null;
+  /** Reason message when not valid */
+  message: string | null;
+  /** Stripe Price ID of the plan */
+  plan_id: string;
+  /** Plan currency */
+  currency: string;
+  /** Plan price */
+  original_amount: number;
+  /** Discount per billing period */
+  discount_amount: number;
+  /** Price after the discount */
+  discounted_amount: number;
+  /** Percentage discount of the coupon */
+  percent_off: number | null;
+  /** Fixed amount discount of the coupon */
+  amount_off: number | null;
+  /** How long the discount lasts (null when not valid) */
+  duration: CouponDuration | null;
+  /** Number of discounted months (repeating duration) */
+  duration_in_months: number | null;
+}
+
+/**
+ * Database row of a coupon redemption (coupon_redemptions joined with
+ * promotion_codes and customers)
+ */
+export interface CouponRedemptionRow {
+  id: string;
+  user_id: string;
+  email: string | null;
+  product_id: string | null;
+  plan_id: string | null;
+  promotion_code: string | null;
+  stripe_checkout_session_id: string;
+  stripe_subscription_id: string | null;
+  currency: string;
+  amount_subtotal: number;
+  amount_discount: number;
+  amount_total: number;
+  redeemed_at: Date;
+}
+
+/**
+ * Coupon redemption API response
+ */
+export interface CouponRedemptionResponse {
+  /** Redemption ID */
+  id: string;
+  /** Redeeming user */
+  user_id: string;
+  /** Email of the user's Stripe customer */
+  email: string | null;
+  /** Product of the checkout */
+  product_id: string | null;
+  /** Plan of the checkout */
+  plan_id: string | null;
+  /** Promotion code entered (null if applied without a code) */
+  promotion_code: string | null;
+  /** Stripe Checkout Session ID */
+  stripe_checkout_session_id: string;
+  /** Stripe Subscription ID (subscription checkouts) */
+  stripe_subscription_id: string | null;
+  /** Currency */
+  currency: string;
+  /** Checkout amount before the discount */
+  amount_subtotal: number;
+  /** Discount given by the coupon */
+  amount_discount: number;
+  /** Amount paid (first invoice for subscriptions) */
+  amount_total: number;
+  /** Redemption timestamp */
+  redeemed_at: string;
+}
+
+/**
+ * Redemption totals of a coupon in one currency
+ */
+export interface CouponRedemptionTotals {
+  /** Currency */
+  currency: string;
+  /** Number of redemptions */
+  redemptions: number;
+  /** Number of distinct redeeming users */
+  unique_users: number;
+  /** Total discount given */
+  amount_discount: number;
+  /** Total amount paid (revenue of the campaign) */
+  amount_total: number;
+}
+
+/**
+ * Response of GET /admin/coupons/{id}/redemptions
+ */
+export interface CouponRedemptionsResponse extends ListResponse<CouponRedemptionResponse> {
+  /** Coupon ID */
+  coupon_id: string;
+  /** Totals per currency (all redemptions, not only this page) */
+  totals: CouponRedemptionTotals[];
+  /** Redemptions per product */
+  by_product: Array<{ product_id: string | null; redemptions: number }>;
+}
+
+// ============================================
+// Product Webhook Types
+// ============================================
+
+/**
+ * Event types that can be delivered to product webhooks
+ */
+export const PRODUCT_WEBHOOK_EVENTS = ['usage.threshold_reached', 'usage.limit_exceeded'] as const;
+
+/**
+ * Database row structure for product_webhooks table
+ */
+export interface ProductWebhookRow {
+  /** Unique webhook ID */
+  id: string;
+  /** Product ID (foreign key) */
+  product_id: string;
+  /** Endpoint URL (https) */
+  url: string;
+  /** Signing secret */
+  secret: string;
+  /** Subscribed event types (empty = all) */
+  events: string[];
+  /** Whether the endpoint is active */
+  is_active: boolean;
+  /** Creation timestamp */
+  created_at: Date;
+  /** Last update timestamp */
+  updated_at: Date;
+}
+
+/**
+ * Request body for POST /admin/products/{id}/webhooks
+ */
+export interface CreateProductWebhookRequest {
+  /** Endpoint URL (https) */
+  url: string;
+  /** Event types to deliver (omit for all) */
+  events?: string[];
+}
+
+/**
+ * Product Webhook API response
+ * secret is only included in the create response
+ */
+export interface ProductWebhookResponse {
+  /** Webhook ID */
+  id: string;
+  /** Product ID */
+  product_id: string;
+  /** Endpoint URL */
+  url: string;
+  /** Subscribed event types (empty = all) */
+  events: string[];
+  /** Whether the endpoint is active */
+  is_active: boolean;
+  /** Signing secret (create response only) */
+  secret?: string;
+  /** Creation timestamp */
+  created_at: string;
+  /** Last update timestamp */
+  updated_at: string;
+}
+
+// ============================================
+// Invoice Issuer Types
+// ============================================
+
+/**
+ * Request body for PUT /admin/invoice-issuers/{scope}
+ * scope is "default" (platform-wide) or a product ID
+ */
+export interface UpsertInvoiceIssuerRequest {
+  /** Issuer name (発行事業者の氏名又は名称) */
+  name: string;
+  /** Registration number ("T" + 13 digits) */
+  registration_number: string;
+  /** Address */
+  address?: string | null;
+  /** Phone number */
+  phone?: string | null;
+  /** Contact email */
+  email?: string | null;
+  /** Additional metadata */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Invoice issuer API response
+ */
+export interface InvoiceIssuerResponse {
+  /** Issuer ID */
+  id: string;
+  /** Product ID (null for the platform-wide default) */
+  product_id: string | null;
+  /** Issuer name */
+  name: string;
+  /** Registration number */
+  registration_number: string;
+  /** Address */
+  address: string | null;
+  /** Phone number */
+  phone: string | null;
+  /** Contact email */
+  email: string | null;
+  /** Additional metadata */
+  metadata: Record<string, unknown>;
+  /** Creation timestamp */
+  created_at: string;
+  /** Last update timestamp */
+  updated_at: string;
+}
+
+// ============================================
+// Plan Add-on Types
+// ============================================
+
+/**
+ * Limits an add-on grants per purchased unit
+ */
+export interface PlanAddonLimits {
+  /** Added to the plan's usage_limit */
+  usage_limit?: number;
+  /** Added to the limit of the plan's named meters */
+  meters?: Record<string, number>;
+}
+
+/**
+ * Database row structure for plan_addons table
+ */
+export interface PlanAddonRow {
+  /** Unique add-on ID */
+  id: string;
+  /** Plan ID (foreign key) */
+  plan_id: string;
+  /** Add-on name */
+  name: string;
+  /** Add-on description */
+  description: string | null;
+  /** Stripe Price ID */
+  stripe_price_id: string;
+  /** Price amount per unit in smallest currency unit */
+  price_amount: number;
+  /** Currency code (ISO 4217) */
+  currency: string;
+  /** Limits granted per unit */
+  limits: PlanAddonLimits;
+  /** Maximum units per subscription (null = unlimited) */
+  max_quantity: number | null;
+  /** Whether the add-on is active */
+  is_active: boolean;
+  /** Additional metadata */
+  metadata: Record<string, unknown>;
+  /** Creation timestamp */
+  created_at: Date;
+  /** Last update timestamp */
+  updated_at: Date;
+  /** Soft delete timestamp */
+  deleted_at: Date | null;
+}
+
+/**
+ * Request body for POST /admin/plans/{id}/addons
+ */
+export interface CreatePlanAddonRequest {
+  /** Add-on name */
+  name: string;
+  /** Add-on description */
+  description?: string;
+  /** Price amount per unit in smallest currency unit */
+  price_amount: number;
+  /** Limits granted per unit */
+  limits?: PlanAddonLimits;
+  /** Maximum units per subscription */
+  max_quantity?: number;
+  /** Whether the add-on is active */
+  is_active?: boolean;
+  /** Additional metadata */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Request body for PUT /admin/plans/{id}/addons/{addonId}
+ */
+export interface UpdatePlanAddonRequest {
+  /** Add-on name */
+  name?: string;
+  /** Add-on description */
+  description?: string;
+  /** Limits granted per unit (applies to existing subscriptions on their next update) */
+  limits?: PlanAddonLimits;
+  /** Maximum units per subscription (null = unlimited) */
+  max_quantity?: number | null;
+  /** Whether the add-on is active */
+  is_active?: boolean;
+  /** Additional metadata */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Plan Add-on API response
+ */
+export interface PlanAddonResponse {
+  /** Add-on ID */
+  id: string;
+  /** Plan ID */
+  plan_id: string;
+  /** Add-on name */
+  name: string;
+  /** Add-on description */
+  description: string | null;
+  /** Stripe Price ID */
+  stripe_price_id: string;
+  /** Price amount per unit */
+  price_amount: number;
+  /** Currency code */
+  currency: string;
+  /** Limits granted per unit */
+  limits: PlanAddonLimits;
+  /** Maximum units per subscription */
+  max_quantity: number | null;
+  /** Whether the add-on is active */
+  is_active: boolean;
+  /** Additional metadata */
+  metadata: Record<string, unknown>;
+  /** Creation timestamp */
+  created_at: string;
+  /** Last update timestamp */
+  updated_at: string;
+}
+
 /**
  * Cache keys for catalog service
  */
@@ -495,6 +1058,8 @@ export const CatalogCacheKeys = {
   plan: (id: string): string => `catalog:plan:${id}`,
   /** Product's plans cache key */
   productPlans: (productId: string): string => `catalog:plans:product:${productId}`,
+  /** Plan's add-ons cache key */
+  planAddons: (planId: string): string => `catalog:addons:plan:${planId}`,
   /** Tenant cache key */
   tenant: (id: string): string => `catalog:tenant:${id}`,
   /** All tenants cache key */
@@ -0,0 +1,240 @@
+/**
+ * Product Webhook Management Functions
+ * Handles registration of product endpoints that receive platform events
+ * (usage.threshold_reached, usage.limit_exceeded)
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { randomBytes } from 'crypto';
+import { query } from '../../shared/db/index.js';
+import {
+  ProductWebhookRow,
+  ProductWebhookResponse,
+  CreateProductWebhookRequest,
+  PRODUCT_WEBHOOK_EVENTS,
+} from './types.js';
+
+/**
+ * Converts ProductWebhookRow to ProductWebhookResponse
+ */
+function toProductWebhookResponse(row: ProductWebhookRow, includeSecret = false): ProductWebhookResponse {
+  return {
+    id: row.id,
+    product_id: row.product_id,
+    url: row.url,
+    events: row.events || [],
+    is_active: row.is_active,
+    secret: includeSecret ? row.secret : undefined,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Validates webhook URL (https only)
+ */
+function validateWebhookUrl(url: string): boolean {
+  try {
+    return new URL(url).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Generates a webhook signing secret
+ */
+function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Checks that the product exists
+ */
+async function productExists(productId: string): Promise<boolean> {
+  const result = await query<{ id: string }>(
+    'SELECT id FROM products WHERE id = $1 AND deleted_at IS NULL',
+    [productId]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * GET /admin/products/{id}/webhooks
+ * List webhooks registered for a product
+ */
+export async function listProductWebhooks(productId: string): Promise<APIGatewayProxyResult> {
+  try {
+    if (!(await productExists(productId))) {
+      return {
+        statusCode: 404,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Product not found',
+        }),
+      };
+    }
+
+    const result = await query<ProductWebhookRow>(
+      `SELECT * FROM product_webhooks
+       WHERE product_id = $1 AND is_active = true
+       ORDER BY created_at ASC`,
+      [productId]
+    );
+
+    const items = result.rows.map((row) => toProductWebhookResponse(row));
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items, total: items.length }),
+    };
+  } catch (error) {
+    console.error('[Webhooks] List error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to list webhooks',
+      }),
+    };
+  }
+}
+
+/**
+ * POST /admin/products/{id}/webhooks
+ * Register a webhook endpoint for a product
+ * The signing secret is returned only in this response
+ */
+export async function createProductWebhook(productId: string, body: string): Promise<APIGatewayProxyResult> {
+  try {
+    const request: CreateProductWebhookRequest = JSON.parse(body);
+
+    // Validate required fields
+    if (!request.url) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'Missing required field: url',
+        }),
+      };
+    }
+
+    if (!validateWebhookUrl(request.url)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'Invalid url. Must be an https URL',
+        }),
+      };
+    }
+
+    const events = request.events || [];
+    if (
+      !Array.isArray(events) ||
+      events.some((e) => !(PRODUCT_WEBHOOK_EVENTS as readonly string[]).includes(e))
+    ) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: `Invalid events. Must be any of: ${PRODUCT_WEBHOOK_EVENTS.join(', ')}`,
+        }),
+      };
+    }
+
+    if (!(await productExists(productId))) {
+      return {
+        statusCode: 404,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Product not found',
+        }),
+      };
+    }
+
+    const result = await query<ProductWebhookRow>(
+      `INSERT INTO product_webhooks (product_id, url, secret, events)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [productId, request.url, generateWebhookSecret(), events]
+    );
+
+    const webhook = result.rows[0];
+    if (!webhook) {
+      throw new Error('Failed to create webhook');
+    }
+
+    console.log('[Webhooks] Created webhook:', {
+      id: webhook.id,
+      productId,
+      events,
+    });
+
+    return {
+      statusCode: 201,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toProductWebhookResponse(webhook, true)),
+    };
+  } catch (error) {
+    console.error('[Webhooks] Create error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to create webhook',
+      }),
+    };
+  }
+}
+
+/**
+ * DELETE /admin/products/{id}/webhooks/{webhookId}
+ * Deactivate a webhook endpoint
+ */
+export async function deleteProductWebhook(productId: string, webhookId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const result = await query(
+      `UPDATE product_webhooks
+       SET is_active = false
+       WHERE id = $1 AND product_id = $2 AND is_active = true`,
+      [webhookId, productId]
+    );
+
+    if (result.rowCount === 0) {
+      return {
+        statusCode: 404,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'Webhook not found',
+        }),
+      };
+    }
+
+    console.log('[Webhooks] Deleted webhook:', { id: webhookId, productId });
+
+    return {
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        success: true,
+        message: 'Webhook deleted successfully',
+        id: webhookId,
+      }),
+    };
+  } catch (error) {
+    console.error('[Webhooks] Delete error:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to delete webhook',
+      }),
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Cognito configuration of the auth verifier (auth-config.json)
+ */
+export interface AuthConfig {
+  /** Cognito JWKS URL (file:// for a local JWKS file) */
+  jwksUrl: string;
+  /** Cognito issuer URL */
+  issuer: string;
+  /** Allowed app client IDs */
+  clientIds: string[];
+  /** Allowed token_use values (default: id) */
+  tokenUse: string[];
+  /** Cognito Hosted UI domain (token endpoint for silent refresh) */
+  cognitoDomain?: string;
+  /** App client secret (clients with a secret only) */
+  clientSecret?: string;
+  /** Login page URL (default: /login) */
+  loginUrl: string;
+}
+
+/** Config file bundled next to the handler */
+const CONFIG_FILE_NAME = 'auth-config.json';
+
+let authConfig: AuthConfig | undefined;
+
+/**
+ * Load the Cognito configuration
+ * Lambda@Edge has no environment variables, so the configuration is deployed
+ * as a file with the function. AUTH_CONFIG_FILE overrides the location for
+ * local runs. Missing values are left empty and rejected on use.
+ */
+export function loadAuthConfig(): AuthConfig {
+  if (authConfig) {
+    return authConfig;
+  }
+
+  const configFile = process.env.AUTH_CONFIG_FILE
+    || join(fileURLToPath(new URL('.', import.meta.url)), CONFIG_FILE_NAME);
+  const parsed = existsSync(configFile)
+    ? JSON.parse(readFileSync(configFile, 'utf8')) as Partial<AuthConfig>
+    : {};
+
+  authConfig = {
+    jwksUrl: parsed.jwksUrl || '',
+    issuer: parsed.issuer || '',
+    clientIds: (parsed.clientIds || []).map(id => id.trim()).filter(Boolean),
+    tokenUse: parsed.tokenUse?.length ? parsed.tokenUse : ['id'],
+    cognitoDomain: parsed.cognitoDomain,
+    clientSecret: parsed.clientSecret,
+    loginUrl: parsed.loginUrl || '/login',
+  };
+
+  return authConfig;
+}
+
+/**
+ * Clear the loaded configuration
+ */
+export function clearAuthConfig(): void {
+  authConfig = undefined;
+}
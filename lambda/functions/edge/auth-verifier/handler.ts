@@ -1,14 +1,46 @@
-import { CloudFrontRequestEvent, CloudFrontRequestResult, CloudFrontRequest } from 'aws-lambda';
-import { verify, JwtPayload } from 'jsonwebtoken';
+import {
+  CloudFrontRequestEvent,
+  CloudFrontRequestResult,
+  CloudFrontRequest,
+  CloudFrontResultResponse,
+} from 'aws-lambda';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { loadAuthConfig } from './config.js';
+import { getSigningKey } from './jwks.js';
+import { refreshTokens, RefreshTokenRejectedError } from './refresh.js';
+import { loadRoutingRules, evaluateRules, DeniedAction } from './rules.js';
+
+// jsonwebtoken is CommonJS: named exports are not available under ESM
+const { decode, verify, TokenExpiredError } = jwt;
 
 interface CustomJwtPayload extends JwtPayload {
   sub: string;
+  token_use?: 'id' | 'access';
+  client_id?: string;
   'custom:tenant_id'?: string;
+  'custom:plan_id'?: string;
+  /** Comma-separated enabled features */
+  'custom:features'?: string;
 }
 
+/** Cookie holding the token verified on every request */
+const AUTH_COOKIE = 'auth_token';
+
+/** Cookie holding the Cognito refresh token used for silent refresh */
+const REFRESH_COOKIE = 'refresh_token';
+
+/** 403 page used when the rule set does not configure one */
+const DEFAULT_FORBIDDEN_PAGE =
+  '<!DOCTYPE html><html><head><title>403 Forbidden</title></head>' +
+  '<body><h1>403 Forbidden</h1><p>Your current plan does not include access to this page.</p></body></html>';
+
 /**
  * Lambda@Edge ViewerRequest handler for JWT authentication
- * Validates JWT token from cookies and adds user context headers
+ * Validates JWT token from cookies, applies the product's routing rules
+ * and adds user context headers.
+ * When the token is missing or expired and a refresh_token cookie is
+ * present, new tokens are fetched from Cognito and the viewer is
+ * redirected back to the same URL with updated cookies.
  */
 export const handler = async (
   event: CloudFrontRequestEvent
@@ -17,11 +49,12 @@ export const handler = async (
   const headers = request.headers;
 
   // Extract JWT token from cookies
-  const cookieHeader = headers.cookie?.[0]?.value || '';
-  const token = extractToken(cookieHeader);
+  const cookieHeader = (headers.cookie || []).map(c => c.value).join('; ');
+  const token = getCookie(cookieHeader, AUTH_COOKIE);
+  const refreshToken = getCookie(cookieHeader, REFRESH_COOKIE);
 
   if (!token) {
-    return redirectToLogin();
+    return refreshToken ? silentRefresh(request, refreshToken) : redirectToLogin(request);
   }
 
   try {
@@ -35,61 +68,217 @@ export const handler = async (
       value: payload['custom:tenant_id'] || ''
     }];
 
+    const planId = payload['custom:plan_id'] || '';
+    const features = (payload['custom:features'] || '')
+      .split(',')
+      .map(f => f.trim())
+      .filter(Boolean);
+
+    request.headers['x-plan-id'] = [{ key: 'X-Plan-Id', value: planId }];
+    request.headers['x-features'] = [{ key: 'X-Features', value: features.join(',') }];
+
+    // Gate the path on plan / features
+    const rules = loadRoutingRules();
+    if (rules) {
+      const decision = evaluateRules(rules, request.uri, planId, features);
+      if (!decision.allowed && decision.denied) {
+        console.warn('Access denied by routing rule', {
+          productId: rules.productId,
+          path: decision.rule?.path,
+          planId,
+        });
+        return denyRequest(request, decision.denied);
+      }
+    }
+
     return request;
   } catch (error) {
+    if (error instanceof TokenExpiredError && refreshToken) {
+      return silentRefresh(request, refreshToken);
+    }
     console.error('JWT verification failed:', error);
-    return redirectToLogin();
+    return redirectToLogin(request);
   }
 };
 
 /**
- * Extract JWT token from cookie header
+ * Get a cookie value from the cookie header
  */
-function extractToken(cookieHeader: string): string | null {
+function getCookie(cookieHeader: string, name: string): string | null {
   const cookies = cookieHeader.split(';').map(c => c.trim());
-  const authCookie = cookies.find(c => c.startsWith('auth_token='));
+  const cookie = cookies.find(c => c.startsWith(`${name}=`));
 
-  if (!authCookie) {
+  if (!cookie) {
     return null;
   }
 
-  return authCookie.split('=')[1];
+  return cookie.slice(name.length + 1) || null;
+}
+
+/**
+ * Refresh tokens and redirect back to the original URL with new cookies
+ * Falls back to the login redirect when Cognito refuses the refresh token.
+ */
+async function silentRefresh(
+  request: CloudFrontRequest,
+  refreshToken: string
+): Promise<CloudFrontRequestResult> {
+  try {
+    const tokens = await refreshTokens(refreshToken);
+    const authToken = loadAuthConfig().tokenUse.includes('id') ? tokens.idToken : tokens.accessToken;
+
+    return {
+      status: '302',
+      statusDescription: 'Found',
+      headers: {
+        location: [{
+          key: 'Location',
+          value: getOriginalUri(request),
+        }],
+        'set-cookie': [{
+          key: 'Set-Cookie',
+          value: serializeCookie(AUTH_COOKIE, authToken, tokens.expiresIn),
+        }],
+        'cache-control': [{
+          key: 'Cache-Control',
+          value: 'no-cache, no-store, must-revalidate',
+        }],
+      },
+    };
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    const response = redirectToLogin(request);
+    if (error instanceof RefreshTokenRejectedError && response.headers) {
+      response.headers['set-cookie'] = [{
+        key: 'Set-Cookie',
+        value: serializeCookie(REFRESH_COOKIE, '', 0),
+      }];
+    }
+    return response;
+  }
+}
+
+/**
+ * Response for a request denied by a routing rule
+ */
+function denyRequest(request: CloudFrontRequest, denied: DeniedAction): CloudFrontResultResponse {
+  const noCache = [{
+    key: 'Cache-Control',
+    value: 'no-cache, no-store, must-revalidate',
+  }];
+
+  if (denied.action === 'upgrade' && denied.upgradeUrl) {
+    const separator = denied.upgradeUrl.includes('?') ? '&' : '?';
+    const redirectUri = encodeURIComponent(getOriginalUri(request));
+
+    return {
+      status: '302',
+      statusDescription: 'Found',
+      headers: {
+        location: [{
+          key: 'Location',
+          value: `${denied.upgradeUrl}${separator}redirect_uri=${redirectUri}`,
+        }],
+        'cache-control': noCache,
+      },
+    };
+  }
+
+  return {
+    status: '403',
+    statusDescription: 'Forbidden',
+    headers: {
+      'content-type': [{ key: 'Content-Type', value: 'text/html; charset=utf-8' }],
+      'cache-control': noCache,
+    },
+    body: denied.forbiddenPage || DEFAULT_FORBIDDEN_PAGE,
+  };
+}
+
+/**
+ * Serialize a Set-Cookie value for auth cookies
+ */
+function serializeCookie(name: string, value: string, maxAge: number): string {
+  return `${name}=${value}; Path=/; Max-Age=${maxAge}; Secure; HttpOnly; SameSite=Lax`;
+}
+
+/**
+ * Original path and query of the viewer request
+ */
+function getOriginalUri(request: CloudFrontRequest): string {
+  return request.querystring ? `${request.uri}?${request.querystring}` : request.uri;
 }
 
 /**
  * Verify JWT token using Cognito public key
+ * Signature is checked against the JWKS key matching the token's kid,
+ * then iss, exp, token_use and aud/client_id are validated.
  */
 async function verifyToken(token: string): Promise<CustomJwtPayload> {
-  const jwksUrl = process.env.COGNITO_JWKS_URL;
-  const issuer = process.env.COGNITO_ISSUER;
+  const { jwksUrl, issuer, clientIds, tokenUse } = loadAuthConfig();
 
-  if (!jwksUrl || !issuer) {
+  if (!jwksUrl || !issuer || clientIds.length === 0) {
     throw new Error('Missing Cognito configuration');
   }
 
-  // In production, you should fetch and cache JWKS from Cognito
-  // For now, we'll use a simplified verification
-  const secret = process.env.JWT_SECRET || '';
+  const decoded = decode(token, { complete: true });
+  if (!decoded || !decoded.header.kid) {
+    throw new Error('Malformed token: missing kid');
+  }
+
+  const key = await getSigningKey(jwksUrl, decoded.header.kid);
 
-  const payload = verify(token, secret, {
+  const payload = verify(token, key, {
     issuer,
     algorithms: ['RS256'],
   }) as CustomJwtPayload;
 
+  validateCognitoClaims(payload, clientIds, tokenUse);
+
   return payload;
 }
 
+/**
+ * Validate Cognito-specific claims not covered by jsonwebtoken
+ * ID tokens carry the app client in aud, access tokens in client_id
+ */
+function validateCognitoClaims(
+  payload: CustomJwtPayload,
+  clientIds: string[],
+  allowedTokenUses: string[]
+): void {
+  if (typeof payload.exp !== 'number') {
+    throw new Error('Token has no exp claim');
+  }
+
+  if (!payload.token_use || !allowedTokenUses.includes(payload.token_use)) {
+    throw new Error(`Unexpected token_use: ${payload.token_use}`);
+  }
+
+  const audience = payload.token_use === 'id' ? payload.aud : payload.client_id;
+  const audiences = Array.isArray(audience) ? audience : [audience];
+  if (!audiences.some(aud => aud && clientIds.includes(aud))) {
+    throw new Error('Token was not issued for this client');
+  }
+}
+
 /**
  * Redirect to login page for unauthenticated requests
+ * The original path and query are passed as redirect_uri so the viewer
+ * returns to the same page after signing in.
  */
-function redirectToLogin(): CloudFrontRequestResult {
+function redirectToLogin(request: CloudFrontRequest): CloudFrontResultResponse {
+  const { loginUrl } = loadAuthConfig();
+  const separator = loginUrl.includes('?') ? '&' : '?';
+  const redirectUri = encodeURIComponent(getOriginalUri(request));
+
   return {
     status: '302',
     statusDescription: 'Found',
     headers: {
       location: [{
         key: 'Location',
-        value: process.env.LOGIN_URL || '/login',
+        value: `${loginUrl}${separator}redirect_uri=${redirectUri}`,
       }],
       'cache-control': [{
         key: 'Cache-Control',
@@ -0,0 +1,123 @@
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+
+/**
+ * JSON Web Key as published by Cognito
+ */
+interface CognitoJwk extends JsonWebKey {
+  kid: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+}
+
+/**
+ * In-memory JWKS cache entry (one per Lambda@Edge container)
+ */
+interface JwksCacheEntry {
+  url: string;
+  keys: Map<string, KeyObject>;
+  fetchedAt: number;
+}
+
+/** Keys are considered fresh for 1 hour */
+const JWKS_CACHE_TTL_MS = 3600000;
+
+/** Minimum interval between refetches triggered by an unknown kid */
+const JWKS_MIN_REFRESH_INTERVAL_MS = 60000;
+
+/** Lambda@Edge viewer requests time out after 5 seconds */
+const JWKS_FETCH_TIMEOUT_MS = 3000;
+
+let jwksCache: JwksCacheEntry | null = null;
+
+/**
+ * Get the public key for a token's kid
+ *
+ * Keys are served from the container cache while fresh. An unknown kid
+ * triggers a refetch (Cognito key rotation), rate limited so that forged
+ * tokens cannot force a JWKS download on every request. If the refetch
+ * fails, stale keys are used rather than rejecting every request.
+ */
+export async function getSigningKey(jwksUrl: string, kid: string): Promise<KeyObject> {
+  const now = Date.now();
+  const cached = jwksCache && jwksCache.url === jwksUrl ? jwksCache : null;
+
+  if (cached) {
+    const age = now - cached.fetchedAt;
+    const key = cached.keys.get(kid);
+
+    if (key && age < JWKS_CACHE_TTL_MS) {
+      return key;
+    }
+
+    if (!key && age < JWKS_MIN_REFRESH_INTERVAL_MS) {
+      throw new Error(`Signing key not found: ${kid}`);
+    }
+  }
+
+  let keys: Map<string, KeyObject>;
+  try {
+    keys = await fetchJwks(jwksUrl);
+  } catch (error) {
+    const staleKey = cached?.keys.get(kid);
+    if (staleKey) {
+      console.warn('JWKS refresh failed, using cached keys:', error);
+      return staleKey;
+    }
+    throw error;
+  }
+
+  jwksCache = { url: jwksUrl, keys, fetchedAt: now };
+
+  const key = keys.get(kid);
+  if (!key) {
+    throw new Error(`Signing key not found: ${kid}`);
+  }
+
+  return key;
+}
+
+/**
+ * Clear the container JWKS cache
+ */
+export function clearJwksCache(): void {
+  jwksCache = null;
+}
+
+/**
+ * Fetch and parse a JWKS document
+ * file:// URLs are read from disk so the verifier can run against a local fixture
+ */
+async function fetchJwks(jwksUrl: string): Promise<Map<string, KeyObject>> {
+  let body: string;
+
+  if (jwksUrl.startsWith('file://')) {
+    body = await readFile(fileURLToPath(jwksUrl), 'utf8');
+  } else {
+    const response = await fetch(jwksUrl, {
+      signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS: HTTP ${response.status}`);
+    }
+    body = await response.text();
+  }
+
+  const jwks = JSON.parse(body) as { keys?: CognitoJwk[] };
+  const keys = new Map<string, KeyObject>();
+
+  for (const jwk of jwks.keys || []) {
+    if (!jwk.kid || jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) {
+      continue;
+    }
+    keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+  }
+
+  if (keys.size === 0) {
+    throw new Error('JWKS contains no RSA signing keys');
+  }
+
+  return keys;
+}
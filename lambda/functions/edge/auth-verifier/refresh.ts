@@ -0,0 +1,76 @@
+import { loadAuthConfig } from './config.js';
+
+/**
+ * Tokens returned by the Cognito token endpoint for a refresh_token grant
+ * Cognito does not rotate the refresh token, so none is returned here.
+ */
+export interface RefreshedTokens {
+  idToken: string;
+  accessToken: string;
+  expiresIn: number;
+}
+
+/** Leave room for the redirect within the 5 second viewer-request limit */
+const TOKEN_ENDPOINT_TIMEOUT_MS = 3000;
+
+/**
+ * Raised when Cognito rejects the refresh token (revoked or expired)
+ * The refresh_token cookie should be cleared in this case.
+ */
+export class RefreshTokenRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RefreshTokenRejectedError';
+  }
+}
+
+/**
+ * Exchange a refresh token for new tokens at the Cognito token endpoint
+ */
+export async function refreshTokens(refreshToken: string): Promise<RefreshedTokens> {
+  const { cognitoDomain, clientIds, clientSecret } = loadAuthConfig();
+  const clientId = clientIds[0];
+
+  if (!cognitoDomain || !clientId) {
+    throw new Error('Missing Cognito configuration for token refresh');
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+
+  if (clientSecret) {
+    headers['Authorization'] = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+  }
+
+  const response = await fetch(`https://${cognitoDomain}/oauth2/token`, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: clientId,
+      refresh_token: refreshToken,
+    }).toString(),
+    signal: AbortSignal.timeout(TOKEN_ENDPOINT_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    if (response.status === 400) {
+      throw new RefreshTokenRejectedError(`Refresh token rejected: ${errorData}`);
+    }
+    throw new Error(`Token refresh failed: HTTP ${response.status}`);
+  }
+
+  const tokens = await response.json() as {
+    id_token: string;
+    access_token: string;
+    expires_in: number;
+  };
+
+  return {
+    idToken: tokens.id_token,
+    accessToken: tokens.access_token,
+    expiresIn: tokens.expires_in,
+  };
+}
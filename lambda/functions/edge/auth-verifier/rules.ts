@@ -0,0 +1,130 @@
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Response for requests denied by a routing rule
+ * - forbidden: 403 with the configured HTML page
+ * - upgrade: 302 to the upgrade URL (original path and query as redirect_uri)
+ */
+export interface DeniedAction {
+  action: 'forbidden' | 'upgrade';
+  /** HTML body for the 403 page */
+  forbiddenPage?: string;
+  /** Upgrade / pricing page URL */
+  upgradeUrl?: string;
+}
+
+/**
+ * Path rule gating access on plan or features
+ * When both plans and features are given, satisfying either grants access.
+ */
+export interface RoutingRule {
+  /** CloudFront-style path pattern (`*` matches any characters, `?` exactly one) */
+  path: string;
+  /** custom:plan_id values allowed to access the path */
+  plans?: string[];
+  /** Features that must all be enabled (custom:features claim) */
+  features?: string[];
+  /** Overrides the rule set's denied action */
+  denied?: DeniedAction;
+}
+
+/**
+ * Per-product routing rule set, bundled with the function as routing-rules.json
+ */
+export interface RoutingRuleSet {
+  productId: string;
+  rules: RoutingRule[];
+  denied: DeniedAction;
+}
+
+/**
+ * Result of evaluating the rule set for a request
+ */
+export interface RuleDecision {
+  allowed: boolean;
+  rule?: RoutingRule;
+  denied?: DeniedAction;
+}
+
+/** Rules file bundled next to the handler */
+const RULES_FILE_NAME = 'routing-rules.json';
+
+let ruleSet: RoutingRuleSet | null | undefined;
+
+/**
+ * Load the product's routing rules
+ * Lambda@Edge has no environment variables, so rules are deployed as a file
+ * with the function. ROUTING_RULES_FILE overrides the location for local runs.
+ * Returns null when no rules are configured (every path is allowed).
+ */
+export function loadRoutingRules(): RoutingRuleSet | null {
+  if (ruleSet !== undefined) {
+    return ruleSet;
+  }
+
+  const rulesFile = process.env.ROUTING_RULES_FILE
+    || join(fileURLToPath(new URL('.', import.meta.url)), RULES_FILE_NAME);
+  if (!existsSync(rulesFile)) {
+    ruleSet = null;
+    return ruleSet;
+  }
+
+  const parsed = JSON.parse(readFileSync(rulesFile, 'utf8')) as RoutingRuleSet;
+  ruleSet = {
+    productId: parsed.productId,
+    rules: parsed.rules || [],
+    denied: parsed.denied || { action: 'forbidden' },
+  };
+
+  return ruleSet;
+}
+
+/**
+ * Clear the loaded rule set
+ */
+export function clearRoutingRules(): void {
+  ruleSet = undefined;
+}
+
+/**
+ * Evaluate the first rule matching the path (same precedence as CloudFront behaviors)
+ */
+export function evaluateRules(
+  rules: RoutingRuleSet,
+  uri: string,
+  planId: string,
+  features: string[]
+): RuleDecision {
+  const rule = rules.rules.find(r => matchPath(r.path, uri));
+
+  if (!rule || (!rule.plans?.length && !rule.features?.length)) {
+    return { allowed: true, rule };
+  }
+
+  const planAllowed = !!rule.plans?.length && rule.plans.includes(planId);
+  const featuresAllowed = !!rule.features?.length && rule.features.every(f => features.includes(f));
+
+  if (planAllowed || featuresAllowed) {
+    return { allowed: true, rule };
+  }
+
+  return { allowed: false, rule, denied: rule.denied || rules.denied };
+}
+
+/**
+ * Match a CloudFront-style path pattern
+ */
+function matchPath(pattern: string, uri: string): boolean {
+  const regex = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${regex}$`).test(uri);
+}
@@ -0,0 +1,60 @@
+/**
+ * Usage alert email
+ *
+ * Renders the usage alert email template (sent via shared/utils/email).
+ *
+ * @module entitlement/alerts/email
+ */
+
+import type { RenderedEmail } from '../../../shared/utils/email.js';
+import { UsageAlertEvent } from '../types.js';
+
+/**
+ * Product details used in the template
+ */
+export interface EmailProduct {
+  name: string;
+  /** Upgrade page (products.metadata.upgrade_url) */
+  upgrade_url?: string | null;
+}
+
+/**
+ * Render the usage alert email template
+ */
+export function renderUsageAlertEmail(event: UsageAlertEvent, product: EmailProduct): RenderedEmail {
+  const { data } = event;
+  const usage = `${data.used.toLocaleString('ja-JP')} / ${data.limit.toLocaleString('ja-JP')}`;
+
+  let subject: string;
+  let lead: string;
+  if (event.type === 'usage.limit_exceeded') {
+    subject = `【${product.name}】ご利用量が上限を超えました`;
+    lead = `${product.name}の「${data.usage_type}」のご利用量がプランの上限を超えました。`;
+  } else if (data.threshold === 'soft_limit') {
+    subject = `【${product.name}】ご利用量が猶予上限に達しました`;
+    lead = `${product.name}の「${data.usage_type}」のご利用量が猶予を含む上限に達しました。`;
+  } else {
+    const percent = typeof data.threshold === 'number' ? Math.round(data.threshold * 100) : 100;
+    subject = `【${product.name}】ご利用量が${percent}%に達しました`;
+    lead = `${product.name}の「${data.usage_type}」のご利用量がプラン上限の${percent}%に達しました。`;
+  }
+
+  const lines = [
+    lead,
+    '',
+    `ご利用量: ${usage}`,
+  ];
+
+  if (data.reset_at) {
+    lines.push(`リセット日時: ${new Date(data.reset_at).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}`);
+  }
+
+  lines.push('', '引き続き快適にご利用いただくには、プランのアップグレードをご検討ください。');
+  if (product.upgrade_url) {
+    lines.push(product.upgrade_url);
+  }
+
+  lines.push('', '※このメールは送信専用アドレスから送信しています。');
+
+  return { subject, text: lines.join('\n') };
+}
@@ -0,0 +1,234 @@
+/**
+ * Usage Alert Dispatch Handler
+ *
+ * Scheduled job (EventBridge) that delivers pending usage alerts.
+ *
+ * Workflow:
+ * 1. Select usage_alerts rows with a pending webhook or email delivery
+ * 2. POST the event to every active product webhook subscribed to it
+ * 3. Send the alert email to the user (if enabled for the plan)
+ * 4. Record the delivery status
+ *
+ * Failed deliveries are retried with exponential backoff and marked
+ * failed after MAX_DELIVERY_ATTEMPTS.
+ *
+ * @module entitlement/alerts/handler
+ */
+
+import { ScheduledHandler } from 'aws-lambda';
+import { initializeDatabase, query } from '../../../shared/db/index.js';
+import { UsageAlertEvent, UsageAlertEventType } from '../types.js';
+import { deliverWebhook, isSubscribed, ProductWebhookRow } from './webhook.js';
+import { isEmailConfigured, sendEmail } from '../../../shared/utils/email.js';
+import { renderUsageAlertEmail } from './email.js';
+
+/**
+ * Maximum alerts delivered per invocation
+ */
+const DISPATCH_BATCH_SIZE = 100;
+
+/**
+ * Delivery attempts before an alert is marked failed
+ */
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+/**
+ * Pending alert joined with its product and the user's email
+ */
+interface PendingAlertRow {
+  id: string;
+  user_id: string;
+  product_id: string;
+  plan_id: string | null;
+  usage_type: string;
+  event_type: UsageAlertEventType;
+  threshold: string;
+  used: number;
+  usage_limit: number;
+  soft_limit: number | null;
+  period_end: Date | string;
+  send_email: boolean;
+  webhook_status: DeliveryStatus;
+  email_status: DeliveryStatus;
+  attempts: number;
+  created_at: Date;
+  product_name: string;
+  upgrade_url: string | null;
+  email: string | null;
+}
+
+/**
+ * Usage Alert Dispatch Handler
+ */
+export const handler: ScheduledHandler = async () => {
+  console.log('[UsageAlerts] Starting alert dispatch');
+
+  await initializeDatabase();
+
+  const pending = await query<PendingAlertRow>(
+    `
+    SELECT
+      a.id,
+      a.user_id,
+      a.product_id,
+      a.plan_id,
+      a.usage_type,
+      a.event_type,
+      a.threshold,
+      a.used,
+      a.usage_limit,
+      a.soft_limit,
+      a.period_end,
+      a.send_email,
+      a.webhook_status,
+      a.email_status,
+      a.attempts,
+      a.created_at,
+      p.name as product_name,
+      p.metadata->>'upgrade_url' as upgrade_url,
+      COALESCE(
+        (SELECT upl.email FROM user_product_logins upl WHERE upl.user_id = a.user_id AND upl.product_id = a.product_id),
+        (SELECT ve.email FROM verified_emails ve WHERE ve.user_id = a.user_id ORDER BY ve.first_verified_at LIMIT 1)
+      ) as email
+    FROM usage_alerts a
+    JOIN products p ON a.product_id = p.id
+    WHERE (a.webhook_status = 'pending' OR a.email_status = 'pending')
+      AND (a.attempts = 0 OR a.updated_at <= NOW() - INTERVAL '1 minute' * POWER(2, a.attempts))
+    ORDER BY a.created_at ASC
+    LIMIT $1
+    `,
+    [DISPATCH_BATCH_SIZE]
+  );
+
+  const webhooksByProduct = new Map<string, ProductWebhookRow[]>();
+  let delivered = 0;
+  let failed = 0;
+
+  for (const alert of pending.rows) {
+    const event = toUsageAlertEvent(alert);
+    const errors: string[] = [];
+
+    // Webhooks
+    let webhookStatus = alert.webhook_status;
+    if (webhookStatus === 'pending') {
+      if (!webhooksByProduct.has(alert.product_id)) {
+        webhooksByProduct.set(alert.product_id, await getProductWebhooks(alert.product_id));
+      }
+      const webhooks = webhooksByProduct.get(alert.product_id)!.filter((w) => isSubscribed(w, event.type));
+
+      if (webhooks.length === 0) {
+        webhookStatus = 'skipped';
+      } else {
+        const results = await Promise.allSettled(webhooks.map((w) => deliverWebhook(w, event)));
+        const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        webhookStatus = rejected.length === 0 ? 'sent' : 'pending';
+        errors.push(...rejected.map((r) => (r.reason as Error).message));
+      }
+    }
+
+    // Email
+    let emailStatus = alert.email_status;
+    if (emailStatus === 'pending') {
+      if (!alert.send_email || !alert.email || !isEmailConfigured()) {
+        emailStatus = 'skipped';
+      } else {
+        try {
+          await sendEmail(alert.email, renderUsageAlertEmail(event, {
+            name: alert.product_name,
+            upgrade_url: alert.upgrade_url,
+          }));
+          emailStatus = 'sent';
+        } catch (error) {
+          errors.push(`Email: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    // Give up after the last attempt
+    const attempts = alert.attempts + 1;
+    if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      webhookStatus = webhookStatus === 'pending' ? 'failed' : webhookStatus;
+      emailStatus = emailStatus === 'pending' ? 'failed' : emailStatus;
+    }
+
+    await query(
+      `
+      UPDATE usage_alerts
+      SET
+        webhook_status = $1,
+        email_status = $2,
+        attempts = $3,
+        last_error = $4
+      WHERE id = $5
+      `,
+      [webhookStatus, emailStatus, attempts, errors.length > 0 ? errors.join('; ') : null, alert.id]
+    );
+
+    if (errors.length > 0) {
+      failed++;
+      console.error('[UsageAlerts] Alert delivery failed', {
+        alertId: alert.id,
+        eventType: alert.event_type,
+        attempts,
+        errors,
+      });
+    } else {
+      delivered++;
+    }
+  }
+
+  console.log('[UsageAlerts] Alert dispatch completed', {
+    pending: pending.rows.length,
+    delivered,
+    failed,
+  });
+};
+
+/**
+ * Active webhook endpoints of a product
+ */
+async function getProductWebhooks(productId: string): Promise<ProductWebhookRow[]> {
+  const result = await query<ProductWebhookRow>(
+    `
+    SELECT id, product_id, url, secret, events
+    FROM product_webhooks
+    WHERE product_id = $1 AND is_active = true
+    `,
+    [productId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Build the webhook event from an alert row
+ */
+function toUsageAlertEvent(alert: PendingAlertRow): UsageAlertEvent {
+  const threshold = alert.threshold === 'soft_limit' || alert.threshold === 'limit'
+    ? alert.threshold
+    : Number(alert.threshold);
+
+  // 'infinity' (meters that never reset) is returned as a string by pg
+  const periodEnd = alert.period_end instanceof Date && !isNaN(alert.period_end.getTime())
+    ? alert.period_end.toISOString()
+    : null;
+
+  return {
+    id: alert.id,
+    type: alert.event_type,
+    created_at: alert.created_at.toISOString(),
+    data: {
+      user_id: alert.user_id,
+      product_id: alert.product_id,
+      plan_id: alert.plan_id,
+      usage_type: alert.usage_type,
+      threshold,
+      used: alert.used,
+      limit: alert.usage_limit,
+      soft_limit: alert.soft_limit,
+      reset_at: periodEnd,
+    },
+  };
+}
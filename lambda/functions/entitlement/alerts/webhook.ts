@@ -0,0 +1,84 @@
+/**
+ * Product webhook delivery
+ *
+ * Events are POSTed as JSON with an HMAC-SHA256 signature header:
+ *   X-Platform-Signature: t=<unix seconds>,v1=<hex HMAC of "<t>.<body>">
+ * Receivers should verify the signature and deduplicate by event id,
+ * since failed deliveries are retried to every endpoint of the product.
+ *
+ * @module entitlement/alerts/webhook
+ */
+
+import { createHmac } from 'crypto';
+
+/**
+ * Signature header sent with every delivery
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Platform-Signature';
+
+/**
+ * Delivery timeout per endpoint
+ */
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Registered product webhook endpoint
+ */
+export interface ProductWebhookRow {
+  id: string;
+  product_id: string;
+  url: string;
+  secret: string;
+  events: string[];
+}
+
+/**
+ * Build the signature header value for a payload
+ *
+ * @param secret - Webhook signing secret
+ * @param timestamp - Unix timestamp in seconds
+ * @param body - Raw JSON body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Whether an endpoint subscribes to an event type (empty list = all events)
+ */
+export function isSubscribed(webhook: Pick<ProductWebhookRow, 'events'>, eventType: string): boolean {
+  return webhook.events.length === 0 || webhook.events.includes(eventType);
+}
+
+/**
+ * Deliver an event to one endpoint
+ *
+ * @throws Error if the endpoint does not respond with 2xx
+ */
+export async function deliverWebhook(
+  webhook: ProductWebhookRow,
+  event: { id: string; type: string }
+): Promise<void> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const response = await fetch(webhook.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body),
+      'X-Platform-Event-Id': event.id,
+      'X-Platform-Event-Type': event.type,
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook ${webhook.id} responded with ${response.status}`);
+  }
+}
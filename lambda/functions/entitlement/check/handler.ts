@@ -6,15 +6,23 @@
  * - Redis cache with 60-second TTL
  * - P95 latency < 200ms
  * - Soft limit support
+ * - Per-meter usage (plans.metadata.meters)
+ * - Grace period: past-due entitlements keep access until grace_until
+ * - Prepaid credit balance (used once the plan quota is exhausted)
  */
 
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { initializeDatabase, query } from '../../../shared/db/index.js';
 import EntitlementCache from '../cache.js';
+import { getMeterUsage, withAddonLimits } from '../meters.js';
+import { getCreditBalance } from '../credits/ledger.js';
 import {
+  EntitlementBanner,
   EntitlementResponse,
   EntitlementWithPlan,
+  UsageInfo,
   DEFAULT_SOFT_LIMIT_PERCENT,
+  DEFAULT_USAGE_TYPE,
 } from '../types.js';
 
 /**
@@ -65,6 +73,18 @@ async function recordUserProductLogin(userId: string, productId: string, email?:
   }
 }
 
+/**
+ * Banner hint shown while the entitlement is in its grace period
+ */
+function buildGraceBanner(graceUntil: Date): EntitlementBanner {
+  const deadline = graceUntil.toLocaleDateString('ja-JP', { timeZone: 'Asia/Tokyo' });
+  return {
+    type: 'payment_past_due',
+    severity: 'warning',
+    message: `お支払いが確認できていません。${deadline}までにお支払い方法を更新してください。`,
+  };
+}
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type,Authorization',
@@ -158,20 +178,24 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
           e.soft_limit,
           e.usage_reset_at,
           e.valid_until,
+          e.grace_until,
+          e.addon_limits,
           e.created_at,
           e.updated_at,
           p.name as plan_name,
           p.price_amount,
           p.billing_period,
-          p.metadata->>'usage_limit' as plan_limit,
+          (p.metadata->>'usage_limit')::int as plan_limit,
           p.metadata->>'features' as plan_features,
           p.metadata->>'soft_limit_percent' as soft_limit_percent,
+          p.metadata->'meters' as plan_meters,
           s.cancel_at_period_end,
           s.current_period_end
         FROM entitlements e
         LEFT JOIN plans p ON e.plan_id = p.id
         LEFT JOIN subscriptions s ON e.subscription_id = s.id
-        WHERE e.user_id = $1 AND e.product_id = $2 AND e.status = 'active'
+        WHERE e.user_id = $1 AND e.product_id = $2
+          AND (e.status = 'active' OR (e.status = 'grace' AND e.grace_until > NOW()))
         LIMIT 1
         `,
         [userId, productId]
@@ -190,8 +214,8 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
 
       const row = result.rows[0]!; // Non-null assertion since we checked length above
 
-      // Calculate usage limits
-      const usageLimit = row.usage_limit ?? row.plan_limit;
+      // Calculate usage limits (base plan or entitlement override, plus add-ons)
+      const usageLimit = (row.usage_limit ?? row.plan_limit) + (row.addon_limits?.usage_limit ?? 0);
       const usageCount = row.usage_count ?? 0;
       const remaining = Math.max(0, usageLimit - usageCount);
 
@@ -209,6 +233,27 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
         ...(row.feature_flags || {}),
       };
 
+      const usage: UsageInfo = {
+        limit: usageLimit,
+        used: usageCount,
+        remaining,
+        soft_limit: softLimit,
+        reset_at: row.usage_reset_at?.toISOString() || '',
+      };
+
+      // Named meters defined by the plan (the default meter is the entitlement's own counter)
+      const meters = {
+        [DEFAULT_USAGE_TYPE]: { ...usage, reset: 'billing_period' as const },
+        ...(await getMeterUsage(
+          client,
+          row.entitlement_id,
+          withAddonLimits(row.plan_meters, row.addon_limits),
+          row.usage_reset_at
+        )),
+      };
+
+      const credits = await getCreditBalance(client, userId, productId);
+
       // Build response
       const response: EntitlementResponse = {
         product_id: row.product_id,
@@ -218,20 +263,20 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
         billing_period: row.billing_period || '',
         status: row.status,
         features,
-        usage: {
-          limit: usageLimit,
-          used: usageCount,
-          remaining,
-          soft_limit: softLimit,
-          reset_at: row.usage_reset_at?.toISOString() || '',
-        },
+        usage,
+        meters,
         valid_until: row.valid_until?.toISOString() || '',
         over_limit: usageCount > usageLimit,
         over_soft_limit: usageCount > softLimit,
+        credit_balance: credits.balance,
         // Include cancel_at only if subscription is scheduled to cancel
         ...(row.cancel_at_period_end && row.current_period_end
           ? { cancel_at: row.current_period_end.toISOString() }
           : {}),
+        // Include grace_until and a banner hint while payment is past due
+        ...(row.status === 'grace' && row.grace_until
+          ? { grace_until: row.grace_until.toISOString(), banner: buildGraceBanner(row.grace_until) }
+          : {}),
       };
 
       // Cache the response (60 seconds TTL)
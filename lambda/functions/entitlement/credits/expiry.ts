@@ -0,0 +1,30 @@
+/**
+ * Credit Expiry Handler
+ *
+ * Scheduled job (EventBridge) that closes credit lots past their expires_at
+ * and writes an expiry entry for the unused credits. Expired lots are
+ * already excluded from the balance; this records the expiry in the ledger.
+ *
+ * @module entitlement/credits/expiry
+ */
+
+import { ScheduledHandler } from 'aws-lambda';
+import { initializeDatabase } from '../../../shared/db/index.js';
+import { expireCredits } from './ledger.js';
+
+/**
+ * Credit Expiry Handler
+ */
+export const handler: ScheduledHandler = async () => {
+  console.log('[CreditExpiry] Starting credit expiry');
+
+  const pool = await initializeDatabase();
+  const client = await pool.connect();
+
+  try {
+    const expired = await expireCredits(client);
+    console.log('[CreditExpiry] Credit expiry completed', { expired });
+  } finally {
+    client.release();
+  }
+};
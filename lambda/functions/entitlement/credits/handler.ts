@@ -0,0 +1,167 @@
+/**
+ * GET /me/credits
+ * Prepaid credit balance and ledger history
+ *
+ * Query parameters:
+ * - productId / product_id (required)
+ * - type: only entries of this entry_type (purchase, adjustment, usage, expiry)
+ * - page, per_page: pagination (newest first)
+ *
+ * @module entitlement/credits/handler
+ */
+
+import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import { initializeDatabase } from '../../../shared/db/index.js';
+import { getCreditBalance } from './ledger.js';
+import type {
+  CreditEntryType,
+  CreditLedgerEntry,
+  CreditLedgerResponse,
+  CreditLedgerRow,
+} from '../types.js';
+
+const CREDIT_ENTRY_TYPES: CreditEntryType[] = ['purchase', 'adjustment', 'usage', 'expiry'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+  'Access-Control-Allow-Methods': 'GET,OPTIONS',
+};
+
+/**
+ * Converts CreditLedgerRow to CreditLedgerEntry
+ */
+function toCreditLedgerEntry(row: CreditLedgerRow): CreditLedgerEntry {
+  return {
+    id: row.id,
+    entry_type: row.entry_type,
+    amount: row.amount,
+    ...(row.remaining !== null ? { remaining: row.remaining } : {}),
+    ...(row.expires_at ? { expires_at: row.expires_at.toISOString() } : {}),
+    ...(row.lot_id ? { lot_id: row.lot_id } : {}),
+    ...(row.plan_id ? { plan_id: row.plan_id } : {}),
+    ...(row.metadata && Object.keys(row.metadata).length > 0 ? { metadata: row.metadata } : {}),
+    created_at: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Lambda handler for GET /me/credits
+ */
+export const handler: APIGatewayProxyHandler = async (event): Promise<APIGatewayProxyResult> => {
+  const startTime = Date.now();
+
+  try {
+    const userId = event.requestContext?.authorizer?.['claims']?.['sub'];
+    if (!userId) {
+      return {
+        statusCode: 401,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: 'Unauthorized',
+          message: 'User ID not found in token',
+        }),
+      };
+    }
+
+    const params = event.queryStringParameters;
+
+    // Support both productId and product_id for SDK compatibility
+    const productId = params?.['productId'] ?? params?.['product_id'];
+    if (!productId) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'Missing required parameter: productId or product_id',
+        }),
+      };
+    }
+
+    const type = params?.['type'];
+    if (type !== undefined && !CREDIT_ENTRY_TYPES.includes(type as CreditEntryType)) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: `type must be one of: ${CREDIT_ENTRY_TYPES.join(', ')}`,
+        }),
+      };
+    }
+
+    const page = Math.max(1, parseInt(params?.['page'] || '1') || 1);
+    const perPage = Math.min(100, Math.max(1, parseInt(params?.['per_page'] || '20') || 20));
+    const offset = (page - 1) * perPage;
+
+    const pool = await initializeDatabase();
+
+    const [balance, countResult, entriesResult] = await Promise.all([
+      getCreditBalance(pool, userId, productId),
+      pool.query<{ count: string }>(
+        `
+        SELECT COUNT(*) as count
+        FROM credit_ledger
+        WHERE user_id = $1 AND product_id = $2 AND ($3::text IS NULL OR entry_type = $3)
+        `,
+        [userId, productId, type ?? null]
+      ),
+      pool.query<CreditLedgerRow>(
+        `
+        SELECT *
+        FROM credit_ledger
+        WHERE user_id = $1 AND product_id = $2 AND ($3::text IS NULL OR entry_type = $3)
+        ORDER BY created_at DESC, id
+        LIMIT $4 OFFSET $5
+        `,
+        [userId, productId, type ?? null, perPage, offset]
+      ),
+    ]);
+
+    const total = parseInt(countResult.rows[0]?.count || '0');
+    const entries = entriesResult.rows.map(toCreditLedgerEntry);
+
+    const response: CreditLedgerResponse = {
+      product_id: productId,
+      credit_balance: balance.balance,
+      ...(balance.next_expiry_at ? { next_expiry_at: balance.next_expiry_at.toISOString() } : {}),
+      entries,
+      total,
+      page,
+      per_page: perPage,
+      has_more: offset + entries.length < total,
+    };
+
+    const duration = Date.now() - startTime;
+    console.log(`Credit ledger queried - entries: ${entries.length}, Response time: ${duration}ms`);
+
+    return {
+      statusCode: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'X-Response-Time': `${duration}ms`,
+      },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error querying credit ledger:', error);
+
+    return {
+      statusCode: 500,
+      headers: {
+        ...corsHeaders,
+        'X-Response-Time': `${duration}ms`,
+      },
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to query credit ledger',
+        details: process.env['ENVIRONMENT'] === 'development'
+          ? (error as Error).message
+          : undefined,
+      }),
+    };
+  }
+};
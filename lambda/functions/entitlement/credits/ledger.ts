@@ -0,0 +1,163 @@
+/**
+ * Prepaid credit ledger
+ *
+ * Credit packs (one-time plans) open a lot in credit_ledger with the
+ * purchased amount in `remaining`. Usage above the plan quota draws from the
+ * open lots, soonest expiry first; each draw and each expiry is written as
+ * its own ledger entry referencing the lot, so the ledger is a full history.
+ *
+ * Credits are counted in units of the default meter (api_call).
+ *
+ * @module entitlement/credits/ledger
+ */
+
+import type { PoolClient } from 'pg';
+import type { CreditLedgerRow } from '../types.js';
+
+/**
+ * Credit balance of a user for a product
+ */
+export interface CreditBalance {
+  /** Credits available now */
+  balance: number;
+  /** Earliest expiry of the available credits */
+  next_expiry_at: Date | null;
+}
+
+/**
+ * Result of drawing credits
+ */
+export interface CreditDraw {
+  /** Credits drawn (may be less than requested if the balance ran out) */
+  drawn: number;
+  /** Balance after the draw */
+  balance: number;
+}
+
+/**
+ * Get the available credit balance
+ */
+export async function getCreditBalance(
+  client: Pick<PoolClient, 'query'>,
+  userId: string,
+  productId: string
+): Promise<CreditBalance> {
+  const result = await client.query<{ balance: number; next_expiry_at: Date | null }>(
+    `
+    SELECT
+      COALESCE(SUM(remaining), 0)::int as balance,
+      MIN(expires_at) as next_expiry_at
+    FROM credit_ledger
+    WHERE user_id = $1
+      AND product_id = $2
+      AND remaining > 0
+      AND (expires_at IS NULL OR expires_at > NOW())
+    `,
+    [userId, productId]
+  );
+
+  return {
+    balance: result.rows[0]?.balance ?? 0,
+    next_expiry_at: result.rows[0]?.next_expiry_at ?? null,
+  };
+}
+
+/**
+ * Draw credits for usage above the plan quota
+ * Must run in the same transaction as the usage increment; the open lots are
+ * locked so concurrent requests cannot spend the same credits.
+ *
+ * @param amount - Credits wanted (usage beyond the plan quota)
+ * @returns Credits actually drawn and the remaining balance
+ */
+export async function drawCredits(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  entitlementId: string,
+  amount: number
+): Promise<CreditDraw> {
+  if (amount <= 0) {
+    return { drawn: 0, balance: (await getCreditBalance(client, userId, productId)).balance };
+  }
+
+  // Soonest-expiring lots first, non-expiring lots last
+  const lots = await client.query<{ id: string; remaining: number }>(
+    `
+    SELECT id, remaining
+    FROM credit_ledger
+    WHERE user_id = $1
+      AND product_id = $2
+      AND remaining > 0
+      AND (expires_at IS NULL OR expires_at > NOW())
+    ORDER BY expires_at ASC NULLS LAST, created_at ASC
+    FOR UPDATE
+    `,
+    [userId, productId]
+  );
+
+  let drawn = 0;
+  let balance = 0;
+  for (const lot of lots.rows) {
+    const take = Math.min(lot.remaining, amount - drawn);
+    balance += lot.remaining - take;
+    if (take === 0) {
+      continue;
+    }
+
+    await client.query(
+      `UPDATE credit_ledger SET remaining = remaining - $2 WHERE id = $1`,
+      [lot.id, take]
+    );
+    await client.query(
+      `
+      INSERT INTO credit_ledger (user_id, product_id, entry_type, amount, lot_id, entitlement_id)
+      VALUES ($1, $2, 'usage', $3, $4, $5)
+      `,
+      [userId, productId, -take, lot.id, entitlementId]
+    );
+    drawn += take;
+  }
+
+  if (drawn > 0) {
+    console.log('Credits drawn', { userId, productId, drawn, balance });
+  }
+
+  return { drawn, balance };
+}
+
+/**
+ * Expire lots whose expires_at has passed
+ * Writes an expiry entry for the unused credits and closes the lot.
+ *
+ * @returns Number of lots expired
+ */
+export async function expireCredits(client: PoolClient, batchSize = 500): Promise<number> {
+  const result = await client.query<Pick<CreditLedgerRow, 'id'>>(
+    `
+    WITH expired AS (
+      SELECT id, user_id, product_id, remaining
+      FROM credit_ledger
+      WHERE remaining > 0
+        AND expires_at IS NOT NULL
+        AND expires_at <= NOW()
+      ORDER BY expires_at
+      LIMIT $1
+      FOR UPDATE SKIP LOCKED
+    ),
+    closed AS (
+      UPDATE credit_ledger c
+      SET remaining = 0
+      FROM expired
+      WHERE c.id = expired.id
+    )
+    INSERT INTO credit_ledger (user_id, product_id, entry_type, amount, lot_id)
+    SELECT user_id, product_id, 'expiry', -remaining, id
+    FROM expired
+    RETURNING lot_id as id
+    `,
+    [batchSize]
+  );
+
+  return result.rowCount ?? 0;
+}
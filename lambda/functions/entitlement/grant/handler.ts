@@ -6,11 +6,13 @@
  * - Internal API only (IAM authentication or API key)
  * - Idempotent operation (upsert)
  * - Initialize usage counter and reset date
+ * - grantEntitlement() is shared with the team seat API
  */
 
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { initializeDatabase } from '../../../shared/db/index.js';
 import EntitlementCache from '../cache.js';
+import type { PoolClient } from 'pg';
 import {
   GrantEntitlementRequest,
   GrantEntitlementResponse,
@@ -18,6 +20,126 @@ import {
 } from '../types.js';
 import { randomUUID } from 'crypto';
 
+/**
+ * Grant (upsert) an entitlement
+ * Runs in the caller's transaction; the caller invalidates the entitlement
+ * cache after COMMIT.
+ *
+ * Limits and feature flags are stored only as overrides of the request;
+ * without overrides the plan's values apply when the entitlement is read.
+ *
+ * @returns The granted entitlement, or null if the plan is not an active plan of the product
+ */
+export async function grantEntitlement(
+  client: PoolClient,
+  request: GrantEntitlementRequest
+): Promise<GrantEntitlementResponse | null> {
+  const {
+    user_id,
+    product_id,
+    plan_id,
+    subscription_id,
+    usage_limit,
+    soft_limit,
+    valid_until,
+    feature_flags,
+  } = request;
+
+  // Verify that the plan exists
+  // Seats of a subscription are granted on the subscription's plan version,
+  // other grants on the plan's current version
+  const planResult = await client.query<{ id: string; plan_version_id: string | null }>(
+    `
+    SELECT
+      p.id,
+      COALESCE(
+        (SELECT s.plan_version_id FROM subscriptions s WHERE s.id = $3 AND s.plan_id = p.id),
+        p.current_version_id
+      ) as plan_version_id
+    FROM plans p
+    WHERE p.id = $1 AND p.product_id = $2 AND p.is_active = true AND p.deleted_at IS NULL
+    `,
+    [plan_id, product_id, subscription_id ?? null]
+  );
+
+  if (planResult.rows.length === 0) {
+    return null;
+  }
+
+  // Calculate usage reset date (30 days from now by default)
+  const usageResetAt = new Date();
+  usageResetAt.setDate(usageResetAt.getDate() + DEFAULT_RESET_PERIOD_DAYS);
+
+  // Parse valid_until if provided
+  const validUntil = valid_until ? new Date(valid_until) : null;
+
+  // Upsert entitlement (idempotent)
+  const result = await client.query<{
+    entitlement_id: string;
+    created_at: Date;
+  }>(
+    `
+    INSERT INTO entitlements (
+      entitlement_id,
+      user_id,
+      product_id,
+      plan_id,
+      subscription_id,
+      status,
+      feature_flags,
+      usage_limit,
+      usage_count,
+      soft_limit,
+      usage_reset_at,
+      valid_until,
+      plan_version_id,
+      created_at,
+      updated_at
+    ) VALUES (
+      $1, $2, $3, $4, $5, 'active', $6, $7, 0, $8, $9, $10, $11, NOW(), NOW()
+    )
+    ON CONFLICT (user_id, product_id) WHERE status IN ('active', 'grace')
+    DO UPDATE SET
+      plan_id = EXCLUDED.plan_id,
+      subscription_id = COALESCE(EXCLUDED.subscription_id, entitlements.subscription_id),
+      status = 'active',
+      grace_until = NULL,
+      feature_flags = EXCLUDED.feature_flags,
+      usage_limit = EXCLUDED.usage_limit,
+      soft_limit = EXCLUDED.soft_limit,
+      usage_reset_at = EXCLUDED.usage_reset_at,
+      valid_until = EXCLUDED.valid_until,
+      plan_version_id = EXCLUDED.plan_version_id,
+      updated_at = NOW()
+    RETURNING entitlement_id, created_at
+    `,
+    [
+      randomUUID(),
+      user_id,
+      product_id,
+      plan_id,
+      subscription_id ?? null,
+      JSON.stringify(feature_flags ?? {}),
+      usage_limit ?? null,
+      soft_limit ?? null,
+      usageResetAt,
+      validUntil,
+      planResult.rows[0]!.plan_version_id,
+    ]
+  );
+
+  const row = result.rows[0]!; // Non-null assertion - INSERT always returns a row
+
+  return {
+    entitlement_id: row.entitlement_id,
+    user_id,
+    product_id,
+    plan_id,
+    status: 'active',
+    granted_at: row.created_at.toISOString(),
+  };
+}
+
 /**
  * Lambda handler for POST /internal/entitlements/grant
  */
@@ -39,15 +161,7 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       };
     }
 
-    const {
-      user_id,
-      product_id,
-      plan_id,
-      usage_limit,
-      soft_limit,
-      valid_until,
-      feature_flags,
-    } = body;
+    const { user_id, product_id, plan_id } = body;
 
     // Validate required fields
     if (!user_id || !product_id || !plan_id) {
@@ -65,127 +179,42 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     const pool = await initializeDatabase();
     const client = await pool.connect();
 
+    let response: GrantEntitlementResponse | null;
     try {
       await client.query('BEGIN');
-
-      // Verify that the plan exists
-      const planResult = await client.query(
-        `
-        SELECT plan_id, usage_limit, soft_limit_percent, feature_flags
-        FROM plans
-        WHERE plan_id = $1 AND product_id = $2 AND status = 'active'
-        `,
-        [plan_id, product_id]
-      );
-
-      if (planResult.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return {
-          statusCode: 404,
-          body: JSON.stringify({
-            error: 'Not Found',
-            message: `Plan not found: ${plan_id}`,
-          }),
-        };
-      }
-
-      const plan = planResult.rows[0]!; // Non-null assertion since we checked length above
-
-      // Calculate default values
-      const finalUsageLimit = usage_limit ?? plan.usage_limit;
-      const finalSoftLimit = soft_limit ?? Math.floor(finalUsageLimit * (1 + (plan.soft_limit_percent || 0.1)));
-      const finalFeatureFlags = feature_flags ?? plan.feature_flags ?? {};
-
-      // Calculate usage reset date (30 days from now by default)
-      const usageResetAt = new Date();
-      usageResetAt.setDate(usageResetAt.getDate() + DEFAULT_RESET_PERIOD_DAYS);
-
-      // Parse valid_until if provided
-      const validUntil = valid_until ? new Date(valid_until) : null;
-
-      // Upsert entitlement (idempotent)
-      const entitlementId = randomUUID();
-      const result = await client.query<{
-        entitlement_id: string;
-        created_at: Date;
-      }>(
-        `
-        INSERT INTO entitlements (
-          entitlement_id,
-          user_id,
-          product_id,
-          plan_id,
-          status,
-          feature_flags,
-          usage_limit,
-          usage_count,
-          soft_limit,
-          usage_reset_at,
-          valid_until,
-          created_at,
-          updated_at
-        ) VALUES (
-          $1, $2, $3, $4, 'active', $5, $6, 0, $7, $8, $9, NOW(), NOW()
-        )
-        ON CONFLICT (user_id, product_id)
-        DO UPDATE SET
-          plan_id = EXCLUDED.plan_id,
-          status = 'active',
-          feature_flags = EXCLUDED.feature_flags,
-          usage_limit = EXCLUDED.usage_limit,
-          soft_limit = EXCLUDED.soft_limit,
-          usage_reset_at = EXCLUDED.usage_reset_at,
-          valid_until = EXCLUDED.valid_until,
-          updated_at = NOW()
-        RETURNING entitlement_id, created_at
-        `,
-        [
-          entitlementId,
-          user_id,
-          product_id,
-          plan_id,
-          JSON.stringify(finalFeatureFlags),
-          finalUsageLimit,
-          finalSoftLimit,
-          usageResetAt,
-          validUntil,
-        ]
-      );
-
-      const row = result.rows[0]!; // Non-null assertion - INSERT always returns a row
-
-      await client.query('COMMIT');
-
-      // Invalidate cache
-      await EntitlementCache.invalidateAll(user_id, product_id);
-
-      // Build response
-      const response: GrantEntitlementResponse = {
-        entitlement_id: row.entitlement_id,
-        user_id,
-        product_id,
-        plan_id,
-        status: 'active',
-        granted_at: row.created_at.toISOString(),
-      };
-
-      const duration = Date.now() - startTime;
-      console.log(`Entitlement granted - Response time: ${duration}ms`);
-
-      return {
-        statusCode: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Response-Time': `${duration}ms`,
-        },
-        body: JSON.stringify(response),
-      };
+      response = await grantEntitlement(client, body);
+      await client.query(response ? 'COMMIT' : 'ROLLBACK');
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
     } finally {
       client.release();
     }
+
+    if (!response) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: `Plan not found: ${plan_id}`,
+        }),
+      };
+    }
+
+    // Invalidate cache
+    await EntitlementCache.invalidateAll(user_id, product_id);
+
+    const duration = Date.now() - startTime;
+    console.log(`Entitlement granted - Response time: ${duration}ms`);
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Response-Time': `${duration}ms`,
+      },
+      body: JSON.stringify(response),
+    };
   } catch (error) {
     const duration = Date.now() - startTime;
     console.error('Error granting entitlement:', error);
@@ -0,0 +1,232 @@
+/**
+ * Named usage meters
+ *
+ * Plans define meters in plans.metadata.meters, e.g.
+ * { "tokens": { "limit": 100000, "reset": "monthly" } }.
+ * The default meter (api_call) is backed by the entitlement's own
+ * usage_count / usage_limit columns; every other meter keeps its counter
+ * in entitlement_meters. Daily and monthly counters past their reset time
+ * are reset lazily on the next increment; billing_period counters are
+ * snapshotted and zeroed by the usage reset worker (entitlement/reset) only,
+ * so usage recorded before it runs still counts toward the finished period.
+ * Add-ons raise meter limits via
+ * entitlements.addon_limits (see withAddonLimits).
+ */
+
+import type { PoolClient } from 'pg';
+import {
+  AddonLimits,
+  EntitlementMeterRow,
+  MeterDefinition,
+  MeterInfo,
+  MeterResetSchedule,
+  UsageResponse,
+  DEFAULT_SOFT_LIMIT_PERCENT,
+  DEFAULT_USAGE_TYPE,
+} from './types.js';
+
+/**
+ * Meter a usage type is recorded on
+ * - default: entitlements.usage_count
+ * - meter: entitlement_meters row with the plan's definition
+ * - unknown: the plan defines meters but not this one
+ */
+export type ResolvedMeter =
+  | { kind: 'default' }
+  | { kind: 'meter'; definition: MeterDefinition }
+  | { kind: 'unknown' };
+
+/**
+ * Resolve the meter for a usage type
+ * Plans without meters record every type on the default meter (pre-meter behavior).
+ */
+export function resolveMeter(
+  planMeters: Record<string, MeterDefinition> | null | undefined,
+  type: string
+): ResolvedMeter {
+  if (type === DEFAULT_USAGE_TYPE || !planMeters || Object.keys(planMeters).length === 0) {
+    return { kind: 'default' };
+  }
+
+  const definition = planMeters[type];
+  return definition ? { kind: 'meter', definition } : { kind: 'unknown' };
+}
+
+/**
+ * Add the add-on limits to the plan's meter definitions
+ * Meters the plan does not define are not created by add-ons.
+ */
+export function withAddonLimits(
+  planMeters: Record<string, MeterDefinition> | null | undefined,
+  addonLimits: AddonLimits | null | undefined
+): Record<string, MeterDefinition> | null | undefined {
+  const addonMeters = addonLimits?.meters;
+  if (!planMeters || !addonMeters) {
+    return planMeters;
+  }
+
+  const meters: Record<string, MeterDefinition> = {};
+  for (const [meter, definition] of Object.entries(planMeters)) {
+    meters[meter] = addonMeters[meter]
+      ? { ...definition, limit: definition.limit + addonMeters[meter] }
+      : definition;
+  }
+  return meters;
+}
+
+/**
+ * Calculate when a counter with the given schedule next resets
+ *
+ * @param schedule - Reset schedule
+ * @param billingResetAt - The entitlement's usage_reset_at (used for billing_period)
+ * @param now - Reference time
+ */
+export function nextResetAt(
+  schedule: MeterResetSchedule,
+  billingResetAt: Date | null,
+  now: Date = new Date()
+): Date | null {
+  switch (schedule) {
+    case 'daily':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    case 'monthly':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    case 'never':
+      return null;
+    case 'billing_period':
+    default:
+      return billingResetAt;
+  }
+}
+
+/**
+ * Build meter usage information
+ */
+export function buildMeterInfo(
+  definition: MeterDefinition,
+  used: number,
+  resetAt: Date | null
+): MeterInfo {
+  const softLimitPercent = definition.soft_limit_percent ?? DEFAULT_SOFT_LIMIT_PERCENT;
+
+  return {
+    limit: definition.limit,
+    used,
+    remaining: Math.max(0, definition.limit - used),
+    soft_limit: Math.floor(definition.limit * (1 + softLimitPercent)),
+    reset_at: resetAt?.toISOString() || '',
+    reset: definition.reset ?? 'billing_period',
+  };
+}
+
+/**
+ * Build the POST /me/usage response for a meter
+ */
+export function toUsageResponse(type: string, info: MeterInfo): UsageResponse {
+  const remaining = info.limit - info.used;
+  const softLimitRemaining = info.soft_limit - info.used;
+
+  return {
+    type,
+    used: info.used,
+    remaining: Math.max(0, remaining),
+    over_limit: remaining < 0,
+    soft_limit_remaining: Math.max(0, softLimitRemaining),
+    over_soft_limit: softLimitRemaining < 0 && remaining >= 0,
+  };
+}
+
+/**
+ * Increment a named meter, resetting a daily / monthly counter first if its
+ * reset time has passed
+ * Must run in a transaction holding the entitlement row lock.
+ *
+ * @param billingResetAt - The entitlement's usage_reset_at
+ */
+export async function incrementMeter(
+  client: PoolClient,
+  entitlementId: string,
+  billingResetAt: Date | null,
+  meter: string,
+  definition: MeterDefinition,
+  count: number
+): Promise<MeterInfo> {
+  const schedule = definition.reset ?? 'billing_period';
+
+  const result = await client.query<{ usage_count: number; usage_reset_at: Date | null }>(
+    `
+    INSERT INTO entitlement_meters (entitlement_id, meter, usage_count, reset_schedule, usage_reset_at)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (entitlement_id, meter)
+    DO UPDATE SET
+      usage_count = CASE
+        WHEN entitlement_meters.reset_schedule IN ('daily', 'monthly')
+          AND entitlement_meters.usage_reset_at <= NOW()
+        THEN EXCLUDED.usage_count
+        ELSE entitlement_meters.usage_count + EXCLUDED.usage_count
+      END,
+      usage_reset_at = CASE
+        WHEN (entitlement_meters.reset_schedule IN ('daily', 'monthly') AND entitlement_meters.usage_reset_at <= NOW())
+          OR entitlement_meters.reset_schedule <> EXCLUDED.reset_schedule
+        THEN EXCLUDED.usage_reset_at
+        ELSE entitlement_meters.usage_reset_at
+      END,
+      reset_schedule = EXCLUDED.reset_schedule,
+      updated_at = NOW()
+    RETURNING usage_count, usage_reset_at
+    `,
+    [entitlementId, meter, count, schedule, nextResetAt(schedule, billingResetAt)]
+  );
+
+  const row = result.rows[0]!; // Non-null assertion - upsert always returns a row
+  return buildMeterInfo(definition, row.usage_count, row.usage_reset_at);
+}
+
+/**
+ * Get usage information for every meter the plan defines
+ * Meters without a row yet (or daily / monthly ones past their reset time)
+ * report zero usage; billing_period counters are current until the reset
+ * worker closes the period.
+ *
+ * @param billingResetAt - The entitlement's usage_reset_at
+ */
+export async function getMeterUsage(
+  client: PoolClient,
+  entitlementId: string,
+  planMeters: Record<string, MeterDefinition> | null | undefined,
+  billingResetAt: Date | null
+): Promise<Record<string, MeterInfo>> {
+  const meters: Record<string, MeterInfo> = {};
+  if (!planMeters || Object.keys(planMeters).length === 0) {
+    return meters;
+  }
+
+  const result = await client.query<EntitlementMeterRow>(
+    `
+    SELECT entitlement_id, meter, usage_count, reset_schedule, usage_reset_at
+    FROM entitlement_meters
+    WHERE entitlement_id = $1
+    `,
+    [entitlementId]
+  );
+  const rows = new Map(result.rows.map((row) => [row.meter, row]));
+
+  const now = new Date();
+  for (const [meter, definition] of Object.entries(planMeters)) {
+    if (meter === DEFAULT_USAGE_TYPE) {
+      continue;
+    }
+
+    const row = rows.get(meter);
+    const current = row && (
+      row.reset_schedule === 'billing_period'
+      || !row.usage_reset_at
+      || row.usage_reset_at > now
+    );
+    meters[meter] = current
+      ? buildMeterInfo(definition, row.usage_count, row.usage_reset_at)
+      : buildMeterInfo(definition, 0, nextResetAt(definition.reset ?? 'billing_period', billingResetAt, now));
+  }
+
+  return meters;
+}
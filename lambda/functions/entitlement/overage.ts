@@ -0,0 +1,142 @@
+/**
+ * Metered overage accumulation
+ *
+ * Usage above the plan's usage_limit on plans with a Stripe metered price
+ * is accumulated per billing period in usage_overage. The billing overage
+ * flush worker reports it to Stripe as subscription-item usage records.
+ * On the default meter, prepaid credits cover usage above the limit before
+ * any overage accrues (see applyDefaultUsage).
+ */
+
+import type { PoolClient } from 'pg';
+import { drawCredits, CreditDraw } from './credits/ledger.js';
+
+/**
+ * Entitlement usage state needed to accumulate overage
+ */
+export interface OverageContext {
+  /** Entitlement ID */
+  entitlement_id: string;
+  /** Internal subscription ID (entitlements.subscription_id) */
+  subscription_id: string | null;
+  /** Stripe metered price of the plan (plans.metered_price_id) */
+  metered_price_id: string | null;
+  /** Usage limit for the period */
+  usage_limit: number | null;
+}
+
+/**
+ * Calculate how much of an increment falls above the limit
+ *
+ * @param previousCount - Usage count before the increment
+ * @param newCount - Usage count after the increment
+ * @param limit - Usage limit (hard limit)
+ * @returns Overage units caused by this increment
+ */
+export function calculateOverage(previousCount: number, newCount: number, limit: number): number {
+  return Math.max(0, newCount - limit) - Math.max(0, previousCount - limit);
+}
+
+/**
+ * Add overage to the current billing period of a metered entitlement
+ * Must run in the same transaction as the usage_count increment.
+ *
+ * @returns Total overage in the current period, or null if the plan is not metered
+ */
+export async function recordOverage(
+  client: PoolClient,
+  context: OverageContext,
+  previousCount: number,
+  newCount: number
+): Promise<number | null> {
+  if (!context.metered_price_id || !context.subscription_id || context.usage_limit === null) {
+    return null;
+  }
+
+  const overage = calculateOverage(previousCount, newCount, context.usage_limit);
+
+  const result = await client.query<{ overage_quantity: number }>(
+    `
+    INSERT INTO usage_overage (
+      entitlement_id, subscription_id, metered_price_id,
+      period_start, period_end, overage_quantity
+    )
+    SELECT $1, s.id, $3, s.current_period_start, s.current_period_end, $4
+    FROM subscriptions s
+    WHERE s.id = $2
+      AND s.current_period_start IS NOT NULL
+      AND s.current_period_end IS NOT NULL
+    ON CONFLICT (entitlement_id, period_start)
+    DO UPDATE SET
+      overage_quantity = usage_overage.overage_quantity + EXCLUDED.overage_quantity,
+      updated_at = NOW()
+    RETURNING overage_quantity
+    `,
+    [context.entitlement_id, context.subscription_id, context.metered_price_id, overage]
+  );
+
+  if (result.rows.length === 0) {
+    console.warn('Metered entitlement has no billing period, overage not recorded', {
+      entitlementId: context.entitlement_id,
+      subscriptionId: context.subscription_id,
+    });
+    return null;
+  }
+
+  return result.rows[0]!.overage_quantity;
+}
+
+/**
+ * Result of applying default meter usage
+ */
+export interface DefaultUsageResult {
+  /** entitlements.usage_count after the increment */
+  usage_count: number;
+  /** Total overage in the current period, or null if the plan is not metered */
+  overage: number | null;
+  /** Credits drawn, or null if the usage stayed within the quota */
+  credits: CreditDraw | null;
+}
+
+/**
+ * Apply usage to the default meter (entitlements.usage_count)
+ * Usage beyond the plan quota is paid from prepaid credits first; credit-paid
+ * usage is not counted against the quota, and only the rest accrues as overage.
+ * Must run in a transaction holding the entitlement row lock.
+ *
+ * @param context - Entitlement state with usage_count before the increment
+ * @param count - Units to add
+ */
+export async function applyDefaultUsage(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  context: OverageContext & { usage_count: number },
+  count: number
+): Promise<DefaultUsageResult> {
+  const previousCount = context.usage_count;
+  const beyondQuota = context.usage_limit === null
+    ? 0
+    : calculateOverage(previousCount, previousCount + count, context.usage_limit);
+  const credits = beyondQuota > 0
+    ? await drawCredits(client, userId, productId, context.entitlement_id, beyondQuota)
+    : null;
+  const usageCount = previousCount + count - (credits?.drawn ?? 0);
+
+  if (usageCount !== previousCount) {
+    await client.query(
+      `
+      UPDATE entitlements
+      SET
+        usage_count = $2,
+        updated_at = NOW()
+      WHERE entitlement_id = $1
+      `,
+      [context.entitlement_id, usageCount]
+    );
+  }
+
+  const overage = await recordOverage(client, context, previousCount, usageCount);
+
+  return { usage_count: usageCount, overage, credits };
+}
@@ -0,0 +1,266 @@
+/**
+ * Usage Reset Handler
+ *
+ * Scheduled job (EventBridge) that closes finished usage periods.
+ *
+ * Workflow:
+ * 1. Select active entitlements whose usage_reset_at has passed
+ * 2. Snapshot the finished period into usage_period_history
+ *    (the default meter and every billing_period meter)
+ * 3. Zero the counters and advance usage_reset_at to the subscription's
+ *    current_period_end
+ * 4. Invalidate EntitlementCache
+ *
+ * Entitlements without a subscription (or whose subscription period has not
+ * been renewed yet) advance by DEFAULT_RESET_PERIOD_DAYS instead.
+ * Daily and monthly meters are reset lazily on increment (see meters.ts).
+ *
+ * @module entitlement/reset/handler
+ */
+
+import { ScheduledHandler } from 'aws-lambda';
+import type { PoolClient } from 'pg';
+import { initializeDatabase, query, transaction } from '../../../shared/db/index.js';
+import EntitlementCache from '../cache.js';
+import { withAddonLimits } from '../meters.js';
+import { AddonLimits, DEFAULT_RESET_PERIOD_DAYS, DEFAULT_USAGE_TYPE, MeterDefinition } from '../types.js';
+
+/**
+ * Maximum entitlements reset per invocation
+ */
+const RESET_BATCH_SIZE = 500;
+
+/**
+ * Entitlement past its reset time
+ */
+interface DueEntitlementRow {
+  entitlement_id: string;
+  user_id: string;
+  product_id: string;
+}
+
+/**
+ * Locked entitlement with its plan and subscription period
+ */
+interface ResetEntitlementRow {
+  entitlement_id: string;
+  user_id: string;
+  product_id: string;
+  plan_id: string | null;
+  subscription_id: string | null;
+  usage_count: number;
+  usage_limit: number | null;
+  usage_reset_at: Date;
+  created_at: Date;
+  current_period_end: Date | null;
+  plan_meters: Record<string, MeterDefinition> | null;
+  addon_limits: AddonLimits | null;
+}
+
+/**
+ * Usage Reset Handler
+ *
+ * Entitlements are reset in separate transactions; a failure is logged
+ * and retried on the next run.
+ */
+export const handler: ScheduledHandler = async () => {
+  console.log('[UsageReset] Starting usage reset');
+
+  await initializeDatabase();
+
+  const due = await query<DueEntitlementRow>(
+    `
+    SELECT entitlement_id, user_id, product_id
+    FROM entitlements
+    WHERE status IN ('active', 'grace')
+      AND usage_reset_at <= NOW()
+    ORDER BY usage_reset_at ASC
+    LIMIT $1
+    `,
+    [RESET_BATCH_SIZE]
+  );
+
+  let reset = 0;
+  let failed = 0;
+
+  for (const row of due.rows) {
+    try {
+      const nextResetAt = await transaction((client) => resetEntitlement(client, row.entitlement_id));
+      if (nextResetAt) {
+        await EntitlementCache.invalidateAll(row.user_id, row.product_id);
+        reset++;
+      }
+    } catch (error) {
+      failed++;
+      console.error('[UsageReset] Failed to reset usage', {
+        entitlementId: row.entitlement_id,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  console.log('[UsageReset] Usage reset completed', {
+    due: due.rows.length,
+    reset,
+    failed,
+  });
+};
+
+/**
+ * Snapshot and zero one entitlement's counters
+ *
+ * @returns The new usage_reset_at, or null if another run already reset it
+ */
+export async function resetEntitlement(client: PoolClient, entitlementId: string): Promise<Date | null> {
+  // Re-check under lock so concurrent runs reset each period once
+  const result = await client.query<ResetEntitlementRow>(
+    `
+    SELECT
+      e.entitlement_id,
+      e.user_id,
+      e.product_id,
+      e.plan_id,
+      e.subscription_id,
+      COALESCE(e.usage_count, 0) as usage_count,
+      COALESCE(e.usage_limit, (p.metadata->>'usage_limit')::int)
+        + COALESCE((e.addon_limits->>'usage_limit')::int, 0) as usage_limit,
+      e.usage_reset_at,
+      e.created_at,
+      s.current_period_end,
+      p.metadata->'meters' as plan_meters,
+      e.addon_limits
+    FROM entitlements e
+    LEFT JOIN plans p ON e.plan_id = p.id
+    LEFT JOIN subscriptions s ON e.subscription_id = s.id
+    WHERE e.entitlement_id = $1
+      AND e.status IN ('active', 'grace')
+      AND e.usage_reset_at <= NOW()
+    FOR UPDATE OF e SKIP LOCKED
+    `,
+    [entitlementId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const entitlement = result.rows[0]!;
+  const periodEnd = entitlement.usage_reset_at;
+  const nextResetAt = calculateNextResetAt(periodEnd, entitlement.current_period_end);
+
+  // Snapshot the default meter
+  await client.query(
+    `
+    INSERT INTO usage_period_history (
+      entitlement_id, user_id, product_id, plan_id, subscription_id,
+      usage_type, usage_count, usage_limit, period_start, period_end
+    )
+    VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8,
+      COALESCE(
+        (SELECT MAX(period_end) FROM usage_period_history WHERE entitlement_id = $1 AND usage_type = $6),
+        $9
+      ),
+      $10
+    )
+    ON CONFLICT (entitlement_id, usage_type, period_end) DO NOTHING
+    `,
+    [
+      entitlement.entitlement_id,
+      entitlement.user_id,
+      entitlement.product_id,
+      entitlement.plan_id,
+      entitlement.subscription_id,
+      DEFAULT_USAGE_TYPE,
+      entitlement.usage_count,
+      entitlement.usage_limit,
+      entitlement.created_at,
+      periodEnd,
+    ]
+  );
+
+  // Snapshot billing_period meters (their counters follow the entitlement's period)
+  const planMeters = withAddonLimits(entitlement.plan_meters, entitlement.addon_limits) || {};
+  await client.query(
+    `
+    INSERT INTO usage_period_history (
+      entitlement_id, user_id, product_id, plan_id, subscription_id,
+      usage_type, usage_count, usage_limit, period_start, period_end
+    )
+    SELECT
+      m.entitlement_id, $2, $3, $4, $5,
+      m.meter, m.usage_count, (($6::jsonb)->m.meter->>'limit')::int,
+      COALESCE(
+        (SELECT MAX(h.period_end) FROM usage_period_history h WHERE h.entitlement_id = m.entitlement_id AND h.usage_type = m.meter),
+        m.created_at
+      ),
+      $7
+    FROM entitlement_meters m
+    WHERE m.entitlement_id = $1
+      AND m.reset_schedule = 'billing_period'
+    ON CONFLICT (entitlement_id, usage_type, period_end) DO NOTHING
+    `,
+    [
+      entitlement.entitlement_id,
+      entitlement.user_id,
+      entitlement.product_id,
+      entitlement.plan_id,
+      entitlement.subscription_id,
+      JSON.stringify(planMeters),
+      periodEnd,
+    ]
+  );
+
+  // Zero the counters and start the next period
+  await client.query(
+    `
+    UPDATE entitlement_meters
+    SET
+      usage_count = 0,
+      usage_reset_at = $2,
+      updated_at = NOW()
+    WHERE entitlement_id = $1
+      AND reset_schedule = 'billing_period'
+    `,
+    [entitlement.entitlement_id, nextResetAt]
+  );
+
+  await client.query(
+    `
+    UPDATE entitlements
+    SET
+      usage_count = 0,
+      usage_reset_at = $2,
+      updated_at = NOW()
+    WHERE entitlement_id = $1
+    `,
+    [entitlement.entitlement_id, nextResetAt]
+  );
+
+  console.log('[UsageReset] Usage period closed', {
+    entitlementId: entitlement.entitlement_id,
+    usageCount: entitlement.usage_count,
+    periodEnd: periodEnd.toISOString(),
+    nextResetAt: nextResetAt.toISOString(),
+  });
+
+  return nextResetAt;
+}
+
+/**
+ * Next reset time: the subscription's current period end when it is in the
+ * future, otherwise the finished period advanced by DEFAULT_RESET_PERIOD_DAYS
+ * until it is in the future
+ */
+export function calculateNextResetAt(periodEnd: Date, currentPeriodEnd: Date | null, now: Date = new Date()): Date {
+  if (currentPeriodEnd && currentPeriodEnd > now) {
+    return currentPeriodEnd;
+  }
+
+  const next = new Date(periodEnd);
+  do {
+    next.setDate(next.getDate() + DEFAULT_RESET_PERIOD_DAYS);
+  } while (next <= now);
+
+  return next;
+}
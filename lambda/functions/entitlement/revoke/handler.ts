@@ -6,17 +6,83 @@
  * - Internal API only (IAM authentication or API key)
  * - Soft delete (status change, not physical delete)
  * - Audit trail with reason
+ * - revokeEntitlement() is shared with the team seat API
  */
 
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { initializeDatabase } from '../../../shared/db/index.js';
 import EntitlementCache from '../cache.js';
+import type { PoolClient } from 'pg';
 import {
   RevokeEntitlementRequest,
   RevokeEntitlementResponse,
   EntitlementStatus,
 } from '../types.js';
 
+/**
+ * Revoke (suspend) the active entitlement of a user for a product
+ * Runs in the caller's transaction; the caller invalidates the entitlement
+ * cache after COMMIT.
+ *
+ * @param performedBy - User ID (or 'system') recorded in the audit log
+ * @returns The revoked entitlement, or null if there is no active entitlement
+ */
+export async function revokeEntitlement(
+  client: PoolClient,
+  request: RevokeEntitlementRequest,
+  performedBy: string
+): Promise<RevokeEntitlementResponse | null> {
+  const { user_id, product_id, reason } = request;
+
+  // Update entitlement status to 'suspended'
+  const result = await client.query<{
+    entitlement_id: string;
+    status: EntitlementStatus;
+    updated_at: Date;
+  }>(
+    `
+    UPDATE entitlements
+    SET
+      status = 'suspended',
+      grace_until = NULL,
+      updated_at = NOW()
+    WHERE user_id = $1 AND product_id = $2 AND status IN ('active', 'grace')
+    RETURNING entitlement_id, status, updated_at
+    `,
+    [user_id, product_id]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  // Log revocation event for audit trail
+  await client.query(
+    `
+    INSERT INTO audit_logs (table_name, record_id, action, new_data, user_id)
+    VALUES ('entitlements', $1, 'UPDATE', $2, $3)
+    `,
+    [
+      row.entitlement_id,
+      JSON.stringify({
+        status: row.status,
+        reason: reason || 'No reason provided',
+        performed_by: performedBy,
+      }),
+      user_id,
+    ]
+  );
+
+  return {
+    entitlement_id: row.entitlement_id,
+    user_id,
+    product_id,
+    status: row.status,
+    revoked_at: row.updated_at.toISOString(),
+  };
+}
+
 /**
  * Lambda handler for POST /internal/entitlements/revoke
  */
@@ -56,97 +122,46 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     const pool = await initializeDatabase();
     const client = await pool.connect();
 
+    let response: RevokeEntitlementResponse | null;
     try {
       await client.query('BEGIN');
-
-      // Update entitlement status to 'suspended'
-      const result = await client.query<{
-        entitlement_id: string;
-        status: EntitlementStatus;
-        updated_at: Date;
-      }>(
-        `
-        UPDATE entitlements
-        SET
-          status = 'suspended',
-          updated_at = NOW()
-        WHERE user_id = $1 AND product_id = $2 AND status = 'active'
-        RETURNING entitlement_id, status, updated_at
-        `,
-        [user_id, product_id]
+      response = await revokeEntitlement(
+        client,
+        body,
+        event.requestContext?.authorizer?.['claims']?.['sub'] || 'system'
       );
-
-      if (result.rows.length === 0) {
-        await client.query('ROLLBACK');
-        return {
-          statusCode: 404,
-          body: JSON.stringify({
-            error: 'Not Found',
-            message: 'No active entitlement found for this user and product',
-          }),
-        };
-      }
-
-      const row = result.rows[0]!; // Non-null assertion since we checked length above
-
-      // Log revocation event for audit trail
-      try {
-        await client.query(
-          `
-          INSERT INTO entitlement_audit_log (
-            entitlement_id,
-            user_id,
-            product_id,
-            action,
-            reason,
-            performed_by,
-            created_at
-          ) VALUES ($1, $2, $3, 'revoked', $4, $5, NOW())
-          `,
-          [
-            row.entitlement_id,
-            user_id,
-            product_id,
-            reason || 'No reason provided',
-            event.requestContext?.authorizer?.['claims']?.['sub'] || 'system',
-          ]
-        );
-      } catch (error) {
-        // Log error but don't fail the request
-        console.error('Failed to log revocation event:', error);
-      }
-
-      await client.query('COMMIT');
-
-      // Invalidate cache
-      await EntitlementCache.invalidateAll(user_id, product_id);
-
-      // Build response
-      const response: RevokeEntitlementResponse = {
-        entitlement_id: row.entitlement_id,
-        user_id,
-        product_id,
-        status: row.status,
-        revoked_at: row.updated_at.toISOString(),
-      };
-
-      const duration = Date.now() - startTime;
-      console.log(`Entitlement revoked - Response time: ${duration}ms`);
-
-      return {
-        statusCode: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Response-Time': `${duration}ms`,
-        },
-        body: JSON.stringify(response),
-      };
+      await client.query(response ? 'COMMIT' : 'ROLLBACK');
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
     } finally {
       client.release();
     }
+
+    if (!response) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'No active entitlement found for this user and product',
+        }),
+      };
+    }
+
+    // Invalidate cache
+    await EntitlementCache.invalidateAll(user_id, product_id);
+
+    const duration = Date.now() - startTime;
+    console.log(`Entitlement revoked - Response time: ${duration}ms`);
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Response-Time': `${duration}ms`,
+      },
+      body: JSON.stringify(response),
+    };
   } catch (error) {
     const duration = Date.now() - startTime;
     console.error('Error revoking entitlement:', error);
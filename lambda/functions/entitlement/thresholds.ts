@@ -0,0 +1,136 @@
+/**
+ * Usage threshold detection
+ *
+ * Detects when an increment crosses one of the plan's alert thresholds and
+ * records the crossing in usage_alerts (outbox) within the usage
+ * transaction. The unique key on usage_alerts makes each threshold fire
+ * once per usage period; the usageAlertDispatch worker delivers the events.
+ */
+
+import type { PoolClient } from 'pg';
+import {
+  UsageAlertConfig,
+  UsageAlertEventType,
+  DEFAULT_USAGE_ALERT_THRESHOLDS,
+} from './types.js';
+
+/**
+ * Meter state needed to detect threshold crossings
+ */
+export interface ThresholdContext {
+  entitlement_id: string;
+  user_id: string;
+  product_id: string;
+  plan_id: string | null;
+  /** Usage type / meter name */
+  usage_type: string;
+  /** Usage limit (hard limit) */
+  limit: number | null;
+  /** Soft limit */
+  soft_limit: number | null;
+  /** End of the current usage period (null: never resets) */
+  reset_at: Date | null;
+  /** Plan alert settings (plans.metadata.usage_alerts) */
+  config: UsageAlertConfig | null;
+}
+
+/**
+ * Threshold crossed by an increment
+ */
+export interface ThresholdCrossing {
+  event_type: UsageAlertEventType;
+  /** Fraction of the limit, 'soft_limit' or 'limit' */
+  threshold: string;
+}
+
+/**
+ * Find thresholds crossed when usage goes from previousCount to newCount
+ *
+ * usage.threshold_reached fires when usage reaches a threshold,
+ * usage.limit_exceeded when usage goes above the hard limit.
+ */
+export function findThresholdCrossings(
+  context: Pick<ThresholdContext, 'limit' | 'soft_limit' | 'config'>,
+  previousCount: number,
+  newCount: number
+): ThresholdCrossing[] {
+  const { limit, soft_limit: softLimit, config } = context;
+  if (limit === null || limit <= 0 || newCount <= previousCount) {
+    return [];
+  }
+
+  const crossings: ThresholdCrossing[] = [];
+  const reached = (boundary: number) => previousCount < boundary && newCount >= boundary;
+
+  for (const threshold of config?.thresholds ?? DEFAULT_USAGE_ALERT_THRESHOLDS) {
+    if (threshold === 'soft_limit') {
+      if (softLimit !== null && reached(softLimit)) {
+        crossings.push({ event_type: 'usage.threshold_reached', threshold: 'soft_limit' });
+      }
+    } else if (typeof threshold === 'number' && threshold > 0 && reached(Math.ceil(limit * threshold))) {
+      crossings.push({ event_type: 'usage.threshold_reached', threshold: String(threshold) });
+    }
+  }
+
+  if (previousCount <= limit && newCount > limit) {
+    crossings.push({ event_type: 'usage.limit_exceeded', threshold: 'limit' });
+  }
+
+  return crossings;
+}
+
+/**
+ * Record threshold crossings of an increment as pending alerts
+ * Must run in the same transaction as the usage increment.
+ *
+ * @returns Number of alerts created (crossings already recorded this period are skipped)
+ */
+export async function recordThresholdCrossings(
+  client: PoolClient,
+  context: ThresholdContext,
+  previousCount: number,
+  newCount: number
+): Promise<number> {
+  const crossings = findThresholdCrossings(context, previousCount, newCount);
+  if (crossings.length === 0) {
+    return 0;
+  }
+
+  const result = await client.query(
+    `
+    INSERT INTO usage_alerts (
+      entitlement_id, user_id, product_id, plan_id, usage_type,
+      event_type, threshold, used, usage_limit, soft_limit, period_end, send_email
+    )
+    SELECT $1, $2, $3, $4, $5, c.event_type, c.threshold, $6, $7, $8, $9, $10
+    FROM unnest($11::text[], $12::text[]) AS c(event_type, threshold)
+    ON CONFLICT (entitlement_id, usage_type, event_type, threshold, period_end) DO NOTHING
+    `,
+    [
+      context.entitlement_id,
+      context.user_id,
+      context.product_id,
+      context.plan_id,
+      context.usage_type,
+      newCount,
+      context.limit,
+      context.soft_limit,
+      context.reset_at ?? 'infinity',
+      context.config?.email ?? true,
+      crossings.map((c) => c.event_type),
+      crossings.map((c) => c.threshold),
+    ]
+  );
+
+  const created = result.rowCount || 0;
+  if (created > 0) {
+    console.log('[Thresholds] Usage alerts recorded', {
+      entitlementId: context.entitlement_id,
+      usageType: context.usage_type,
+      crossings: crossings.map((c) => c.threshold),
+      created,
+    });
+  }
+
+  return created;
+}
@@ -0,0 +1,39 @@
+/**
+ * Trial ending email
+ *
+ * Renders the trial expiry warning template (sent via shared/utils/email).
+ *
+ * @module entitlement/trials/email
+ */
+
+import type { RenderedEmail } from '../../../shared/utils/email.js';
+import type { EmailProduct } from '../alerts/email.js';
+
+/**
+ * Render the trial expiry warning email template
+ *
+ * @param endsAt - End of the trial
+ * @param product - Product of the trial (upgrade_url links to the pricing page)
+ */
+export function renderTrialEndingEmail(endsAt: Date, product: EmailProduct): RenderedEmail {
+  const days = Math.max(1, Math.ceil((endsAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+  const lines = [
+    `${product.name}の無料トライアルは残り${days}日で終了します。`,
+    '',
+    `終了日時: ${endsAt.toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}`,
+    '',
+    'トライアル終了後も引き続きご利用いただくには、有料プランへのお申し込みをお願いいたします。',
+  ];
+
+  if (product.upgrade_url) {
+    lines.push(product.upgrade_url);
+  }
+
+  lines.push('', '※このメールは送信専用アドレスから送信しています。');
+
+  return {
+    subject: `【${product.name}】無料トライアルは残り${days}日で終了します`,
+    text: lines.join('\n'),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Trial Expiry Handler
+ *
+ * Scheduled job (EventBridge) for no-card trials.
+ *
+ * Workflow:
+ * 1. Email users whose trial ends within TRIAL_WARNING_DAYS (once per trial)
+ * 2. Expire trials past their end, together with their trial entitlement
+ * 3. Invalidate the entitlement cache of the expired trials
+ *
+ * @module entitlement/trials/expiry
+ */
+
+import { ScheduledHandler } from 'aws-lambda';
+import type { PoolClient } from 'pg';
+import { initializeDatabase } from '../../../shared/db/index.js';
+import { isEmailConfigured, sendEmail } from '../../../shared/utils/email.js';
+import EntitlementCache from '../cache.js';
+import { TRIAL_WARNING_DAYS } from '../types.js';
+import { renderTrialEndingEmail } from './email.js';
+import { expireTrials } from './trials.js';
+
+/**
+ * Maximum warnings sent per invocation
+ */
+const WARNING_BATCH_SIZE = 100;
+
+/**
+ * Trial due for a warning, joined with its product and the user's email
+ */
+interface TrialToWarnRow {
+  id: string;
+  user_id: string;
+  ends_at: Date;
+  product_name: string;
+  upgrade_url: string | null;
+  email: string | null;
+}
+
+/**
+ * Send the expiry warning of trials ending soon
+ * Trials without an email address (or without email configured) are marked
+ * warned without sending so they are not picked up again.
+ *
+ * @returns Number of emails sent
+ */
+async function warnEndingTrials(client: PoolClient): Promise<number> {
+  const result = await client.query<TrialToWarnRow>(
+    `
+    SELECT
+      t.id,
+      t.user_id,
+      t.ends_at,
+      p.name as product_name,
+      p.metadata->>'upgrade_url' as upgrade_url,
+      COALESCE(
+        (SELECT upl.email FROM user_product_logins upl WHERE upl.user_id = t.user_id AND upl.product_id = t.product_id),
+        (SELECT ve.email FROM verified_emails ve WHERE ve.user_id = t.user_id ORDER BY ve.first_verified_at LIMIT 1)
+      ) as email
+    FROM trials t
+    JOIN products p ON t.product_id = p.id
+    WHERE t.status = 'active'
+      AND t.warned_at IS NULL
+      AND t.ends_at > NOW()
+      AND t.ends_at <= NOW() + INTERVAL '1 day' * $1
+    ORDER BY t.ends_at
+    LIMIT $2
+    `,
+    [TRIAL_WARNING_DAYS, WARNING_BATCH_SIZE]
+  );
+
+  let sent = 0;
+  for (const trial of result.rows) {
+    if (trial.email && isEmailConfigured()) {
+      try {
+        await sendEmail(trial.email, renderTrialEndingEmail(trial.ends_at, {
+          name: trial.product_name,
+          upgrade_url: trial.upgrade_url,
+        }));
+        sent++;
+      } catch (error) {
+        // Retried on the next run
+        console.error('[TrialExpiry] Failed to send trial ending email', {
+          trialId: trial.id,
+          error: (error as Error).message,
+        });
+        continue;
+      }
+    }
+
+    await client.query(`UPDATE trials SET warned_at = NOW() WHERE id = $1`, [trial.id]);
+  }
+
+  return sent;
+}
+
+/**
+ * Trial Expiry Handler
+ */
+export const handler: ScheduledHandler = async () => {
+  console.log('[TrialExpiry] Starting trial expiry');
+
+  const pool = await initializeDatabase();
+  const client = await pool.connect();
+
+  try {
+    const warned = await warnEndingTrials(client);
+    const expired = await expireTrials(client);
+
+    await Promise.all(
+      expired.map((trial) => EntitlementCache.invalidateAll(trial.user_id, trial.product_id))
+    );
+
+    console.log('[TrialExpiry] Trial expiry completed', { warned, expired: expired.length });
+  } finally {
+    client.release();
+  }
+};
@@ -0,0 +1,203 @@
+/**
+ * POST /me/trials, GET /me/trials
+ * Free trials without a card
+ *
+ * POST body: { product_id, plan_id } (plan_id is the Stripe Price ID, as in checkout)
+ * - 201: trial started, the plan's entitlement is granted until ends_at
+ * - 404: plan not found for the product
+ * - 409: trial not available for the plan, already used, or the user already has an entitlement
+ *
+ * GET query parameters:
+ * - productId / product_id (required)
+ * - 404 if the user never started a trial for the product
+ *
+ * @module entitlement/trials/handler
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
+import { initializeDatabase } from '../../../shared/db/index.js';
+import EntitlementCache from '../cache.js';
+import type { StartTrialRequest, TrialRow } from '../types.js';
+import { StartTrialRejectionReason, StartTrialResult, startTrial, toTrialResponse } from './trials.js';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+};
+
+/**
+ * HTTP status and message of each rejection reason
+ */
+const REJECTIONS: Record<StartTrialRejectionReason, { statusCode: number; message: string }> = {
+  plan_not_found: { statusCode: 404, message: 'Plan not found for this product' },
+  trial_not_available: { statusCode: 409, message: 'This plan does not offer a free trial' },
+  trial_already_used: { statusCode: 409, message: 'A free trial has already been used for this product' },
+  already_entitled: { statusCode: 409, message: 'You already have access to this product' },
+};
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(statusCode: number, body: unknown): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * POST /me/trials
+ */
+async function handleStartTrial(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
+  let body: StartTrialRequest;
+  try {
+    body = JSON.parse(event.body || '{}');
+  } catch {
+    return jsonResponse(400, { error: 'Bad Request', message: 'Invalid JSON body' });
+  }
+
+  if (!body.product_id || !body.plan_id) {
+    return jsonResponse(400, {
+      error: 'Bad Request',
+      message: 'Missing required fields: product_id, plan_id',
+    });
+  }
+
+  const pool = await initializeDatabase();
+  const client = await pool.connect();
+
+  let result: StartTrialResult;
+  try {
+    await client.query('BEGIN');
+    result = await startTrial(client, userId, body);
+    await client.query('reason' in result ? 'ROLLBACK' : 'COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if ('reason' in result) {
+    const rejection = REJECTIONS[result.reason];
+    return jsonResponse(rejection.statusCode, {
+      error: rejection.statusCode === 404 ? 'Not Found' : 'Conflict',
+      reason: result.reason,
+      message: rejection.message,
+    });
+  }
+
+  await EntitlementCache.invalidateAll(userId, body.product_id);
+
+  return jsonResponse(201, toTrialResponse(result.trial, result.stripe_price_id));
+}
+
+/**
+ * GET /me/trials
+ */
+async function handleGetTrial(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
+  const params = event.queryStringParameters;
+
+  // Support both productId and product_id for SDK compatibility
+  const productId = params?.['productId'] ?? params?.['product_id'];
+  if (!productId) {
+    return jsonResponse(400, {
+      error: 'Bad Request',
+      message: 'Missing required parameter: productId or product_id',
+    });
+  }
+
+  const pool = await initializeDatabase();
+  const result = await pool.query<TrialRow & {
+    plan_price_id: string | null;
+    converted_price_id: string | null;
+  }>(
+    `
+    SELECT
+      t.*,
+      p.stripe_price_id as plan_price_id,
+      cp.stripe_price_id as converted_price_id
+    FROM trials t
+    LEFT JOIN plans p ON t.plan_id = p.id
+    LEFT JOIN plans cp ON t.converted_plan_id = cp.id
+    WHERE t.user_id = $1 AND t.product_id = $2
+    `,
+    [userId, productId]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return jsonResponse(404, {
+      error: 'Not Found',
+      message: 'No trial found for this product',
+    });
+  }
+
+  return jsonResponse(200, toTrialResponse(row, row.plan_price_id, row.converted_price_id));
+}
+
+/**
+ * Lambda handler for /me/trials
+ */
+export const handler: APIGatewayProxyHandler = async (event): Promise<APIGatewayProxyResult> => {
+  const startTime = Date.now();
+
+  try {
+    const userId = event.requestContext?.authorizer?.['claims']?.['sub'];
+    if (!userId) {
+      return jsonResponse(401, {
+        error: 'Unauthorized',
+        message: 'User ID not found in token',
+      });
+    }
+
+    let response: APIGatewayProxyResult;
+    switch (event.httpMethod) {
+      case 'POST':
+        response = await handleStartTrial(event, userId);
+        break;
+      case 'GET':
+        response = await handleGetTrial(event, userId);
+        break;
+      default:
+        return jsonResponse(405, {
+          error: 'Method Not Allowed',
+          message: `Method ${event.httpMethod} not allowed`,
+        });
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`Trial request handled - ${event.httpMethod} ${response.statusCode}, Response time: ${duration}ms`);
+
+    return {
+      ...response,
+      headers: {
+        ...response.headers,
+        'X-Response-Time': `${duration}ms`,
+      },
+    };
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('Error handling trial request:', error);
+
+    return {
+      statusCode: 500,
+      headers: {
+        ...corsHeaders,
+        'X-Response-Time': `${duration}ms`,
+      },
+      body: JSON.stringify({
+        error: 'Internal Server Error',
+        message: 'Failed to process trial request',
+        details: process.env['ENVIRONMENT'] === 'development'
+          ? (error as Error).message
+          : undefined,
+      }),
+    };
+  }
+};
@@ -0,0 +1,316 @@
+/**
+ * Free trials without a card
+ *
+ * POST /me/trials grants the plan's entitlement through grantEntitlement()
+ * with valid_until set to the end of the trial (plans.trial_period_days),
+ * without going through Stripe Checkout. Each user gets one trial per
+ * product. The trialExpiry job warns users before the end and expires the
+ * entitlement; a later subscription checkout for the product marks the
+ * trial converted.
+ *
+ * @module entitlement/trials/trials
+ */
+
+import type { PoolClient } from 'pg';
+import { grantEntitlement } from '../grant/handler.js';
+import type { StartTrialRequest, TrialResponse, TrialRow } from '../types.js';
+
+/**
+ * Reason a trial cannot be started
+ * - plan_not_found: no active plan of the product with this price
+ * - trial_not_available: the plan is one-time or has no trial_period_days
+ * - trial_already_used: the user already had a trial for the product
+ * - already_entitled: the user already has an active entitlement for the product
+ */
+export type StartTrialRejectionReason =
+  | 'plan_not_found'
+  | 'trial_not_available'
+  | 'trial_already_used'
+  | 'already_entitled';
+
+/**
+ * Result of starting a trial
+ */
+export type StartTrialResult =
+  | { trial: TrialRow; stripe_price_id: string }
+  | { reason: StartTrialRejectionReason };
+
+/**
+ * Trial that ended, for entitlement cache invalidation
+ */
+export interface ExpiredTrial {
+  user_id: string;
+  product_id: string;
+}
+
+/**
+ * Whole days left until a timestamp (0 once past)
+ */
+function daysUntil(timestamp: Date): number {
+  return Math.max(0, Math.ceil((timestamp.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * Converts TrialRow to TrialResponse
+ *
+ * @param planPriceId - Stripe Price ID of plan_id
+ * @param convertedPriceId - Stripe Price ID of converted_plan_id
+ */
+export function toTrialResponse(
+  row: TrialRow,
+  planPriceId: string | null,
+  convertedPriceId: string | null = null
+): TrialResponse {
+  return {
+    id: row.id,
+    product_id: row.product_id,
+    plan_id: planPriceId,
+    status: row.status,
+    started_at: row.started_at.toISOString(),
+    ends_at: row.ends_at.toISOString(),
+    days_remaining: row.status === 'active' ? daysUntil(row.ends_at) : 0,
+    ...(row.converted_at ? { converted_at: row.converted_at.toISOString() } : {}),
+    ...(convertedPriceId ? { converted_plan_id: convertedPriceId } : {}),
+  };
+}
+
+/**
+ * Whether the user already had a trial for the product
+ * Checkout skips the plan's Stripe trial for these users (see checkoutTrialDays).
+ */
+export async function hasUsedTrial(
+  client: Pick<PoolClient, 'query'>,
+  userId: string,
+  productId: string
+): Promise<boolean> {
+  const result = await client.query(
+    `SELECT 1 FROM trials WHERE user_id = $1 AND product_id = $2`,
+    [userId, productId]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Stripe trial days of a subscription checkout
+ * One trial per product: no Stripe trial after a no-card trial (POST /me/trials).
+ *
+ * @param trialPeriodDays - The plan's trial_period_days
+ * @returns The trial days to pass to Stripe, or undefined for no trial
+ */
+export async function checkoutTrialDays(
+  client: Pick<PoolClient, 'query'>,
+  userId: string,
+  productId: string,
+  trialPeriodDays: number | undefined
+): Promise<number | undefined> {
+  if (!trialPeriodDays) {
+    return undefined;
+  }
+
+  if (await hasUsedTrial(client, userId, productId)) {
+    console.log('[Trials] Trial already used for product, skipping trial period', { userId, productId });
+    return undefined;
+  }
+
+  return trialPeriodDays;
+}
+
+/**
+ * Start a trial and grant its entitlement
+ * Runs in the caller's transaction; the caller rolls back when a reason is
+ * returned and invalidates the entitlement cache after COMMIT.
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param userId - User ID
+ * @param request - Product and Stripe Price ID of the plan to try
+ */
+export async function startTrial(
+  client: PoolClient,
+  userId: string,
+  request: StartTrialRequest
+): Promise<StartTrialResult> {
+  const planResult = await client.query<{
+    id: string;
+    stripe_price_id: string;
+    billing_period: string;
+    trial_period_days: number | null;
+  }>(
+    `
+    SELECT id, stripe_price_id, billing_period, trial_period_days
+    FROM plans p
+    WHERE (
+        p.stripe_price_id = $1
+        -- The plan's price in another currency (plan_id of the catalog in that currency)
+        OR EXISTS (
+          SELECT 1 FROM plan_prices pp
+          WHERE pp.plan_id = p.id AND pp.plan_version_id = p.current_version_id AND pp.stripe_price_id = $1
+        )
+      )
+      AND product_id = $2
+      AND is_active = true
+      AND deleted_at IS NULL
+    `,
+    [request.plan_id, request.product_id]
+  );
+  const plan = planResult.rows[0];
+  if (!plan) {
+    return { reason: 'plan_not_found' };
+  }
+
+  if (plan.billing_period === 'one_time' || !plan.trial_period_days || plan.trial_period_days <= 0) {
+    return { reason: 'trial_not_available' };
+  }
+
+  const entitlementResult = await client.query(
+    `
+    SELECT 1 FROM entitlements
+    WHERE user_id = $1 AND product_id = $2 AND status IN ('active', 'grace')
+    `,
+    [userId, request.product_id]
+  );
+  if (entitlementResult.rows.length > 0) {
+    return { reason: 'already_entitled' };
+  }
+
+  const endsAt = new Date(Date.now() + plan.trial_period_days * 24 * 60 * 60 * 1000);
+
+  // The unique (user_id, product_id) constraint also guards concurrent requests
+  const trialResult = await client.query<TrialRow>(
+    `
+    INSERT INTO trials (user_id, product_id, plan_id, ends_at)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (user_id, product_id) DO NOTHING
+    RETURNING *
+    `,
+    [userId, request.product_id, plan.id, endsAt]
+  );
+  if (trialResult.rows.length === 0) {
+    return { reason: 'trial_already_used' };
+  }
+
+  const granted = await grantEntitlement(client, {
+    user_id: userId,
+    product_id: request.product_id,
+    plan_id: plan.id,
+    valid_until: endsAt.toISOString(),
+  });
+  if (!granted) {
+    return { reason: 'plan_not_found' };
+  }
+
+  const updated = await client.query<TrialRow>(
+    `UPDATE trials SET entitlement_id = $1 WHERE id = $2 RETURNING *`,
+    [granted.entitlement_id, trialResult.rows[0]!.id]
+  );
+
+  console.log('[Trials] Trial started', {
+    userId,
+    productId: request.product_id,
+    planId: plan.id,
+    endsAt: endsAt.toISOString(),
+  });
+
+  return { trial: updated.rows[0]!, stripe_price_id: plan.stripe_price_id };
+}
+
+/**
+ * Expire trials past their end
+ * The trial entitlement is expired only while it is still the unpaid trial
+ * entitlement; one taken over by a subscription is left alone.
+ *
+ * @returns The expired trials
+ */
+export async function expireTrials(client: PoolClient, batchSize = 500): Promise<ExpiredTrial[]> {
+  const result = await client.query<ExpiredTrial>(
+    `
+    WITH ended AS (
+      SELECT id, entitlement_id
+      FROM trials
+      WHERE status = 'active' AND ends_at <= NOW()
+      ORDER BY ends_at
+      LIMIT $1
+      FOR UPDATE SKIP LOCKED
+    ),
+    expired_entitlements AS (
+      UPDATE entitlements e
+      SET status = 'expired', updated_at = NOW()
+      FROM ended
+      WHERE e.entitlement_id = ended.entitlement_id
+        AND e.status = 'active'
+        AND e.subscription_id IS NULL
+    )
+    UPDATE trials t
+    SET status = 'expired', expired_at = NOW()
+    FROM ended
+    WHERE t.id = ended.id
+    RETURNING t.user_id, t.product_id
+    `,
+    [batchSize]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Mark the user's trial for a product converted
+ * Called when a subscription checkout for the product completes, during or
+ * after the trial. An active trial entitlement loses its trial end so the
+ * subscription governs access from now on.
+ *
+ * @param client - PostgreSQL client (in active transaction)
+ * @param userId - User ID
+ * @param productId - Product ID
+ * @param planId - Purchased plan (plans.id)
+ * @param subscriptionId - Purchased subscription (subscriptions.id)
+ * @returns Whether a trial was converted
+ */
+export async function markTrialConverted(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  planId: string | null,
+  subscriptionId: string | null
+): Promise<boolean> {
+  const result = await client.query<Pick<TrialRow, 'id' | 'entitlement_id' | 'status'>>(
+    `
+    UPDATE trials t
+    SET status = 'converted',
+        converted_at = NOW(),
+        converted_plan_id = $3,
+        converted_subscription_id = $4
+    FROM trials previous
+    WHERE t.id = previous.id
+      AND t.user_id = $1
+      AND t.product_id = $2
+      AND t.status IN ('active', 'expired')
+    RETURNING t.id, t.entitlement_id, previous.status
+    `,
+    [userId, productId, planId, subscriptionId]
+  );
+  const trial = result.rows[0];
+  if (!trial) {
+    return false;
+  }
+
+  if (trial.status === 'active' && trial.entitlement_id) {
+    await client.query(
+      `
+      UPDATE entitlements
+      SET valid_until = NULL, updated_at = NOW()
+      WHERE entitlement_id = $1 AND status = 'active'
+      `,
+      [trial.entitlement_id]
+    );
+  }
+
+  console.log('[Trials] Trial converted', {
+    userId,
+    productId,
+    trialId: trial.id,
+    planId,
+    subscriptionId,
+    duringTrial: trial.status === 'active',
+  });
+
+  return true;
+}
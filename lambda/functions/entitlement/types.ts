@@ -5,8 +5,68 @@
 
 /**
  * Entitlement status enum
+ * - grace: subscription payment is past due; access continues until grace_until
  */
-export type EntitlementStatus = 'active' | 'suspended' | 'expired' | 'cancelled';
+export type EntitlementStatus = 'active' | 'grace' | 'suspended' | 'expired' | 'cancelled';
+
+/**
+ * Banner the client should show for the entitlement
+ */
+export interface EntitlementBanner {
+  /** Banner kind (payment_past_due: grace period after a failed payment) */
+  type: 'payment_past_due';
+  /** Display severity */
+  severity: 'warning';
+  /** Default message (Japanese) */
+  message: string;
+}
+
+/**
+ * When a usage meter's counter resets
+ * - billing_period: together with the entitlement's usage_reset_at
+ * - daily / monthly: at the start of the next UTC day / month
+ * - never: the counter is cumulative
+ */
+export type MeterResetSchedule = 'billing_period' | 'daily' | 'monthly' | 'never';
+
+/**
+ * Usage meter defined by a plan (plans.metadata.meters)
+ */
+export interface MeterDefinition {
+  /** Usage limit per reset period (hard limit) */
+  limit: number;
+  /** Soft limit percentage (default: DEFAULT_SOFT_LIMIT_PERCENT) */
+  soft_limit_percent?: number;
+  /** Reset schedule (default: billing_period) */
+  reset?: MeterResetSchedule;
+}
+
+/**
+ * Limits granted by the subscription's add-ons (entitlements.addon_limits)
+ * Added on top of the plan's usage_limit and meter limits.
+ */
+export interface AddonLimits {
+  /** Added to the default meter's usage_limit */
+  usage_limit?: number;
+  /** Added to the limit of named meters */
+  meters?: Record<string, number>;
+}
+
+/**
+ * Database row structure for entitlement_meters table
+ */
+export interface EntitlementMeterRow {
+  /** Entitlement ID */
+  entitlement_id: string;
+  /** Meter name (usage type) */
+  meter: string;
+  /** Current usage count */
+  usage_count: number;
+  /** Reset schedule the counter was last advanced with */
+  reset_schedule: MeterResetSchedule;
+  /** When the usage counter resets (null: never) */
+  usage_reset_at: Date | null;
+}
 
 /**
  * Database row structure for entitlements table
@@ -34,6 +94,10 @@ export interface EntitlementRow {
   usage_reset_at: Date | null;
   /** When the entitlement expires */
   valid_until: Date | null;
+  /** End of the grace period (status 'grace' only) */
+  grace_until: Date | null;
+  /** Limits added by the subscription's add-ons */
+  addon_limits: AddonLimits;
   /** Creation timestamp */
   created_at: Date;
   /** Last update timestamp */
@@ -84,6 +148,8 @@ export interface EntitlementWithPlan extends EntitlementRow {
   cancel_at_period_end?: boolean;
   /** Current period end date (from subscriptions table) */
   current_period_end?: Date;
+  /** Additional usage meters (from plans.metadata.meters) */
+  plan_meters?: Record<string, MeterDefinition> | null;
 }
 
 /**
@@ -102,6 +168,14 @@ export interface UsageInfo {
   reset_at: string;
 }
 
+/**
+ * Usage information of a named meter
+ */
+export interface MeterInfo extends UsageInfo {
+  /** Reset schedule */
+  reset: MeterResetSchedule;
+}
+
 /**
  * Entitlement API response
  */
@@ -120,8 +194,10 @@ export interface EntitlementResponse {
   status: EntitlementStatus;
   /** Feature flags */
   features: Record<string, boolean>;
-  /** Usage information */
+  /** Usage information of the default meter (api_call) */
   usage: UsageInfo;
+  /** Usage information per meter, including the default meter */
+  meters: Record<string, MeterInfo>;
   /** Entitlement expiration date */
   valid_until: string;
   /** Whether usage is over hard limit */
@@ -130,6 +206,12 @@ export interface EntitlementResponse {
   over_soft_limit?: boolean;
   /** Subscription cancellation scheduled date (ISO 8601) - only present if cancel_at_period_end is true */
   cancel_at?: string;
+  /** End of the grace period (ISO 8601) - only present if status is 'grace' */
+  grace_until?: string;
+  /** Banner hint - only present if the client should show a notice */
+  banner?: EntitlementBanner;
+  /** Prepaid credits available once the plan quota is used up */
+  credit_balance: number;
 }
 
 /**
@@ -138,8 +220,12 @@ export interface EntitlementResponse {
 export interface UsageRequest {
   /** Product ID */
   product_id: string;
+  /** Usage type / meter name (default: api_call) */
+  type?: string;
   /** Usage count to increment (default: 1) */
   count?: number;
+  /** Client-supplied key (alternative to the Idempotency-Key header) */
+  idempotency_key?: string;
   /** Optional metadata */
   metadata?: Record<string, unknown>;
 }
@@ -148,6 +234,8 @@ export interface UsageRequest {
  * Response for POST /me/usage
  */
 export interface UsageResponse {
+  /** Meter the usage was recorded on */
+  type?: string;
   /** Current usage count */
   used: number;
   /** Remaining usage quota */
@@ -158,6 +246,290 @@ export interface UsageResponse {
   soft_limit_remaining: number;
   /** Whether usage exceeds soft limit but within hard limit */
   over_soft_limit?: boolean;
+  /** Billable overage in the current billing period (metered plans only) */
+  overage?: number;
+  /** Prepaid credits drawn because the plan quota was used up */
+  credits_used?: number;
+  /** Credit balance after this request - only present if the plan quota was exceeded */
+  credit_balance?: number;
+}
+
+/**
+ * Single record in POST /me/usage/batch
+ */
+export interface UsageBatchRecord {
+  /** Usage type (e.g., api_call, tokens, images) */
+  type?: string;
+  /** Usage count to increment (default: 1) */
+  count?: number;
+  /** Client-supplied key; records with an already seen key are not applied again */
+  idempotency_key?: string;
+  /** Optional metadata */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Request body for POST /me/usage/batch
+ */
+export interface UsageBatchRequest {
+  /** Product ID */
+  product_id: string;
+  /** Usage records applied in one transaction */
+  records: UsageBatchRecord[];
+}
+
+/**
+ * Per-record result of POST /me/usage/batch
+ */
+export interface UsageBatchRecordResult {
+  /** Index of the record in the request */
+  index: number;
+  /** Idempotency key of the record (if supplied) */
+  idempotency_key?: string;
+  /** applied: counted in this batch, duplicate: key already recorded */
+  status: 'applied' | 'duplicate';
+  /** Usage count of the record */
+  count: number;
+}
+
+/**
+ * Response for POST /me/usage/batch
+ * Quota fields reflect the default meter (api_call) after the whole batch is applied
+ */
+export interface UsageBatchResponse extends UsageResponse {
+  /** Per-record results in request order */
+  results: UsageBatchRecordResult[];
+  /** Total usage applied by this batch (all meters) */
+  applied_count: number;
+  /** State of the other meters that received usage in this batch */
+  meters?: Record<string, MeterInfo>;
+}
+
+/**
+ * Bucket size for usage history
+ */
+export type UsageHistoryGranularity = 'hour' | 'day';
+
+/**
+ * Applied usage record persisted to usage_events
+ */
+export interface UsageEventRecord {
+  /** Usage type / meter name */
+  usage_type: string;
+  /** Usage count */
+  count: number;
+  /** Idempotency key of the record (if supplied) */
+  idempotency_key?: string;
+  /** Optional metadata */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Aggregated usage of one time bucket
+ */
+export interface UsageHistoryBucket {
+  /** Bucket start (ISO 8601, UTC) */
+  start: string;
+  /** Usage per type in this bucket */
+  usage: Record<string, number>;
+  /** Total usage across types */
+  total: number;
+  /** Number of usage events */
+  events: number;
+}
+
+/**
+ * Response for GET /me/usage/history and GET /admin/users/{id}/usage
+ */
+export interface UsageHistoryResponse {
+  /** Product ID */
+  product_id: string;
+  /** Range start (inclusive, ISO 8601) */
+  from: string;
+  /** Range end (exclusive, ISO 8601) */
+  to: string;
+  /** Bucket size */
+  granularity: UsageHistoryGranularity;
+  /** Buckets in chronological order, including empty ones */
+  buckets: UsageHistoryBucket[];
+  /** Usage per type over the whole range */
+  totals: Record<string, number>;
+}
+
+/**
+ * Usage alert event types
+ */
+export type UsageAlertEventType = 'usage.threshold_reached' | 'usage.limit_exceeded';
+
+/**
+ * Usage alert settings of a plan (plans.metadata.usage_alerts)
+ */
+export interface UsageAlertConfig {
+  /**
+   * Thresholds that emit usage.threshold_reached: fractions of the limit
+   * (e.g. 0.8) or 'soft_limit' (default: DEFAULT_USAGE_ALERT_THRESHOLDS)
+   */
+  thresholds?: Array<number | 'soft_limit'>;
+  /** Send the alert email to the user (default: true) */
+  email?: boolean;
+}
+
+/**
+ * Event delivered to product webhooks
+ */
+export interface UsageAlertEvent {
+  /** Event ID (usage_alerts.id) */
+  id: string;
+  /** Event type */
+  type: UsageAlertEventType;
+  /** When the threshold was crossed (ISO 8601) */
+  created_at: string;
+  /** Event data */
+  data: {
+    user_id: string;
+    product_id: string;
+    plan_id: string | null;
+    /** Usage type / meter name */
+    usage_type: string;
+    /** Threshold that was crossed: fraction of the limit, 'soft_limit' or 'limit' */
+    threshold: number | 'soft_limit' | 'limit';
+    /** Usage count after the crossing */
+    used: number;
+    /** Usage limit (hard limit) */
+    limit: number;
+    /** Soft limit */
+    soft_limit: number | null;
+    /** When the usage period ends (ISO 8601, null if the meter never resets) */
+    reset_at: string | null;
+  };
+}
+
+/**
+ * Credit ledger entry type
+ * - purchase: credit pack bought via one-time checkout
+ * - adjustment: manual grant by an operator
+ * - usage: credits drawn after the plan quota was used up
+ * - expiry: unused credits of an expired lot
+ */
+export type CreditEntryType = 'purchase' | 'adjustment' | 'usage' | 'expiry';
+
+/**
+ * Database row structure for credit_ledger table
+ */
+export interface CreditLedgerRow {
+  id: string;
+  user_id: string;
+  product_id: string;
+  entry_type: CreditEntryType;
+  /** Positive for purchase/adjustment, negative for usage/expiry */
+  amount: number;
+  /** Credits left in the lot (purchase/adjustment only) */
+  remaining: number | null;
+  expires_at: Date | null;
+  /** Lot a usage/expiry entry was drawn from */
+  lot_id: string | null;
+  plan_id: string | null;
+  entitlement_id: string | null;
+  stripe_checkout_session_id: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+/**
+ * Credit ledger entry in API responses
+ */
+export interface CreditLedgerEntry {
+  id: string;
+  entry_type: CreditEntryType;
+  amount: number;
+  /** Credits left in the lot (purchase/adjustment only) */
+  remaining?: number;
+  /** Lot expiry (ISO 8601) - purchase/adjustment only */
+  expires_at?: string;
+  /** Lot a usage/expiry entry was drawn from */
+  lot_id?: string;
+  plan_id?: string;
+  metadata?: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * Response for GET /me/credits
+ */
+export interface CreditLedgerResponse {
+  product_id: string;
+  /** Credits available now */
+  credit_balance: number;
+  /** Earliest expiry of the available credits (ISO 8601) */
+  next_expiry_at?: string;
+  /** Ledger entries, newest first */
+  entries: CreditLedgerEntry[];
+  total: number;
+  page: number;
+  per_page: number;
+  has_more: boolean;
+}
+
+/**
+ * Trial status
+ * - active: trial entitlement granted, ends_at not reached
+ * - expired: ended without a purchase
+ * - converted: the user completed checkout for the product
+ */
+export type TrialStatus = 'active' | 'expired' | 'converted';
+
+/**
+ * Database row structure for trials table
+ */
+export interface TrialRow {
+  id: string;
+  user_id: string;
+  product_id: string;
+  plan_id: string | null;
+  /** Entitlement granted for the trial */
+  entitlement_id: string | null;
+  status: TrialStatus;
+  started_at: Date;
+  ends_at: Date;
+  /** When the expiry warning email was sent */
+  warned_at: Date | null;
+  expired_at: Date | null;
+  converted_at: Date | null;
+  converted_plan_id: string | null;
+  converted_subscription_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Request body for POST /me/trials
+ */
+export interface StartTrialRequest {
+  /** Product ID */
+  product_id: string;
+  /** Stripe Price ID of the plan (same as checkout) */
+  plan_id: string;
+}
+
+/**
+ * Trial in API responses (POST/GET /me/trials)
+ */
+export interface TrialResponse {
+  id: string;
+  product_id: string;
+  /** Stripe Price ID of the trial plan */
+  plan_id: string | null;
+  status: TrialStatus;
+  /** Start (ISO 8601) */
+  started_at: string;
+  /** End of the trial entitlement (ISO 8601) */
+  ends_at: string;
+  /** Whole days left (0 once ended) */
+  days_remaining: number;
+  /** Conversion (ISO 8601) - converted only */
+  converted_at?: string;
+  /** Stripe Price ID of the purchased plan - converted only */
+  converted_plan_id?: string;
 }
 
 /**
@@ -170,6 +542,8 @@ export interface GrantEntitlementRequest {
   product_id: string;
   /** Plan ID */
   plan_id: string;
+  /** Subscription paying for the entitlement (team seats) */
+  subscription_id?: string;
   /** Custom usage limit (optional override) */
   usage_limit?: number;
   /** Custom soft limit (optional override) */
@@ -270,3 +644,37 @@ export const DEFAULT_RESET_PERIOD_DAYS = 30;
  * Soft limit default percentage (10% overage)
  */
 export const DEFAULT_SOFT_LIMIT_PERCENT = 0.1;
+
+/**
+ * Maximum records accepted by POST /me/usage/batch
+ */
+export const MAX_USAGE_BATCH_SIZE = 1000;
+
+/**
+ * How long usage idempotency keys are remembered (replays within this window are not counted)
+ */
+export const USAGE_IDEMPOTENCY_RETENTION_HOURS = 24;
+
+/**
+ * Maximum range of a usage history query per granularity (in days)
+ */
+export const MAX_USAGE_HISTORY_DAYS: Record<UsageHistoryGranularity, number> = {
+  hour: 31,
+  day: 366,
+};
+
+/**
+ * Usage alert thresholds for plans without usage_alerts.thresholds (80% and 100%)
+ */
+export const DEFAULT_USAGE_ALERT_THRESHOLDS: Array<number | 'soft_limit'> = [0.8, 1];
+
+/**
+ * Default usage type when a record does not specify one
+ * This meter is backed by entitlements.usage_count / usage_limit
+ */
+export const DEFAULT_USAGE_TYPE = 'api_call';
+
+/**
+ * Days before the end of a trial when the expiry warning email is sent
+ */
+export const TRIAL_WARNING_DAYS = 3;
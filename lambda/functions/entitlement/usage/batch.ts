@@ -0,0 +1,379 @@
+/**
+ * POST /me/usage/batch
+ * Record many usage records in one transaction
+ *
+ * Requirements:
+ * - All records are applied atomically (single usage_count increment)
+ * - Client idempotency keys: records with a known key are reported as duplicates;
+ *   applied records store a response that POST /me/usage replays for the same key
+ * - Per-record results and the final remaining quota in the response
+ * - Records are applied to the meter named by their type (default: api_call)
+ * - Default meter usage above the plan quota draws prepaid credits before overage
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { initializeDatabase } from '../../../shared/db/index.js';
+import EntitlementCache from '../cache.js';
+import { applyDefaultUsage } from '../overage.js';
+import { resolveMeter, incrementMeter, toUsageResponse, withAddonLimits, ResolvedMeter } from '../meters.js';
+import { recordThresholdCrossings } from '../thresholds.js';
+import { recordUsageEvents } from './history.js';
+import { claimIdempotencyKeys, saveIdempotentResponses } from './idempotency.js';
+import {
+  UsageBatchRequest,
+  UsageBatchRecordResult,
+  UsageBatchResponse,
+  MeterDefinition,
+  AddonLimits,
+  MeterInfo,
+  UsageAlertConfig,
+  UsageResponse,
+  MAX_USAGE_BATCH_SIZE,
+  DEFAULT_USAGE_TYPE,
+} from '../types.js';
+
+/**
+ * Validated batch record
+ */
+interface NormalizedRecord {
+  index: number;
+  type: string;
+  count: number;
+  idempotency_key?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Handle POST /me/usage/batch
+ */
+export async function handleUsageBatch(
+  userId: string,
+  rawBody: string | null,
+  startTime: number
+): Promise<APIGatewayProxyResult> {
+  let body: UsageBatchRequest;
+  try {
+    body = JSON.parse(rawBody || '{}');
+  } catch (error) {
+    return badRequest('Invalid JSON body');
+  }
+
+  const { product_id, records } = body;
+
+  if (!product_id) {
+    return badRequest('Missing required field: product_id');
+  }
+
+  if (!Array.isArray(records) || records.length === 0) {
+    return badRequest('Missing required field: records');
+  }
+
+  if (records.length > MAX_USAGE_BATCH_SIZE) {
+    return badRequest(`Too many records: maximum is ${MAX_USAGE_BATCH_SIZE}`);
+  }
+
+  // Validate every record before touching the database (all or nothing)
+  const normalized: NormalizedRecord[] = [];
+  for (const [index, record] of records.entries()) {
+    const { type = DEFAULT_USAGE_TYPE, count = 1, idempotency_key, metadata } = record || {};
+
+    if (typeof count !== 'number' || count < 0 || !Number.isInteger(count)) {
+      return badRequest(`Invalid count at records[${index}]: must be a non-negative integer`);
+    }
+
+    if (typeof type !== 'string' || type.length === 0 || type.length > 100) {
+      return badRequest(`Invalid type at records[${index}]`);
+    }
+
+    if (idempotency_key !== undefined && (typeof idempotency_key !== 'string' || idempotency_key.length === 0 || idempotency_key.length > 255)) {
+      return badRequest(`Invalid idempotency_key at records[${index}]`);
+    }
+
+    normalized.push({ index, type, count, idempotency_key, metadata });
+  }
+
+  console.log(`Recording usage batch for user: ${userId}, product: ${product_id}, records: ${normalized.length}`);
+
+  const pool = await initializeDatabase();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    // Lock the entitlement so concurrent batches serialize
+    const entitlementResult = await client.query<{
+      entitlement_id: string;
+      plan_id: string;
+      subscription_id: string | null;
+      usage_count: number;
+      usage_limit: number;
+      soft_limit: number;
+      usage_reset_at: Date | null;
+      metered_price_id: string | null;
+      plan_meters: Record<string, MeterDefinition> | null;
+      addon_limits: AddonLimits | null;
+      usage_alerts: UsageAlertConfig | null;
+    }>(
+      `
+      SELECT
+        e.entitlement_id,
+        e.plan_id,
+        e.subscription_id,
+        COALESCE(e.usage_count, 0) as usage_count,
+        COALESCE(e.usage_limit, (p.metadata->>'usage_limit')::int)
+          + COALESCE((e.addon_limits->>'usage_limit')::int, 0) as usage_limit,
+        e.soft_limit,
+        e.usage_reset_at,
+        p.metered_price_id,
+        p.metadata->'meters' as plan_meters,
+        e.addon_limits,
+        p.metadata->'usage_alerts' as usage_alerts
+      FROM entitlements e
+      JOIN plans p ON e.plan_id = p.id
+      WHERE e.user_id = $1
+        AND e.product_id = $2
+        AND (e.status = 'active' OR (e.status = 'grace' AND e.grace_until > NOW()))
+      FOR UPDATE OF e
+      `,
+      [userId, product_id]
+    );
+
+    if (entitlementResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return {
+        statusCode: 404,
+        body: JSON.stringify({
+          error: 'Not Found',
+          message: 'No active entitlement found for this product',
+        }),
+      };
+    }
+
+    const entitlement = entitlementResult.rows[0]!;
+
+    // Every record type must map to a meter of the plan (limits include add-ons)
+    const planMeters = withAddonLimits(entitlement.plan_meters, entitlement.addon_limits);
+    const meters = new Map<string, ResolvedMeter>();
+    for (const record of normalized) {
+      const meter = meters.get(record.type) ?? resolveMeter(planMeters, record.type);
+      if (meter.kind === 'unknown') {
+        await client.query('ROLLBACK');
+        return badRequest(`Unknown usage type at records[${record.index}]: ${record.type}`);
+      }
+      meters.set(record.type, meter);
+    }
+
+    // Claim idempotency keys; keys already recorded within the retention window are duplicates
+    const appliedKeys = await claimIdempotencyKeys(
+      client,
+      userId,
+      product_id,
+      normalized
+        .filter((r) => r.idempotency_key)
+        .map((r) => ({ idempotency_key: r.idempotency_key!, usage_type: r.type, count: r.count }))
+    );
+
+    const seenKeys = new Set<string>();
+    const results: UsageBatchRecordResult[] = normalized.map((record) => {
+      let applied = true;
+      if (record.idempotency_key) {
+        // First occurrence of a new key applies, repeats within the batch are duplicates
+        applied = appliedKeys.has(record.idempotency_key) && !seenKeys.has(record.idempotency_key);
+        seenKeys.add(record.idempotency_key);
+      }
+
+      return {
+        index: record.index,
+        ...(record.idempotency_key ? { idempotency_key: record.idempotency_key } : {}),
+        status: applied ? 'applied' : 'duplicate',
+        count: record.count,
+      };
+    });
+
+    // Sum applied usage per meter
+    const appliedByMeter = new Map<string, number>();
+    let appliedCount = 0;
+    let defaultApplied = 0;
+    for (const [i, record] of normalized.entries()) {
+      if (results[i]!.status !== 'applied') {
+        continue;
+      }
+      appliedCount += record.count;
+      if (meters.get(record.type)!.kind === 'default') {
+        defaultApplied += record.count;
+      } else {
+        appliedByMeter.set(record.type, (appliedByMeter.get(record.type) ?? 0) + record.count);
+      }
+    }
+
+    // Usage beyond the plan quota is paid from prepaid credits first
+    const previousCount = entitlement.usage_count;
+    const { usage_count: usageCount, overage, credits } = await applyDefaultUsage(
+      client,
+      userId,
+      product_id,
+      entitlement,
+      defaultApplied
+    );
+
+    const alertContext = {
+      entitlement_id: entitlement.entitlement_id,
+      user_id: userId,
+      product_id,
+      plan_id: entitlement.plan_id,
+      config: entitlement.usage_alerts,
+    };
+
+    await recordThresholdCrossings(
+      client,
+      {
+        ...alertContext,
+        usage_type: DEFAULT_USAGE_TYPE,
+        limit: entitlement.usage_limit,
+        soft_limit: entitlement.soft_limit || entitlement.usage_limit,
+        reset_at: entitlement.usage_reset_at,
+      },
+      previousCount,
+      usageCount
+    );
+
+    const meterInfo: Record<string, MeterInfo> = {};
+    for (const [type, count] of appliedByMeter) {
+      const meter = meters.get(type)!;
+      if (meter.kind === 'meter') {
+        const info = await incrementMeter(
+          client,
+          entitlement.entitlement_id,
+          entitlement.usage_reset_at,
+          type,
+          meter.definition,
+          count
+        );
+        meterInfo[type] = info;
+
+        await recordThresholdCrossings(
+          client,
+          {
+            ...alertContext,
+            usage_type: type,
+            limit: info.limit,
+            soft_limit: info.soft_limit,
+            reset_at: info.reset_at ? new Date(info.reset_at) : null,
+          },
+          info.used - count,
+          info.used
+        );
+      }
+    }
+
+    await recordUsageEvents(
+      client,
+      userId,
+      product_id,
+      entitlement.entitlement_id,
+      normalized
+        .filter((_, i) => results[i]!.status === 'applied')
+        .map(({ type, count, idempotency_key, metadata }) => ({ usage_type: type, count, idempotency_key, metadata }))
+    );
+
+    // Optional: Log applied records with metadata to audit_logs
+    const auditRecords = normalized
+      .filter((record, i) => record.metadata && results[i]!.status === 'applied')
+      .map(({ type, count, idempotency_key, metadata }) => ({ type, count, idempotency_key, metadata }));
+
+    if (auditRecords.length > 0) {
+      try {
+        await client.query(
+          `
+          INSERT INTO audit_logs (table_name, record_id, action, new_data, user_id)
+          VALUES ('entitlements', $1, 'UPDATE', $2, $3)
+          `,
+          [entitlement.entitlement_id, JSON.stringify({ usage_batch: auditRecords }), userId]
+        );
+      } catch (error) {
+        // Log error but don't fail the request
+        console.error('Failed to log usage batch:', error);
+      }
+    }
+
+    const usageLimit = entitlement.usage_limit;
+    const softLimit = entitlement.soft_limit || usageLimit;
+    const remaining = usageLimit - usageCount;
+    const overLimit = remaining < 0;
+    const softLimitRemaining = softLimit - usageCount;
+    const overSoftLimit = softLimitRemaining < 0;
+
+    // Responses for replays of applied records through POST /me/usage (state after the batch)
+    const defaultResponse: UsageResponse = {
+      type: DEFAULT_USAGE_TYPE,
+      used: usageCount,
+      remaining: Math.max(0, remaining),
+      over_limit: overLimit,
+      soft_limit_remaining: Math.max(0, softLimitRemaining),
+      over_soft_limit: overSoftLimit && !overLimit,
+      ...(overage !== null ? { overage } : {}),
+      ...(credits ? { credits_used: credits.drawn, credit_balance: credits.balance } : {}),
+    };
+    await saveIdempotentResponses(
+      client,
+      userId,
+      product_id,
+      normalized
+        .filter((record, i) => record.idempotency_key && results[i]!.status === 'applied')
+        .map((record) => ({
+          idempotency_key: record.idempotency_key!,
+          response: meterInfo[record.type] ? toUsageResponse(record.type, meterInfo[record.type]!) : defaultResponse,
+        }))
+    );
+
+    await client.query('COMMIT');
+
+    // Invalidate cache after successful update
+    if (appliedCount > 0) {
+      await EntitlementCache.invalidateAll(userId, product_id);
+    }
+
+    const response: UsageBatchResponse = {
+      results,
+      applied_count: appliedCount,
+      used: usageCount,
+      remaining: Math.max(0, remaining),
+      over_limit: overLimit,
+      soft_limit_remaining: Math.max(0, softLimitRemaining),
+      over_soft_limit: overSoftLimit && !overLimit,
+      ...(overage !== null ? { overage } : {}),
+      ...(credits ? { credits_used: credits.drawn, credit_balance: credits.balance } : {}),
+      ...(Object.keys(meterInfo).length > 0 ? { meters: meterInfo } : {}),
+    };
+
+    const duration = Date.now() - startTime;
+    console.log(`Usage batch recorded - applied: ${appliedCount}, Response time: ${duration}ms`);
+
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Response-Time': `${duration}ms`,
+      },
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * 400 Bad Request response
+ */
+function badRequest(message: string): APIGatewayProxyResult {
+  return {
+    statusCode: 400,
+    body: JSON.stringify({
+      error: 'Bad Request',
+      message,
+    }),
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Usage Idempotency Key Cleanup Handler
+ *
+ * Scheduled job (EventBridge) that deletes usage idempotency keys older
+ * than the retention window. Expired keys are already ignored when claimed;
+ * this only keeps usage_idempotency_keys from growing without bound.
+ *
+ * @module entitlement/usage/cleanup
+ */
+
+import { ScheduledHandler } from 'aws-lambda';
+import { initializeDatabase } from '../../../shared/db/index.js';
+import { cleanupExpiredIdempotencyKeys } from './idempotency.js';
+
+/**
+ * Usage Idempotency Key Cleanup Handler
+ */
+export const handler: ScheduledHandler = async () => {
+  console.log('[UsageKeyCleanup] Starting idempotency key cleanup');
+
+  const pool = await initializeDatabase();
+  const client = await pool.connect();
+
+  try {
+    const deleted = await cleanupExpiredIdempotencyKeys(client);
+    console.log('[UsageKeyCleanup] Idempotency key cleanup completed', { deleted });
+  } finally {
+    client.release();
+  }
+};
@@ -1,23 +1,41 @@
 /**
  * POST /me/usage
+ * POST /me/usage/batch
+ * GET /me/usage/history
  * Track usage and increment usage counter
  *
  * Requirements:
  * - Atomic increment with database transaction
  * - Cache invalidation on update
  * - Soft limit enforcement
+ * - Overage accumulation for metered plans (billed via Stripe usage records)
+ * - Idempotency-Key header / idempotency_key field: replays return the original response
+ * - Named meters: `type` selects the meter (default: api_call)
+ * - Every applied record is persisted to usage_events for history queries
+ * - Threshold crossings are recorded as usage alerts (webhooks / email)
+ * - Default meter usage above the plan quota draws prepaid credits before overage
  */
 
 import { APIGatewayProxyHandler, APIGatewayProxyResult } from 'aws-lambda';
 import { initializeDatabase } from '../../../shared/db/index.js';
 import EntitlementCache from '../cache.js';
+import { applyDefaultUsage } from '../overage.js';
+import { resolveMeter, incrementMeter, toUsageResponse, withAddonLimits } from '../meters.js';
+import { recordThresholdCrossings } from '../thresholds.js';
+import { handleUsageBatch } from './batch.js';
+import { handleUsageHistory, recordUsageEvents } from './history.js';
+import { claimIdempotencyKey, saveIdempotentResponse } from './idempotency.js';
 import {
   UsageRequest,
   UsageResponse,
+  MeterDefinition,
+  AddonLimits,
+  UsageAlertConfig,
+  DEFAULT_USAGE_TYPE,
 } from '../types.js';
 
 /**
- * Lambda handler for POST /me/usage
+ * Lambda handler for POST /me/usage, POST /me/usage/batch and GET /me/usage/history
  */
 export const handler: APIGatewayProxyHandler = async (event): Promise<APIGatewayProxyResult> => {
   const startTime = Date.now();
@@ -35,6 +53,14 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       };
     }
 
+    if (event.resource === '/me/usage/batch' || event.path?.endsWith('/usage/batch')) {
+      return await handleUsageBatch(userId, event.body, startTime);
+    }
+
+    if (event.resource === '/me/usage/history' || event.path?.endsWith('/usage/history')) {
+      return await handleUsageHistory(userId, event.queryStringParameters, startTime);
+    }
+
     // Parse request body
     let body: UsageRequest;
     try {
@@ -49,7 +75,9 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       };
     }
 
-    const { product_id, count = 1, metadata } = body;
+    const { product_id, type = DEFAULT_USAGE_TYPE, count = 1, metadata } = body;
+    const idempotencyKey =
+      event.headers?.['Idempotency-Key'] || event.headers?.['idempotency-key'] || body.idempotency_key;
 
     // Validate input
     if (!product_id) {
@@ -72,7 +100,27 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
       };
     }
 
-    console.log(`Recording usage for user: ${userId}, product: ${product_id}, count: ${count}`);
+    if (typeof type !== 'string' || type.length === 0 || type.length > 100) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'Invalid type: must be 1-100 characters',
+        }),
+      };
+    }
+
+    if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || idempotencyKey.length === 0 || idempotencyKey.length > 255)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          error: 'Bad Request',
+          message: 'Invalid idempotency key: must be 1-255 characters',
+        }),
+      };
+    }
+
+    console.log(`Recording usage for user: ${userId}, product: ${product_id}, type: ${type}, count: ${count}`);
 
     // Database transaction for atomic increment
     const pool = await initializeDatabase();
@@ -81,33 +129,73 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
     try {
       await client.query('BEGIN');
 
-      // Update usage count atomically
-      const result = await client.query<{
+      // Idempotency check - replay the original response if the key was already used
+      if (idempotencyKey) {
+        const claim = await claimIdempotencyKey(client, userId, product_id, idempotencyKey, type, count);
+        if (!claim.claimed) {
+          await client.query('ROLLBACK');
+
+          if (!claim.response || claim.count !== count || claim.usage_type !== type) {
+            return {
+              statusCode: 409,
+              body: JSON.stringify({
+                error: 'Conflict',
+                message: 'Idempotency key was already used for a different usage record',
+              }),
+            };
+          }
+
+          return {
+            statusCode: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              'Idempotent-Replayed': 'true',
+              'X-Response-Time': `${Date.now() - startTime}ms`,
+            },
+            body: JSON.stringify(claim.response),
+          };
+        }
+      }
+
+      // Lock the entitlement and resolve the meter for this usage type
+      const entitlementResult = await client.query<{
+        entitlement_id: string;
+        plan_id: string;
+        subscription_id: string | null;
         usage_count: number;
         usage_limit: number;
         soft_limit: number;
-        plan_limit: number;
+        usage_reset_at: Date | null;
+        metered_price_id: string | null;
+        plan_meters: Record<string, MeterDefinition> | null;
+        addon_limits: AddonLimits | null;
+        usage_alerts: UsageAlertConfig | null;
       }>(
         `
-        UPDATE entitlements e
-        SET
-          usage_count = COALESCE(usage_count, 0) + $3,
-          updated_at = NOW()
-        FROM plans p
+        SELECT
+          e.entitlement_id,
+          e.plan_id,
+          e.subscription_id,
+          COALESCE(e.usage_count, 0) as usage_count,
+          COALESCE(e.usage_limit, (p.metadata->>'usage_limit')::int)
+            + COALESCE((e.addon_limits->>'usage_limit')::int, 0) as usage_limit,
+          e.soft_limit,
+          e.usage_reset_at,
+          p.metered_price_id,
+          p.metadata->'meters' as plan_meters,
+          e.addon_limits,
+          p.metadata->'usage_alerts' as usage_alerts
+        FROM entitlements e
+        JOIN plans p ON e.plan_id = p.id
         WHERE e.user_id = $1
           AND e.product_id = $2
-          AND e.status = 'active'
-          AND e.plan_id = p.id
-        RETURNING
-          e.usage_count,
-          COALESCE(e.usage_limit, (p.metadata->>'usage_limit')::int) as usage_limit,
-          e.soft_limit,
-          (p.metadata->>'usage_limit')::int as plan_limit
+          AND (e.status = 'active' OR (e.status = 'grace' AND e.grace_until > NOW()))
+        FOR UPDATE OF e
         `,
-        [userId, product_id, count]
+        [userId, product_id]
       );
 
-      if (result.rows.length === 0) {
+      if (entitlementResult.rows.length === 0) {
         await client.query('ROLLBACK');
         return {
           statusCode: 404,
@@ -118,16 +206,95 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
         };
       }
 
-      const row = result.rows[0]!; // Non-null assertion since we checked length above
-      const usageCount = row.usage_count;
-      const usageLimit = row.usage_limit;
-      const softLimit = row.soft_limit || row.usage_limit;
+      const entitlement = entitlementResult.rows[0]!; // Non-null assertion since we checked length above
+      const meter = resolveMeter(withAddonLimits(entitlement.plan_meters, entitlement.addon_limits), type);
+      const alertContext = {
+        entitlement_id: entitlement.entitlement_id,
+        user_id: userId,
+        product_id,
+        plan_id: entitlement.plan_id,
+        usage_type: type,
+        config: entitlement.usage_alerts,
+      };
+
+      let response: UsageResponse;
+      if (meter.kind === 'unknown') {
+        await client.query('ROLLBACK');
+        return {
+          statusCode: 400,
+          body: JSON.stringify({
+            error: 'Bad Request',
+            message: `Unknown usage type for this plan: ${type}`,
+          }),
+        };
+      } else if (meter.kind === 'meter') {
+        const info = await incrementMeter(
+          client,
+          entitlement.entitlement_id,
+          entitlement.usage_reset_at,
+          type,
+          meter.definition,
+          count
+        );
+        response = toUsageResponse(type, info);
+
+        await recordThresholdCrossings(
+          client,
+          {
+            ...alertContext,
+            limit: info.limit,
+            soft_limit: info.soft_limit,
+            reset_at: info.reset_at ? new Date(info.reset_at) : null,
+          },
+          info.used - count,
+          info.used
+        );
+      } else {
+        // Default meter: entitlements.usage_count
+        const { usage_count: usageCount, overage, credits } = await applyDefaultUsage(
+          client,
+          userId,
+          product_id,
+          entitlement,
+          count
+        );
+
+        const usageLimit = entitlement.usage_limit;
+        const softLimit = entitlement.soft_limit || entitlement.usage_limit;
+
+        // Calculate remaining
+        const remaining = usageLimit - usageCount;
+        const overLimit = remaining < 0;
+        const softLimitRemaining = softLimit - usageCount;
+        const overSoftLimit = softLimitRemaining < 0;
 
-      // Calculate remaining
-      const remaining = usageLimit - usageCount;
-      const overLimit = remaining < 0;
-      const softLimitRemaining = softLimit - usageCount;
-      const overSoftLimit = softLimitRemaining < 0;
+        await recordThresholdCrossings(
+          client,
+          {
+            ...alertContext,
+            limit: usageLimit,
+            soft_limit: softLimit,
+            reset_at: entitlement.usage_reset_at,
+          },
+          entitlement.usage_count,
+          usageCount
+        );
+
+        response = {
+          type: DEFAULT_USAGE_TYPE,
+          used: usageCount,
+          remaining: Math.max(0, remaining),
+          over_limit: overLimit,
+          soft_limit_remaining: Math.max(0, softLimitRemaining),
+          over_soft_limit: overSoftLimit && !overLimit,
+          ...(overage !== null ? { overage } : {}),
+          ...(credits ? { credits_used: credits.drawn, credit_balance: credits.balance } : {}),
+        };
+      }
+
+      await recordUsageEvents(client, userId, product_id, entitlement.entitlement_id, [
+        { usage_type: type, count, idempotency_key: idempotencyKey, metadata },
+      ]);
 
       // Optional: Log usage event to audit_logs
       if (metadata) {
@@ -135,9 +302,9 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
           await client.query(
             `
             INSERT INTO audit_logs (table_name, record_id, action, new_data, user_id)
-            VALUES ('entitlements', (SELECT entitlement_id FROM entitlements WHERE user_id = $1 AND product_id = $2 AND status = 'active' LIMIT 1), 'UPDATE', $3, $1)
+            VALUES ('entitlements', $1, 'UPDATE', $2, $3)
             `,
-            [userId, product_id, JSON.stringify({ usage_increment: count, metadata })]
+            [entitlement.entitlement_id, JSON.stringify({ usage_increment: count, type, metadata }), userId]
           );
         } catch (error) {
           // Log error but don't fail the request
@@ -145,20 +312,15 @@ export const handler: APIGatewayProxyHandler = async (event): Promise<APIGateway
         }
       }
 
+      if (idempotencyKey) {
+        await saveIdempotentResponse(client, userId, product_id, idempotencyKey, response);
+      }
+
       await client.query('COMMIT');
 
       // Invalidate cache after successful update
       await EntitlementCache.invalidateAll(userId, product_id);
 
-      // Build response
-      const response: UsageResponse = {
-        used: usageCount,
-        remaining: Math.max(0, remaining),
-        over_limit: overLimit,
-        soft_limit_remaining: Math.max(0, softLimitRemaining),
-        over_soft_limit: overSoftLimit && !overLimit,
-      };
-
       const duration = Date.now() - startTime;
       console.log(`Usage recorded - Response time: ${duration}ms`);
 
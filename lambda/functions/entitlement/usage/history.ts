@@ -0,0 +1,215 @@
+/**
+ * GET /me/usage/history
+ * Usage events and bucketed time-series queries
+ *
+ * Every applied usage record is persisted to usage_events in the same
+ * transaction as the counter increment. History queries aggregate the
+ * events into hourly or daily UTC buckets per usage type.
+ *
+ * @module entitlement/usage/history
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import type { PoolClient } from 'pg';
+import { initializeDatabase, query } from '../../../shared/db/index.js';
+import {
+  UsageEventRecord,
+  UsageHistoryBucket,
+  UsageHistoryGranularity,
+  UsageHistoryResponse,
+  MAX_USAGE_HISTORY_DAYS,
+} from '../types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUCKET_MS: Record<UsageHistoryGranularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: DAY_MS,
+};
+
+/**
+ * Default range when `from` is omitted
+ */
+const DEFAULT_RANGE_MS: Record<UsageHistoryGranularity, number> = {
+  hour: DAY_MS,
+  day: 30 * DAY_MS,
+};
+
+/**
+ * Validated usage history query
+ */
+export interface UsageHistoryQuery {
+  userId: string;
+  productId: string;
+  from: Date;
+  to: Date;
+  granularity: UsageHistoryGranularity;
+  /** Only include this usage type */
+  type?: string;
+}
+
+/**
+ * Persist applied usage records
+ * Must run in the same transaction as the counter increment.
+ */
+export async function recordUsageEvents(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  entitlementId: string,
+  events: UsageEventRecord[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  await client.query(
+    `
+    INSERT INTO usage_events (user_id, product_id, entitlement_id, usage_type, count, idempotency_key, metadata)
+    SELECT $1, $2, $3, r.usage_type, r.count, r.idempotency_key, r.metadata
+    FROM unnest($4::text[], $5::int[], $6::text[], $7::jsonb[]) AS r(usage_type, count, idempotency_key, metadata)
+    `,
+    [
+      userId,
+      productId,
+      entitlementId,
+      events.map((e) => e.usage_type),
+      events.map((e) => e.count),
+      events.map((e) => e.idempotency_key ?? null),
+      events.map((e) => (e.metadata ? JSON.stringify(e.metadata) : null)),
+    ]
+  );
+}
+
+/**
+ * Parse and validate history query parameters
+ *
+ * @returns The query, or an error message for a 400 response
+ */
+export function parseUsageHistoryQuery(
+  userId: string,
+  params: Record<string, string | undefined> | null
+): { query: UsageHistoryQuery } | { error: string } {
+  // Support both productId and product_id for SDK compatibility
+  const productId = params?.['productId'] ?? params?.['product_id'];
+  if (!productId) {
+    return { error: 'Missing required parameter: productId or product_id' };
+  }
+
+  const granularity = params?.['granularity'] ?? 'day';
+  if (granularity !== 'hour' && granularity !== 'day') {
+    return { error: 'granularity must be one of: hour, day' };
+  }
+
+  const to = params?.['to'] ? new Date(params['to']) : new Date();
+  const from = params?.['from'] ? new Date(params['from']) : new Date(to.getTime() - DEFAULT_RANGE_MS[granularity]);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'from and to must be ISO 8601 dates' };
+  }
+
+  if (from >= to) {
+    return { error: 'from must be before to' };
+  }
+
+  const maxDays = MAX_USAGE_HISTORY_DAYS[granularity];
+  if (to.getTime() - from.getTime() > maxDays * DAY_MS) {
+    return { error: `Range too large: maximum is ${maxDays} days for granularity ${granularity}` };
+  }
+
+  const type = params?.['type'];
+
+  return {
+    query: { userId, productId, from, to, granularity, ...(type ? { type } : {}) },
+  };
+}
+
+/**
+ * Aggregate usage events into time buckets
+ * Buckets without events are included with zero usage so charts have no gaps.
+ */
+export async function getUsageHistory(historyQuery: UsageHistoryQuery): Promise<UsageHistoryResponse> {
+  const { userId, productId, from, to, granularity, type } = historyQuery;
+
+  const result = await query<{ bucket: Date; usage_type: string; count: number; events: number }>(
+    `
+    SELECT
+      date_trunc($5, created_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' as bucket,
+      usage_type,
+      SUM(count)::int as count,
+      COUNT(*)::int as events
+    FROM usage_events
+    WHERE user_id = $1
+      AND product_id = $2
+      AND created_at >= $3
+      AND created_at < $4
+      AND ($6::text IS NULL OR usage_type = $6)
+    GROUP BY bucket, usage_type
+    ORDER BY bucket, usage_type
+    `,
+    [userId, productId, from, to, granularity, type ?? null]
+  );
+
+  // Empty buckets covering the whole range
+  const bucketMs = BUCKET_MS[granularity];
+  const buckets = new Map<number, UsageHistoryBucket>();
+  for (let start = Math.floor(from.getTime() / bucketMs) * bucketMs; start < to.getTime(); start += bucketMs) {
+    buckets.set(start, { start: new Date(start).toISOString(), usage: {}, total: 0, events: 0 });
+  }
+
+  const totals: Record<string, number> = {};
+  for (const row of result.rows) {
+    const bucket = buckets.get(row.bucket.getTime());
+    if (!bucket) {
+      continue;
+    }
+    bucket.usage[row.usage_type] = row.count;
+    bucket.total += row.count;
+    bucket.events += row.events;
+    totals[row.usage_type] = (totals[row.usage_type] ?? 0) + row.count;
+  }
+
+  return {
+    product_id: productId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    granularity,
+    buckets: [...buckets.values()],
+    totals,
+  };
+}
+
+/**
+ * Handle GET /me/usage/history
+ */
+export async function handleUsageHistory(
+  userId: string,
+  params: Record<string, string | undefined> | null,
+  startTime: number
+): Promise<APIGatewayProxyResult> {
+  const parsed = parseUsageHistoryQuery(userId, params);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        error: 'Bad Request',
+        message: parsed.error,
+      }),
+    };
+  }
+
+  await initializeDatabase();
+  const response = await getUsageHistory(parsed.query);
+
+  const duration = Date.now() - startTime;
+  console.log(`Usage history queried - buckets: ${response.buckets.length}, Response time: ${duration}ms`);
+
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Response-Time': `${duration}ms`,
+    },
+    body: JSON.stringify(response),
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Usage Idempotency Management
+ *
+ * Deduplicates usage records by client-supplied idempotency keys stored in
+ * usage_idempotency_keys. A key is claimed inside the usage transaction, so a
+ * rollback releases it again.
+ *
+ * Key Features:
+ * - Atomic claim using INSERT ... ON CONFLICT
+ * - Keys expire after the retention window and can then be reused
+ * - Stores the original UsageResponse for replays of POST /me/usage
+ *   (also for records applied through POST /me/usage/batch)
+ *
+ * @module entitlement/usage/idempotency
+ */
+
+import type { PoolClient } from 'pg';
+import { UsageResponse, USAGE_IDEMPOTENCY_RETENTION_HOURS } from '../types.js';
+
+/**
+ * Result of claiming a single idempotency key
+ */
+export type IdempotencyClaim =
+  | { claimed: true }
+  | { claimed: false; usage_type: string; count: number; response: UsageResponse | null };
+
+/**
+ * Key claimed by a batch record
+ */
+export interface IdempotencyKeyRecord {
+  idempotency_key: string;
+  usage_type: string;
+  count: number;
+}
+
+/**
+ * Claim an idempotency key for a single usage record
+ *
+ * @param client - PostgreSQL client (must be in an active transaction)
+ * @returns claimed: true if the record should be applied, otherwise the stored record
+ */
+export async function claimIdempotencyKey(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  key: string,
+  usageType: string,
+  count: number
+): Promise<IdempotencyClaim> {
+  const claimed = await claimIdempotencyKeys(client, userId, productId, [
+    { idempotency_key: key, usage_type: usageType, count },
+  ]);
+
+  if (claimed.has(key)) {
+    return { claimed: true };
+  }
+
+  const existing = await client.query<{ usage_type: string; count: number; response: UsageResponse | null }>(
+    `
+    SELECT usage_type, count, response
+    FROM usage_idempotency_keys
+    WHERE user_id = $1 AND product_id = $2 AND idempotency_key = $3
+    `,
+    [userId, productId, key]
+  );
+
+  console.log(`[Idempotency] Duplicate usage record detected: ${key}`);
+
+  return {
+    claimed: false,
+    usage_type: existing.rows[0]?.usage_type ?? usageType,
+    count: existing.rows[0]?.count ?? count,
+    response: existing.rows[0]?.response ?? null,
+  };
+}
+
+/**
+ * Claim idempotency keys for a set of usage records
+ * Expired keys (older than the retention window) are claimed again.
+ *
+ * @param client - PostgreSQL client (must be in an active transaction)
+ * @returns Keys that were claimed by this call
+ */
+export async function claimIdempotencyKeys(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  records: IdempotencyKeyRecord[]
+): Promise<Set<string>> {
+  if (records.length === 0) {
+    return new Set();
+  }
+
+  const result = await client.query<{ idempotency_key: string }>(
+    `
+    INSERT INTO usage_idempotency_keys (user_id, product_id, idempotency_key, usage_type, count)
+    SELECT DISTINCT ON (r.idempotency_key) $1, $2, r.idempotency_key, r.usage_type, r.count
+    FROM unnest($3::text[], $4::text[], $5::int[]) WITH ORDINALITY AS r(idempotency_key, usage_type, count, ord)
+    ORDER BY r.idempotency_key, r.ord
+    ON CONFLICT (user_id, product_id, idempotency_key)
+    DO UPDATE SET
+      usage_type = EXCLUDED.usage_type,
+      count = EXCLUDED.count,
+      response = NULL,
+      created_at = NOW()
+    WHERE usage_idempotency_keys.created_at < NOW() - INTERVAL '${USAGE_IDEMPOTENCY_RETENTION_HOURS} hours'
+    RETURNING idempotency_key
+    `,
+    [
+      userId,
+      productId,
+      records.map((r) => r.idempotency_key),
+      records.map((r) => r.usage_type),
+      records.map((r) => r.count),
+    ]
+  );
+
+  return new Set(result.rows.map((row) => row.idempotency_key));
+}
+
+/**
+ * Store the response of an applied usage record for replays
+ *
+ * @param client - PostgreSQL client (same transaction as the claim)
+ */
+export async function saveIdempotentResponse(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  key: string,
+  response: UsageResponse
+): Promise<void> {
+  await saveIdempotentResponses(client, userId, productId, [{ idempotency_key: key, response }]);
+}
+
+/**
+ * Store the responses of applied usage records for replays
+ * Batch records store theirs too, so a retry through POST /me/usage replays
+ * the result instead of conflicting with the batch's claim.
+ *
+ * @param client - PostgreSQL client (same transaction as the claims)
+ */
+export async function saveIdempotentResponses(
+  client: PoolClient,
+  userId: string,
+  productId: string,
+  responses: Array<{ idempotency_key: string; response: UsageResponse }>
+): Promise<void> {
+  if (responses.length === 0) {
+    return;
+  }
+
+  await client.query(
+    `
+    UPDATE usage_idempotency_keys k
+    SET response = r.response
+    FROM unnest($3::text[], $4::jsonb[]) AS r(idempotency_key, response)
+    WHERE k.user_id = $1 AND k.product_id = $2 AND k.idempotency_key = r.idempotency_key
+    `,
+    [
+      userId,
+      productId,
+      responses.map((r) => r.idempotency_key),
+      responses.map((r) => JSON.stringify(r.response)),
+    ]
+  );
+}
+
+/**
+ * Delete idempotency keys older than the retention window
+ *
+ * @param client - PostgreSQL client
+ * @returns Number of keys deleted
+ */
+export async function cleanupExpiredIdempotencyKeys(client: PoolClient): Promise<number> {
+  const result = await client.query(
+    `
+    DELETE FROM usage_idempotency_keys
+    WHERE created_at < NOW() - INTERVAL '${USAGE_IDEMPOTENCY_RETENTION_HOURS} hours'
+    `
+  );
+
+  const deletedCount = result.rowCount || 0;
+  console.log(`[Idempotency] Cleaned up ${deletedCount} usage idempotency keys older than ${USAGE_IDEMPOTENCY_RETENTION_HOURS} hours`);
+
+  return deletedCount;
+}
@@ -0,0 +1,46 @@
+/**
+ * Team invitation email
+ *
+ * Renders the invitation sent to a new team member
+ * (sent via shared/utils/email).
+ */
+
+import type { RenderedEmail } from '../../shared/utils/email.js';
+
+/**
+ * Invitation details used in the template
+ */
+export interface TeamInviteEmailContext {
+  team_name: string;
+  product_name: string | null;
+  invite_token: string;
+  /** Page that accepts the invitation (TEAM_INVITE_URL); the token is appended as ?token= */
+  invite_url: string | null;
+}
+
+/**
+ * Render the team invitation email template
+ */
+export function renderTeamInviteEmail(context: TeamInviteEmailContext): RenderedEmail {
+  const service = context.product_name || 'サービス';
+  const lines = [
+    `${context.team_name} から${service}のチームに招待されました。`,
+    '以下から招待を承認してください。',
+    '',
+  ];
+
+  if (context.invite_url) {
+    const url = new URL(context.invite_url);
+    url.searchParams.set('token', context.invite_token);
+    lines.push(url.toString());
+  } else {
+    lines.push(`招待コード: ${context.invite_token}`);
+  }
+
+  lines.push('', '※このメールは送信専用アドレスから送信しています。');
+
+  return {
+    subject: `【${service}】${context.team_name} への招待`,
+    text: lines.join('\n'),
+  };
+}
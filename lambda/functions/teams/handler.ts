@@ -0,0 +1,138 @@
+/**
+ * Teams API Handler
+ * Routes team requests to appropriate handlers (Cognito authenticated)
+ *
+ * Teams:
+ * POST /teams - Create a team
+ * GET /teams - List the caller's teams
+ * GET /teams/{teamId} - Get team details, seats and members
+ *
+ * Members:
+ * POST /teams/{teamId}/members - Invite a member
+ * DELETE /teams/{teamId}/members/{memberId} - Remove a member
+ * POST /teams/invites/{token}/accept - Accept an invitation
+ *
+ * Seats:
+ * PUT /teams/{teamId}/seats - Set the number of seats (syncs the Stripe subscription quantity)
+ * POST /teams/{teamId}/members/{memberId}/seat - Assign a seat
+ * DELETE /teams/{teamId}/members/{memberId}/seat - Unassign a seat
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { initializeDatabase } from '../../shared/db/index.js';
+import { createTeam, getTeam, listTeams } from './teams.js';
+import { acceptInvite, assignSeat, inviteMember, removeMember, unassignSeat } from './members.js';
+import { updateSeats } from './seats.js';
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+export async function handler(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  console.log('[Teams] Request:', {
+    path: event.path,
+    method: event.httpMethod,
+  });
+
+  // Handle OPTIONS for CORS
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  const userId: string | undefined = event.requestContext.authorizer?.['claims']?.['sub'];
+  const email: string | undefined = event.requestContext.authorizer?.['claims']?.['email'];
+  if (!userId) {
+    return {
+      statusCode: 401,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Unauthorized' }),
+    };
+  }
+
+  const path = event.path;
+  const method = event.httpMethod;
+  const body = event.body || '{}';
+
+  try {
+    await initializeDatabase();
+
+    // Team routes
+    if (path === '/teams' && method === 'POST') {
+      return await createTeam(userId, email, body);
+    }
+
+    if (path === '/teams' && method === 'GET') {
+      return await listTeams(userId);
+    }
+
+    // Invitation accept route
+    const acceptMatch = path.match(/^\/teams\/invites\/([^/]+)\/accept$/);
+    if (acceptMatch && method === 'POST') {
+      return await acceptInvite(decodeURIComponent(acceptMatch[1]!), userId, email);
+    }
+
+    // Seat assignment routes
+    const seatMatch = path.match(/^\/teams\/([^/]+)\/members\/([^/]+)\/seat$/);
+    if (seatMatch) {
+      const teamId = decodeURIComponent(seatMatch[1]!);
+      const memberId = decodeURIComponent(seatMatch[2]!);
+
+      if (method === 'POST') {
+        return await assignSeat(teamId, memberId, userId);
+      }
+
+      if (method === 'DELETE') {
+        return await unassignSeat(teamId, memberId, userId);
+      }
+    }
+
+    // Single member route
+    const memberMatch = path.match(/^\/teams\/([^/]+)\/members\/([^/]+)$/);
+    if (memberMatch && method === 'DELETE') {
+      return await removeMember(
+        decodeURIComponent(memberMatch[1]!),
+        decodeURIComponent(memberMatch[2]!),
+        userId
+      );
+    }
+
+    // Member invitation route
+    const membersMatch = path.match(/^\/teams\/([^/]+)\/members$/);
+    if (membersMatch && method === 'POST') {
+      return await inviteMember(decodeURIComponent(membersMatch[1]!), userId, body);
+    }
+
+    // Seat quantity route
+    const seatsMatch = path.match(/^\/teams\/([^/]+)\/seats$/);
+    if (seatsMatch && method === 'PUT') {
+      return await updateSeats(decodeURIComponent(seatsMatch[1]!), userId, body);
+    }
+
+    // Single team route
+    const teamMatch = path.match(/^\/teams\/([^/]+)$/);
+    if (teamMatch && method === 'GET') {
+      return await getTeam(decodeURIComponent(teamMatch[1]!), userId);
+    }
+
+    // Route not found
+    return {
+      statusCode: 404,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Not found', path, method }),
+    };
+  } catch (error) {
+    console.error('[Teams] Unexpected error:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+}
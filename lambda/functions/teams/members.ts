@@ -0,0 +1,455 @@
+/**
+ * Team Members API
+ * Invitations and seat assignment
+ *
+ * POST /teams/{teamId}/members - Invite a member by email
+ * POST /teams/invites/{token}/accept - Accept an invitation
+ * DELETE /teams/{teamId}/members/{memberId} - Remove a member (releases the seat)
+ * POST /teams/{teamId}/members/{memberId}/seat - Assign a seat
+ * DELETE /teams/{teamId}/members/{memberId}/seat - Unassign a seat
+ *
+ * Seats are entitlements of the team subscription, created and revoked
+ * through the entitlement grant and revoke handlers.
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import type { PoolClient } from 'pg';
+import { randomBytes } from 'crypto';
+import { query, transaction } from '../../shared/db/index.js';
+import { isEmailConfigured, sendEmail } from '../../shared/utils/email.js';
+import EntitlementCache from '../entitlement/cache.js';
+import { grantEntitlement } from '../entitlement/grant/handler.js';
+import { revokeEntitlement } from '../entitlement/revoke/handler.js';
+import { renderTeamInviteEmail } from './email.js';
+import {
+  canManageTeam,
+  countAssignedSeats,
+  getTeamAccess,
+  getTeamSubscription,
+  toErrorResponse,
+  toTeamMemberResponse,
+} from './teams.js';
+import { TeamError } from './types.js';
+import type {
+  InviteMemberRequest,
+  InviteMemberResponse,
+  TeamMemberRow,
+  TeamRole,
+  TeamRow,
+} from './types.js';
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+};
+
+const INVITABLE_ROLES: TeamRole[] = ['admin', 'member'];
+
+/**
+ * Lock a team the caller can manage and one of its members
+ */
+async function getManagedMember(
+  client: PoolClient,
+  teamId: string,
+  memberId: string,
+  userId: string
+): Promise<{ team: TeamRow; member: TeamMemberRow }> {
+  const access = await getTeamAccess(client, teamId, userId, true);
+  if (!access) {
+    throw new TeamError(404, 'Team not found');
+  }
+  if (!canManageTeam(access.role)) {
+    throw new TeamError(403, 'Only team owners and admins can manage members');
+  }
+
+  const result = await client.query<TeamMemberRow>(
+    `SELECT * FROM team_members WHERE id = $1 AND team_id = $2 AND status <> 'removed'`,
+    [memberId, teamId]
+  );
+  const member = result.rows[0];
+  if (!member) {
+    throw new TeamError(404, 'Member not found');
+  }
+
+  return { team: access.team, member };
+}
+
+/**
+ * Release the member's seat (revoke the entitlement from the team subscription)
+ *
+ * @returns Whether a seat was released
+ */
+async function releaseSeat(
+  client: PoolClient,
+  team: TeamRow,
+  member: TeamMemberRow,
+  performedBy: string
+): Promise<boolean> {
+  if (!member.entitlement_id || !member.user_id) {
+    return false;
+  }
+
+  const seat = await client.query(
+    `
+    SELECT 1
+    FROM entitlements e
+    JOIN subscriptions s ON e.subscription_id = s.id
+    WHERE e.entitlement_id = $1 AND s.team_id = $2 AND e.status IN ('active', 'grace')
+    `,
+    [member.entitlement_id, team.id]
+  );
+
+  const revoked = seat.rows.length > 0
+    ? await revokeEntitlement(
+      client,
+      { user_id: member.user_id, product_id: team.product_id, reason: 'team_seat_unassigned' },
+      performedBy
+    )
+    : null;
+
+  await client.query(
+    `UPDATE team_members SET entitlement_id = NULL WHERE id = $1`,
+    [member.id]
+  );
+
+  return revoked !== null;
+}
+
+/**
+ * Invite a member by email
+ * POST /teams/{teamId}/members
+ */
+export async function inviteMember(
+  teamId: string,
+  userId: string,
+  body: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const data: InviteMemberRequest = JSON.parse(body);
+
+    const email = typeof data.email === 'string' ? data.email.trim().toLowerCase() : '';
+    if (!email || !email.includes('@')) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'A valid email is required' }),
+      };
+    }
+
+    const role = data.role ?? 'member';
+    if (!INVITABLE_ROLES.includes(role)) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: `role must be one of: ${INVITABLE_ROLES.join(', ')}` }),
+      };
+    }
+
+    const inviteToken = randomBytes(24).toString('hex');
+
+    const { team, member } = await transaction(async (client) => {
+      const access = await getTeamAccess(client, teamId, userId);
+      if (!access) {
+        throw new TeamError(404, 'Team not found');
+      }
+      if (!canManageTeam(access.role)) {
+        throw new TeamError(403, 'Only team owners and admins can invite members');
+      }
+
+      // Re-inviting a pending or removed member issues a new token
+      const result = await client.query<TeamMemberRow>(
+        `
+        INSERT INTO team_members (team_id, email, role, status, invite_token, invited_by)
+        VALUES ($1, $2, $3, 'invited', $4, $5)
+        ON CONFLICT (team_id, email) DO UPDATE SET
+          role = EXCLUDED.role,
+          status = 'invited',
+          user_id = NULL,
+          entitlement_id = NULL,
+          joined_at = NULL,
+          invite_token = EXCLUDED.invite_token,
+          invited_by = EXCLUDED.invited_by
+        WHERE team_members.status <> 'active'
+        RETURNING *
+        `,
+        [teamId, email, role, inviteToken, userId]
+      );
+
+      const invited = result.rows[0];
+      if (!invited) {
+        throw new TeamError(409, 'User is already a member of this team');
+      }
+
+      return { team: access.team, member: invited };
+    });
+
+    if (isEmailConfigured()) {
+      try {
+        const product = await query<{ name: string }>(
+          `SELECT name FROM products WHERE id = $1`,
+          [team.product_id]
+        );
+        await sendEmail(email, renderTeamInviteEmail({
+          team_name: team.name,
+          product_name: product.rows[0]?.name ?? null,
+          invite_token: inviteToken,
+          invite_url: process.env['TEAM_INVITE_URL'] || null,
+        }));
+      } catch (error) {
+        // The invitation stays valid; the token is also returned to the inviter
+        console.error('[TeamMembers] Failed to send invitation email:', error);
+      }
+    }
+
+    console.log('[TeamMembers] Member invited', { teamId, memberId: member.id, role, invitedBy: userId });
+
+    const response: InviteMemberResponse = {
+      member: toTeamMemberResponse({ ...member, seat_assigned: false }),
+      invite_token: inviteToken,
+    };
+
+    return {
+      statusCode: 201,
+      headers: corsHeaders,
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('[TeamMembers] Error inviting member:', error);
+    return toErrorResponse(error, 'Failed to invite member');
+  }
+}
+
+/**
+ * Accept an invitation
+ * POST /teams/invites/{token}/accept
+ *
+ * The invitation is bound to its email address; the caller's verified email
+ * must match it.
+ */
+export async function acceptInvite(
+  token: string,
+  userId: string,
+  email: string | undefined
+): Promise<APIGatewayProxyResult> {
+  try {
+    const member = await transaction(async (client) => {
+      const result = await client.query<TeamMemberRow>(
+        `
+        SELECT m.*
+        FROM team_members m
+        JOIN teams t ON m.team_id = t.id
+        WHERE m.invite_token = $1 AND m.status = 'invited' AND t.deleted_at IS NULL
+        FOR UPDATE OF m
+        `,
+        [token]
+      );
+
+      const invited = result.rows[0];
+      if (!invited) {
+        throw new TeamError(404, 'Invitation not found');
+      }
+      if (!email || email.toLowerCase() !== invited.email) {
+        throw new TeamError(403, 'This invitation was sent to a different email address');
+      }
+
+      const updated = await client.query<TeamMemberRow>(
+        `
+        UPDATE team_members
+        SET user_id = $2, status = 'active', invite_token = NULL, joined_at = NOW()
+        WHERE id = $1
+        RETURNING *
+        `,
+        [invited.id, userId]
+      );
+
+      return updated.rows[0]!;
+    });
+
+    console.log('[TeamMembers] Invitation accepted', { teamId: member.team_id, memberId: member.id, userId });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        team_id: member.team_id,
+        member: toTeamMemberResponse({ ...member, seat_assigned: false }),
+      }),
+    };
+  } catch (error) {
+    console.error('[TeamMembers] Error accepting invitation:', error);
+    return toErrorResponse(error, 'Failed to accept invitation');
+  }
+}
+
+/**
+ * Remove a member from the team (releases the member's seat)
+ * DELETE /teams/{teamId}/members/{memberId}
+ */
+export async function removeMember(
+  teamId: string,
+  memberId: string,
+  userId: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const { team, member, released } = await transaction(async (client) => {
+      const { team, member } = await getManagedMember(client, teamId, memberId, userId);
+      if (member.role === 'owner') {
+        throw new TeamError(409, 'The team owner cannot be removed');
+      }
+
+      const released = await releaseSeat(client, team, member, userId);
+
+      await client.query(
+        `UPDATE team_members SET status = 'removed', invite_token = NULL WHERE id = $1`,
+        [member.id]
+      );
+
+      return { team, member, released };
+    });
+
+    if (released && member.user_id) {
+      await EntitlementCache.invalidateAll(member.user_id, team.product_id);
+    }
+
+    console.log('[TeamMembers] Member removed', { teamId, memberId, released, removedBy: userId });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({ message: 'Member removed' }),
+    };
+  } catch (error) {
+    console.error('[TeamMembers] Error removing member:', error);
+    return toErrorResponse(error, 'Failed to remove member');
+  }
+}
+
+/**
+ * Assign a seat of the team subscription to a member
+ * POST /teams/{teamId}/members/{memberId}/seat
+ *
+ * Fails with 409 when all seats are assigned; add seats with PUT /teams/{teamId}/seats.
+ */
+export async function assignSeat(
+  teamId: string,
+  memberId: string,
+  userId: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const { team, member, entitlementId } = await transaction(async (client) => {
+      // The team row lock serializes seat assignment
+      const { team, member } = await getManagedMember(client, teamId, memberId, userId);
+      if (member.status !== 'active' || !member.user_id) {
+        throw new TeamError(409, 'The member has not accepted the invitation yet');
+      }
+
+      const subscription = await getTeamSubscription(client, teamId);
+      if (!subscription) {
+        throw new TeamError(409, 'The team has no active subscription');
+      }
+
+      const existing = await client.query<{ entitlement_id: string; subscription_id: string | null }>(
+        `
+        SELECT entitlement_id, subscription_id
+        FROM entitlements
+        WHERE user_id = $1 AND product_id = $2 AND status IN ('active', 'grace')
+        `,
+        [member.user_id, team.product_id]
+      );
+      const current = existing.rows[0];
+
+      // Already holds a seat of this subscription
+      if (current && current.subscription_id === subscription.id) {
+        await client.query(
+          `UPDATE team_members SET entitlement_id = $2 WHERE id = $1`,
+          [member.id, current.entitlement_id]
+        );
+        return { team, member, entitlementId: current.entitlement_id };
+      }
+
+      // Do not replace access the user pays for elsewhere
+      if (current && current.subscription_id) {
+        throw new TeamError(409, 'The member already has a subscription for this product');
+      }
+
+      const assigned = await countAssignedSeats(client, teamId, subscription.id);
+      if (assigned >= subscription.seat_quantity) {
+        throw new TeamError(409, `No seats available (${assigned} of ${subscription.seat_quantity} assigned)`);
+      }
+
+      const granted = await grantEntitlement(client, {
+        user_id: member.user_id,
+        product_id: team.product_id,
+        plan_id: subscription.plan_id,
+        subscription_id: subscription.id,
+      });
+      if (!granted) {
+        throw new TeamError(409, 'The subscription plan is no longer available');
+      }
+
+      await client.query(
+        `UPDATE team_members SET entitlement_id = $2 WHERE id = $1`,
+        [member.id, granted.entitlement_id]
+      );
+
+      return { team, member, entitlementId: granted.entitlement_id };
+    });
+
+    await EntitlementCache.invalidateAll(member.user_id!, team.product_id);
+
+    console.log('[TeamMembers] Seat assigned', { teamId, memberId, entitlementId, assignedBy: userId });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        member: toTeamMemberResponse({ ...member, entitlement_id: entitlementId, seat_assigned: true }),
+        entitlement_id: entitlementId,
+      }),
+    };
+  } catch (error) {
+    console.error('[TeamMembers] Error assigning seat:', error);
+    return toErrorResponse(error, 'Failed to assign seat');
+  }
+}
+
+/**
+ * Unassign a member's seat
+ * DELETE /teams/{teamId}/members/{memberId}/seat
+ */
+export async function unassignSeat(
+  teamId: string,
+  memberId: string,
+  userId: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const { team, member, released } = await transaction(async (client) => {
+      const { team, member } = await getManagedMember(client, teamId, memberId, userId);
+      const released = await releaseSeat(client, team, member, userId);
+      return { team, member, released };
+    });
+
+    if (!released) {
+      return {
+        statusCode: 404,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'The member has no seat assigned' }),
+      };
+    }
+
+    await EntitlementCache.invalidateAll(member.user_id!, team.product_id);
+
+    console.log('[TeamMembers] Seat unassigned', { teamId, memberId, unassignedBy: userId });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        member: toTeamMemberResponse({ ...member, entitlement_id: null, seat_assigned: false }),
+      }),
+    };
+  } catch (error) {
+    console.error('[TeamMembers] Error unassigning seat:', error);
+    return toErrorResponse(error, 'Failed to unassign seat');
+  }
+}
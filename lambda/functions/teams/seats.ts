@@ -0,0 +1,129 @@
+/**
+ * Team Seats API
+ * Changes the seat quantity of the team subscription
+ *
+ * PUT /teams/{teamId}/seats - Set the number of seats
+ *
+ * The quantity of the base plan item is updated in Stripe (prorated);
+ * the customer.subscription.updated webhook mirrors it to seat_quantity.
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { transaction } from '../../shared/db/index.js';
+import { getStripeClient } from '../billing/stripe.js';
+import {
+  countAssignedSeats,
+  getTeamAccess,
+  getTeamSubscription,
+  toErrorResponse,
+  toTeamResponse,
+} from './teams.js';
+import { TeamError } from './types.js';
+import type { UpdateSeatsRequest } from './types.js';
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+};
+
+/**
+ * Set the number of seats
+ * PUT /teams/{teamId}/seats
+ *
+ * Only the team owner can change seats. Reducing seats below the number of
+ * assigned seats fails with 409; unassign seats first.
+ */
+export async function updateSeats(
+  teamId: string,
+  userId: string,
+  body: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const data: UpdateSeatsRequest = JSON.parse(body);
+
+    if (!Number.isInteger(data.quantity) || data.quantity < 1) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'quantity must be a positive integer' }),
+      };
+    }
+
+    const response = await transaction(async (client) => {
+      // The team row lock keeps seat assignment from racing the quantity change
+      const access = await getTeamAccess(client, teamId, userId, true);
+      if (!access) {
+        throw new TeamError(404, 'Team not found');
+      }
+      if (access.role !== 'owner') {
+        throw new TeamError(403, 'Only the team owner can change seats');
+      }
+
+      const subscription = await getTeamSubscription(client, teamId);
+      if (!subscription || !subscription.stripe_subscription_id) {
+        throw new TeamError(409, 'The team has no active subscription');
+      }
+
+      const assigned = await countAssignedSeats(client, teamId, subscription.id);
+      if (data.quantity < assigned) {
+        throw new TeamError(
+          409,
+          `Cannot reduce seats below the ${assigned} assigned seats; unassign seats first`
+        );
+      }
+
+      if (data.quantity !== subscription.seat_quantity) {
+        // The subscription's plan version and currency (grandfathered teams keep an older price)
+        const plan = await client.query<{ stripe_price_id: string }>(
+          `
+          SELECT COALESCE(pp.stripe_price_id, pv.stripe_price_id, p.stripe_price_id) as stripe_price_id
+          FROM subscriptions s
+          JOIN plans p ON s.plan_id = p.id
+          LEFT JOIN plan_versions pv ON s.plan_version_id = pv.id
+          LEFT JOIN plan_prices pp ON pp.plan_version_id = s.plan_version_id AND pp.currency = s.currency
+          WHERE s.id = $1
+          `,
+          [subscription.id]
+        );
+
+        const stripe = await getStripeClient();
+        const stripeSubscription = await stripe.subscriptions.retrieve(subscription.stripe_subscription_id);
+        // Seats are the quantity of the base plan item (metered and add-on items are separate)
+        const baseItem = stripeSubscription.items.data.find(
+          (item) => item.price.id === plan.rows[0]?.stripe_price_id
+        );
+        if (!baseItem) {
+          throw new Error(`Base plan item not found on subscription ${subscription.stripe_subscription_id}`);
+        }
+
+        await stripe.subscriptions.update(subscription.stripe_subscription_id, {
+          items: [{ id: baseItem.id, quantity: data.quantity }],
+          proration_behavior: 'create_prorations',
+        });
+
+        await client.query(
+          `UPDATE subscriptions SET seat_quantity = $1, updated_at = NOW() WHERE id = $2`,
+          [data.quantity, subscription.id]
+        );
+
+        console.log('[TeamSeats] Seat quantity updated', {
+          teamId,
+          subscriptionId: subscription.id,
+          from: subscription.seat_quantity,
+          to: data.quantity,
+        });
+      }
+
+      return toTeamResponse(client, access, false);
+    });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('[TeamSeats] Error updating seats:', error);
+    return toErrorResponse(error, 'Failed to update seats');
+  }
+}
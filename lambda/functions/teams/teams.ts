@@ -0,0 +1,385 @@
+/**
+ * Teams API
+ * Team (organization) records and the seat summary of their subscription
+ *
+ * POST /teams - Create a team (the caller becomes its owner)
+ * GET /teams - List the caller's teams
+ * GET /teams/{teamId} - Get team details, seats and members
+ */
+
+import { APIGatewayProxyResult } from 'aws-lambda';
+import type { PoolClient } from 'pg';
+import { query, transaction } from '../../shared/db/index.js';
+import { TeamError } from './types.js';
+import type {
+  CreateTeamRequest,
+  SeatSummary,
+  TeamMemberResponse,
+  TeamMemberRow,
+  TeamResponse,
+  TeamRole,
+  TeamRow,
+  TeamSubscription,
+} from './types.js';
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+};
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/**
+ * Team with the caller's membership
+ */
+export interface TeamAccess {
+  team: TeamRow;
+  role: TeamRole;
+}
+
+/**
+ * Look up a team the user is an active member of
+ *
+ * @param lock - Lock the team row (serializes seat changes of the team)
+ * @returns Team and the user's role, or null if the team does not exist or the user is not a member
+ */
+export async function getTeamAccess(
+  client: Queryable,
+  teamId: string,
+  userId: string,
+  lock = false
+): Promise<TeamAccess | null> {
+  const result = await client.query<TeamRow & { role: TeamRole }>(
+    `
+    SELECT t.*, m.role
+    FROM teams t
+    JOIN team_members m ON m.team_id = t.id
+    WHERE t.id = $1
+      AND t.deleted_at IS NULL
+      AND m.user_id = $2
+      AND m.status = 'active'
+    ${lock ? 'FOR UPDATE OF t' : ''}
+    `,
+    [teamId, userId]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const { role, ...team } = row;
+  return { team, role };
+}
+
+/**
+ * Whether the role can manage members and seats
+ */
+export function canManageTeam(role: TeamRole): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+/**
+ * Get the team's current subscription (active, trialing or past due)
+ */
+export async function getTeamSubscription(
+  client: Queryable,
+  teamId: string
+): Promise<TeamSubscription | null> {
+  const result = await client.query<TeamSubscription>(
+    `
+    SELECT id, plan_id, stripe_subscription_id, status, seat_quantity
+    FROM subscriptions
+    WHERE team_id = $1
+      AND deleted_at IS NULL
+      AND status IN ('active', 'trialing', 'past_due')
+    ORDER BY created_at DESC
+    LIMIT 1
+    `,
+    [teamId]
+  );
+
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Count the seats of a subscription assigned to team members
+ * A seat is assigned while the member's entitlement from the subscription is usable.
+ */
+export async function countAssignedSeats(
+  client: Queryable,
+  teamId: string,
+  subscriptionId: string
+): Promise<number> {
+  const result = await client.query<{ count: string }>(
+    `
+    SELECT COUNT(*) as count
+    FROM team_members m
+    JOIN entitlements e ON e.entitlement_id = m.entitlement_id
+    WHERE m.team_id = $1
+      AND m.status = 'active'
+      AND e.subscription_id = $2
+      AND e.status IN ('active', 'grace')
+    `,
+    [teamId, subscriptionId]
+  );
+
+  return parseInt(result.rows[0]?.count || '0');
+}
+
+/**
+ * Build the seat summary of a team subscription
+ */
+export async function getSeatSummary(
+  client: Queryable,
+  teamId: string,
+  subscription: TeamSubscription | null
+): Promise<SeatSummary> {
+  if (!subscription) {
+    return { quantity: 0, assigned: 0, available: 0 };
+  }
+
+  const assigned = await countAssignedSeats(client, teamId, subscription.id);
+  return {
+    quantity: subscription.seat_quantity,
+    assigned,
+    available: Math.max(0, subscription.seat_quantity - assigned),
+  };
+}
+
+/**
+ * Converts TeamMemberRow to TeamMemberResponse
+ */
+export function toTeamMemberResponse(
+  row: TeamMemberRow & { seat_assigned: boolean }
+): TeamMemberResponse {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    email: row.email,
+    role: row.role,
+    status: row.status,
+    seat_assigned: row.seat_assigned,
+    joined_at: row.joined_at?.toISOString() || null,
+    created_at: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * List the members of a team (removed members excluded)
+ */
+export async function listTeamMembers(
+  client: Queryable,
+  teamId: string
+): Promise<TeamMemberResponse[]> {
+  const result = await client.query<TeamMemberRow & { seat_assigned: boolean }>(
+    `
+    SELECT m.*, COALESCE(e.status IN ('active', 'grace'), false) as seat_assigned
+    FROM team_members m
+    LEFT JOIN entitlements e ON e.entitlement_id = m.entitlement_id
+    WHERE m.team_id = $1 AND m.status <> 'removed'
+    ORDER BY m.created_at
+    `,
+    [teamId]
+  );
+
+  return result.rows.map(toTeamMemberResponse);
+}
+
+/**
+ * Build the team response for a member
+ */
+export async function toTeamResponse(
+  client: Queryable,
+  access: TeamAccess,
+  includeMembers: boolean
+): Promise<TeamResponse> {
+  const subscription = await getTeamSubscription(client, access.team.id);
+  const seats = await getSeatSummary(client, access.team.id, subscription);
+
+  return {
+    id: access.team.id,
+    name: access.team.name,
+    owner_user_id: access.team.owner_user_id,
+    product_id: access.team.product_id,
+    role: access.role,
+    subscription: subscription
+      ? { id: subscription.id, plan_id: subscription.plan_id, status: subscription.status }
+      : null,
+    seats,
+    ...(includeMembers ? { members: await listTeamMembers(client, access.team.id) } : {}),
+    created_at: access.team.created_at.toISOString(),
+  };
+}
+
+/**
+ * Create a team
+ * POST /teams
+ */
+export async function createTeam(
+  userId: string,
+  email: string | undefined,
+  body: string
+): Promise<APIGatewayProxyResult> {
+  try {
+    const data: CreateTeamRequest = JSON.parse(body);
+
+    if (!data.name || typeof data.name !== 'string' || !data.product_id) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'name and product_id are required' }),
+      };
+    }
+
+    if (!email) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Email not found in token' }),
+      };
+    }
+
+    const product = await query(
+      `SELECT id FROM products WHERE id = $1 AND deleted_at IS NULL`,
+      [data.product_id]
+    );
+    if (product.rows.length === 0) {
+      return {
+        statusCode: 404,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Product not found' }),
+      };
+    }
+
+    const response = await transaction(async (client) => {
+      const teamResult = await client.query<TeamRow>(
+        `
+        INSERT INTO teams (name, owner_user_id, product_id)
+        VALUES ($1, $2, $3)
+        RETURNING *
+        `,
+        [data.name.trim(), userId, data.product_id]
+      );
+      const created = teamResult.rows[0]!;
+
+      await client.query(
+        `
+        INSERT INTO team_members (team_id, user_id, email, role, status, joined_at)
+        VALUES ($1, $2, $3, 'owner', 'active', NOW())
+        `,
+        [created.id, userId, email.toLowerCase()]
+      );
+
+      return toTeamResponse(client, { team: created, role: 'owner' }, true);
+    });
+
+    console.log('[Teams] Team created', { teamId: response.id, userId, productId: data.product_id });
+
+    return {
+      statusCode: 201,
+      headers: corsHeaders,
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('[Teams] Error creating team:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Failed to create team' }),
+    };
+  }
+}
+
+/**
+ * List the caller's teams
+ * GET /teams
+ */
+export async function listTeams(userId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const teams = await transaction(async (client) => {
+      const result = await client.query<TeamRow & { role: TeamRole }>(
+        `
+        SELECT t.*, m.role
+        FROM teams t
+        JOIN team_members m ON m.team_id = t.id
+        WHERE m.user_id = $1 AND m.status = 'active' AND t.deleted_at IS NULL
+        ORDER BY t.created_at
+        `,
+        [userId]
+      );
+
+      const items: TeamResponse[] = [];
+      for (const { role, ...team } of result.rows) {
+        items.push(await toTeamResponse(client, { team, role }, false));
+      }
+      return items;
+    });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({ items: teams }),
+    };
+  } catch (error) {
+    console.error('[Teams] Error listing teams:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Failed to list teams' }),
+    };
+  }
+}
+
+/**
+ * Get team details
+ * GET /teams/{teamId}
+ */
+export async function getTeam(teamId: string, userId: string): Promise<APIGatewayProxyResult> {
+  try {
+    const response = await transaction(async (client) => {
+      const access = await getTeamAccess(client, teamId, userId);
+      return access ? toTeamResponse(client, access, true) : null;
+    });
+
+    if (!response) {
+      return {
+        statusCode: 404,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: 'Team not found' }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    console.error('[Teams] Error getting team:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: 'Failed to get team' }),
+    };
+  }
+}
+
+/**
+ * Convert an error to an API response (TeamError keeps its status and message)
+ */
+export function toErrorResponse(error: unknown, message: string): APIGatewayProxyResult {
+  if (error instanceof TeamError) {
+    return {
+      statusCode: error.statusCode,
+      headers: corsHeaders,
+      body: JSON.stringify({ error: error.message }),
+    };
+  }
+
+  return {
+    statusCode: 500,
+    headers: corsHeaders,
+    body: JSON.stringify({ error: message }),
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Type definitions for the Teams service
+ * Teams own seat-based subscriptions; seats are assigned to members as entitlements.
+ */
+
+/**
+ * Team member role
+ * - owner: created the team; manages members, seats and billing
+ * - admin: manages members and seats
+ * - member: uses an assigned seat
+ */
+export type TeamRole = 'owner' | 'admin' | 'member';
+
+/**
+ * Team member status
+ */
+export type TeamMemberStatus = 'invited' | 'active' | 'removed';
+
+/**
+ * Database row from teams table
+ */
+export interface TeamRow {
+  id: string;
+  name: string;
+  owner_user_id: string;
+  product_id: string;
+  metadata: Record<string, unknown> | null;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+/**
+ * Database row from team_members table
+ */
+export interface TeamMemberRow {
+  id: string;
+  team_id: string;
+  user_id: string | null;
+  email: string;
+  role: TeamRole;
+  status: TeamMemberStatus;
+  invite_token: string | null;
+  invited_by: string | null;
+  entitlement_id: string | null;
+  joined_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Team subscription (the team's active seat-based subscription)
+ */
+export interface TeamSubscription {
+  id: string;
+  plan_id: string;
+  stripe_subscription_id: string | null;
+  status: string;
+  seat_quantity: number;
+}
+
+/**
+ * Request for POST /teams
+ */
+export interface CreateTeamRequest {
+  /** Team (organization) name */
+  name: string;
+  /** Product the team subscribes to */
+  product_id: string;
+}
+
+/**
+ * Request for POST /teams/{teamId}/members
+ */
+export interface InviteMemberRequest {
+  /** Email address of the invitee */
+  email: string;
+  /** Role in the team (default: member) */
+  role?: Exclude<TeamRole, 'owner'>;
+}
+
+/**
+ * Request for PUT /teams/{teamId}/seats
+ */
+export interface UpdateSeatsRequest {
+  /** New number of seats */
+  quantity: number;
+}
+
+/**
+ * Seat summary of a team
+ */
+export interface SeatSummary {
+  /** Seats purchased (subscription quantity) */
+  quantity: number;
+  /** Seats assigned to members */
+  assigned: number;
+  /** Seats available for assignment */
+  available: number;
+}
+
+/**
+ * Team member in API responses
+ */
+export interface TeamMemberResponse {
+  id: string;
+  user_id: string | null;
+  email: string;
+  role: TeamRole;
+  status: TeamMemberStatus;
+  /** Whether the member has a seat assigned */
+  seat_assigned: boolean;
+  joined_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Team in API responses
+ */
+export interface TeamResponse {
+  id: string;
+  name: string;
+  owner_user_id: string;
+  product_id: string;
+  /** Role of the requesting user */
+  role: TeamRole;
+  /** Team subscription, or null if the team has not subscribed yet */
+  subscription: {
+    id: string;
+    plan_id: string;
+    status: string;
+  } | null;
+  seats: SeatSummary;
+  members?: TeamMemberResponse[];
+  created_at: string;
+}
+
+/**
+ * Response for POST /teams/{teamId}/members
+ */
+export interface InviteMemberResponse {
+  member: TeamMemberResponse;
+  /** Token the invitee uses with POST /teams/invites/{token}/accept */
+  invite_token: string;
+}
+
+/**
+ * Teams service error with the HTTP status to respond with
+ * Thrown inside transactions so the changes are rolled back.
+ */
+export class TeamError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TeamError';
+  }
+}
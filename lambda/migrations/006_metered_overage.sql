@@ -0,0 +1,52 @@
+-- Migration: 006_metered_overage
+-- Description: Metered overage billing via Stripe usage records
+-- Created: 2026-10-19
+
+-- ============================================
+-- Plans: Stripe metered price for overage
+-- ============================================
+-- When set, usage above usage_limit is billed through this metered price
+-- (recurring.usage_type = 'metered', aggregate_usage = 'sum')
+
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS metered_price_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_plans_metered_price_id ON plans(metered_price_id);
+
+-- ============================================
+-- Usage Overage Table
+-- ============================================
+-- One row per entitlement and billing period
+-- overage_quantity accumulates usage above the plan limit,
+-- reported_quantity tracks what has been sent to Stripe by the flush worker
+
+CREATE TABLE IF NOT EXISTS usage_overage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entitlement_id UUID NOT NULL REFERENCES entitlements(entitlement_id) ON DELETE CASCADE,
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    metered_price_id VARCHAR(255) NOT NULL,
+    stripe_subscription_item_id VARCHAR(255),
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    overage_quantity INTEGER NOT NULL DEFAULT 0 CHECK (overage_quantity >= 0),
+    reported_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reported_quantity >= 0),
+    last_reported_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE(entitlement_id, period_start)
+);
+
+CREATE INDEX idx_usage_overage_subscription_id ON usage_overage(subscription_id);
+CREATE INDEX idx_usage_overage_period_end ON usage_overage(period_end);
+-- Flush worker scans rows with unreported overage
+CREATE INDEX idx_usage_overage_unreported ON usage_overage(period_end)
+    WHERE overage_quantity > reported_quantity;
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_usage_overage_updated_at
+    BEFORE UPDATE ON usage_overage
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration complete
+SELECT 'Migration 006_metered_overage completed successfully' AS status;
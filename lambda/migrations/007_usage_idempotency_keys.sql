@@ -0,0 +1,24 @@
+-- Migration: 007_usage_idempotency_keys
+-- Description: Client idempotency keys for usage recording
+-- Created: 2026-10-19
+
+-- ============================================
+-- Usage Idempotency Keys Table
+-- ============================================
+-- Records every usage idempotency key seen per user and product
+-- A record whose key already exists is reported as a duplicate and not counted again
+
+CREATE TABLE IF NOT EXISTS usage_idempotency_keys (
+    user_id VARCHAR(255) NOT NULL,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    idempotency_key VARCHAR(255) NOT NULL,
+    usage_type VARCHAR(100) NOT NULL,
+    count INTEGER NOT NULL CHECK (count >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, product_id, idempotency_key)
+);
+
+CREATE INDEX idx_usage_idempotency_keys_created_at ON usage_idempotency_keys(created_at);
+
+-- Migration complete
+SELECT 'Migration 007_usage_idempotency_keys completed successfully' AS status;
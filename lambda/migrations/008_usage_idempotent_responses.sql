@@ -0,0 +1,14 @@
+-- Migration: 008_usage_idempotent_responses
+-- Description: Store original usage responses for idempotent replays
+-- Created: 2026-10-19
+
+-- ============================================
+-- Usage Idempotency Keys: stored response
+-- ============================================
+-- POST /me/usage returns the stored UsageResponse when a key is replayed
+-- Keys older than the retention window (24 hours) are deleted by usageKeyCleanup
+
+ALTER TABLE usage_idempotency_keys ADD COLUMN IF NOT EXISTS response JSONB;
+
+-- Migration complete
+SELECT 'Migration 008_usage_idempotent_responses completed successfully' AS status;
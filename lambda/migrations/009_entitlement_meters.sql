@@ -0,0 +1,36 @@
+-- Migration: 009_entitlement_meters
+-- Description: Per-usage-type meters with their own limits and reset schedules
+-- Created: 2026-10-19
+
+-- ============================================
+-- Entitlement Meters Table
+-- ============================================
+-- Plans define meters in plans.metadata.meters, e.g.
+--   {"meters": {"tokens": {"limit": 100000, "soft_limit_percent": 0.1, "reset": "monthly"}}}
+-- One row per entitlement and meter holds the current counter.
+-- The default meter (api_call) stays on entitlements.usage_count.
+-- Daily and monthly counters past usage_reset_at are reset on the next increment;
+-- billing_period counters are closed by the usage reset job.
+
+CREATE TABLE IF NOT EXISTS entitlement_meters (
+    entitlement_id UUID NOT NULL REFERENCES entitlements(entitlement_id) ON DELETE CASCADE,
+    meter VARCHAR(100) NOT NULL,
+    usage_count INTEGER NOT NULL DEFAULT 0 CHECK (usage_count >= 0),
+    reset_schedule VARCHAR(20) NOT NULL DEFAULT 'billing_period'
+        CHECK (reset_schedule IN ('billing_period', 'daily', 'monthly', 'never')),
+    usage_reset_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (entitlement_id, meter)
+);
+
+CREATE INDEX idx_entitlement_meters_usage_reset_at ON entitlement_meters(usage_reset_at);
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_entitlement_meters_updated_at
+    BEFORE UPDATE ON entitlement_meters
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration complete
+SELECT 'Migration 009_entitlement_meters completed successfully' AS status;
@@ -0,0 +1,29 @@
+-- Migration: 010_usage_events
+-- Description: Persist usage events for history and time-series queries
+-- Created: 2026-10-19
+
+-- ============================================
+-- Usage Events Table
+-- ============================================
+-- One row per applied usage record (POST /me/usage and POST /me/usage/batch)
+-- Replays of an idempotency key are not recorded again
+-- GET /me/usage/history and GET /admin/users/{id}/usage aggregate these rows into buckets
+
+CREATE TABLE IF NOT EXISTS usage_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id VARCHAR(255) NOT NULL,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    entitlement_id UUID REFERENCES entitlements(entitlement_id) ON DELETE SET NULL,
+    usage_type VARCHAR(100) NOT NULL,
+    count INTEGER NOT NULL CHECK (count >= 0),
+    idempotency_key VARCHAR(255),
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- History queries filter by user and product over a time range
+CREATE INDEX idx_usage_events_user_product_created_at ON usage_events(user_id, product_id, created_at);
+CREATE INDEX idx_usage_events_entitlement_id ON usage_events(entitlement_id);
+
+-- Migration complete
+SELECT 'Migration 010_usage_events completed successfully' AS status;
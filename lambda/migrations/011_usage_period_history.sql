@@ -0,0 +1,37 @@
+-- Migration: 011_usage_period_history
+-- Description: Snapshots of finished usage periods written by the usage reset worker
+-- Created: 2026-10-19
+
+-- ============================================
+-- Usage Period History Table
+-- ============================================
+-- The usageReset worker snapshots every counter of an entitlement past
+-- usage_reset_at before zeroing it: one row per meter and finished period.
+-- usage_type is 'api_call' for entitlements.usage_count, otherwise the
+-- entitlement_meters meter name (billing_period meters only)
+
+CREATE TABLE IF NOT EXISTS usage_period_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entitlement_id UUID NOT NULL REFERENCES entitlements(entitlement_id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    plan_id UUID REFERENCES plans(id) ON DELETE SET NULL,
+    subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL,
+    usage_type VARCHAR(100) NOT NULL,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    usage_limit INTEGER,
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    -- A period is snapshotted once even if the worker is retried
+    UNIQUE(entitlement_id, usage_type, period_end)
+);
+
+CREATE INDEX idx_usage_period_history_user_product ON usage_period_history(user_id, product_id, period_end);
+
+-- Reset worker scans active entitlements past their reset time
+CREATE INDEX IF NOT EXISTS idx_entitlements_usage_reset_at ON entitlements(usage_reset_at)
+    WHERE status = 'active';
+
+-- Migration complete
+SELECT 'Migration 011_usage_period_history completed successfully' AS status;
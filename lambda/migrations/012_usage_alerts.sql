@@ -0,0 +1,76 @@
+-- Migration: 012_usage_alerts
+-- Description: Usage threshold alerts delivered to product webhooks and email
+-- Created: 2026-10-19
+
+-- ============================================
+-- Product Webhooks Table
+-- ============================================
+-- Endpoints registered by a product to receive platform events
+-- events: event types to deliver (empty = all)
+-- Deliveries are signed with HMAC-SHA256 using secret
+
+CREATE TABLE IF NOT EXISTS product_webhooks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    secret VARCHAR(255) NOT NULL,
+    events TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_product_webhooks_product_id ON product_webhooks(product_id) WHERE is_active = true;
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_product_webhooks_updated_at
+    BEFORE UPDATE ON product_webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Usage Alerts Table
+-- ============================================
+-- One row per threshold crossing and usage period (outbox)
+-- POST /me/usage inserts the row in the usage transaction; the unique key
+-- makes each threshold fire once per period. The usageAlertDispatch worker
+-- delivers pending rows to product webhooks and email.
+-- threshold: fraction of the limit ('0.8', '1'), 'soft_limit' or 'limit'
+-- period_end: usage_reset_at of the period ('infinity' for meters that never reset)
+
+CREATE TABLE IF NOT EXISTS usage_alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entitlement_id UUID NOT NULL REFERENCES entitlements(entitlement_id) ON DELETE CASCADE,
+    user_id VARCHAR(255) NOT NULL,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    plan_id UUID REFERENCES plans(id) ON DELETE SET NULL,
+    usage_type VARCHAR(100) NOT NULL,
+    event_type VARCHAR(50) NOT NULL CHECK (event_type IN ('usage.threshold_reached', 'usage.limit_exceeded')),
+    threshold VARCHAR(20) NOT NULL,
+    used INTEGER NOT NULL,
+    usage_limit INTEGER NOT NULL,
+    soft_limit INTEGER,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    send_email BOOLEAN NOT NULL DEFAULT true,
+    webhook_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (webhook_status IN ('pending', 'sent', 'failed', 'skipped')),
+    email_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (email_status IN ('pending', 'sent', 'failed', 'skipped')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE(entitlement_id, usage_type, event_type, threshold, period_end)
+);
+
+CREATE INDEX idx_usage_alerts_user_product ON usage_alerts(user_id, product_id);
+-- Dispatcher scans undelivered alerts
+CREATE INDEX idx_usage_alerts_pending ON usage_alerts(created_at)
+    WHERE webhook_status = 'pending' OR email_status = 'pending';
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_usage_alerts_updated_at
+    BEFORE UPDATE ON usage_alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration complete
+SELECT 'Migration 012_usage_alerts completed successfully' AS status;
@@ -0,0 +1,67 @@
+-- Migration: 013_dunning
+-- Description: Track failed subscription payments (dunning) and paused subscriptions
+-- Created: 2026-10-19
+
+-- ============================================
+-- Subscriptions: paused status and dunning state
+-- ============================================
+-- customer.subscription.paused sets status 'paused'
+-- dunning_started_at: first failed payment of the current dunning cycle
+-- (NULL when the subscription is in good standing)
+
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_status_check;
+ALTER TABLE subscriptions ADD CONSTRAINT subscriptions_status_check
+    CHECK (status IN ('active', 'past_due', 'canceled', 'trialing', 'unpaid', 'incomplete', 'incomplete_expired', 'paused'));
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS dunning_started_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_dunning_started_at ON subscriptions(dunning_started_at)
+    WHERE dunning_started_at IS NOT NULL;
+
+-- ============================================
+-- Payment Failures Table
+-- ============================================
+-- One row per failed payment attempt (invoice.payment_failed) or
+-- required customer action (invoice.payment_action_required).
+-- The webhook handler inserts the row in the webhook transaction; the
+-- dunningNotify worker sends the "update your card" email (outbox).
+-- attempt_count: Stripe invoice.attempt_count
+-- next_payment_attempt: next automatic retry (NULL when Stripe has given up)
+
+CREATE TABLE IF NOT EXISTS payment_failures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id VARCHAR(255) NOT NULL,
+    subscription_id UUID REFERENCES subscriptions(id) ON DELETE CASCADE,
+    stripe_subscription_id VARCHAR(255),
+    stripe_invoice_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(50) NOT NULL CHECK (event_type IN ('invoice.payment_failed', 'invoice.payment_action_required')),
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    amount_due INTEGER NOT NULL DEFAULT 0,
+    currency VARCHAR(3),
+    failure_code VARCHAR(100),
+    failure_message TEXT,
+    next_payment_attempt TIMESTAMP WITH TIME ZONE,
+    hosted_invoice_url TEXT,
+    email VARCHAR(255),
+    notification_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (notification_status IN ('pending', 'sent', 'failed', 'skipped')),
+    notification_attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE(stripe_invoice_id, event_type, attempt_count)
+);
+
+CREATE INDEX idx_payment_failures_user_id ON payment_failures(user_id);
+CREATE INDEX idx_payment_failures_subscription_id ON payment_failures(subscription_id);
+-- Worker scans unsent notifications
+CREATE INDEX idx_payment_failures_pending ON payment_failures(created_at)
+    WHERE notification_status = 'pending';
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_payment_failures_updated_at
+    BEFORE UPDATE ON payment_failures
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration complete
+SELECT 'Migration 013_dunning completed successfully' AS status;
@@ -0,0 +1,28 @@
+-- Migration: 014_entitlement_grace
+-- Description: Grace-period entitlement status for past-due subscriptions
+-- Created: 2026-10-19
+
+-- ============================================
+-- Entitlements: grace status
+-- ============================================
+-- status 'grace': subscription payment is past due; access continues until
+-- grace_until (plans.metadata.grace_period_days after the payment failed)
+
+ALTER TABLE entitlements DROP CONSTRAINT IF EXISTS entitlements_status_check;
+ALTER TABLE entitlements ADD CONSTRAINT entitlements_status_check
+    CHECK (status IN ('active', 'grace', 'expired', 'suspended', 'revoked'));
+
+ALTER TABLE entitlements ADD COLUMN IF NOT EXISTS grace_until TIMESTAMP WITH TIME ZONE;
+
+-- A user has at most one usable entitlement per product (active or in grace)
+DROP INDEX IF EXISTS idx_entitlements_user_product;
+CREATE UNIQUE INDEX idx_entitlements_user_product ON entitlements(user_id, product_id)
+    WHERE status IN ('active', 'grace');
+
+-- Reset worker also resets entitlements in grace
+DROP INDEX IF EXISTS idx_entitlements_usage_reset_at;
+CREATE INDEX idx_entitlements_usage_reset_at ON entitlements(usage_reset_at)
+    WHERE status IN ('active', 'grace');
+
+-- Migration complete
+SELECT 'Migration 014_entitlement_grace completed successfully' AS status;
@@ -0,0 +1,41 @@
+-- Migration: 015_failed_webhooks
+-- Description: Dead-letter table for Stripe webhook events whose handler failed
+-- Created: 2026-10-19
+
+-- ============================================
+-- Failed Webhooks Table
+-- ============================================
+-- One row per Stripe event whose processing threw (the webhook transaction
+-- is rolled back, so the event is not in processed_webhooks).
+-- attempts: failed processing attempts (Stripe retries and admin replays)
+-- status:
+--   failed   - not processed yet
+--   replayed - processed by an admin replay
+--   resolved - processed by a later Stripe retry
+
+CREATE TABLE IF NOT EXISTS failed_webhooks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stripe_event_id VARCHAR(255) NOT NULL UNIQUE,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    error TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    status VARCHAR(20) NOT NULL DEFAULT 'failed' CHECK (status IN ('failed', 'replayed', 'resolved')),
+    first_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    replayed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_failed_webhooks_status ON failed_webhooks(status, last_failed_at DESC);
+CREATE INDEX idx_failed_webhooks_event_type ON failed_webhooks(event_type);
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_failed_webhooks_updated_at
+    BEFORE UPDATE ON failed_webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration complete
+SELECT 'Migration 015_failed_webhooks completed successfully' AS status;
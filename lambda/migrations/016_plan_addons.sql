@@ -0,0 +1,80 @@
+-- Migration: 016_plan_addons
+-- Description: Add-on prices attached to plans, subscription items, and add-on limits on entitlements
+-- Created: 2026-10-19
+
+-- ============================================
+-- Plan Add-ons Table
+-- ============================================
+-- Add-on prices sold on top of a base plan (extra seats, credit packs, ...)
+-- limits: added to the entitlement per purchased unit, e.g.
+--   { "usage_limit": 5000, "meters": { "tokens": 100000 } }
+-- max_quantity: maximum units per subscription (NULL = unlimited)
+
+CREATE TABLE IF NOT EXISTS plan_addons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_id UUID NOT NULL REFERENCES plans(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    stripe_price_id VARCHAR(255) NOT NULL UNIQUE,
+    price_amount INTEGER NOT NULL,
+    currency VARCHAR(3) NOT NULL DEFAULT 'JPY',
+    limits JSONB NOT NULL DEFAULT '{}',
+    max_quantity INTEGER CHECK (max_quantity IS NULL OR max_quantity > 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_plan_addons_plan_id ON plan_addons(plan_id) WHERE deleted_at IS NULL;
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_plan_addons_updated_at
+    BEFORE UPDATE ON plan_addons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Subscription Items Table
+-- ============================================
+-- Mirror of the Stripe subscription items, each mapped to its plan or add-on
+-- item_type:
+--   plan    - base plan price (plans.stripe_price_id)
+--   metered - metered overage price (plans.metered_price_id)
+--   addon   - add-on price (plan_addons.stripe_price_id)
+--   unknown - price not in the catalog
+
+CREATE TABLE IF NOT EXISTS subscription_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    stripe_subscription_item_id VARCHAR(255) NOT NULL UNIQUE,
+    stripe_price_id VARCHAR(255) NOT NULL,
+    item_type VARCHAR(20) NOT NULL CHECK (item_type IN ('plan', 'metered', 'addon', 'unknown')),
+    plan_id UUID REFERENCES plans(id),
+    addon_id UUID REFERENCES plan_addons(id),
+    quantity INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_subscription_items_subscription_id ON subscription_items(subscription_id);
+CREATE INDEX idx_subscription_items_addon_id ON subscription_items(addon_id) WHERE addon_id IS NOT NULL;
+
+-- Apply updated_at trigger
+CREATE TRIGGER update_subscription_items_updated_at
+    BEFORE UPDATE ON subscription_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Entitlements: add-on limits
+-- ============================================
+-- Sum of the subscription's add-on limits (limits x quantity), added to the
+-- plan's usage_limit and meter limits when usage is checked.
+-- Maintained by the subscription webhook handlers.
+
+ALTER TABLE entitlements ADD COLUMN IF NOT EXISTS addon_limits JSONB NOT NULL DEFAULT '{}';
+
+-- Migration complete
+SELECT 'Migration 016_plan_addons completed successfully' AS status;
@@ -0,0 +1,46 @@
+-- Migration: 017_credit_ledger
+-- Description: Prepaid credit packs (one-time plans) with a per-product credit ledger
+-- Created: 2026-10-19
+
+-- ============================================
+-- Credit Ledger Table
+-- ============================================
+-- Every change of a user's credit balance for a product is one ledger entry.
+-- entry_type:
+--   purchase   - credit pack bought via one-time checkout (+amount, opens a lot)
+--   adjustment - manual grant by an operator (+amount, opens a lot)
+--   usage      - credits drawn by POST /me/usage after the plan quota is used up (-amount)
+--   expiry     - unused credits of a lot that passed expires_at (-amount)
+--
+-- Lots (purchase / adjustment entries) track `remaining` credits. Usage draws
+-- from the lot expiring first; usage and expiry entries reference their lot.
+-- Balance = SUM(remaining) of lots that have not expired.
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id VARCHAR(255) NOT NULL,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('purchase', 'adjustment', 'usage', 'expiry')),
+    amount INTEGER NOT NULL,
+    remaining INTEGER CHECK (remaining IS NULL OR remaining >= 0),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    lot_id UUID REFERENCES credit_ledger(id) ON DELETE CASCADE,
+    plan_id UUID REFERENCES plans(id) ON DELETE SET NULL,
+    entitlement_id UUID REFERENCES entitlements(entitlement_id) ON DELETE SET NULL,
+    stripe_checkout_session_id VARCHAR(255) UNIQUE,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_credit_ledger_user_product ON credit_ledger(user_id, product_id, created_at DESC);
+
+-- Open lots (balance and draw-down order)
+CREATE INDEX idx_credit_ledger_open_lots ON credit_ledger(user_id, product_id, expires_at)
+    WHERE remaining > 0;
+
+-- Lots waiting for the expiry job
+CREATE INDEX idx_credit_ledger_expiring ON credit_ledger(expires_at)
+    WHERE remaining > 0 AND expires_at IS NOT NULL;
+
+-- Migration complete
+SELECT 'Migration 017_credit_ledger completed successfully' AS status;
@@ -0,0 +1,76 @@
+-- Migration: 018_teams_seats
+-- Description: Teams owning seat-based subscriptions and team membership with seat assignment
+-- Created: 2026-10-19
+
+-- ============================================
+-- Teams Table
+-- ============================================
+-- A team (organization) buys one subscription for a product with N seats.
+-- Seats are assigned to members as entitlements of that subscription.
+
+CREATE TABLE IF NOT EXISTS teams (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    owner_user_id VARCHAR(255) NOT NULL,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_teams_owner_user_id ON teams(owner_user_id);
+CREATE INDEX idx_teams_product_id ON teams(product_id);
+
+CREATE TRIGGER update_teams_updated_at
+    BEFORE UPDATE ON teams
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Team Members Table
+-- ============================================
+-- status:
+--   invited - invitation sent, user_id is set when the invite is accepted
+--   active  - member of the team
+--   removed - left or removed from the team (seat unassigned)
+--
+-- entitlement_id is the member's seat (entitlement granted from the team
+-- subscription); NULL when no seat is assigned.
+
+CREATE TABLE IF NOT EXISTS team_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id VARCHAR(255),
+    email VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    status VARCHAR(20) NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'active', 'removed')),
+    invite_token VARCHAR(64) UNIQUE,
+    invited_by VARCHAR(255),
+    entitlement_id UUID REFERENCES entitlements(entitlement_id) ON DELETE SET NULL,
+    joined_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE(team_id, email)
+);
+
+CREATE INDEX idx_team_members_team_id ON team_members(team_id);
+CREATE INDEX idx_team_members_user_id ON team_members(user_id) WHERE user_id IS NOT NULL;
+
+CREATE TRIGGER update_team_members_updated_at
+    BEFORE UPDATE ON team_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Subscriptions: team ownership and seats
+-- ============================================
+-- seat_quantity mirrors the quantity of the base plan item in Stripe.
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE SET NULL;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS seat_quantity INTEGER NOT NULL DEFAULT 1 CHECK (seat_quantity >= 1);
+
+CREATE INDEX idx_subscriptions_team_id ON subscriptions(team_id) WHERE team_id IS NOT NULL;
+
+-- Migration complete
+SELECT 'Migration 018_teams_seats completed successfully' AS status;
@@ -0,0 +1,45 @@
+-- Migration: 019_scheduled_plan_changes
+-- Description: Plan changes scheduled for the end of the billing period (Stripe subscription schedules)
+-- Created: 2026-10-19
+
+-- ============================================
+-- Scheduled Plan Changes Table
+-- ============================================
+-- A period-end plan change (typically a downgrade) is applied by Stripe at
+-- renewal through a subscription schedule. The row records the pending change
+-- so it can be shown and replaced; customer.subscription.updated marks it
+-- applied once the subscription switches to to_plan_id.
+--
+-- status:
+--   scheduled - waiting for the renewal
+--   applied   - the subscription renewed on to_plan_id
+--   canceled  - replaced by another plan change or cancellation
+
+CREATE TABLE IF NOT EXISTS scheduled_plan_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    from_plan_id UUID REFERENCES plans(id) ON DELETE SET NULL,
+    to_plan_id UUID NOT NULL REFERENCES plans(id) ON DELETE RESTRICT,
+    stripe_schedule_id VARCHAR(255) NOT NULL,
+    effective_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'applied', 'canceled')),
+    requested_by VARCHAR(255),
+    applied_at TIMESTAMP WITH TIME ZONE,
+    canceled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- At most one pending change per subscription
+CREATE UNIQUE INDEX idx_scheduled_plan_changes_pending ON scheduled_plan_changes(subscription_id)
+    WHERE status = 'scheduled';
+
+CREATE INDEX idx_scheduled_plan_changes_subscription_id ON scheduled_plan_changes(subscription_id);
+
+CREATE TRIGGER update_scheduled_plan_changes_updated_at
+    BEFORE UPDATE ON scheduled_plan_changes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration complete
+SELECT 'Migration 019_scheduled_plan_changes completed successfully' AS status;
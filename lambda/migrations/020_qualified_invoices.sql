@@ -0,0 +1,70 @@
+-- Migration: 020_qualified_invoices
+-- Description: Japanese qualified invoices (適格請求書): issuer settings, plan tax rates, issued documents
+-- Created: 2026-10-19
+
+-- ============================================
+-- Invoice Issuers Table
+-- ============================================
+-- Issuer details printed on qualified invoices.
+-- product_id NULL is the platform-wide default; a product row overrides it
+-- for invoices of that product.
+-- registration_number: 適格請求書発行事業者登録番号 ("T" + 13 digits)
+
+CREATE TABLE IF NOT EXISTS invoice_issuers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID UNIQUE REFERENCES products(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    registration_number VARCHAR(14) NOT NULL CHECK (registration_number ~ '^T[0-9]{13}$'),
+    address TEXT,
+    phone VARCHAR(50),
+    email VARCHAR(255),
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- At most one platform-wide default issuer
+CREATE UNIQUE INDEX idx_invoice_issuers_default ON invoice_issuers((product_id IS NULL))
+    WHERE product_id IS NULL;
+
+CREATE TRIGGER update_invoice_issuers_updated_at
+    BEFORE UPDATE ON invoice_issuers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Plan Tax Rates
+-- ============================================
+-- Consumption tax of a plan (add-ons and metered usage follow their plan):
+--   tax_rate      - percentage (10 = standard rate, 8 = reduced rate)
+--   tax_inclusive - whether price_amount includes the tax (税込)
+--   stripe_tax_rate_id - Stripe Tax Rate applied to the plan's checkout line items
+
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 10
+    CHECK (tax_rate >= 0 AND tax_rate < 100);
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS stripe_tax_rate_id VARCHAR(255);
+
+-- ============================================
+-- Qualified Invoices Table
+-- ============================================
+-- Qualified invoice documents issued from paid Stripe invoices.
+-- The document is generated once and stored, so later changes of the issuer
+-- settings or plan tax rates do not alter invoices already issued.
+
+CREATE TABLE IF NOT EXISTS qualified_invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stripe_invoice_id VARCHAR(255) NOT NULL UNIQUE,
+    user_id VARCHAR(255) NOT NULL,
+    product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+    issuer_id UUID REFERENCES invoice_issuers(id) ON DELETE SET NULL,
+    document_number VARCHAR(255) NOT NULL UNIQUE,
+    document JSONB NOT NULL,
+    issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_qualified_invoices_user_id ON qualified_invoices(user_id);
+
+-- Migration complete
+SELECT 'Migration 020_qualified_invoices completed successfully' AS status;
@@ -0,0 +1,51 @@
+-- Migration: 021_coupon_redemptions
+-- Description: Coupon redemption history and per-user / per-product redemption caps
+-- Created: 2026-10-19
+
+-- ============================================
+-- Coupon Redemption Caps
+-- ============================================
+-- Enforced by the checkout handler for promotion codes passed to checkout
+-- (Stripe only knows the overall max_redemptions):
+--   max_redemptions_per_user    - redemptions of the coupon by one user
+--   max_redemptions_per_product - redemptions of the coupon within one product
+
+ALTER TABLE coupons
+    ADD COLUMN IF NOT EXISTS max_redemptions_per_user INTEGER
+        CHECK (max_redemptions_per_user IS NULL OR max_redemptions_per_user > 0),
+    ADD COLUMN IF NOT EXISTS max_redemptions_per_product INTEGER
+        CHECK (max_redemptions_per_product IS NULL OR max_redemptions_per_product > 0);
+
+-- ============================================
+-- Coupon Redemptions Table
+-- ============================================
+-- One row per coupon discount of a completed checkout session
+-- (recorded from checkout.session.completed).
+-- Amounts are the checkout totals in the smallest currency unit; for
+-- subscriptions they cover the first invoice only.
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+    promotion_code_id UUID REFERENCES promotion_codes(id) ON DELETE SET NULL,
+    user_id VARCHAR(255) NOT NULL,
+    product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+    plan_id UUID REFERENCES plans(id) ON DELETE SET NULL,
+    stripe_checkout_session_id VARCHAR(255) NOT NULL,
+    stripe_subscription_id VARCHAR(255),
+    currency VARCHAR(3) NOT NULL,
+    amount_subtotal INTEGER NOT NULL DEFAULT 0,
+    amount_discount INTEGER NOT NULL DEFAULT 0,
+    amount_total INTEGER NOT NULL DEFAULT 0,
+    redeemed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    -- Webhook retries must not record a redemption twice
+    CONSTRAINT uq_coupon_redemptions_session_coupon UNIQUE (stripe_checkout_session_id, coupon_id)
+);
+
+CREATE INDEX idx_coupon_redemptions_coupon_id ON coupon_redemptions(coupon_id, redeemed_at DESC);
+CREATE INDEX idx_coupon_redemptions_coupon_user ON coupon_redemptions(coupon_id, user_id);
+CREATE INDEX idx_coupon_redemptions_coupon_product ON coupon_redemptions(coupon_id, product_id);
+CREATE INDEX idx_coupon_redemptions_promotion_code_id ON coupon_redemptions(promotion_code_id);
+
+-- Migration complete
+SELECT 'Migration 021_coupon_redemptions completed successfully' AS status;
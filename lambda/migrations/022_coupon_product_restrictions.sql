@@ -0,0 +1,19 @@
+-- Migration: 022_coupon_product_restrictions
+-- Description: Store the Stripe products a coupon applies to for promotion code validation
+-- Created: 2026-10-19
+
+-- ============================================
+-- Coupon Product Restrictions
+-- ============================================
+-- Stripe Product IDs passed as applies_to when the coupon was created
+-- (NULL = all products). Coupons created before this migration have NULL;
+-- Stripe still limits their discount to the restricted products.
+
+ALTER TABLE coupons
+    ADD COLUMN IF NOT EXISTS applies_to_products TEXT[];
+
+-- Promotion codes are looked up by the code customers enter (case-insensitive)
+CREATE INDEX IF NOT EXISTS idx_promotion_codes_lower_code ON promotion_codes(LOWER(code));
+
+-- Migration complete
+SELECT 'Migration 022_coupon_product_restrictions completed successfully' AS status;
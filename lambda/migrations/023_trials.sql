@@ -0,0 +1,46 @@
+-- Migration: 023_trials
+-- Description: Free trials without a card (POST /me/trials) and trial-to-paid conversion
+-- Created: 2026-10-19
+
+-- ============================================
+-- Trials Table
+-- ============================================
+-- A no-card trial grants an entitlement of the plan until ends_at
+-- (plans.trial_period_days). One trial per user and product.
+-- status:
+--   active    - entitlement granted, ends_at not reached
+--   expired   - ended without a purchase (entitlement expired by the trialExpiry job)
+--   converted - the user completed checkout for the product (during or after the trial)
+
+CREATE TABLE IF NOT EXISTS trials (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id VARCHAR(255) NOT NULL,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    plan_id UUID REFERENCES plans(id) ON DELETE SET NULL,
+    entitlement_id UUID REFERENCES entitlements(entitlement_id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired', 'converted')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Expiry warning email (sent once)
+    warned_at TIMESTAMP WITH TIME ZONE,
+    expired_at TIMESTAMP WITH TIME ZONE,
+    -- Conversion: checkout completed for the product
+    converted_at TIMESTAMP WITH TIME ZONE,
+    converted_plan_id UUID REFERENCES plans(id) ON DELETE SET NULL,
+    converted_subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CONSTRAINT uq_trials_user_product UNIQUE (user_id, product_id)
+);
+
+CREATE INDEX idx_trials_product_id ON trials(product_id, status);
+-- Trial expiry job: active trials by end date
+CREATE INDEX idx_trials_active_ends_at ON trials(ends_at) WHERE status = 'active';
+
+CREATE TRIGGER update_trials_updated_at
+    BEFORE UPDATE ON trials
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration complete
+SELECT 'Migration 023_trials completed successfully' AS status;
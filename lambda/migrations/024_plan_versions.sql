@@ -0,0 +1,74 @@
+-- Migration: 024_plan_versions
+-- Description: Immutable plan versions (one Stripe Price each) and grandfathering of existing subscribers
+-- Created: 2026-10-19
+
+-- ============================================
+-- Plan Versions Table
+-- ============================================
+-- A price change creates a new version with its own Stripe Price instead of
+-- changing the plan in place. The plan row keeps the price of its current
+-- version (plans.current_version_id) for new checkouts; subscriptions and
+-- entitlements reference the version they were purchased / granted on until
+-- an admin migrates the cohort (POST /admin/plans/{id}/migrations).
+
+CREATE TABLE IF NOT EXISTS plan_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_id UUID NOT NULL REFERENCES plans(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    stripe_price_id VARCHAR(255) NOT NULL UNIQUE,
+    price_amount INTEGER NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    trial_period_days INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    -- When a newer version replaced it (Stripe Price archived; existing subscriptions keep renewing)
+    superseded_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT uq_plan_versions_plan_version UNIQUE (plan_id, version)
+);
+
+CREATE INDEX idx_plan_versions_plan_id ON plan_versions(plan_id, version DESC);
+
+-- ============================================
+-- Version References
+-- ============================================
+
+ALTER TABLE plans
+    ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES plan_versions(id) ON DELETE SET NULL;
+
+-- Price version the subscription is billed at (synced from the base item's price)
+ALTER TABLE subscriptions
+    ADD COLUMN IF NOT EXISTS plan_version_id UUID REFERENCES plan_versions(id) ON DELETE SET NULL;
+
+-- Plan version the entitlement was granted on
+ALTER TABLE entitlements
+    ADD COLUMN IF NOT EXISTS plan_version_id UUID REFERENCES plan_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_subscriptions_plan_version_id ON subscriptions(plan_version_id);
+CREATE INDEX idx_entitlements_plan_version_id ON entitlements(plan_version_id);
+
+-- ============================================
+-- Backfill: the current price of every plan is version 1
+-- ============================================
+
+INSERT INTO plan_versions (plan_id, version, stripe_price_id, price_amount, currency, trial_period_days, created_at)
+SELECT id, 1, stripe_price_id, price_amount, currency, trial_period_days, created_at
+FROM plans
+WHERE stripe_price_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+UPDATE plans p
+SET current_version_id = pv.id
+FROM plan_versions pv
+WHERE pv.plan_id = p.id AND pv.version = 1 AND p.current_version_id IS NULL;
+
+UPDATE subscriptions s
+SET plan_version_id = p.current_version_id
+FROM plans p
+WHERE s.plan_id = p.id AND s.plan_version_id IS NULL;
+
+UPDATE entitlements e
+SET plan_version_id = p.current_version_id
+FROM plans p
+WHERE e.plan_id = p.id AND e.plan_version_id IS NULL;
+
+-- Migration complete
+SELECT 'Migration 024_plan_versions completed successfully' AS status;
@@ -0,0 +1,42 @@
+-- Migration: 025_plan_prices
+-- Description: Prices of a plan version in additional currencies (one Stripe Price each)
+-- Created: 2026-10-19
+
+-- ============================================
+-- Plan Prices Table
+-- ============================================
+-- The plan's own price (plans.currency, default JPY) stays on the plan version.
+-- Each additional currency of a version has its own Stripe Price, so buyers
+-- in the US and the EU are charged in USD / EUR. Like versions, currency
+-- prices are immutable: a price change creates a new version with its prices.
+
+CREATE TABLE IF NOT EXISTS plan_prices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_id UUID NOT NULL REFERENCES plans(id) ON DELETE CASCADE,
+    plan_version_id UUID NOT NULL REFERENCES plan_versions(id) ON DELETE CASCADE,
+    -- ISO 4217 code in upper case (USD, EUR)
+    currency VARCHAR(3) NOT NULL,
+    -- Smallest currency unit (cents for USD / EUR)
+    price_amount INTEGER NOT NULL CHECK (price_amount >= 0),
+    stripe_price_id VARCHAR(255) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CONSTRAINT uq_plan_prices_version_currency UNIQUE (plan_version_id, currency)
+);
+
+CREATE INDEX idx_plan_prices_plan_id ON plan_prices(plan_id);
+
+-- ============================================
+-- Subscription Currency
+-- ============================================
+-- Currency the subscription is billed in (synced from the Stripe subscription)
+
+ALTER TABLE subscriptions
+    ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+UPDATE subscriptions s
+SET currency = p.currency
+FROM plans p
+WHERE s.plan_id = p.id AND s.currency IS NULL;
+
+-- Migration complete
+SELECT 'Migration 025_plan_prices completed successfully' AS status;
@@ -0,0 +1,49 @@
+/**
+ * Email Utility
+ * Sends notification emails through Amazon SES
+ *
+ * The sender address comes from NOTIFICATION_EMAIL_FROM; when it is not set,
+ * callers should skip sending (see isEmailConfigured).
+ */
+
+import { SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
+
+const sesClient = new SESv2Client({
+  region: process.env.AWS_REGION ?? 'ap-northeast-1',
+});
+
+/**
+ * Rendered email
+ */
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+}
+
+/**
+ * Whether notification emails can be sent (sender address configured)
+ */
+export function isEmailConfigured(): boolean {
+  return !!process.env['NOTIFICATION_EMAIL_FROM'];
+}
+
+/**
+ * Send a rendered email through SES
+ *
+ * @param to - Recipient address
+ * @param email - Rendered subject and body
+ */
+export async function sendEmail(to: string, email: RenderedEmail): Promise<void> {
+  await sesClient.send(new SendEmailCommand({
+    FromEmailAddress: process.env['NOTIFICATION_EMAIL_FROM'],
+    Destination: { ToAddresses: [to] },
+    Content: {
+      Simple: {
+        Subject: { Data: email.subject, Charset: 'UTF-8' },
+        Body: {
+          Text: { Data: email.text, Charset: 'UTF-8' },
+        },
+      },
+    },
+  }));
+}
@@ -8,6 +8,8 @@
  * 2. Missing required fields
  * 3. Invalid URL format
  * 4. Stripe API error handling
+ * 5. Request validation (validateRequest of the checkout handler)
+ * 6. Currency prices of the plan and its add-ons (against a stubbed database)
  *
  * @module tests/billing/checkout.test
  */
@@ -25,6 +27,13 @@ import {
   parseBody,
 } from './test-utils.js';
 import type { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import {
+  validateRequest,
+  resolvePlanPrice,
+  resolveAddonLineItems,
+} from '../../functions/billing/checkout/handler.js';
+import { normalizeCurrency, type PlanPrice } from '../../functions/catalog/planPrices.js';
+import type { CheckoutSessionRequest } from '../../functions/billing/types.js';
 
 // Mock handler for unit tests (when Stripe is not configured)
 const mockHandler = async (event: APIGatewayProxyEvent): Promise<{ statusCode: number; body: string }> => {
@@ -263,6 +272,148 @@ async function testInvalidUrlFormat(): Promise<void> {
   }
 }
 
+/**
+ * Valid checkout request for validateRequest tests
+ */
+function createCheckoutRequest(overrides: Partial<CheckoutSessionRequest> = {}): CheckoutSessionRequest {
+  return {
+    plan_id: MOCK_PRODUCTS.basic.price_id,
+    product_id: MOCK_PRODUCTS.basic.product_id,
+    success_url: 'https://example.com/success',
+    cancel_url: 'https://example.com/cancel',
+    ...overrides,
+  };
+}
+
+/**
+ * Test: Blank or non-string promotion codes are rejected
+ */
+async function testInvalidPromotionCode(): Promise<void> {
+  if (validateRequest(createCheckoutRequest({ promotion_code: 'SPRING2026' })) !== null) {
+    throw new Error('Expected promotion code to be accepted');
+  }
+
+  for (const promotionCode of ['', '  ', 42]) {
+    const error = validateRequest(createCheckoutRequest({ promotion_code: promotionCode as string }));
+    if (error !== 'Invalid promotion_code') {
+      throw new Error(`Expected promotion_code error for ${JSON.stringify(promotionCode)}, got: ${error}`);
+    }
+  }
+}
+
+/**
+ * Test: Currency codes are normalized; anything but an ISO 4217 code is rejected
+ */
+async function testInvalidCurrency(): Promise<void> {
+  const normalized = [normalizeCurrency('usd'), normalizeCurrency(' eur '), normalizeCurrency('JPY')];
+  if (normalized.join(',') !== 'USD,EUR,JPY') {
+    throw new Error(`Unexpected normalized currencies: ${normalized.join(',')}`);
+  }
+  for (const value of ['dollars', 'US', '', 840, null]) {
+    if (normalizeCurrency(value) !== null) {
+      throw new Error(`Expected ${JSON.stringify(value)} to be rejected`);
+    }
+  }
+
+  if (validateRequest(createCheckoutRequest({ currency: 'usd' })) !== null) {
+    throw new Error('Expected lower-case currency to be accepted');
+  }
+  const error = validateRequest(createCheckoutRequest({ currency: 'dollars' }));
+  if (!error?.includes('currency')) {
+    throw new Error(`Expected currency error, got: ${error}`);
+  }
+}
+
+/**
+ * Plan sold in JPY (its own price) and USD (a currency price)
+ */
+const JPY_PRICE: PlanPrice = { plan_id: 'plan-basic', stripe_price_id: 'price_basic_jpy', price_amount: 1000, currency: 'JPY' };
+const USD_PRICE: PlanPrice = { plan_id: 'plan-basic', stripe_price_id: 'price_basic_usd', price_amount: 900, currency: 'USD' };
+
+/**
+ * Database stub answering the plan price and add-on lookups of checkout
+ */
+function createPriceStub(addons: Array<{ stripe_price_id: string; name: string; max_quantity: number | null; currency: string }> = []) {
+  const prices = [JPY_PRICE, USD_PRICE];
+  return {
+    query: async (sql: string, params: unknown[]) => {
+      if (sql.includes('FROM plan_addons')) {
+        const priceIds = params[1] as string[];
+        return { rows: addons.filter((addon) => priceIds.includes(addon.stripe_price_id)) };
+      }
+      // findPlanPriceInCurrency: (plan_id, currency)
+      if (params.length === 2) {
+        return { rows: prices.filter((price) => price.plan_id === params[0] && price.currency === params[1]) };
+      }
+      // findPlanPrice: (stripe_price_id)
+      return { rows: prices.filter((price) => price.stripe_price_id === params[0]) };
+    },
+  } as any;
+}
+
+/**
+ * Test: The plan is charged in the requested currency, or rejected when not sold in it
+ */
+async function testPlanPriceCurrency(): Promise<void> {
+  const client = createPriceStub();
+
+  const usd = await resolvePlanPrice(client, createCheckoutRequest({ plan_id: JPY_PRICE.stripe_price_id, currency: 'usd' }));
+  if (!('price' in usd) || usd.price?.stripe_price_id !== USD_PRICE.stripe_price_id) {
+    throw new Error(`Expected the USD price, got: ${JSON.stringify(usd)}`);
+  }
+
+  const own = await resolvePlanPrice(client, createCheckoutRequest({ plan_id: USD_PRICE.stripe_price_id }));
+  if (!('price' in own) || own.price?.currency !== 'USD') {
+    throw new Error(`Expected the requested price without currency, got: ${JSON.stringify(own)}`);
+  }
+
+  const eur = await resolvePlanPrice(client, createCheckoutRequest({ plan_id: JPY_PRICE.stripe_price_id, currency: 'EUR' }));
+  if (!('error' in eur) || !eur.error.includes('not sold in EUR')) {
+    throw new Error(`Expected plan not sold in EUR, got: ${JSON.stringify(eur)}`);
+  }
+
+  const unknown = await resolvePlanPrice(client, createCheckoutRequest({ plan_id: 'price_unknown', currency: 'USD' }));
+  if (!('error' in unknown) || unknown.error !== 'Plan not found') {
+    throw new Error(`Expected plan not found, got: ${JSON.stringify(unknown)}`);
+  }
+}
+
+/**
+ * Test: Add-ons must be in the currency charged for the plan
+ */
+async function testAddonCurrency(): Promise<void> {
+  const client = createPriceStub([
+    { stripe_price_id: 'price_storage_jpy', name: 'Extra storage', max_quantity: 5, currency: 'JPY' },
+  ]);
+  const request = createCheckoutRequest({ addons: [{ price_id: 'price_storage_jpy', quantity: 2 }] });
+
+  const jpy = await resolveAddonLineItems(client, request, JPY_PRICE);
+  if (!('lineItems' in jpy) || jpy.lineItems[0]?.price !== 'price_storage_jpy' || jpy.lineItems[0]?.quantity !== 2) {
+    throw new Error(`Expected the JPY add-on line item, got: ${JSON.stringify(jpy)}`);
+  }
+
+  const usd = await resolveAddonLineItems(client, request, USD_PRICE);
+  if (!('error' in usd) || !usd.error.includes('not available in USD')) {
+    throw new Error(`Expected add-on currency error, got: ${JSON.stringify(usd)}`);
+  }
+}
+
+/**
+ * Test: Metadata keys set by the server cannot be overridden
+ */
+async function testReservedMetadataKeys(): Promise<void> {
+  if (validateRequest(createCheckoutRequest({ metadata: { campaign: 'spring' } })) !== null) {
+    throw new Error('Expected custom metadata to be accepted');
+  }
+
+  for (const key of ['user_id', 'plan_id', 'team_id', 'promotion_code_id', 'purchase_type']) {
+    const error = validateRequest(createCheckoutRequest({ metadata: { [key]: 'forged' } }));
+    if (!error?.includes(key)) {
+      throw new Error(`Expected reserved metadata key error for ${key}, got: ${error}`);
+    }
+  }
+}
+
 /**
  * Test: Valid checkout session creation (requires Stripe test key)
  * This test requires STRIPE_SECRET_KEY to be configured
@@ -313,6 +464,11 @@ async function runAllTests(): Promise<void> {
   results.push(await runTest('Missing product_id', testMissingProductId));
   results.push(await runTest('Missing success_url', testMissingSuccessUrl));
   results.push(await runTest('Invalid URL format', testInvalidUrlFormat));
+  results.push(await runTest('Invalid promotion code', testInvalidPromotionCode));
+  results.push(await runTest('Invalid currency', testInvalidCurrency));
+  results.push(await runTest('Plan price in the requested currency', testPlanPriceCurrency));
+  results.push(await runTest('Add-ons in a different currency', testAddonCurrency));
+  results.push(await runTest('Reserved metadata keys', testReservedMetadataKeys));
   results.push(await runTest('Valid checkout session creation', testValidCheckoutSession));
 
   printResults(results);
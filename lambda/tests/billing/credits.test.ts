@@ -0,0 +1,324 @@
+/**
+ * Credit Pack Tests
+ *
+ * Tests for prepaid credits against a stubbed client:
+ * - Crediting a credit pack purchase from checkout.session.completed
+ * - Credit-only entitlements for buyers without a subscription
+ * - Ledger balance and draws
+ *
+ * @module tests/billing/credits.test
+ */
+
+import {
+  MOCK_USER,
+  MOCK_PRODUCTS,
+  generateCustomerId,
+  createCheckoutCompletedEvent,
+  runTest,
+  printResults,
+  TestResult,
+} from './test-utils.js';
+import type Stripe from 'stripe';
+import type { PoolClient } from 'pg';
+import { handleCheckoutCompleted } from '../../functions/billing/webhook/events/checkoutCompleted.js';
+import { ensureCreditEntitlement } from '../../functions/billing/webhook/credits.js';
+import { drawCredits, getCreditBalance } from '../../functions/entitlement/credits/ledger.js';
+
+const PACK_PRICE_ID = 'price_test_credits_1000';
+const PACK_PLAN_ID = 'plan-credits-1000';
+
+/**
+ * Stubbed database state
+ */
+interface CreditState {
+  /** metadata.credits of the pack plan (null: not a credit pack) */
+  planCredits: number | null;
+  /** Open lots, soonest expiry first */
+  lots: Array<{ id: string; remaining: number; expires_at: Date | null; stripe_checkout_session_id?: string }>;
+  /** The buyer already holds an active entitlement for the product */
+  hasEntitlement: boolean;
+}
+
+/**
+ * Create stubbed client serving a credit state
+ */
+function createStubClient(state: CreditState): {
+  client: PoolClient;
+  queries: Array<{ text: string; params: unknown[] }>;
+} {
+  const queries: Array<{ text: string; params: unknown[] }> = [];
+
+  const query = async (sql: string, params: unknown[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    queries.push({ text, params });
+
+    if (text.startsWith('SELECT plan_id FROM plan_versions')) {
+      const rows = (params[0] as string[]).includes(PACK_PRICE_ID) ? [{ plan_id: PACK_PLAN_ID }] : [];
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('SELECT product_id, (metadata->>\'credits\')')) {
+      const rows = [{ product_id: MOCK_PRODUCTS.basic.product_id, credits: state.planCredits, credit_expiry_days: 90 }];
+      return { rows, rowCount: 1 };
+    }
+    if (text.startsWith('INSERT INTO credit_ledger ( user_id, product_id, entry_type, amount, remaining')) {
+      if (state.lots.some((lot) => lot.stripe_checkout_session_id === params[5])) {
+        return { rows: [], rowCount: 0 };
+      }
+      const expiresAt = new Date(Date.now() + (params[3] as number) * 24 * 60 * 60 * 1000);
+      state.lots.push({ id: `lot-${state.lots.length + 1}`, remaining: params[2] as number, expires_at: expiresAt, stripe_checkout_session_id: params[5] as string });
+      return { rows: [], rowCount: 1 };
+    }
+    if (text.startsWith('INSERT INTO entitlements')) {
+      const granted = !state.hasEntitlement;
+      state.hasEntitlement = true;
+      return { rows: [], rowCount: granted ? 1 : 0 };
+    }
+    if (text.startsWith('SELECT COALESCE(SUM(remaining), 0)::int as balance')) {
+      const open = state.lots.filter((lot) => lot.remaining > 0);
+      const expiries = open.map((lot) => lot.expires_at).filter((date): date is Date => date !== null);
+      const rows = [{
+        balance: open.reduce((sum, lot) => sum + lot.remaining, 0),
+        next_expiry_at: expiries.length > 0 ? new Date(Math.min(...expiries.map((date) => date.getTime()))) : null,
+      }];
+      return { rows, rowCount: 1 };
+    }
+    if (text.startsWith('SELECT id, remaining FROM credit_ledger')) {
+      const rows = state.lots.filter((lot) => lot.remaining > 0).map(({ id, remaining }) => ({ id, remaining }));
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('UPDATE credit_ledger SET remaining')) {
+      state.lots.find((lot) => lot.id === params[0])!.remaining -= params[1] as number;
+      return { rows: [], rowCount: 1 };
+    }
+    return { rows: [], rowCount: 1 };
+  };
+
+  return { queries, client: { query } as unknown as PoolClient };
+}
+
+/**
+ * Create a paid credit pack checkout session (mode: payment)
+ * Line items and the discount breakdown are included, so Stripe is not called.
+ */
+function createCreditPackSession(paymentStatus: Stripe.Checkout.Session.PaymentStatus = 'paid'): Stripe.Checkout.Session {
+  const event = createCheckoutCompletedEvent({ customerId: generateCustomerId() });
+  const session = (event.data as any).object as Stripe.Checkout.Session;
+
+  return {
+    ...session,
+    mode: 'payment',
+    subscription: null,
+    payment_status: paymentStatus,
+    amount_total: 1000,
+    currency: 'jpy',
+    payment_intent: 'pi_test_credits',
+    line_items: { object: 'list', data: [{ price: { id: PACK_PRICE_ID } }], has_more: false, url: '' },
+    total_details: { amount_discount: 0, amount_shipping: 0, amount_tax: 0, breakdown: { discounts: [], taxes: [] } },
+  } as unknown as Stripe.Checkout.Session;
+}
+
+/**
+ * Test: paid credit pack checkout opens a lot and a credit-only entitlement
+ */
+async function testCreditPackPurchase(): Promise<void> {
+  const state: CreditState = { planCredits: 1000, lots: [], hasEntitlement: false };
+  const { client, queries } = createStubClient(state);
+  const session = createCreditPackSession();
+
+  console.log('  Verifying: lot of 1000 credits expiring after 90 days, credit-only entitlement');
+
+  await handleCheckoutCompleted(client, session);
+
+  const purchase = queries.find((q) => q.text.startsWith('INSERT INTO credit_ledger'));
+  if (!purchase) {
+    throw new Error('Expected a purchase entry in credit_ledger');
+  }
+  const [userId, productId, credits, expiryDays, planId, sessionId] = purchase.params;
+  if (userId !== MOCK_USER.id || productId !== MOCK_PRODUCTS.basic.product_id || planId !== PACK_PLAN_ID) {
+    throw new Error('Purchase should be credited to the buyer for the pack plan\'s product');
+  }
+  if (credits !== 1000 || expiryDays !== 90 || sessionId !== session.id) {
+    throw new Error(`Expected 1000 credits, 90 days, session ${session.id}, got ${credits}/${expiryDays}/${sessionId}`);
+  }
+  if (!purchase.text.includes(`'purchase', $3, $3`)) {
+    throw new Error('Purchase should open a lot with the full amount remaining');
+  }
+
+  const entitlement = queries.find((q) => q.text.startsWith('INSERT INTO entitlements'));
+  if (!entitlement || entitlement.params[2] !== PACK_PLAN_ID || !entitlement.text.includes(`'active', 0, 0`)) {
+    throw new Error('Expected a credit-only entitlement (usage_limit 0) for the pack plan');
+  }
+  if (queries.some((q) => q.text.startsWith('INSERT INTO subscriptions'))) {
+    throw new Error('Credit pack checkout should not create a subscription');
+  }
+
+  const balance = await getCreditBalance(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id);
+  if (balance.balance !== 1000 || !balance.next_expiry_at) {
+    throw new Error(`Expected a balance of 1000 with an expiry, got ${JSON.stringify(balance)}`);
+  }
+}
+
+/**
+ * Test: redelivered checkout event does not credit the pack twice
+ */
+async function testCreditPackRedelivery(): Promise<void> {
+  const state: CreditState = { planCredits: 1000, lots: [], hasEntitlement: false };
+  const { client } = createStubClient(state);
+  const session = createCreditPackSession();
+
+  console.log('  Verifying: second delivery of the same session adds no credits');
+
+  await handleCheckoutCompleted(client, session);
+  await handleCheckoutCompleted(client, session);
+
+  const balance = await getCreditBalance(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id);
+  if (state.lots.length !== 1 || balance.balance !== 1000) {
+    throw new Error(`Expected one lot of 1000 credits, got ${state.lots.length} lots / ${balance.balance}`);
+  }
+}
+
+/**
+ * Test: unpaid checkout (e.g. bank transfer pending) grants nothing yet
+ */
+async function testUnpaidCreditPack(): Promise<void> {
+  const state: CreditState = { planCredits: 1000, lots: [], hasEntitlement: false };
+  const { client, queries } = createStubClient(state);
+
+  console.log('  Verifying: payment_status unpaid writes no ledger entry');
+
+  await handleCheckoutCompleted(client, createCreditPackSession('unpaid'));
+
+  if (queries.some((q) => q.text.includes('credit_ledger') || q.text.startsWith('INSERT INTO entitlements'))) {
+    throw new Error('Unpaid checkout should not credit the pack');
+  }
+}
+
+/**
+ * Test: paid price that is not a credit pack fails the event
+ */
+async function testNotCreditPack(): Promise<void> {
+  const state: CreditState = { planCredits: null, lots: [], hasEntitlement: false };
+  const { client, queries } = createStubClient(state);
+
+  console.log('  Verifying: plan without metadata.credits is rejected (kept for replay)');
+
+  let error: Error | null = null;
+  try {
+    await handleCheckoutCompleted(client, createCreditPackSession());
+  } catch (err) {
+    error = err as Error;
+  }
+
+  if (!error?.message.includes('is not a credit pack')) {
+    throw new Error(`Expected credit pack error, got: ${error?.message}`);
+  }
+  if (queries.some((q) => q.text.startsWith('INSERT INTO credit_ledger'))) {
+    throw new Error('No credits should be granted for a non-pack plan');
+  }
+}
+
+/**
+ * Test: buyer with an entitlement keeps it
+ */
+async function testExistingEntitlement(): Promise<void> {
+  const state: CreditState = { planCredits: 1000, lots: [], hasEntitlement: true };
+  const { client, queries } = createStubClient(state);
+
+  console.log('  Verifying: credit-only entitlement is not granted over an active one');
+
+  await ensureCreditEntitlement(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, PACK_PLAN_ID);
+
+  const insert = queries.find((q) => q.text.startsWith('INSERT INTO entitlements'));
+  if (!insert?.text.includes(`ON CONFLICT (user_id, product_id) WHERE status IN ('active', 'grace') DO NOTHING`)) {
+    throw new Error('Credit-only entitlement should yield to an active or grace entitlement');
+  }
+  if (insert.params.join(',') !== [MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, PACK_PLAN_ID].join(',')) {
+    throw new Error(`Unexpected entitlement parameters: ${insert.params.join(', ')}`);
+  }
+}
+
+/**
+ * Test: draws spend lots in order and stop when the balance runs out
+ */
+async function testDrawCredits(): Promise<void> {
+  const state: CreditState = {
+    planCredits: null,
+    lots: [
+      { id: 'lot-expiring', remaining: 30, expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000) },
+      { id: 'lot-forever', remaining: 50, expires_at: null },
+    ],
+    hasEntitlement: true,
+  };
+  const { client, queries } = createStubClient(state);
+
+  console.log('  Verifying: 40 credits from two lots, then a draw larger than the balance');
+
+  const first = await drawCredits(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, 'ent-test-001', 40);
+  if (first.drawn !== 40 || first.balance !== 40) {
+    throw new Error(`Expected 40 drawn and 40 left, got ${JSON.stringify(first)}`);
+  }
+  if (state.lots[0]!.remaining !== 0 || state.lots[1]!.remaining !== 40) {
+    throw new Error(`Expected the expiring lot to be spent first, got ${JSON.stringify(state.lots)}`);
+  }
+
+  const entries = queries.filter((q) => q.text.startsWith('INSERT INTO credit_ledger'));
+  if (entries.length !== 2 || entries.some((q) => q.params[4] !== 'ent-test-001')) {
+    throw new Error('Expected one usage entry per lot referencing the entitlement');
+  }
+  if (entries[0]!.params[2] !== -30 || entries[0]!.params[3] !== 'lot-expiring' || entries[1]!.params[2] !== -10) {
+    throw new Error('Usage entries should record the negative amount taken from each lot');
+  }
+
+  const second = await drawCredits(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, 'ent-test-001', 100);
+  if (second.drawn !== 40 || second.balance !== 0) {
+    throw new Error(`Expected only the remaining 40 to be drawn, got ${JSON.stringify(second)}`);
+  }
+
+  const balance = await getCreditBalance(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id);
+  if (balance.balance !== 0 || balance.next_expiry_at !== null) {
+    throw new Error(`Expected an empty balance, got ${JSON.stringify(balance)}`);
+  }
+}
+
+/**
+ * Test: zero draw reads the balance without locking lots
+ */
+async function testZeroDraw(): Promise<void> {
+  const state: CreditState = {
+    planCredits: null,
+    lots: [{ id: 'lot-1', remaining: 25, expires_at: null }],
+    hasEntitlement: true,
+  };
+  const { client, queries } = createStubClient(state);
+
+  console.log('  Verifying: draw of 0 returns the balance only');
+
+  const draw = await drawCredits(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, 'ent-test-001', 0);
+  if (draw.drawn !== 0 || draw.balance !== 25) {
+    throw new Error(`Expected 0 drawn and 25 left, got ${JSON.stringify(draw)}`);
+  }
+  if (queries.some((q) => q.text.includes('FOR UPDATE') || !q.text.startsWith('SELECT'))) {
+    throw new Error('Zero draw should neither lock nor write');
+  }
+}
+
+/**
+ * Run all credit pack tests
+ */
+async function runAllTests(): Promise<void> {
+  console.log('=== Credit Pack Tests ===\n');
+
+  const results: TestResult[] = [];
+
+  results.push(await runTest('Credit pack purchase', testCreditPackPurchase));
+  results.push(await runTest('Credit pack redelivery', testCreditPackRedelivery));
+  results.push(await runTest('Unpaid credit pack', testUnpaidCreditPack));
+  results.push(await runTest('Price is not a credit pack', testNotCreditPack));
+  results.push(await runTest('Existing entitlement kept', testExistingEntitlement));
+  results.push(await runTest('Ledger draws and balance', testDrawCredits));
+  results.push(await runTest('Zero draw', testZeroDraw));
+
+  printResults(results);
+}
+
+export { runAllTests };
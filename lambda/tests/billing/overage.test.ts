@@ -0,0 +1,353 @@
+/**
+ * Overage Tests
+ *
+ * Tests for metered overage billing against a stubbed client and Stripe:
+ * - Default meter usage drawing prepaid credits before accruing overage
+ * - Overage accumulation per billing period
+ * - Flushing accumulated overage to Stripe usage records
+ *
+ * @module tests/billing/overage.test
+ */
+
+import {
+  MOCK_USER,
+  MOCK_PRODUCTS,
+  generateSubscriptionId,
+  runTest,
+  printResults,
+  TestResult,
+} from './test-utils.js';
+import type Stripe from 'stripe';
+import type { Pool, PoolClient } from 'pg';
+import { applyDefaultUsage, calculateOverage } from '../../functions/entitlement/overage.js';
+import { flushOverage, OverageStripeClient } from '../../functions/billing/overage/flush.js';
+
+const METERED_PRICE_ID = 'price_test_basic_metered';
+
+/**
+ * Create entitlement state for a metered plan with a quota of 100
+ */
+function createEntitlement(usageCount: number, meteredPriceId: string | null = METERED_PRICE_ID) {
+  return {
+    entitlement_id: 'ent-test-001',
+    subscription_id: 'sub-internal-001',
+    metered_price_id: meteredPriceId,
+    usage_limit: 100,
+    usage_count: usageCount,
+  };
+}
+
+/**
+ * Create stubbed client holding credit lots and the period's overage
+ * Lots are served in the order given (the query orders by expiry).
+ */
+function createStubClient(lots: Array<{ id: string; remaining: number }>, periodOverage = 0): {
+  client: PoolClient;
+  queries: Array<{ text: string; params: unknown[] }>;
+  lots: Array<{ id: string; remaining: number }>;
+  overage: () => number;
+} {
+  const queries: Array<{ text: string; params: unknown[] }> = [];
+  let overage = periodOverage;
+
+  const query = async (sql: string, params: unknown[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    queries.push({ text, params });
+
+    if (text.startsWith('SELECT id, remaining FROM credit_ledger')) {
+      const rows = lots.filter((lot) => lot.remaining > 0).map((lot) => ({ ...lot }));
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('UPDATE credit_ledger SET remaining')) {
+      const lot = lots.find((l) => l.id === params[0]);
+      lot!.remaining -= params[1] as number;
+      return { rows: [], rowCount: 1 };
+    }
+    if (text.startsWith('INSERT INTO usage_overage')) {
+      overage += params[3] as number;
+      return { rows: [{ overage_quantity: overage }], rowCount: 1 };
+    }
+    return { rows: [], rowCount: 1 };
+  };
+
+  return {
+    queries,
+    lots,
+    overage: () => overage,
+    client: { query } as unknown as PoolClient,
+  };
+}
+
+/**
+ * Create stubbed pool and Stripe client for the overage flush
+ */
+function createFlushStubs(rows: Array<{
+  id: string;
+  stripe_subscription_item_id: string | null;
+  stripe_subscription_id: string;
+  overage_quantity: number;
+  reported_quantity: number;
+}>, itemPrices: Record<string, string>): {
+  db: Pick<Pool, 'query'>;
+  stripe: OverageStripeClient;
+  queries: Array<{ text: string; params: unknown[] }>;
+  usageRecords: Array<{ itemId: string; params: Stripe.SubscriptionItemCreateUsageRecordParams; idempotencyKey?: string }>;
+  listed: string[];
+} {
+  const queries: Array<{ text: string; params: unknown[] }> = [];
+  const usageRecords: Array<{ itemId: string; params: Stripe.SubscriptionItemCreateUsageRecordParams; idempotencyKey?: string }> = [];
+  const listed: string[] = [];
+  const periodStart = new Date('2026-01-01T00:00:00Z');
+
+  const query = async (sql: string, params: unknown[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    queries.push({ text, params });
+
+    if (text.startsWith('SELECT o.id, o.metered_price_id')) {
+      const pending = rows.map((row) => ({ ...row, metered_price_id: METERED_PRICE_ID, period_start: periodStart }));
+      return { rows: pending, rowCount: pending.length };
+    }
+    return { rows: [], rowCount: 1 };
+  };
+
+  return {
+    queries,
+    usageRecords,
+    listed,
+    db: { query } as unknown as Pick<Pool, 'query'>,
+    stripe: {
+      subscriptionItems: {
+        list: async (params) => {
+          listed.push(params.subscription!);
+          const data = Object.entries(itemPrices).map(([id, priceId]) => ({ id, price: { id: priceId } }));
+          return { object: 'list', url: '/v1/subscription_items', data, has_more: false } as unknown as Stripe.ApiList<Stripe.SubscriptionItem>;
+        },
+        createUsageRecord: async (itemId, params, options) => {
+          usageRecords.push({ itemId, params, idempotencyKey: options?.idempotencyKey });
+          return { id: 'mbur_test', quantity: params.quantity } as unknown as Stripe.UsageRecord;
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Test: overage units caused by an increment
+ */
+async function testCalculateOverage(): Promise<void> {
+  console.log('  Verifying: only the part above the limit is overage');
+
+  const cases: Array<[number, number, number, number]> = [
+    [50, 90, 100, 0],
+    [90, 110, 100, 10],
+    [110, 120, 100, 10],
+    [100, 100, 100, 0],
+  ];
+
+  for (const [previous, next, limit, expected] of cases) {
+    const actual = calculateOverage(previous, next, limit);
+    if (actual !== expected) {
+      throw new Error(`${previous} -> ${next} (limit ${limit}) should be ${expected}, got ${actual}`);
+    }
+  }
+}
+
+/**
+ * Test: usage within the quota draws no credits
+ */
+async function testWithinQuota(): Promise<void> {
+  const { client, queries } = createStubClient([{ id: 'lot-1', remaining: 50 }]);
+
+  console.log('  Verifying: usage below the limit only increments usage_count');
+
+  const result = await applyDefaultUsage(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, createEntitlement(40), 10);
+
+  if (result.usage_count !== 50 || result.credits !== null || result.overage !== 0) {
+    throw new Error(`Expected 50 used, no credits, no overage, got ${JSON.stringify(result)}`);
+  }
+  if (queries.some((q) => q.text.includes('credit_ledger'))) {
+    throw new Error('Credit ledger should not be touched within the quota');
+  }
+  const update = queries.find((q) => q.text.startsWith('UPDATE entitlements'));
+  if (!update || update.params[1] !== 50) {
+    throw new Error('Expected usage_count to be updated to 50');
+  }
+}
+
+/**
+ * Test: credits cover usage beyond the quota before overage accrues
+ */
+async function testCreditsBeforeOverage(): Promise<void> {
+  const { client, queries, lots, overage } = createStubClient([
+    { id: 'lot-expiring', remaining: 5 },
+    { id: 'lot-later', remaining: 20 },
+  ]);
+
+  console.log('  Verifying: 15 units beyond the quota are paid from two lots, soonest expiry first');
+
+  const result = await applyDefaultUsage(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, createEntitlement(95), 20);
+
+  if (result.credits?.drawn !== 15 || result.credits.balance !== 10) {
+    throw new Error(`Expected 15 credits drawn and 10 left, got ${JSON.stringify(result.credits)}`);
+  }
+  if (lots[0]!.remaining !== 0 || lots[1]!.remaining !== 10) {
+    throw new Error(`Expected the expiring lot to be spent first, got ${JSON.stringify(lots)}`);
+  }
+  // Credit-paid usage does not count against the quota
+  if (result.usage_count !== 100) {
+    throw new Error(`Expected usage_count to stop at the limit (100), got ${result.usage_count}`);
+  }
+  if (result.overage !== 0 || overage() !== 0) {
+    throw new Error(`Expected no overage while credits last, got ${result.overage}`);
+  }
+
+  const usageEntries = queries.filter((q) => q.text.startsWith('INSERT INTO credit_ledger'));
+  if (usageEntries.length !== 2 || usageEntries[0]!.params[2] !== -5 || usageEntries[1]!.params[2] !== -10) {
+    throw new Error('Expected one usage ledger entry per lot (-5, -10)');
+  }
+  const lastDraw = queries.map((q) => q.text).lastIndexOf(usageEntries[1]!.text);
+  const overageInsert = queries.findIndex((q) => q.text.startsWith('INSERT INTO usage_overage'));
+  if (overageInsert < lastDraw) {
+    throw new Error('Credits should be drawn before overage is recorded');
+  }
+}
+
+/**
+ * Test: usage beyond the credit balance accrues as overage
+ */
+async function testOverageAfterCredits(): Promise<void> {
+  const { client, queries, overage } = createStubClient([{ id: 'lot-1', remaining: 5 }], 7);
+
+  console.log('  Verifying: 5 of 15 units paid from credits, 10 added to the period overage');
+
+  const result = await applyDefaultUsage(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, createEntitlement(100), 15);
+
+  if (result.credits?.drawn !== 5 || result.credits.balance !== 0) {
+    throw new Error(`Expected 5 credits drawn and none left, got ${JSON.stringify(result.credits)}`);
+  }
+  if (result.usage_count !== 110) {
+    throw new Error(`Expected usage_count 110, got ${result.usage_count}`);
+  }
+  const overageInsert = queries.find((q) => q.text.startsWith('INSERT INTO usage_overage'));
+  if (overageInsert?.params[3] !== 10) {
+    throw new Error(`Expected 10 units of new overage, got ${overageInsert?.params[3]}`);
+  }
+  if (result.overage !== 17 || overage() !== 17) {
+    throw new Error(`Expected period overage 17, got ${result.overage}`);
+  }
+}
+
+/**
+ * Test: plans without a metered price do not accrue overage
+ */
+async function testNonMeteredPlan(): Promise<void> {
+  const { client, queries } = createStubClient([]);
+
+  console.log('  Verifying: over-limit usage on a non-metered plan is not billed');
+
+  const result = await applyDefaultUsage(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, createEntitlement(100, null), 10);
+
+  if (result.overage !== null || result.usage_count !== 110) {
+    throw new Error(`Expected 110 used and no overage, got ${JSON.stringify(result)}`);
+  }
+  if (result.credits?.drawn !== 0) {
+    throw new Error('Expected an empty credit draw');
+  }
+  if (queries.some((q) => q.text.startsWith('INSERT INTO usage_overage'))) {
+    throw new Error('Non-metered plans should not write usage_overage');
+  }
+}
+
+/**
+ * Test: flush reports the period total to the metered subscription item
+ */
+async function testFlushReportsOverage(): Promise<void> {
+  const subscriptionId = generateSubscriptionId();
+  const { db, stripe, queries, usageRecords, listed } = createFlushStubs(
+    [{ id: 'ovg-1', stripe_subscription_item_id: null, stripe_subscription_id: subscriptionId, overage_quantity: 42, reported_quantity: 30 }],
+    { si_licensed: MOCK_PRODUCTS.basic.price_id, si_metered: METERED_PRICE_ID }
+  );
+
+  console.log('  Verifying: usage record set to the cumulative overage, then marked reported');
+
+  const result = await flushOverage(db, stripe);
+
+  if (result.pending !== 1 || result.reported !== 1 || result.failed !== 0) {
+    throw new Error(`Expected 1 reported, got ${JSON.stringify(result)}`);
+  }
+  if (listed.join(',') !== subscriptionId) {
+    throw new Error('Expected the subscription items to be listed to find the metered item');
+  }
+
+  const [record] = usageRecords;
+  if (usageRecords.length !== 1 || record!.itemId !== 'si_metered') {
+    throw new Error(`Expected one usage record on si_metered, got ${JSON.stringify(usageRecords)}`);
+  }
+  if (record!.params.quantity !== 42 || record!.params.action !== 'set') {
+    throw new Error('Usage record should set the cumulative period overage');
+  }
+  if (record!.params.timestamp !== Math.floor(Date.parse('2026-01-01T00:00:00Z') / 1000)) {
+    throw new Error('Usage record should be timestamped at the period start');
+  }
+  if (record!.idempotencyKey !== 'overage-ovg-1-42') {
+    throw new Error(`Unexpected idempotency key: ${record!.idempotencyKey}`);
+  }
+
+  const marked = queries.find((q) => q.text.startsWith('UPDATE usage_overage SET reported_quantity'));
+  if (!marked || marked.params[0] !== 42 || marked.params[1] !== 'si_metered' || marked.params[2] !== 'ovg-1') {
+    throw new Error('Expected reported_quantity and the item ID to be stored');
+  }
+}
+
+/**
+ * Test: a failing row is recorded and the rest are still reported
+ */
+async function testFlushFailure(): Promise<void> {
+  const { db, stripe, queries, usageRecords, listed } = createFlushStubs(
+    [
+      { id: 'ovg-missing', stripe_subscription_item_id: null, stripe_subscription_id: generateSubscriptionId(), overage_quantity: 5, reported_quantity: 0 },
+      { id: 'ovg-known', stripe_subscription_item_id: 'si_known', stripe_subscription_id: generateSubscriptionId(), overage_quantity: 8, reported_quantity: 0 },
+    ],
+    { si_licensed: MOCK_PRODUCTS.basic.price_id }
+  );
+
+  console.log('  Verifying: missing metered item sets last_error, stored item ID skips the lookup');
+
+  const result = await flushOverage(db, stripe);
+
+  if (result.reported !== 1 || result.failed !== 1) {
+    throw new Error(`Expected 1 reported and 1 failed, got ${JSON.stringify(result)}`);
+  }
+  if (listed.length !== 1) {
+    throw new Error('Rows with a stored subscription item should not list items');
+  }
+  if (usageRecords.length !== 1 || usageRecords[0]!.itemId !== 'si_known') {
+    throw new Error('Expected only the known item to be reported');
+  }
+
+  const lastError = queries.find((q) => q.text.startsWith('UPDATE usage_overage SET last_error'));
+  if (!lastError || lastError.params[1] !== 'ovg-missing' || !String(lastError.params[0]).includes(METERED_PRICE_ID)) {
+    throw new Error('Expected last_error to be recorded for the failed row');
+  }
+}
+
+/**
+ * Run all overage tests
+ */
+async function runAllTests(): Promise<void> {
+  console.log('=== Overage Tests ===\n');
+
+  const results: TestResult[] = [];
+
+  results.push(await runTest('Overage units per increment', testCalculateOverage));
+  results.push(await runTest('Usage within quota', testWithinQuota));
+  results.push(await runTest('Credits drawn before overage', testCreditsBeforeOverage));
+  results.push(await runTest('Overage after credits run out', testOverageAfterCredits));
+  results.push(await runTest('Non-metered plan', testNonMeteredPlan));
+  results.push(await runTest('Flush reports overage to Stripe', testFlushReportsOverage));
+  results.push(await runTest('Flush failure recorded', testFlushFailure));
+
+  printResults(results);
+}
+
+export { runAllTests };
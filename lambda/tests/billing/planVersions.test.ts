@@ -0,0 +1,359 @@
+/**
+ * Plan Version Migration Tests
+ *
+ * Tests for migrating subscribers between catalog plan versions against a
+ * stubbed database and Stripe client:
+ * - Cohort selection (version, billed statuses, currency)
+ * - Skipped subscriptions and the per-request limit
+ * - Stripe price swap and the subscription / entitlement version updates
+ *
+ * @module tests/billing/planVersions.test
+ */
+
+import {
+  MOCK_USER,
+  MOCK_PRODUCTS,
+  generateSubscriptionId,
+  runTest,
+  printResults,
+  TestResult,
+} from './test-utils.js';
+import type Stripe from 'stripe';
+import type { PoolClient } from 'pg';
+import {
+  CohortMigration,
+  CohortMigrationDatabase,
+  CohortMigrationStripeClient,
+  migrateCohort,
+} from '../../functions/catalog/planVersions.js';
+import type { PlanRow, PlanVersionRow } from '../../functions/catalog/types.js';
+
+const OLD_PRICE_ID = 'price_test_basic_v1';
+const NEW_PRICE_ID = 'price_test_basic_v2';
+
+/**
+ * Cohort subscription row as selected by the migration
+ */
+interface CohortRow {
+  id: string;
+  stripe_subscription_id: string | null;
+  user_id: string;
+  team_id: string | null;
+  status: string;
+  seat_quantity: number | null;
+  current_period_end: Date | null;
+  cancel_at_period_end: boolean;
+  has_scheduled_change: boolean;
+}
+
+/**
+ * Create a cohort subscription that can be migrated
+ */
+function createCohortRow(id: string, overrides: Partial<CohortRow> = {}): CohortRow {
+  return {
+    id,
+    stripe_subscription_id: generateSubscriptionId(),
+    user_id: MOCK_USER.id,
+    team_id: null,
+    status: 'active',
+    seat_quantity: 1,
+    current_period_end: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+    cancel_at_period_end: false,
+    has_scheduled_change: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Create a migration of plan-basic from version 1 (1000 JPY) to version 2 (1200 JPY)
+ */
+function createMigration(limit = 100): CohortMigration {
+  const version = (id: string, number: number, priceId: string, amount: number) => ({
+    id,
+    plan_id: 'plan-basic',
+    version: number,
+    stripe_price_id: priceId,
+    price_amount: amount,
+    currency: 'jpy',
+  } as PlanVersionRow);
+
+  return {
+    plan: {
+      id: 'plan-basic',
+      product_id: MOCK_PRODUCTS.basic.product_id,
+      currency: 'jpy',
+      billing_period: 'monthly',
+      current_version_id: 'version-2',
+    } as PlanRow,
+    from: version('version-1', 1, OLD_PRICE_ID, 1000),
+    to: version('version-2', 2, NEW_PRICE_ID, 1200),
+    currency: 'jpy',
+    fromPrice: { stripe_price_id: OLD_PRICE_ID, price_amount: 1000 },
+    toPrice: { stripe_price_id: NEW_PRICE_ID, price_amount: 1200 },
+    limit,
+  };
+}
+
+/**
+ * Create stubbed database serving a cohort
+ */
+function createStubDatabase(cohort: CohortRow[]): {
+  db: CohortMigrationDatabase;
+  selects: unknown[][];
+  writes: Array<{ text: string; params: unknown[] }>;
+  transactions: () => number;
+} {
+  const selects: unknown[][] = [];
+  const writes: Array<{ text: string; params: unknown[] }> = [];
+  let transactions = 0;
+
+  const client = {
+    query: async (sql: string, params: unknown[] = []) => {
+      writes.push({ text: sql.replace(/\s+/g, ' ').trim(), params });
+      return { rows: [], rowCount: 1 };
+    },
+  } as unknown as PoolClient;
+
+  return {
+    selects,
+    writes,
+    transactions: () => transactions,
+    db: {
+      query: async <T>(_sql: string, params: unknown[] = []) => {
+        selects.push(params);
+        return { rows: cohort as unknown as T[] };
+      },
+      transaction: async <T>(callback: (client: PoolClient) => Promise<T>) => {
+        transactions++;
+        return callback(client);
+      },
+    },
+  };
+}
+
+/**
+ * Create stubbed Stripe client
+ * Subscriptions carry the old base price and an add-on item; missingPrice
+ * subscriptions lack the base price.
+ */
+function createStubStripeClient(missingPrice: string[] = []): {
+  stripe: CohortMigrationStripeClient;
+  updates: Array<{ id: string; params: Stripe.SubscriptionUpdateParams }>;
+} {
+  const updates: Array<{ id: string; params: Stripe.SubscriptionUpdateParams }> = [];
+
+  return {
+    updates,
+    stripe: {
+      subscriptions: {
+        retrieve: async (id) => ({
+          id,
+          items: {
+            data: [
+              { id: `si_addon_${id}`, price: { id: 'price_test_addon' }, quantity: 1 },
+              ...(missingPrice.includes(id) ? [] : [{ id: `si_base_${id}`, price: { id: OLD_PRICE_ID }, quantity: 3 }]),
+            ],
+          },
+        } as unknown as Stripe.Subscription),
+        update: async (id, params) => {
+          updates.push({ id, params });
+          return { id } as Stripe.Subscription;
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Test: dry run reports the cohort without changing anything
+ */
+async function testDryRun(): Promise<void> {
+  const cohort = [
+    createCohortRow('sub-1', { seat_quantity: 3 }),
+    createCohortRow('sub-2', { stripe_subscription_id: null }),
+    createCohortRow('sub-3', { cancel_at_period_end: true }),
+    createCohortRow('sub-4', { has_scheduled_change: true }),
+    createCohortRow('sub-5', { status: 'past_due', seat_quantity: null }),
+  ];
+  const { db, selects, writes, transactions } = createStubDatabase(cohort);
+
+  console.log('  Verifying: 2 migratable, 3 skipped with reasons, revenue change per seat');
+
+  const report = await migrateCohort(db, null, createMigration());
+
+  if (!report.dry_run || report.from_version !== 1 || report.to_version !== 2) {
+    throw new Error(`Expected a dry run from v1 to v2, got ${JSON.stringify(report)}`);
+  }
+  if (report.total !== 5 || report.migrated !== 2 || report.skipped !== 3 || report.failed !== 0) {
+    throw new Error(`Expected 5 total, 2 to migrate, 3 skipped, got ${report.total}/${report.migrated}/${report.skipped}`);
+  }
+
+  const reasons = Object.fromEntries(report.subscriptions.map((s) => [s.subscription_id, s.reason ?? s.action]));
+  const expected = {
+    'sub-1': 'migrate',
+    'sub-2': 'no_stripe_subscription',
+    'sub-3': 'cancel_at_period_end',
+    'sub-4': 'scheduled_plan_change',
+    'sub-5': 'migrate',
+  };
+  if (JSON.stringify(reasons) !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected outcomes: ${JSON.stringify(reasons)}`);
+  }
+
+  // (1200 - 1000) x (3 seats + 1 seat)
+  if (report.revenue_change_per_period !== 800) {
+    throw new Error(`Expected revenue change 800, got ${report.revenue_change_per_period}`);
+  }
+  if (writes.length !== 0 || transactions() !== 0) {
+    throw new Error('Dry run should not write');
+  }
+
+  const [params] = selects;
+  if (selects.length !== 1 || params![0] !== 'version-1' || params![2] !== 'jpy' || params![3] !== 'jpy') {
+    throw new Error(`Cohort should be the old version's subscriptions in JPY, got ${JSON.stringify(params)}`);
+  }
+  if ((params![1] as string[]).join(',') !== 'active,trialing,past_due') {
+    throw new Error('Only billed subscriptions should be selected');
+  }
+}
+
+/**
+ * Test: migration swaps the base price and moves the subscription and its entitlements
+ */
+async function testMigrate(): Promise<void> {
+  const cohort = [createCohortRow('sub-1', { seat_quantity: 3 })];
+  const { db, writes, transactions } = createStubDatabase(cohort);
+  const { stripe, updates } = createStubStripeClient();
+
+  console.log('  Verifying: base item moved to the new price without proration, versions updated');
+
+  const report = await migrateCohort(db, stripe, createMigration());
+
+  if (report.dry_run || report.migrated !== 1 || report.subscriptions[0]!.action !== 'migrated') {
+    throw new Error(`Expected one migrated subscription, got ${JSON.stringify(report.subscriptions)}`);
+  }
+
+  const stripeSubscriptionId = cohort[0]!.stripe_subscription_id!;
+  const [update] = updates;
+  if (updates.length !== 1 || update!.id !== stripeSubscriptionId) {
+    throw new Error('Expected one Stripe subscription update');
+  }
+  const items = update!.params.items!;
+  if (items.length !== 1 || items[0]!.id !== `si_base_${stripeSubscriptionId}` || items[0]!.price !== NEW_PRICE_ID) {
+    throw new Error(`Only the base item should move to the new price, got ${JSON.stringify(items)}`);
+  }
+  if (items[0]!.quantity !== 3 || update!.params.proration_behavior !== 'none') {
+    throw new Error('Seat quantity should be kept and the change applied without proration');
+  }
+
+  if (transactions() !== 1) {
+    throw new Error(`Expected one transaction, got ${transactions()}`);
+  }
+  const [subscriptionUpdate, entitlementUpdate] = writes;
+  if (!subscriptionUpdate?.text.startsWith('UPDATE subscriptions SET plan_version_id') || subscriptionUpdate.params.join(',') !== 'version-2,sub-1') {
+    throw new Error('Subscription should move to the new version');
+  }
+  if (!entitlementUpdate?.text.startsWith('UPDATE entitlements SET plan_version_id') || entitlementUpdate.params.join(',') !== 'version-2,sub-1') {
+    throw new Error('Entitlements of the subscription should move to the new version');
+  }
+  if (!entitlementUpdate.text.includes(`status IN ('active', 'grace', 'suspended')`)) {
+    throw new Error('Ended entitlements should keep their version');
+  }
+}
+
+/**
+ * Test: subscriptions beyond the limit are left for the next run
+ */
+async function testLimit(): Promise<void> {
+  const cohort = [
+    createCohortRow('sub-1'),
+    createCohortRow('sub-2', { cancel_at_period_end: true }),
+    createCohortRow('sub-3'),
+    createCohortRow('sub-4'),
+  ];
+  const { db } = createStubDatabase(cohort);
+  const { stripe, updates } = createStubStripeClient();
+
+  console.log('  Verifying: limit 2 migrates 2, leaves 1 remaining, still reports the skip');
+
+  const report = await migrateCohort(db, stripe, createMigration(2));
+
+  if (report.migrated !== 2 || report.remaining !== 1 || report.skipped !== 1 || updates.length !== 2) {
+    throw new Error(`Expected 2 migrated, 1 remaining, 1 skipped, got ${report.migrated}/${report.remaining}/${report.skipped}`);
+  }
+  if (report.subscriptions.map((s) => s.subscription_id).join(',') !== 'sub-1,sub-2,sub-3') {
+    throw new Error('Remaining subscriptions should not be listed');
+  }
+}
+
+/**
+ * Test: a failed Stripe update leaves the subscription on its version
+ */
+async function testMigrationFailure(): Promise<void> {
+  const cohort = [createCohortRow('sub-1'), createCohortRow('sub-2')];
+  const { db, writes } = createStubDatabase(cohort);
+  const { stripe } = createStubStripeClient([cohort[0]!.stripe_subscription_id!]);
+
+  console.log('  Verifying: subscription without the old price fails, the next is still migrated');
+
+  const report = await migrateCohort(db, stripe, createMigration());
+
+  const [failed, migrated] = report.subscriptions;
+  if (report.failed !== 1 || failed!.action !== 'failed' || !failed!.reason?.includes(OLD_PRICE_ID)) {
+    throw new Error(`Expected sub-1 to fail on the missing price, got ${JSON.stringify(failed)}`);
+  }
+  if (report.migrated !== 1 || migrated!.action !== 'migrated') {
+    throw new Error('Expected sub-2 to be migrated');
+  }
+  if (writes.some((w) => w.params.includes('sub-1'))) {
+    throw new Error('Failed subscription should keep its version');
+  }
+  if (report.revenue_change_per_period !== 200) {
+    throw new Error(`Only migrated seats should count, got ${report.revenue_change_per_period}`);
+  }
+}
+
+/**
+ * Test: migration of another currency selects that currency's subscriptions
+ */
+async function testCurrencyCohort(): Promise<void> {
+  const { db, selects } = createStubDatabase([createCohortRow('sub-usd')]);
+  const migration = {
+    ...createMigration(),
+    currency: 'usd',
+    fromPrice: { stripe_price_id: 'price_test_basic_v1_usd', price_amount: 900 },
+    toPrice: { stripe_price_id: 'price_test_basic_v2_usd', price_amount: 1100 },
+  };
+
+  console.log('  Verifying: USD cohort and USD revenue change');
+
+  const report = await migrateCohort(db, null, migration);
+
+  const [params] = selects;
+  // Subscriptions without a currency are billed in the plan currency
+  if (params![2] !== 'jpy' || params![3] !== 'usd') {
+    throw new Error(`Expected plan currency fallback jpy and cohort currency usd, got ${JSON.stringify(params)}`);
+  }
+  if (report.currency !== 'usd' || report.from_price_amount !== 900 || report.revenue_change_per_period !== 200) {
+    throw new Error(`Expected USD prices in the report, got ${JSON.stringify(report)}`);
+  }
+}
+
+/**
+ * Run all plan version migration tests
+ */
+async function runAllTests(): Promise<void> {
+  console.log('=== Plan Version Migration Tests ===\n');
+
+  const results: TestResult[] = [];
+
+  results.push(await runTest('Dry run report', testDryRun));
+  results.push(await runTest('Migrate subscription', testMigrate));
+  results.push(await runTest('Migration limit', testLimit));
+  results.push(await runTest('Migration failure', testMigrationFailure));
+  results.push(await runTest('Currency cohort', testCurrencyCohort));
+
+  printResults(results);
+}
+
+export { runAllTests };
@@ -0,0 +1,445 @@
+/**
+ * Reconciliation Tests
+ *
+ * Tests for the Stripe ↔ database reconciliation job against a stubbed
+ * Stripe client:
+ * - Paging through Stripe list endpoints
+ * - Detecting missing / drifted customers, subscriptions and entitlements
+ * - Fixability of each discrepancy
+ * - Fix mode through the webhook handlers against a stubbed pool
+ *
+ * @module tests/billing/reconcile.test
+ */
+
+import {
+  MOCK_USER,
+  MOCK_PRODUCTS,
+  generateCustomerId,
+  generateSubscriptionId,
+  runTest,
+  printResults,
+  TestResult,
+} from './test-utils.js';
+import type Stripe from 'stripe';
+import type { Pool } from 'pg';
+import {
+  ReconcileStripeClient,
+  DatabaseState,
+  StripeState,
+  fetchStripeState,
+  diffStripeAndDatabase,
+  isEntitlementInSync,
+  reconcile,
+} from '../../functions/billing/reconcile/reconcile.js';
+
+const PERIOD_END = Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60;
+
+/**
+ * Create mock Stripe subscription
+ */
+function createStripeSubscription(options: {
+  subscriptionId?: string;
+  customerId: string;
+  status?: Stripe.Subscription.Status;
+  priceId?: string;
+  metadata?: Record<string, string>;
+}): Stripe.Subscription {
+  return {
+    id: options.subscriptionId || generateSubscriptionId(),
+    object: 'subscription',
+    customer: options.customerId,
+    status: options.status || 'active',
+    cancel_at_period_end: false,
+    current_period_end: PERIOD_END,
+    metadata: options.metadata || {},
+    items: {
+      object: 'list',
+      data: [{ price: { id: options.priceId || MOCK_PRODUCTS.basic.price_id } }],
+    },
+  } as unknown as Stripe.Subscription;
+}
+
+/**
+ * Create mock Stripe customer
+ */
+function createStripeCustomer(customerId: string, email: string = MOCK_USER.email): Stripe.Customer {
+  return { id: customerId, object: 'customer', email, metadata: {} } as unknown as Stripe.Customer;
+}
+
+/**
+ * Create stubbed Stripe client serving fixed pages
+ */
+function createStubStripeClient(state: StripeState, pageSize: number): {
+  stripe: ReconcileStripeClient;
+  calls: string[];
+} {
+  const calls: string[] = [];
+
+  function page<T extends { id: string }>(name: string, items: T[], startingAfter?: string) {
+    calls.push(`${name}:${startingAfter || 'first'}`);
+    const start = startingAfter ? items.findIndex((item) => item.id === startingAfter) + 1 : 0;
+    const data = items.slice(start, start + pageSize);
+    return Promise.resolve({
+      object: 'list' as const,
+      url: `/v1/${name}`,
+      data,
+      has_more: start + pageSize < items.length,
+    });
+  }
+
+  return {
+    calls,
+    stripe: {
+      customers: {
+        list: (params) => page('customers', state.customers, params?.starting_after),
+      },
+      subscriptions: {
+        list: (params) => page('subscriptions', state.subscriptions, params?.starting_after),
+      },
+    },
+  };
+}
+
+/**
+ * Create database state with one customer and its subscription in sync
+ */
+function createSyncedState(): { stripe: StripeState; db: DatabaseState } {
+  const customerId = generateCustomerId();
+  const subscription = createStripeSubscription({ customerId });
+
+  return {
+    stripe: {
+      customers: [createStripeCustomer(customerId)],
+      subscriptions: [subscription],
+    },
+    db: {
+      customers: [{ user_id: MOCK_USER.id, stripe_customer_id: customerId, email: MOCK_USER.email }],
+      subscriptions: [{
+        id: 'sub-internal-001',
+        user_id: MOCK_USER.id,
+        stripe_subscription_id: subscription.id,
+        stripe_customer_id: customerId,
+        status: 'active',
+        current_period_end: new Date(PERIOD_END * 1000),
+        cancel_at_period_end: false,
+        stripe_price_id: MOCK_PRODUCTS.basic.price_id,
+      }],
+      entitlements: new Map([['sub-internal-001', ['active']]]),
+      planPriceIds: new Set([MOCK_PRODUCTS.basic.price_id, MOCK_PRODUCTS.pro.price_id]),
+    },
+  };
+}
+
+/**
+ * Create stubbed pool serving a database state
+ * Every client shares the query log; failOn makes matching queries throw.
+ */
+function createStubPool(db: DatabaseState, failOn?: RegExp): {
+  pool: Pool;
+  queries: string[];
+  released: () => number;
+} {
+  const queries: string[] = [];
+  let released = 0;
+
+  const query = async (sql: string, params: unknown[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    queries.push(text);
+
+    if (failOn && failOn.test(text)) {
+      throw new Error('connection reset');
+    }
+
+    if (text === 'SELECT user_id, stripe_customer_id, email FROM customers') {
+      return { rows: db.customers, rowCount: db.customers.length };
+    }
+    if (text.startsWith('SELECT s.id, s.user_id, s.stripe_subscription_id')) {
+      return { rows: db.subscriptions, rowCount: db.subscriptions.length };
+    }
+    if (text.startsWith('SELECT subscription_id, status FROM entitlements')) {
+      const rows = [...db.entitlements].flatMap(([subscriptionId, statuses]) =>
+        statuses.map((status) => ({ subscription_id: subscriptionId, status }))
+      );
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('SELECT stripe_price_id FROM plans')) {
+      const rows = [...db.planPriceIds].map((priceId) => ({ stripe_price_id: priceId }));
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('SELECT user_id FROM customers WHERE stripe_customer_id')) {
+      const rows = db.customers.filter((customer) => customer.stripe_customer_id === params[0]);
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('UPDATE subscriptions') || text.startsWith('SELECT s.id, s.plan_id, p.product_id')) {
+      // Stripe subscription ID is the last parameter of both queries
+      const row = db.subscriptions.find((subscription) => subscription.stripe_subscription_id === params[params.length - 1]);
+      const rows = row
+        ? [{ id: row.id, user_id: row.user_id, plan_id: 'plan-basic', product_id: MOCK_PRODUCTS.basic.product_id }]
+        : [];
+      return { rows, rowCount: rows.length };
+    }
+    return { rows: [], rowCount: 1 };
+  };
+
+  return {
+    queries,
+    released: () => released,
+    pool: {
+      connect: async () => ({ query, release: () => { released++; } }),
+    } as unknown as Pool,
+  };
+}
+
+/**
+ * Test: all pages of the Stripe list endpoints are fetched
+ */
+async function testPaging(): Promise<void> {
+  const customerIds = [generateCustomerId(), generateCustomerId(), generateCustomerId()];
+  const state: StripeState = {
+    customers: customerIds.map((id) => createStripeCustomer(id)),
+    subscriptions: customerIds.map((customerId) => createStripeSubscription({ customerId })),
+  };
+  const { stripe, calls } = createStubStripeClient(state, 2);
+
+  console.log('  Verifying: list endpoints are paged with starting_after');
+
+  const fetched = await fetchStripeState(stripe);
+  if (fetched.customers.length !== 3 || fetched.subscriptions.length !== 3) {
+    throw new Error(`Expected 3 customers and 3 subscriptions, got ${fetched.customers.length}/${fetched.subscriptions.length}`);
+  }
+  if (calls.filter((call) => call.startsWith('customers')).length !== 2) {
+    throw new Error(`Expected 2 customer pages, got calls: ${calls.join(', ')}`);
+  }
+}
+
+/**
+ * Test: no discrepancies when Stripe and the database agree
+ */
+async function testInSync(): Promise<void> {
+  const { stripe, db } = createSyncedState();
+
+  console.log('  Verifying: synced state produces an empty report');
+
+  const discrepancies = diffStripeAndDatabase(stripe, db);
+  if (discrepancies.length !== 0) {
+    throw new Error(`Expected no discrepancies, got: ${discrepancies.map((d) => d.issue).join(', ')}`);
+  }
+}
+
+/**
+ * Test: subscription without product metadata is still detected as ours
+ */
+async function testMissingSubscription(): Promise<void> {
+  const { stripe, db } = createSyncedState();
+  const customerId = db.customers[0]!.stripe_customer_id;
+  const skipped = createStripeSubscription({ customerId, priceId: MOCK_PRODUCTS.pro.price_id });
+  const foreign = createStripeSubscription({ customerId, priceId: 'price_other_service' });
+  stripe.subscriptions.push(skipped, foreign);
+
+  console.log('  Verifying: subscription missed by the webhook is reported as fixable');
+
+  const discrepancies = diffStripeAndDatabase(stripe, db);
+  if (discrepancies.length !== 1) {
+    throw new Error(`Expected 1 discrepancy, got: ${discrepancies.map((d) => d.issue).join(', ')}`);
+  }
+  const [missing] = discrepancies;
+  if (missing!.issue !== 'subscription_missing' || missing!.stripe_subscription_id !== skipped.id) {
+    throw new Error(`Expected subscription_missing for ${skipped.id}`);
+  }
+  if (!missing!.fixable || missing!.user_id !== MOCK_USER.id) {
+    throw new Error('Missing subscription of a known customer should be fixable');
+  }
+}
+
+/**
+ * Test: status drift is reported for both subscription and entitlement
+ */
+async function testStatusDrift(): Promise<void> {
+  const { stripe, db } = createSyncedState();
+  stripe.subscriptions[0]!.status = 'canceled';
+
+  console.log('  Verifying: canceled in Stripe but active in database');
+
+  const issues = diffStripeAndDatabase(stripe, db).map((d) => d.issue).sort();
+  if (issues.join(',') !== 'entitlement_mismatch,subscription_mismatch') {
+    throw new Error(`Unexpected issues: ${issues.join(', ')}`);
+  }
+}
+
+/**
+ * Test: customer drift and customers that cannot be mapped to a user
+ */
+async function testCustomerDrift(): Promise<void> {
+  const { stripe, db } = createSyncedState();
+  stripe.customers[0]!.email = 'changed@example.com';
+
+  const unknownCustomerId = generateCustomerId();
+  stripe.customers.push(createStripeCustomer(unknownCustomerId));
+  stripe.subscriptions.push(createStripeSubscription({ customerId: unknownCustomerId }));
+
+  console.log('  Verifying: email drift is fixable, customer without user_id is not');
+
+  const discrepancies = diffStripeAndDatabase(stripe, db);
+  const emailMismatch = discrepancies.find((d) => d.issue === 'customer_email_mismatch');
+  const missingCustomer = discrepancies.find((d) => d.issue === 'customer_missing');
+  const missingSubscription = discrepancies.find((d) => d.issue === 'subscription_missing');
+
+  if (!emailMismatch?.fixable) {
+    throw new Error('Expected fixable customer_email_mismatch');
+  }
+  if (!missingCustomer || missingCustomer.fixable) {
+    throw new Error('Customer without user_id metadata should not be fixable');
+  }
+  if (!missingSubscription || missingSubscription.fixable) {
+    throw new Error('Subscription of an unmapped customer should not be fixable');
+  }
+}
+
+/**
+ * Test: fix mode applies the webhook handlers, one transaction per fix
+ */
+async function testFixMode(): Promise<void> {
+  const { stripe: stripeState, db } = createSyncedState();
+  stripeState.subscriptions[0]!.status = 'canceled';
+  stripeState.customers[0]!.email = 'changed@example.com';
+  const { stripe } = createStubStripeClient(stripeState, 100);
+  const { pool, queries, released } = createStubPool(db);
+
+  console.log('  Verifying: drifted customer and canceled subscription are corrected');
+
+  const report = await reconcile(pool, stripe, { fix: true });
+
+  if (report.mode !== 'fix') {
+    throw new Error(`Expected fix mode, got ${report.mode}`);
+  }
+  if (report.fixed !== 3 || report.fix_failed !== 0) {
+    throw new Error(`Expected 3 fixed and 0 failed, got ${report.fixed}/${report.fix_failed}`);
+  }
+  if (report.discrepancies.some((d) => d.fix_status !== 'fixed')) {
+    throw new Error('Every discrepancy should be marked fixed');
+  }
+
+  const customerUpsert = queries.findIndex((q) => q.startsWith('INSERT INTO customers'));
+  const subscriptionCancel = queries.findIndex((q) => q.startsWith('UPDATE subscriptions') && q.includes(`status = 'canceled'`));
+  const entitlementRevoke = queries.findIndex((q) => q.startsWith('UPDATE entitlements') && q.includes(`status = 'revoked'`));
+  if (customerUpsert === -1 || subscriptionCancel === -1 || entitlementRevoke === -1) {
+    throw new Error('Expected customer upsert, subscription cancel and entitlement revoke');
+  }
+  if (customerUpsert > subscriptionCancel) {
+    throw new Error('Customers should be fixed before subscriptions');
+  }
+
+  // Customer fix and subscription fix run in separate transactions
+  const begins = queries.filter((q) => q === 'BEGIN').length;
+  const commits = queries.filter((q) => q === 'COMMIT').length;
+  if (begins !== 2 || commits !== 2) {
+    throw new Error(`Expected 2 committed transactions, got ${begins} BEGIN / ${commits} COMMIT`);
+  }
+  if (queries[subscriptionCancel - 2] !== 'BEGIN' || queries[entitlementRevoke + 1] !== 'COMMIT') {
+    throw new Error('Subscription fix should run inside its own transaction');
+  }
+  if (released() !== 3) {
+    throw new Error(`Expected every client to be released, got ${released()}`);
+  }
+}
+
+/**
+ * Test: a failing fix is rolled back and reported without stopping the run
+ */
+async function testFixModeFailure(): Promise<void> {
+  const { stripe: stripeState, db } = createSyncedState();
+  stripeState.subscriptions[0]!.status = 'canceled';
+  const { stripe } = createStubStripeClient(stripeState, 100);
+  const { pool, queries, released } = createStubPool(db, /^UPDATE subscriptions/);
+
+  console.log('  Verifying: failed fix rolls back and marks its discrepancies');
+
+  const report = await reconcile(pool, stripe, { fix: true });
+
+  if (report.fixed !== 0 || report.fix_failed !== 2) {
+    throw new Error(`Expected 0 fixed and 2 failed, got ${report.fixed}/${report.fix_failed}`);
+  }
+  for (const discrepancy of report.discrepancies) {
+    if (discrepancy.fix_status !== 'failed' || !discrepancy.fix_error?.includes('connection reset')) {
+      throw new Error(`Expected ${discrepancy.issue} to be failed with the error, got ${discrepancy.fix_status}`);
+    }
+  }
+  if (!queries.includes('ROLLBACK') || queries.includes('COMMIT')) {
+    throw new Error('Failed fix should be rolled back, not committed');
+  }
+  if (released() !== 2) {
+    throw new Error(`Expected every client to be released, got ${released()}`);
+  }
+}
+
+/**
+ * Test: report mode does not write
+ */
+async function testReportMode(): Promise<void> {
+  const { stripe: stripeState, db } = createSyncedState();
+  stripeState.subscriptions[0]!.status = 'canceled';
+  const { stripe } = createStubStripeClient(stripeState, 100);
+  const { pool, queries } = createStubPool(db);
+
+  console.log('  Verifying: report mode only reads');
+
+  const report = await reconcile(pool, stripe);
+
+  if (report.mode !== 'report' || report.discrepancies.length !== 2) {
+    throw new Error(`Expected 2 discrepancies in report mode, got ${report.discrepancies.length}`);
+  }
+  if (queries.some((q) => !q.startsWith('SELECT'))) {
+    throw new Error(`Report mode should not write: ${queries.filter((q) => !q.startsWith('SELECT')).join('; ')}`);
+  }
+  if (report.discrepancies.some((d) => d.fix_status !== undefined)) {
+    throw new Error('Report mode should not set fix_status');
+  }
+}
+
+/**
+ * Test: entitlement status expected for each Stripe status
+ */
+async function testEntitlementSync(): Promise<void> {
+  console.log('  Verifying: entitlement status rules');
+
+  const cases: Array<[string, string[], boolean]> = [
+    ['active', ['active'], true],
+    ['trialing', [], false],
+    ['past_due', ['grace'], true],
+    ['past_due', ['suspended'], true],
+    ['past_due', ['active'], false],
+    ['unpaid', ['grace'], false],
+    ['paused', ['suspended'], true],
+    ['canceled', ['suspended'], false],
+    ['canceled', [], true],
+  ];
+
+  for (const [status, entitlements, expected] of cases) {
+    if (isEntitlementInSync(status, entitlements) !== expected) {
+      throw new Error(`${status} with [${entitlements.join(', ')}] should be ${expected ? 'in sync' : 'out of sync'}`);
+    }
+  }
+}
+
+/**
+ * Run all reconciliation tests
+ */
+async function runAllTests(): Promise<void> {
+  console.log('=== Reconciliation Tests ===\n');
+
+  const results: TestResult[] = [];
+
+  results.push(await runTest('Stripe list paging', testPaging));
+  results.push(await runTest('In sync - empty report', testInSync));
+  results.push(await runTest('Subscription missed by webhook', testMissingSubscription));
+  results.push(await runTest('Subscription and entitlement status drift', testStatusDrift));
+  results.push(await runTest('Customer drift', testCustomerDrift));
+  results.push(await runTest('Entitlement status rules', testEntitlementSync));
+  results.push(await runTest('Report mode is read-only', testReportMode));
+  results.push(await runTest('Fix mode applies webhook handlers', testFixMode));
+  results.push(await runTest('Fix mode rollback on failure', testFixModeFailure));
+
+  printResults(results);
+}
+
+export { runAllTests };
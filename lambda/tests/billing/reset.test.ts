@@ -0,0 +1,237 @@
+/**
+ * Usage Reset Tests
+ *
+ * Tests for the usage reset worker against a stubbed client:
+ * - Snapshotting the finished period into usage_period_history
+ * - Zeroing the default meter and billing_period meters
+ * - Choosing the next reset time (subscription period or default period)
+ *
+ * @module tests/billing/reset.test
+ */
+
+import {
+  MOCK_USER,
+  MOCK_PRODUCTS,
+  runTest,
+  printResults,
+  TestResult,
+} from './test-utils.js';
+import type { PoolClient } from 'pg';
+import { calculateNextResetAt, resetEntitlement } from '../../functions/entitlement/reset/handler.js';
+import { DEFAULT_RESET_PERIOD_DAYS, DEFAULT_USAGE_TYPE } from '../../functions/entitlement/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Create a locked entitlement row whose period ended an hour ago
+ */
+function createDueEntitlement(currentPeriodEnd: Date | null) {
+  return {
+    entitlement_id: 'ent-test-001',
+    user_id: MOCK_USER.id,
+    product_id: MOCK_PRODUCTS.basic.product_id,
+    plan_id: 'plan-basic',
+    subscription_id: currentPeriodEnd ? 'sub-internal-001' : null,
+    usage_count: 87,
+    usage_limit: 100,
+    usage_reset_at: new Date(Date.now() - 60 * 60 * 1000),
+    created_at: new Date(Date.now() - 60 * DAY_MS),
+    current_period_end: currentPeriodEnd,
+    plan_meters: { tokens: { limit: 5000 }, exports: { limit: 10, reset: 'daily' } },
+    addon_limits: { meters: { tokens: 1000 } },
+  };
+}
+
+/**
+ * Create stubbed client serving the locked entitlement (or none)
+ */
+function createStubClient(entitlement: ReturnType<typeof createDueEntitlement> | null): {
+  client: PoolClient;
+  queries: Array<{ text: string; params: unknown[] }>;
+} {
+  const queries: Array<{ text: string; params: unknown[] }> = [];
+
+  const query = async (sql: string, params: unknown[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    queries.push({ text, params });
+
+    if (text.startsWith('SELECT e.entitlement_id')) {
+      const rows = entitlement ? [entitlement] : [];
+      return { rows, rowCount: rows.length };
+    }
+    return { rows: [], rowCount: 1 };
+  };
+
+  return { queries, client: { query } as unknown as PoolClient };
+}
+
+/**
+ * Test: next reset follows the subscription period when it is renewed
+ */
+async function testNextResetFromSubscription(): Promise<void> {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const periodEnd = new Date('2026-02-28T12:00:00Z');
+  const currentPeriodEnd = new Date('2026-03-28T12:00:00Z');
+
+  console.log('  Verifying: renewed subscription period end is the next reset');
+
+  const next = calculateNextResetAt(periodEnd, currentPeriodEnd, now);
+  if (next.getTime() !== currentPeriodEnd.getTime()) {
+    throw new Error(`Expected ${currentPeriodEnd.toISOString()}, got ${next.toISOString()}`);
+  }
+}
+
+/**
+ * Test: default period when there is no renewed subscription period
+ */
+async function testNextResetDefaultPeriod(): Promise<void> {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const periodEnd = new Date('2026-02-28T12:00:00Z');
+
+  console.log(`  Verifying: finished period advances by ${DEFAULT_RESET_PERIOD_DAYS} days`);
+
+  const expected = periodEnd.getTime() + DEFAULT_RESET_PERIOD_DAYS * DAY_MS;
+  const withoutSubscription = calculateNextResetAt(periodEnd, null, now);
+  if (withoutSubscription.getTime() !== expected) {
+    throw new Error(`Expected ${new Date(expected).toISOString()}, got ${withoutSubscription.toISOString()}`);
+  }
+
+  // Subscription not renewed yet: its period end has already passed
+  const notRenewed = calculateNextResetAt(periodEnd, periodEnd, now);
+  if (notRenewed.getTime() !== expected) {
+    throw new Error(`Expected the default period for a stale subscription, got ${notRenewed.toISOString()}`);
+  }
+}
+
+/**
+ * Test: missed periods are skipped so the next reset is in the future
+ */
+async function testNextResetSkipsMissedPeriods(): Promise<void> {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const periodEnd = new Date('2026-01-01T00:00:00Z');
+
+  console.log('  Verifying: a period missed by several runs lands after now');
+
+  const next = calculateNextResetAt(periodEnd, null, now);
+  const expected = periodEnd.getTime() + 2 * DEFAULT_RESET_PERIOD_DAYS * DAY_MS;
+  if (next.getTime() !== expected || next <= now) {
+    throw new Error(`Expected ${new Date(expected).toISOString()}, got ${next.toISOString()}`);
+  }
+}
+
+/**
+ * Test: finished period is snapshotted, then the counters are zeroed
+ */
+async function testResetSnapshotsAndZeroes(): Promise<void> {
+  const currentPeriodEnd = new Date(Date.now() + 29 * DAY_MS);
+  const entitlement = createDueEntitlement(currentPeriodEnd);
+  const { client, queries } = createStubClient(entitlement);
+
+  console.log('  Verifying: history rows for the default and billing_period meters, then zeroed counters');
+
+  const nextResetAt = await resetEntitlement(client, entitlement.entitlement_id);
+
+  if (nextResetAt?.getTime() !== currentPeriodEnd.getTime()) {
+    throw new Error(`Expected next reset at the subscription period end, got ${nextResetAt?.toISOString()}`);
+  }
+
+  const [defaultSnapshot, meterSnapshot] = queries.filter((q) => q.text.startsWith('INSERT INTO usage_period_history'));
+  if (!defaultSnapshot || !meterSnapshot) {
+    throw new Error('Expected two usage_period_history snapshots');
+  }
+  const [, userId, productId, planId, subscriptionId, usageType, usageCount, usageLimit, createdAt, periodEnd] = defaultSnapshot.params;
+  if (userId !== MOCK_USER.id || productId !== MOCK_PRODUCTS.basic.product_id || planId !== 'plan-basic' || subscriptionId !== 'sub-internal-001') {
+    throw new Error('Default meter snapshot should carry the entitlement owner, plan and subscription');
+  }
+  if (usageType !== DEFAULT_USAGE_TYPE || usageCount !== 87 || usageLimit !== 100) {
+    throw new Error(`Expected ${DEFAULT_USAGE_TYPE} 87/100 in the snapshot, got ${usageType} ${usageCount}/${usageLimit}`);
+  }
+  if (createdAt !== entitlement.created_at || periodEnd !== entitlement.usage_reset_at) {
+    throw new Error('First period should run from the entitlement creation to the old usage_reset_at');
+  }
+
+  if (!meterSnapshot.text.includes(`m.reset_schedule = 'billing_period'`)) {
+    throw new Error('Only billing_period meters should be snapshotted');
+  }
+  const limits = JSON.parse(meterSnapshot.params[5] as string) as Record<string, { limit: number }>;
+  if (limits['tokens']?.limit !== 6000) {
+    throw new Error(`Meter snapshot should include add-on limits, got ${JSON.stringify(limits)}`);
+  }
+  if (meterSnapshot.params[6] !== entitlement.usage_reset_at) {
+    throw new Error('Meter snapshot should close the same period');
+  }
+
+  const meterReset = queries.findIndex((q) => q.text.startsWith('UPDATE entitlement_meters'));
+  const entitlementReset = queries.findIndex((q) => q.text.startsWith('UPDATE entitlements'));
+  const lastSnapshot = queries.indexOf(meterSnapshot);
+  if (meterReset < lastSnapshot || entitlementReset < lastSnapshot) {
+    throw new Error('Counters should be zeroed after the snapshots');
+  }
+  if (!queries[meterReset]!.text.includes(`reset_schedule = 'billing_period'`)) {
+    throw new Error('Only billing_period meter counters should be zeroed');
+  }
+  for (const index of [meterReset, entitlementReset]) {
+    if (!queries[index]!.text.includes('usage_count = 0') || queries[index]!.params[1] !== nextResetAt) {
+      throw new Error('Counters should be zeroed with the next reset time');
+    }
+  }
+}
+
+/**
+ * Test: entitlement without a subscription uses the default period
+ */
+async function testResetWithoutSubscription(): Promise<void> {
+  const entitlement = createDueEntitlement(null);
+  const { client, queries } = createStubClient(entitlement);
+
+  console.log(`  Verifying: usage_reset_at advances by ${DEFAULT_RESET_PERIOD_DAYS} days`);
+
+  const nextResetAt = await resetEntitlement(client, entitlement.entitlement_id);
+
+  const expected = entitlement.usage_reset_at.getTime() + DEFAULT_RESET_PERIOD_DAYS * DAY_MS;
+  if (nextResetAt?.getTime() !== expected) {
+    throw new Error(`Expected ${new Date(expected).toISOString()}, got ${nextResetAt?.toISOString()}`);
+  }
+  const update = queries.find((q) => q.text.startsWith('UPDATE entitlements'));
+  if (update?.params[1] !== nextResetAt) {
+    throw new Error('Expected usage_reset_at to be advanced by the default period');
+  }
+}
+
+/**
+ * Test: entitlement already reset (or locked) by another run is skipped
+ */
+async function testResetAlreadyDone(): Promise<void> {
+  const { client, queries } = createStubClient(null);
+
+  console.log('  Verifying: no writes when the locked re-check finds nothing');
+
+  const nextResetAt = await resetEntitlement(client, 'ent-test-001');
+
+  if (nextResetAt !== null) {
+    throw new Error(`Expected null, got ${nextResetAt}`);
+  }
+  if (queries.length !== 1 || !queries[0]!.text.includes('FOR UPDATE OF e SKIP LOCKED')) {
+    throw new Error(`Expected only the locked re-check, got ${queries.length} queries`);
+  }
+}
+
+/**
+ * Run all usage reset tests
+ */
+async function runAllTests(): Promise<void> {
+  console.log('=== Usage Reset Tests ===\n');
+
+  const results: TestResult[] = [];
+
+  results.push(await runTest('Next reset from subscription period', testNextResetFromSubscription));
+  results.push(await runTest('Next reset by default period', testNextResetDefaultPeriod));
+  results.push(await runTest('Next reset skips missed periods', testNextResetSkipsMissedPeriods));
+  results.push(await runTest('Snapshot and zero counters', testResetSnapshotsAndZeroes));
+  results.push(await runTest('Reset without subscription', testResetWithoutSubscription));
+  results.push(await runTest('Already reset by another run', testResetAlreadyDone));
+
+  printResults(results);
+}
+
+export { runAllTests };
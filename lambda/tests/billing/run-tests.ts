@@ -8,6 +8,12 @@
  *   npx ts-node tests/billing/run-tests.ts --checkout
  *   npx ts-node tests/billing/run-tests.ts --webhook
  *   npx ts-node tests/billing/run-tests.ts --subscription
+ *   npx ts-node tests/billing/run-tests.ts --reconcile
+ *   npx ts-node tests/billing/run-tests.ts --overage
+ *   npx ts-node tests/billing/run-tests.ts --reset
+ *   npx ts-node tests/billing/run-tests.ts --credits
+ *   npx ts-node tests/billing/run-tests.ts --trials
+ *   npx ts-node tests/billing/run-tests.ts --plan-versions
  *
  * Environment Variables:
  *   STRIPE_SECRET_KEY     - Stripe test mode API key
@@ -20,8 +26,14 @@
 import { runAllTests as runCheckoutTests } from './checkout.test.js';
 import { runAllTests as runWebhookTests } from './webhook.test.js';
 import { runAllTests as runSubscriptionTests } from './subscription.test.js';
+import { runAllTests as runReconcileTests } from './reconcile.test.js';
+import { runAllTests as runOverageTests } from './overage.test.js';
+import { runAllTests as runResetTests } from './reset.test.js';
+import { runAllTests as runCreditsTests } from './credits.test.js';
+import { runAllTests as runTrialsTests } from './trials.test.js';
+import { runAllTests as runPlanVersionsTests } from './planVersions.test.js';
 
-type TestSuite = 'checkout' | 'webhook' | 'subscription' | 'all';
+type TestSuite = 'checkout' | 'webhook' | 'subscription' | 'reconcile' | 'overage' | 'reset' | 'credits' | 'trials' | 'plan-versions' | 'all';
 
 /**
  * Parse command line arguments
@@ -49,6 +61,30 @@ function parseArgs(): TestSuite[] {
       case '-s':
         suites.push('subscription');
         break;
+      case '--reconcile':
+      case '-r':
+        suites.push('reconcile');
+        break;
+      case '--overage':
+      case '-o':
+        suites.push('overage');
+        break;
+      case '--reset':
+      case '-u':
+        suites.push('reset');
+        break;
+      case '--credits':
+      case '-p':
+        suites.push('credits');
+        break;
+      case '--trials':
+      case '-t':
+        suites.push('trials');
+        break;
+      case '--plan-versions':
+      case '-v':
+        suites.push('plan-versions');
+        break;
       case '--all':
       case '-a':
         suites.push('all');
@@ -82,6 +118,12 @@ Options:
   --checkout, -c       Run checkout tests only
   --webhook, -w        Run webhook tests only
   --subscription, -s   Run subscription tests only
+  --reconcile, -r      Run reconciliation tests only
+  --overage, -o        Run overage tests only
+  --reset, -u          Run usage reset tests only
+  --credits, -p        Run credit pack tests only
+  --trials, -t         Run trial tests only
+  --plan-versions, -v  Run plan version migration tests only
   --all, -a            Run all tests (default)
   --help, -h           Show this help message
 
@@ -189,6 +231,36 @@ async function main(): Promise<void> {
       await runSubscriptionTests();
     }
 
+    if (runAll || suites.includes('reconcile')) {
+      console.log('\n');
+      await runReconcileTests();
+    }
+
+    if (runAll || suites.includes('overage')) {
+      console.log('\n');
+      await runOverageTests();
+    }
+
+    if (runAll || suites.includes('reset')) {
+      console.log('\n');
+      await runResetTests();
+    }
+
+    if (runAll || suites.includes('credits')) {
+      console.log('\n');
+      await runCreditsTests();
+    }
+
+    if (runAll || suites.includes('trials')) {
+      console.log('\n');
+      await runTrialsTests();
+    }
+
+    if (runAll || suites.includes('plan-versions')) {
+      console.log('\n');
+      await runPlanVersionsTests();
+    }
+
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
     console.log(`\n=== All tests completed in ${duration}s ===\n`);
   } catch (error) {
@@ -6,8 +6,11 @@
  * - Get subscription details
  * - Cancel subscription
  * - Resume subscription
- * - Update plan
+ * - Update plan (immediate / period end)
+ * - Plan change helpers (preview, period-end schedule)
  * - Customer portal
+ * - Invoice listing (mapping, paging, ownership)
+ * - Qualified invoices (tax per rate, issuance, 409 cases)
  *
  * @module tests/billing/subscription.test
  */
@@ -24,6 +27,29 @@ import {
   parseBody,
 } from './test-utils.js';
 import type { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import type Stripe from 'stripe';
+import {
+  findBaseItem,
+  previewPlanChangeInvoice,
+  schedulePlanChange,
+  toPreviewLine,
+} from '../../functions/billing/subscription/planChange.js';
+import {
+  fetchInvoicePage,
+  listInvoices,
+  retrieveCustomerInvoice,
+} from '../../functions/billing/subscription/invoices.js';
+import {
+  computeTaxBreakdown,
+  issueQualifiedInvoice,
+  QualifiedInvoiceError,
+} from '../../functions/billing/invoice/qualifiedInvoice.js';
+import { renderQualifiedInvoicePdf } from '../../functions/billing/invoice/pdf.js';
+import type { QualifiedInvoiceDocument } from '../../functions/billing/types.js';
+import type { PoolClient } from 'pg';
+
+const PERIOD_START = Math.floor(Date.now() / 1000);
+const PERIOD_END = PERIOD_START + 30 * 24 * 60 * 60;
 
 /**
  * Create mock API Gateway event
@@ -234,6 +260,206 @@ async function testUpdatePlanMissingPlanId(): Promise<void> {
   // Expected: 400 "Missing new_plan_id"
 }
 
+/**
+ * Create mock Stripe subscription with a base plan, an add-on and a metered item
+ */
+function createPlanChangeSubscription(schedule: string | null = null): Stripe.Subscription {
+  return {
+    id: generateSubscriptionId(),
+    object: 'subscription',
+    customer: generateCustomerId(),
+    status: 'active',
+    schedule,
+    current_period_start: PERIOD_START,
+    current_period_end: PERIOD_END,
+    items: {
+      object: 'list',
+      data: [
+        { id: 'si_addon', quantity: 3, price: { id: 'price_addon', recurring: { usage_type: 'licensed' } } },
+        { id: 'si_base', quantity: 1, price: { id: MOCK_PRODUCTS.basic.price_id, recurring: { usage_type: 'licensed' } } },
+        { id: 'si_metered', price: { id: 'price_metered', recurring: { usage_type: 'metered' } } },
+      ],
+    },
+  } as unknown as Stripe.Subscription;
+}
+
+/**
+ * Create stubbed Stripe client recording upcoming invoice and schedule calls
+ */
+function createPlanChangeStripe(): { stripe: Stripe; calls: Array<{ method: string; params: any }> } {
+  const calls: Array<{ method: string; params: any }> = [];
+  const schedule = (id: string) => ({ id, object: 'subscription_schedule', current_phase: { start_date: PERIOD_START - 60 } });
+
+  const stripe = {
+    invoices: {
+      retrieveUpcoming: async (params: any) => {
+        calls.push({ method: 'invoices.retrieveUpcoming', params });
+        return { object: 'invoice', lines: { data: [] } };
+      },
+    },
+    subscriptionSchedules: {
+      create: async (params: any) => {
+        calls.push({ method: 'subscriptionSchedules.create', params });
+        return schedule('sub_sched_new');
+      },
+      retrieve: async (id: string) => {
+        calls.push({ method: 'subscriptionSchedules.retrieve', params: id });
+        return schedule(id);
+      },
+      update: async (id: string, params: any) => {
+        calls.push({ method: 'subscriptionSchedules.update', params: { id, ...params } });
+        return { ...schedule(id), ...params };
+      },
+    },
+  } as unknown as Stripe;
+
+  return { stripe, calls };
+}
+
+/**
+ * Test: Base plan item of a subscription
+ */
+async function testFindBaseItem(): Promise<void> {
+  const subscription = createPlanChangeSubscription();
+
+  console.log('  Verifying: base item is found by the current price, first item otherwise');
+
+  const baseItem = findBaseItem(subscription, MOCK_PRODUCTS.basic.price_id);
+  if (baseItem?.id !== 'si_base') {
+    throw new Error(`Expected si_base, got ${baseItem?.id}`);
+  }
+
+  const fallback = findBaseItem(subscription, null);
+  if (fallback?.id !== 'si_addon') {
+    throw new Error(`Expected the first item as fallback, got ${fallback?.id}`);
+  }
+}
+
+/**
+ * Test: Preview a plan change
+ */
+async function testPreviewPlanChange(): Promise<void> {
+  const subscription = createPlanChangeSubscription();
+  const baseItem = findBaseItem(subscription, MOCK_PRODUCTS.basic.price_id)!;
+  const { stripe, calls } = createPlanChangeStripe();
+
+  console.log('  Verifying: upcoming invoice swaps only the base item');
+
+  await previewPlanChangeInvoice(stripe, subscription, baseItem, MOCK_PRODUCTS.pro.price_id, 'immediate', 'always_invoice');
+  await previewPlanChangeInvoice(stripe, subscription, baseItem, MOCK_PRODUCTS.pro.price_id, 'period_end', 'always_invoice');
+
+  const [immediate, periodEnd] = calls.map((call) => call.params);
+  if (calls.some((call) => call.method !== 'invoices.retrieveUpcoming')) {
+    throw new Error(`Preview should not change anything, got: ${calls.map((call) => call.method).join(', ')}`);
+  }
+
+  const items = JSON.stringify(immediate.subscription_items);
+  if (items !== JSON.stringify([{ id: 'si_base', price: MOCK_PRODUCTS.pro.price_id, quantity: 1 }])) {
+    throw new Error(`Unexpected subscription_items: ${items}`);
+  }
+  if (immediate.customer !== subscription.customer || immediate.subscription !== subscription.id) {
+    throw new Error('Preview should target the subscription and its customer');
+  }
+  if (immediate.subscription_proration_behavior !== 'always_invoice' || !immediate.subscription_proration_date) {
+    throw new Error('Immediate preview should prorate as of now');
+  }
+  if (periodEnd.subscription_proration_behavior !== 'none' || 'subscription_proration_date' in periodEnd) {
+    throw new Error('Period-end preview should not prorate');
+  }
+}
+
+/**
+ * Test: Upcoming invoice line in the preview response
+ */
+async function testPreviewLine(): Promise<void> {
+  const line = {
+    description: 'Remaining time on Pro Plan',
+    amount: 1500,
+    proration: true,
+    period: { start: PERIOD_START, end: PERIOD_END },
+  } as Stripe.InvoiceLineItem;
+
+  console.log('  Verifying: preview line carries amount, proration and ISO period');
+
+  const previewLine = toPreviewLine(line);
+  if (previewLine.amount !== 1500 || !previewLine.proration || previewLine.description !== line.description) {
+    throw new Error(`Unexpected preview line: ${JSON.stringify(previewLine)}`);
+  }
+  if (previewLine.period_end !== new Date(PERIOD_END * 1000).toISOString()) {
+    throw new Error(`Unexpected period_end: ${previewLine.period_end}`);
+  }
+}
+
+/**
+ * Test: Schedule a plan change for the end of the period
+ */
+async function testUpdatePlanAtPeriodEnd(): Promise<void> {
+  const subscription = createPlanChangeSubscription();
+  const baseItem = findBaseItem(subscription, MOCK_PRODUCTS.basic.price_id)!;
+  const { stripe, calls } = createPlanChangeStripe();
+
+  console.log('  Verifying: schedule keeps the current items until renewal, then the new price');
+
+  const schedule = await schedulePlanChange(stripe, subscription, baseItem, MOCK_PRODUCTS.pro.price_id);
+
+  const methods = calls.map((call) => call.method).join(',');
+  if (methods !== 'subscriptionSchedules.create,subscriptionSchedules.update') {
+    throw new Error(`Unexpected Stripe calls: ${methods}`);
+  }
+  if (calls[0]!.params.from_subscription !== subscription.id || schedule.id !== 'sub_sched_new') {
+    throw new Error('Schedule should be created from the subscription');
+  }
+
+  const update = calls[1]!.params;
+  if (update.end_behavior !== 'release' || update.proration_behavior !== 'none') {
+    throw new Error('Schedule should be released after the change without prorations');
+  }
+
+  const [current, next] = update.phases;
+  if (current.start_date !== PERIOD_START - 60 || current.end_date !== PERIOD_END) {
+    throw new Error('Current phase should keep its start and end at current_period_end');
+  }
+  const expectedCurrent = [
+    { price: 'price_addon', quantity: 3 },
+    { price: MOCK_PRODUCTS.basic.price_id, quantity: 1 },
+    { price: 'price_metered' },
+  ];
+  if (JSON.stringify(current.items) !== JSON.stringify(expectedCurrent)) {
+    throw new Error(`Unexpected current phase items: ${JSON.stringify(current.items)}`);
+  }
+
+  // Only the base item changes; metered prices have no quantity
+  const expectedNext = [
+    { price: 'price_addon', quantity: 3 },
+    { price: MOCK_PRODUCTS.pro.price_id, quantity: 1 },
+    { price: 'price_metered' },
+  ];
+  if (JSON.stringify(next.items) !== JSON.stringify(expectedNext) || next.iterations !== 1) {
+    throw new Error(`Unexpected next phase: ${JSON.stringify(next)}`);
+  }
+}
+
+/**
+ * Test: Period-end change of a subscription that already has a schedule
+ */
+async function testUpdatePlanAtPeriodEndExistingSchedule(): Promise<void> {
+  const subscription = createPlanChangeSubscription('sub_sched_existing');
+  const baseItem = findBaseItem(subscription, MOCK_PRODUCTS.basic.price_id)!;
+  const { stripe, calls } = createPlanChangeStripe();
+
+  console.log('  Verifying: existing schedule is reused instead of creating another');
+
+  await schedulePlanChange(stripe, subscription, baseItem, MOCK_PRODUCTS.pro.price_id);
+
+  const methods = calls.map((call) => call.method).join(',');
+  if (methods !== 'subscriptionSchedules.retrieve,subscriptionSchedules.update') {
+    throw new Error(`Unexpected Stripe calls: ${methods}`);
+  }
+  if (calls[1]!.params.id !== 'sub_sched_existing') {
+    throw new Error(`Expected the existing schedule to be updated, got ${calls[1]!.params.id}`);
+  }
+}
+
 /**
  * Test: Get customer portal URL
  */
@@ -268,6 +494,437 @@ async function testGetCustomerPortalNoCustomer(): Promise<void> {
   // Expected: 404 "No customer found"
 }
 
+/**
+ * Create mock Stripe invoice with one taxed line
+ */
+function createStripeInvoice(id: string, customerId: string, overrides: Partial<Stripe.Invoice> = {}): Stripe.Invoice {
+  return {
+    id,
+    object: 'invoice',
+    customer: customerId,
+    number: `INV-${id}`,
+    status: 'paid',
+    currency: 'jpy',
+    subtotal: 1000,
+    tax: 100,
+    total: 1100,
+    amount_due: 1100,
+    amount_paid: 1100,
+    amount_remaining: 0,
+    created: PERIOD_START,
+    period_start: PERIOD_START,
+    period_end: PERIOD_END,
+    due_date: null,
+    status_transitions: { paid_at: PERIOD_START + 60 },
+    subscription: { id: 'sub_test_invoice' },
+    charge: { id: 'ch_test', receipt_url: 'https://pay.stripe.com/receipts/test' },
+    invoice_pdf: 'https://pay.stripe.com/invoice/test/pdf',
+    hosted_invoice_url: 'https://invoice.stripe.com/test',
+    lines: {
+      object: 'list',
+      has_more: true,
+      data: [{
+        id: 'il_test',
+        description: 'Basic Plan',
+        amount: 1000,
+        quantity: 1,
+        proration: false,
+        period: { start: PERIOD_START, end: PERIOD_END },
+        price: { id: MOCK_PRODUCTS.basic.price_id },
+        tax_amounts: [{ amount: 100, inclusive: false, tax_rate: { id: 'txr_standard' } }],
+      }],
+    },
+    ...overrides,
+  } as unknown as Stripe.Invoice;
+}
+
+/**
+ * Create stubbed Stripe client serving a customer's invoices
+ */
+function createInvoiceStripe(invoices: Stripe.Invoice[]): { stripe: Stripe; calls: any[] } {
+  const calls: any[] = [];
+
+  const stripe = {
+    invoices: {
+      list: async (params: any) => {
+        calls.push(params);
+        const start = params.starting_after
+          ? invoices.findIndex((invoice) => invoice.id === params.starting_after) + 1
+          : 0;
+        return {
+          object: 'list',
+          data: invoices.slice(start, start + params.limit),
+          has_more: start + params.limit < invoices.length,
+        };
+      },
+      retrieve: async (id: string) => {
+        const invoice = invoices.find((candidate) => candidate.id === id);
+        if (!invoice) {
+          throw Object.assign(new Error(`No such invoice: '${id}'`), { code: 'resource_missing' });
+        }
+        return invoice;
+      },
+    },
+  } as unknown as Stripe;
+
+  return { stripe, calls };
+}
+
+/**
+ * Test: List the user's invoices
+ */
+async function testListInvoices(): Promise<void> {
+  const customerId = generateCustomerId();
+  const { stripe, calls } = createInvoiceStripe([
+    createStripeInvoice('in_3', customerId),
+    createStripeInvoice('in_2', customerId),
+    createStripeInvoice('in_1', customerId),
+  ]);
+
+  console.log('  Verifying: invoices are listed for the customer and mapped to the response');
+
+  const page = await fetchInvoicePage(stripe, customerId, { limit: 2, status: 'paid' });
+
+  const params = calls[0];
+  if (params.customer !== customerId || params.limit !== 2 || params.status !== 'paid') {
+    throw new Error(`Unexpected list params: ${JSON.stringify(params)}`);
+  }
+  if (JSON.stringify(params.expand) !== JSON.stringify(['data.charge']) || 'starting_after' in params) {
+    throw new Error('First page should expand the charge and have no cursor');
+  }
+  if (page.invoices.length !== 2 || !page.has_more || page.next_cursor !== 'in_2') {
+    throw new Error(`Unexpected page: ${page.invoices.length} invoices, next_cursor ${page.next_cursor}`);
+  }
+
+  const [invoice] = page.invoices;
+  if (
+    invoice!.receipt_url !== 'https://pay.stripe.com/receipts/test'
+    || invoice!.subscription_id !== 'sub_test_invoice'
+    || invoice!.paid_at !== new Date((PERIOD_START + 60) * 1000).toISOString()
+    || invoice!.due_date !== null
+    || !invoice!.has_more_lines
+  ) {
+    throw new Error(`Unexpected invoice: ${JSON.stringify(invoice)}`);
+  }
+
+  const [line] = invoice!.lines;
+  if (line!.price_id !== MOCK_PRODUCTS.basic.price_id || line!.tax_amounts[0]?.tax_rate !== 'txr_standard') {
+    throw new Error(`Unexpected invoice line: ${JSON.stringify(line)}`);
+  }
+}
+
+/**
+ * Test: Page through the user's invoices with the cursor
+ */
+async function testListInvoicesNextPage(): Promise<void> {
+  const customerId = generateCustomerId();
+  const { stripe, calls } = createInvoiceStripe([
+    createStripeInvoice('in_3', customerId),
+    createStripeInvoice('in_2', customerId),
+    createStripeInvoice('in_1', customerId, { charge: 'ch_not_expanded' } as Partial<Stripe.Invoice>),
+  ]);
+
+  console.log('  Verifying: next_cursor fetches the last page');
+
+  const page = await fetchInvoicePage(stripe, customerId, { limit: 2, startingAfter: 'in_2' });
+
+  if (calls[0].starting_after !== 'in_2' || 'status' in calls[0]) {
+    throw new Error(`Unexpected list params: ${JSON.stringify(calls[0])}`);
+  }
+  if (page.invoices.length !== 1 || page.invoices[0]!.id !== 'in_1') {
+    throw new Error(`Expected only in_1, got ${page.invoices.map((invoice) => invoice.id).join(', ')}`);
+  }
+  if (page.has_more || page.next_cursor !== null) {
+    throw new Error('Last page should have no next_cursor');
+  }
+  if (page.invoices[0]!.receipt_url !== null) {
+    throw new Error('Receipt URL needs the expanded charge');
+  }
+}
+
+/**
+ * Test: Invalid invoice list parameters
+ */
+async function testListInvoicesInvalidParams(): Promise<void> {
+  console.log('  Verifying: limit and status are validated');
+
+  const limitEvent = createMockEvent('GET', '/me/invoices', null, MOCK_USER.id, { limit: '500' });
+  const limitResponse = await listInvoices(limitEvent, MOCK_USER.id);
+  assertStatus(limitResponse, 400);
+
+  const statusEvent = createMockEvent('GET', '/me/invoices', null, MOCK_USER.id, { status: 'refunded' });
+  const statusResponse = await listInvoices(statusEvent, MOCK_USER.id);
+  assertStatus(statusResponse, 400);
+  const body = parseBody<{ error: string }>(statusResponse.body);
+  if (!body.error.startsWith('status must be one of')) {
+    throw new Error(`Unexpected error: ${body.error}`);
+  }
+}
+
+/**
+ * Test: Get an invoice of another customer
+ */
+async function testGetInvoiceOfOtherCustomer(): Promise<void> {
+  const customerId = generateCustomerId();
+  const { stripe } = createInvoiceStripe([
+    createStripeInvoice('in_own', customerId),
+    createStripeInvoice('in_other_customer', generateCustomerId()),
+  ]);
+
+  console.log('  Verifying: invoices of other customers and unknown invoices are not found');
+
+  if ((await retrieveCustomerInvoice(stripe, customerId, 'in_own'))?.id !== 'in_own') {
+    throw new Error('Own invoice should be returned');
+  }
+  if (await retrieveCustomerInvoice(stripe, customerId, 'in_other_customer')) {
+    throw new Error('Invoice of another customer should not be returned');
+  }
+  if (await retrieveCustomerInvoice(stripe, customerId, 'in_missing')) {
+    throw new Error('Unknown invoice should not be returned');
+  }
+  if (await retrieveCustomerInvoice(stripe, null, 'in_own')) {
+    throw new Error('User without a customer should not see invoices');
+  }
+}
+
+const MOCK_ISSUER = {
+  id: 'issuer-001',
+  product_id: null,
+  name: 'CCAGI株式会社',
+  registration_number: 'T1234567890123',
+  address: '東京都千代田区1-1-1',
+  phone: null,
+  email: 'billing@example.com',
+  metadata: {},
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+/**
+ * Create stubbed database client for qualified invoice issuance
+ */
+function createQualifiedInvoiceClient(options: {
+  stored?: QualifiedInvoiceDocument;
+  issuer?: typeof MOCK_ISSUER | null;
+} = {}): { client: PoolClient; queries: Array<{ sql: string; params: any[] }> } {
+  const queries: Array<{ sql: string; params: any[] }> = [];
+
+  const client = {
+    query: async (sql: string, params: any[] = []) => {
+      const text = sql.replace(/\s+/g, ' ').trim();
+      queries.push({ sql: text, params });
+
+      if (text.startsWith('SELECT document FROM qualified_invoices')) {
+        return { rows: options.stored ? [{ document: options.stored }] : [] };
+      }
+      if (text.startsWith('SELECT * FROM invoice_issuers')) {
+        const issuer = options.issuer === undefined ? MOCK_ISSUER : options.issuer;
+        return { rows: issuer ? [issuer] : [] };
+      }
+      if (text.startsWith('SELECT stripe_price_id AS price_id, tax_rate, tax_inclusive FROM plans')) {
+        // Reduced-rate plan charged without a Stripe Tax Rate
+        return { rows: [{ price_id: 'price_reduced', tax_rate: '8.00', tax_inclusive: true }] };
+      }
+      if (text.startsWith('INSERT INTO qualified_invoices')) {
+        return { rows: [{ document: JSON.parse(params[5]) }] };
+      }
+      return { rows: [] };
+    },
+  } as unknown as PoolClient;
+
+  return { client, queries };
+}
+
+/**
+ * Create stubbed Stripe client serving invoice line items
+ */
+function createLineItemStripe(lines: Partial<Stripe.InvoiceLineItem>[]): { stripe: Stripe; calls: string[] } {
+  const calls: string[] = [];
+
+  const stripe = {
+    invoices: {
+      listLineItems: (invoiceId: string) => {
+        calls.push(invoiceId);
+        return { autoPagingToArray: async () => lines };
+      },
+    },
+  } as unknown as Stripe;
+
+  return { stripe, calls };
+}
+
+/**
+ * Test: Consumption tax per rate, rounded down once per rate
+ */
+async function testQualifiedInvoiceTaxBreakdown(): Promise<void> {
+  console.log('  Verifying: tax is computed per rate from the summed amounts');
+
+  const line = (amount: number, taxRate: number, taxInclusive: boolean) => ({
+    description: 'line',
+    quantity: 1,
+    amount,
+    tax_rate: taxRate,
+    tax_inclusive: taxInclusive,
+    reduced_rate: taxRate === 8,
+  });
+
+  const breakdown = computeTaxBreakdown([
+    // Rounded per line: 9 + 9 = 18; rounded per rate: floor(210 * 10 / 110) = 19
+    line(105, 10, true),
+    line(105, 10, true),
+    line(1080, 8, true),
+    line(1000, 10, false),
+  ]);
+
+  const expected = [
+    { tax_rate: 10, tax_inclusive: true, taxable_amount: 191, tax_amount: 19, total: 210 },
+    { tax_rate: 10, tax_inclusive: false, taxable_amount: 1000, tax_amount: 100, total: 1100 },
+    { tax_rate: 8, tax_inclusive: true, taxable_amount: 1000, tax_amount: 80, total: 1080 },
+  ];
+  if (JSON.stringify(breakdown) !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected tax breakdown: ${JSON.stringify(breakdown)}`);
+  }
+}
+
+/**
+ * Test: Issue the qualified invoice of a paid invoice
+ */
+async function testIssueQualifiedInvoice(): Promise<void> {
+  const paidAt = PERIOD_START + 60;
+  const invoice = createStripeInvoice('in_paid', generateCustomerId(), {
+    customer_name: '株式会社テスト',
+    customer_email: 'buyer@example.com',
+    metadata: { product_id: MOCK_PRODUCTS.basic.product_id },
+  } as Partial<Stripe.Invoice>);
+  const { client, queries } = createQualifiedInvoiceClient();
+  const { stripe } = createLineItemStripe([
+    {
+      description: 'Basic Plan',
+      quantity: 1,
+      amount: 1100,
+      price: { id: MOCK_PRODUCTS.basic.price_id } as Stripe.Price,
+      tax_rates: [{ percentage: 10, inclusive: false } as Stripe.TaxRate],
+      discount_amounts: [{ amount: 100, discount: 'di_test' }],
+    },
+    {
+      description: 'Food add-on',
+      quantity: 2,
+      amount: 2160,
+      price: { id: 'price_reduced' } as Stripe.Price,
+      tax_rates: [],
+    },
+  ]);
+
+  console.log('  Verifying: document has issuer, recipient, reduced-rate lines and tax per rate');
+
+  const document = await issueQualifiedInvoice(client, stripe, MOCK_USER.id, invoice);
+
+  if (document.issuer.registration_number !== MOCK_ISSUER.registration_number || document.issuer.name !== MOCK_ISSUER.name) {
+    throw new Error(`Unexpected issuer: ${JSON.stringify(document.issuer)}`);
+  }
+  if (document.recipient.name !== '株式会社テスト' || document.document_number !== 'INV-in_paid') {
+    throw new Error(`Unexpected recipient / number: ${document.recipient.name} / ${document.document_number}`);
+  }
+  if (document.transaction_date !== new Date(paidAt * 1000).toISOString()) {
+    throw new Error(`Transaction date should be the payment date, got ${document.transaction_date}`);
+  }
+
+  const [standard, reduced] = document.lines;
+  if (standard!.amount !== 1000 || standard!.tax_rate !== 10 || standard!.tax_inclusive || standard!.reduced_rate) {
+    throw new Error(`Unexpected standard-rate line: ${JSON.stringify(standard)}`);
+  }
+  if (reduced!.amount !== 2160 || reduced!.tax_rate !== 8 || !reduced!.tax_inclusive || !reduced!.reduced_rate) {
+    throw new Error(`Unexpected reduced-rate line: ${JSON.stringify(reduced)}`);
+  }
+  if (document.subtotal !== 3000 || document.tax_total !== 260 || document.total !== 3260) {
+    throw new Error(`Unexpected totals: ${document.subtotal} / ${document.tax_total} / ${document.total}`);
+  }
+
+  const insert = queries.find((q) => q.sql.startsWith('INSERT INTO qualified_invoices'));
+  if (!insert) {
+    throw new Error('Document should be stored in qualified_invoices');
+  }
+  const [invoiceId, userId, productId, issuerId] = insert.params;
+  if (invoiceId !== 'in_paid' || userId !== MOCK_USER.id || productId !== MOCK_PRODUCTS.basic.product_id || issuerId !== MOCK_ISSUER.id) {
+    throw new Error(`Unexpected insert params: ${JSON.stringify(insert.params.slice(0, 4))}`);
+  }
+
+  if (!renderQualifiedInvoicePdf(document).subarray(0, 5).equals(Buffer.from('%PDF-'))) {
+    throw new Error('PDF rendering should produce a PDF document');
+  }
+}
+
+/**
+ * Test: Qualified invoice of an unpaid invoice
+ */
+async function testQualifiedInvoiceOfUnpaidInvoice(): Promise<void> {
+  const invoice = createStripeInvoice('in_open', generateCustomerId(), { status: 'open' });
+  const { client, queries } = createQualifiedInvoiceClient();
+  const { stripe, calls } = createLineItemStripe([]);
+
+  console.log('  Verifying: Qualified invoice of an open invoice should return 409');
+
+  const error = await issueQualifiedInvoice(client, stripe, MOCK_USER.id, invoice).then(
+    () => null,
+    (rejection: unknown) => rejection
+  );
+
+  if (!(error instanceof QualifiedInvoiceError) || error.statusCode !== 409) {
+    throw new Error(`Expected QualifiedInvoiceError 409, got ${error}`);
+  }
+  if (error.message !== 'Qualified invoices can only be issued for paid invoices') {
+    throw new Error(`Unexpected error message: ${error.message}`);
+  }
+  if (calls.length > 0 || queries.some((q) => q.sql.startsWith('INSERT'))) {
+    throw new Error('No document should be built or stored for an unpaid invoice');
+  }
+}
+
+/**
+ * Test: Qualified invoice without a configured issuer
+ */
+async function testQualifiedInvoiceWithoutIssuer(): Promise<void> {
+  const invoice = createStripeInvoice('in_paid', generateCustomerId());
+  const { client, queries } = createQualifiedInvoiceClient({ issuer: null });
+  const { stripe } = createLineItemStripe([]);
+
+  console.log('  Verifying: Missing issuer should return 409');
+
+  const error = await issueQualifiedInvoice(client, stripe, MOCK_USER.id, invoice).then(
+    () => null,
+    (rejection: unknown) => rejection
+  );
+
+  if (!(error instanceof QualifiedInvoiceError) || error.statusCode !== 409) {
+    throw new Error(`Expected QualifiedInvoiceError 409, got ${error}`);
+  }
+  if (queries.some((q) => q.sql.startsWith('INSERT'))) {
+    throw new Error('No document should be stored without an issuer');
+  }
+}
+
+/**
+ * Test: Issued qualified invoice is returned unchanged
+ */
+async function testQualifiedInvoiceAlreadyIssued(): Promise<void> {
+  const stored = { document_number: 'INV-0001', stripe_invoice_id: 'in_voided' } as QualifiedInvoiceDocument;
+  // Voided after issuance: the stored document is still returned
+  const invoice = createStripeInvoice('in_voided', generateCustomerId(), { status: 'void' });
+  const { client, queries } = createQualifiedInvoiceClient({ stored });
+  const { stripe, calls } = createLineItemStripe([]);
+
+  console.log('  Verifying: stored document is returned without rebuilding it');
+
+  const document = await issueQualifiedInvoice(client, stripe, MOCK_USER.id, invoice);
+
+  if (document !== stored) {
+    throw new Error('Expected the stored document');
+  }
+  if (calls.length > 0 || queries.length !== 1) {
+    throw new Error(`Expected a single lookup, got ${queries.length} queries and ${calls.length} Stripe calls`);
+  }
+}
+
 /**
  * Test: CORS preflight OPTIONS request
  */
@@ -332,11 +989,27 @@ async function runAllTests(): Promise<void> {
   // Update plan tests
   results.push(await runTest('Update subscription plan', testUpdatePlan));
   results.push(await runTest('Update plan with missing new_plan_id', testUpdatePlanMissingPlanId));
+  results.push(await runTest('Base plan item lookup', testFindBaseItem));
+  results.push(await runTest('Update plan at period end', testUpdatePlanAtPeriodEnd));
+  results.push(await runTest('Update plan at period end with existing schedule', testUpdatePlanAtPeriodEndExistingSchedule));
+  results.push(await runTest('Preview plan change', testPreviewPlanChange));
+  results.push(await runTest('Preview plan change line', testPreviewLine));
 
   // Customer portal tests
   results.push(await runTest('Get customer portal URL', testGetCustomerPortal));
   results.push(await runTest('Customer portal without customer', testGetCustomerPortalNoCustomer));
 
+  // Invoice tests
+  results.push(await runTest('List invoices', testListInvoices));
+  results.push(await runTest('List invoices next page', testListInvoicesNextPage));
+  results.push(await runTest('List invoices with invalid parameters', testListInvoicesInvalidParams));
+  results.push(await runTest('Get invoice of another customer', testGetInvoiceOfOtherCustomer));
+  results.push(await runTest('Qualified invoice tax breakdown', testQualifiedInvoiceTaxBreakdown));
+  results.push(await runTest('Issue qualified invoice', testIssueQualifiedInvoice));
+  results.push(await runTest('Qualified invoice of unpaid invoice', testQualifiedInvoiceOfUnpaidInvoice));
+  results.push(await runTest('Qualified invoice without issuer', testQualifiedInvoiceWithoutIssuer));
+  results.push(await runTest('Qualified invoice already issued', testQualifiedInvoiceAlreadyIssued));
+
   // Other tests
   results.push(await runTest('CORS OPTIONS request', testCorsOptionsRequest));
   results.push(await runTest('Method not allowed', testMethodNotAllowed));
@@ -189,6 +189,57 @@ export function createInvoicePaidEvent(options: {
   };
 }
 
+/**
+ * Create mock invoice.payment_failed event
+ * nextPaymentAttempt: null means Stripe has given up retrying
+ */
+export function createInvoicePaymentFailedEvent(options: {
+  invoiceId?: string;
+  customerId?: string;
+  subscriptionId?: string;
+  amount?: number;
+  currency?: string;
+  attemptCount?: number;
+  nextPaymentAttempt?: number | null;
+}): Partial<Stripe.Event> {
+  const now = Math.floor(Date.now() / 1000);
+  const {
+    invoiceId = generateInvoiceId(),
+    customerId = generateCustomerId(),
+    subscriptionId = generateSubscriptionId(),
+    amount = 1000,
+    currency = 'jpy',
+    attemptCount = 1,
+    nextPaymentAttempt = now + 3 * 24 * 60 * 60, // 3 days later
+  } = options;
+
+  return {
+    id: generateEventId(),
+    type: 'invoice.payment_failed',
+    data: {
+      object: {
+        id: invoiceId,
+        object: 'invoice',
+        customer: customerId,
+        subscription: subscriptionId,
+        amount_due: amount,
+        amount_paid: 0,
+        currency: currency,
+        status: 'open',
+        paid: false,
+        attempted: true,
+        attempt_count: attemptCount,
+        collection_method: 'charge_automatically',
+        next_payment_attempt: nextPaymentAttempt,
+        hosted_invoice_url: `https://invoice.stripe.com/i/${invoiceId}`,
+      } as unknown as Stripe.Invoice,
+    },
+    created: now,
+    livemode: false,
+    object: 'event',
+  };
+}
+
 /**
  * Create mock customer.subscription.updated event
  */
@@ -0,0 +1,305 @@
+/**
+ * Trial Tests
+ *
+ * Tests for no-card free trials against a stubbed client:
+ * - One trial per user and product
+ * - Trial entitlement granted until the end of the trial
+ * - Checkout skipping the Stripe trial after a no-card trial
+ *
+ * @module tests/billing/trials.test
+ */
+
+import {
+  MOCK_USER,
+  MOCK_PRODUCTS,
+  runTest,
+  printResults,
+  TestResult,
+} from './test-utils.js';
+import type { PoolClient } from 'pg';
+import { checkoutTrialDays, hasUsedTrial, startTrial } from '../../functions/entitlement/trials/trials.js';
+import type { TrialRow } from '../../functions/entitlement/types.js';
+
+const TRIAL_DAYS = 14;
+
+/**
+ * Stubbed plan
+ */
+interface StubPlan {
+  id: string;
+  stripe_price_id: string;
+  product_id: string;
+  billing_period: string;
+  trial_period_days: number | null;
+}
+
+const PLANS: StubPlan[] = [
+  { id: 'plan-basic', stripe_price_id: MOCK_PRODUCTS.basic.price_id, product_id: MOCK_PRODUCTS.basic.product_id, billing_period: 'monthly', trial_period_days: TRIAL_DAYS },
+  { id: 'plan-basic-yearly', stripe_price_id: 'price_test_basic_yearly', product_id: MOCK_PRODUCTS.basic.product_id, billing_period: 'yearly', trial_period_days: TRIAL_DAYS },
+  { id: 'plan-credits', stripe_price_id: 'price_test_credits', product_id: MOCK_PRODUCTS.basic.product_id, billing_period: 'one_time', trial_period_days: TRIAL_DAYS },
+];
+
+/**
+ * Stubbed database state
+ */
+interface TrialState {
+  trials: TrialRow[];
+  /** Active entitlements as user_id:product_id */
+  entitlements: Set<string>;
+  /** valid_until of granted entitlements */
+  grants: Array<{ plan_id: string; valid_until: Date | null }>;
+}
+
+/**
+ * Create stubbed client serving a trial state
+ */
+function createStubClient(state: TrialState): {
+  client: PoolClient;
+  queries: string[];
+} {
+  const queries: string[] = [];
+
+  const query = async (sql: string, params: unknown[] = []) => {
+    const text = sql.replace(/\s+/g, ' ').trim();
+    queries.push(text);
+
+    if (text.startsWith('SELECT 1 FROM trials')) {
+      const rows = state.trials.filter((t) => t.user_id === params[0] && t.product_id === params[1]).map(() => ({ '?column?': 1 }));
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('SELECT id, stripe_price_id, billing_period, trial_period_days FROM plans')) {
+      const rows = PLANS.filter((p) => p.stripe_price_id === params[0] && p.product_id === params[1]);
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('SELECT 1 FROM entitlements')) {
+      const rows = state.entitlements.has(`${params[0]}:${params[1]}`) ? [{ '?column?': 1 }] : [];
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('INSERT INTO trials')) {
+      if (state.trials.some((t) => t.user_id === params[0] && t.product_id === params[1])) {
+        return { rows: [], rowCount: 0 };
+      }
+      const trial = {
+        id: `trial-${state.trials.length + 1}`,
+        user_id: params[0],
+        product_id: params[1],
+        plan_id: params[2],
+        entitlement_id: null,
+        status: 'active',
+        started_at: new Date(),
+        ends_at: params[3],
+      } as TrialRow;
+      state.trials.push(trial);
+      return { rows: [trial], rowCount: 1 };
+    }
+    if (text.startsWith('SELECT p.id, COALESCE(')) {
+      const rows = PLANS.filter((p) => p.id === params[0]).map((p) => ({ id: p.id, plan_version_id: `${p.id}-v1` }));
+      return { rows, rowCount: rows.length };
+    }
+    if (text.startsWith('INSERT INTO entitlements')) {
+      state.entitlements.add(`${params[1]}:${params[2]}`);
+      state.grants.push({ plan_id: params[3] as string, valid_until: params[9] as Date | null });
+      return { rows: [{ entitlement_id: `ent-${state.grants.length}`, created_at: new Date() }], rowCount: 1 };
+    }
+    if (text.startsWith('UPDATE trials SET entitlement_id')) {
+      const trial = state.trials.find((t) => t.id === params[1])!;
+      trial.entitlement_id = params[0] as string;
+      return { rows: [trial], rowCount: 1 };
+    }
+    return { rows: [], rowCount: 0 };
+  };
+
+  return { queries, client: { query } as unknown as PoolClient };
+}
+
+/**
+ * Create an empty trial state
+ */
+function createState(): TrialState {
+  return { trials: [], entitlements: new Set(), grants: [] };
+}
+
+/**
+ * Test: trial history of the product decides hasUsedTrial
+ */
+async function testHasUsedTrial(): Promise<void> {
+  const state = createState();
+  const { client } = createStubClient(state);
+
+  console.log('  Verifying: only a trial of the same product counts');
+
+  if (await hasUsedTrial(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id)) {
+    throw new Error('User without trials should not have used one');
+  }
+
+  state.trials.push({ user_id: MOCK_USER.id, product_id: MOCK_PRODUCTS.pro.product_id, status: 'expired' } as TrialRow);
+  if (await hasUsedTrial(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id)) {
+    throw new Error('Trial of another product should not count');
+  }
+
+  state.trials.push({ user_id: MOCK_USER.id, product_id: MOCK_PRODUCTS.basic.product_id, status: 'converted' } as TrialRow);
+  if (!(await hasUsedTrial(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id))) {
+    throw new Error('Converted trial should count as used');
+  }
+}
+
+/**
+ * Test: trial starts with an entitlement valid until the trial end
+ */
+async function testStartTrial(): Promise<void> {
+  const state = createState();
+  const { client } = createStubClient(state);
+
+  console.log(`  Verifying: ${TRIAL_DAYS}-day trial granted on the plan`);
+
+  const result = await startTrial(client, MOCK_USER.id, {
+    product_id: MOCK_PRODUCTS.basic.product_id,
+    plan_id: MOCK_PRODUCTS.basic.price_id,
+  });
+
+  if (!('trial' in result)) {
+    throw new Error(`Expected a trial, got ${result.reason}`);
+  }
+  if (result.stripe_price_id !== MOCK_PRODUCTS.basic.price_id || result.trial.plan_id !== 'plan-basic') {
+    throw new Error('Trial should be on the requested plan');
+  }
+  if (result.trial.entitlement_id !== 'ent-1') {
+    throw new Error('Trial should reference its granted entitlement');
+  }
+
+  const days = (result.trial.ends_at.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+  if (Math.round(days) !== TRIAL_DAYS) {
+    throw new Error(`Expected the trial to end in ${TRIAL_DAYS} days, got ${days.toFixed(2)}`);
+  }
+  const [grant] = state.grants;
+  if (state.grants.length !== 1 || grant!.plan_id !== 'plan-basic' || grant!.valid_until?.getTime() !== result.trial.ends_at.getTime()) {
+    throw new Error('Trial entitlement should be valid until the trial ends');
+  }
+}
+
+/**
+ * Test: second trial of the same product is rejected, on any plan
+ */
+async function testOneTrialPerProduct(): Promise<void> {
+  const state = createState();
+  const { client } = createStubClient(state);
+
+  console.log('  Verifying: expired trial blocks a new trial on another plan of the product');
+
+  const first = await startTrial(client, MOCK_USER.id, {
+    product_id: MOCK_PRODUCTS.basic.product_id,
+    plan_id: MOCK_PRODUCTS.basic.price_id,
+  });
+  if (!('trial' in first)) {
+    throw new Error(`Expected the first trial to start, got ${first.reason}`);
+  }
+
+  // Trial ended: entitlement expired, trial row kept
+  first.trial.status = 'expired';
+  state.entitlements.clear();
+
+  const second = await startTrial(client, MOCK_USER.id, {
+    product_id: MOCK_PRODUCTS.basic.product_id,
+    plan_id: 'price_test_basic_yearly',
+  });
+  if (!('reason' in second) || second.reason !== 'trial_already_used') {
+    throw new Error(`Expected trial_already_used, got ${JSON.stringify(second)}`);
+  }
+  if (state.grants.length !== 1) {
+    throw new Error('No entitlement should be granted for a second trial');
+  }
+}
+
+/**
+ * Test: trials are not started over an entitlement or on one-time plans
+ */
+async function testTrialRejections(): Promise<void> {
+  const state = createState();
+  const { client } = createStubClient(state);
+
+  console.log('  Verifying: already_entitled, trial_not_available and plan_not_found');
+
+  const oneTime = await startTrial(client, MOCK_USER.id, {
+    product_id: MOCK_PRODUCTS.basic.product_id,
+    plan_id: 'price_test_credits',
+  });
+  if (!('reason' in oneTime) || oneTime.reason !== 'trial_not_available') {
+    throw new Error(`Expected trial_not_available for a one-time plan, got ${JSON.stringify(oneTime)}`);
+  }
+
+  const unknown = await startTrial(client, MOCK_USER.id, {
+    product_id: MOCK_PRODUCTS.pro.product_id,
+    plan_id: MOCK_PRODUCTS.basic.price_id,
+  });
+  if (!('reason' in unknown) || unknown.reason !== 'plan_not_found') {
+    throw new Error(`Expected plan_not_found for a price of another product, got ${JSON.stringify(unknown)}`);
+  }
+
+  state.entitlements.add(`${MOCK_USER.id}:${MOCK_PRODUCTS.basic.product_id}`);
+  const entitled = await startTrial(client, MOCK_USER.id, {
+    product_id: MOCK_PRODUCTS.basic.product_id,
+    plan_id: MOCK_PRODUCTS.basic.price_id,
+  });
+  if (!('reason' in entitled) || entitled.reason !== 'already_entitled') {
+    throw new Error(`Expected already_entitled, got ${JSON.stringify(entitled)}`);
+  }
+
+  if (state.trials.length !== 0) {
+    throw new Error('Rejected requests should not use up the trial');
+  }
+}
+
+/**
+ * Test: checkout skips the Stripe trial after a no-card trial
+ */
+async function testCheckoutSkipsUsedTrial(): Promise<void> {
+  const state = createState();
+  const { client, queries } = createStubClient(state);
+
+  console.log('  Verifying: Stripe trial days before and after POST /me/trials');
+
+  const before = await checkoutTrialDays(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, TRIAL_DAYS);
+  if (before !== TRIAL_DAYS) {
+    throw new Error(`Expected the plan's ${TRIAL_DAYS} trial days before any trial, got ${before}`);
+  }
+
+  await startTrial(client, MOCK_USER.id, {
+    product_id: MOCK_PRODUCTS.basic.product_id,
+    plan_id: MOCK_PRODUCTS.basic.price_id,
+  });
+
+  const after = await checkoutTrialDays(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, TRIAL_DAYS);
+  if (after !== undefined) {
+    throw new Error(`Expected no Stripe trial after a no-card trial, got ${after}`);
+  }
+
+  const otherProduct = await checkoutTrialDays(client, MOCK_USER.id, MOCK_PRODUCTS.pro.product_id, TRIAL_DAYS);
+  if (otherProduct !== TRIAL_DAYS) {
+    throw new Error('Trial of one product should not remove the trial of another');
+  }
+
+  // Plans without a trial do not look up the history
+  const lookups = queries.length;
+  if (await checkoutTrialDays(client, MOCK_USER.id, MOCK_PRODUCTS.basic.product_id, undefined) !== undefined || queries.length !== lookups) {
+    throw new Error('Plan without trial days should not query trials');
+  }
+}
+
+/**
+ * Run all trial tests
+ */
+async function runAllTests(): Promise<void> {
+  console.log('=== Trial Tests ===\n');
+
+  const results: TestResult[] = [];
+
+  results.push(await runTest('Trial history per product', testHasUsedTrial));
+  results.push(await runTest('Start trial', testStartTrial));
+  results.push(await runTest('One trial per product', testOneTrialPerProduct));
+  results.push(await runTest('Trial rejections', testTrialRejections));
+  results.push(await runTest('Checkout skips used trial', testCheckoutSkipsUsedTrial));
+
+  printResults(results);
+}
+
+export { runAllTests };
@@ -5,6 +5,8 @@
  * - Signature verification
  * - Idempotency guarantees
  * - Event routing
+ * - Add-on limit aggregation
+ * - Team ownership of seat-based checkouts
  * - Error handling
  *
  * @module tests/billing/webhook.test
@@ -20,6 +22,7 @@ import {
   createWebhookSignature,
   createCheckoutCompletedEvent,
   createInvoicePaidEvent,
+  createInvoicePaymentFailedEvent,
   createSubscriptionUpdatedEvent,
   createSubscriptionDeletedEvent,
   runTest,
@@ -29,6 +32,17 @@ import {
   parseBody,
 } from './test-utils.js';
 import type { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import type Stripe from 'stripe';
+import type { PoolClient } from 'pg';
+import { handleCheckoutCompleted } from '../../functions/billing/webhook/events/checkoutCompleted.js';
+import { handleInvoicePaymentFailed } from '../../functions/billing/webhook/events/invoicePaymentFailed.js';
+import {
+  endDunning,
+  enterGrace,
+  isFinalPaymentAttempt,
+  suspendLapsedGrace,
+} from '../../functions/billing/webhook/dunning.js';
+import { sumAddonLimits } from '../../functions/billing/webhook/subscriptionItems.js';
 
 /**
  * Create mock webhook event
@@ -204,6 +218,43 @@ async function testCheckoutCompletedEvent(): Promise<void> {
   }
 }
 
+/**
+ * Test: checkout.session.completed for a team the purchaser does not own is rejected
+ */
+async function testCheckoutCompletedForeignTeam(): Promise<void> {
+  const event = createCheckoutCompletedEvent({
+    customerId: generateCustomerId(),
+    subscriptionId: generateSubscriptionId(),
+    userId: MOCK_USER.id,
+    productId: MOCK_PRODUCTS.basic.product_id,
+  });
+  const session = (event.data as any).object as Stripe.Checkout.Session;
+  session.metadata = { ...session.metadata, team_id: 'team-owned-by-someone-else' };
+
+  // No team owned by the purchaser; nothing may be written
+  const queries: string[] = [];
+  const client = {
+    query: async (sql: string) => {
+      queries.push(sql);
+      return { rows: [], rowCount: 0 };
+    },
+  } as unknown as PoolClient;
+
+  let error: Error | null = null;
+  try {
+    await handleCheckoutCompleted(client, session);
+  } catch (err) {
+    error = err as Error;
+  }
+
+  if (!error?.message.includes('not owned by the purchaser')) {
+    throw new Error(`Expected team ownership error, got: ${error?.message}`);
+  }
+  if (queries.some((sql) => /INSERT|UPDATE/.test(sql))) {
+    throw new Error('No records should be written for a foreign team');
+  }
+}
+
 /**
  * Test: invoice.paid event handling
  */
@@ -224,6 +275,163 @@ async function testInvoicePaidEvent(): Promise<void> {
   }
 }
 
+/**
+ * Test: invoice.payment_failed event handling (dunning)
+ */
+async function testInvoicePaymentFailedEvent(): Promise<void> {
+  const retrying = createInvoicePaymentFailedEvent({ attemptCount: 1 });
+  const exhausted = createInvoicePaymentFailedEvent({ attemptCount: 4, nextPaymentAttempt: null });
+
+  console.log('  Verifying: failed payments keep access until Stripe gives up');
+
+  if (isFinalPaymentAttempt((retrying.data as any).object as Stripe.Invoice)) {
+    throw new Error('Retrying invoice should not be final (entitlement stays in grace)');
+  }
+  if (!isFinalPaymentAttempt((exhausted.data as any).object as Stripe.Invoice)) {
+    throw new Error('Invoice without next_payment_attempt should be final (entitlement suspended)');
+  }
+}
+
+/**
+ * Test: invoice.payment_failed handler enters grace while Stripe retries and
+ * suspends without grace after the final attempt
+ */
+async function testInvoicePaymentFailedHandler(): Promise<void> {
+  // One subscription with one entitlement; the stub applies the dunning updates to it
+  const createState = () => ({
+    subscriptionStatus: 'active',
+    dunningStartedAt: null as Date | null,
+    entitlementStatuses: ['active'],
+    failures: 0,
+  });
+  const createClient = (state: ReturnType<typeof createState>) => ({
+    query: async (sql: string) => {
+      const text = sql.replace(/\s+/g, ' ').trim();
+      const current = state.entitlementStatuses[state.entitlementStatuses.length - 1]!;
+      const transition = (from: string[], to: string) => {
+        const matched = from.includes(current);
+        if (matched) {
+          state.entitlementStatuses.push(to);
+        }
+        return { rows: matched ? [{ entitlement_id: 'ent-001', grace_until: new Date() }] : [], rowCount: matched ? 1 : 0 };
+      };
+
+      if (text.startsWith('SELECT id, user_id, stripe_subscription_id FROM subscriptions')) {
+        return { rows: [{ id: 'sub-internal-001', user_id: MOCK_USER.id, stripe_subscription_id: 'sub_test' }], rowCount: 1 };
+      }
+      if (text.startsWith('INSERT INTO payment_failures')) {
+        state.failures++;
+        return { rows: [], rowCount: 1 };
+      }
+      if (text.startsWith('UPDATE subscriptions SET status = CASE')) {
+        state.subscriptionStatus = 'past_due';
+        return { rows: [], rowCount: 1 };
+      }
+      if (text.startsWith('UPDATE subscriptions SET dunning_started_at = COALESCE')) {
+        state.dunningStartedAt = state.dunningStartedAt || new Date();
+        return { rows: [], rowCount: 1 };
+      }
+      if (text.includes(`SET status = 'grace'`)) {
+        return transition(['active'], 'grace');
+      }
+      if (text.includes(`SET status = 'suspended'`)) {
+        return transition(['active', 'grace'], 'suspended');
+      }
+      return { rows: [], rowCount: 0 };
+    },
+  } as unknown as PoolClient);
+
+  console.log('  Verifying: retrying attempt -> grace, final attempt -> suspended without grace');
+
+  const retrying = createState();
+  const retryingEvent = createInvoicePaymentFailedEvent({ attemptCount: 1 });
+  await handleInvoicePaymentFailed(createClient(retrying), (retryingEvent.data as any).object as Stripe.Invoice);
+  if (retrying.entitlementStatuses.join(' -> ') !== 'active -> grace') {
+    throw new Error(`Expected grace while Stripe retries, got ${retrying.entitlementStatuses.join(' -> ')}`);
+  }
+
+  const final = createState();
+  const finalEvent = createInvoicePaymentFailedEvent({ attemptCount: 4, nextPaymentAttempt: null });
+  await handleInvoicePaymentFailed(createClient(final), (finalEvent.data as any).object as Stripe.Invoice);
+  if (final.entitlementStatuses.join(' -> ') !== 'active -> suspended') {
+    throw new Error(`Expected suspension without grace, got ${final.entitlementStatuses.join(' -> ')}`);
+  }
+
+  for (const state of [retrying, final]) {
+    if (state.failures !== 1 || state.subscriptionStatus !== 'past_due') {
+      throw new Error('Each failure should be recorded and mark the subscription past_due');
+    }
+    // endDunning restores entitlements suspended during dunning
+    if (!state.dunningStartedAt) {
+      throw new Error('Subscription should be marked as in dunning');
+    }
+  }
+}
+
+/**
+ * Test: entitlements suspended after grace entered from a subscription update are restored on payment
+ */
+async function testLapsedGraceRestoredOnPayment(): Promise<void> {
+  // One subscription with one entitlement; the stub applies the dunning updates to it
+  const state = { dunningStartedAt: null as Date | null, entitlementStatus: 'active' };
+  const client = {
+    query: async (sql: string) => {
+      const text = sql.replace(/\s+/g, ' ').trim();
+      const transition = (from: string, to: string) => {
+        const matched = state.entitlementStatus === from;
+        if (matched) {
+          state.entitlementStatus = to;
+        }
+        return { rows: matched ? [{ entitlement_id: 'ent-001', grace_until: new Date() }] : [], rowCount: matched ? 1 : 0 };
+      };
+
+      if (text.startsWith('UPDATE subscriptions SET dunning_started_at = COALESCE')) {
+        state.dunningStartedAt = state.dunningStartedAt || new Date();
+        return { rows: [], rowCount: 1 };
+      }
+      if (text.startsWith('UPDATE subscriptions SET dunning_started_at = NULL')) {
+        state.dunningStartedAt = null;
+        return { rows: [], rowCount: 1 };
+      }
+      if (text.startsWith('SELECT id, dunning_started_at FROM subscriptions')) {
+        return { rows: [{ id: 'sub-internal-001', dunning_started_at: state.dunningStartedAt }], rowCount: 1 };
+      }
+      if (text.includes(`SET status = 'grace'`)) {
+        return transition('active', 'grace');
+      }
+      if (text.includes(`SET status = 'suspended'`)) {
+        return transition('grace', 'suspended');
+      }
+      if (text.includes(`SET status = 'active'`)) {
+        return text.includes(`status = 'grace'`) ? transition('grace', 'active') : transition('suspended', 'active');
+      }
+      return { rows: [], rowCount: 0 };
+    },
+  } as unknown as PoolClient;
+
+  console.log('  Verifying: past_due update -> grace lapses -> invoice.paid restores the entitlement');
+
+  // customer.subscription.updated (past_due) enters grace without invoice.payment_failed
+  await enterGrace(client, 'sub-internal-001');
+  if (!state.dunningStartedAt) {
+    throw new Error('Entering grace should mark the subscription as in dunning');
+  }
+
+  await suspendLapsedGrace(client);
+  if (state.entitlementStatus !== 'suspended') {
+    throw new Error(`Expected lapsed grace to be suspended, got ${state.entitlementStatus}`);
+  }
+
+  const restored = await endDunning(client, generateSubscriptionId());
+  const status: string = state.entitlementStatus;
+  if (restored !== 1 || status !== 'active') {
+    throw new Error(`Expected the suspended entitlement to be restored, got ${status} (${restored})`);
+  }
+  if (state.dunningStartedAt !== null) {
+    throw new Error('Dunning state should be cleared after payment');
+  }
+}
+
 /**
  * Test: customer.subscription.updated event handling
  */
@@ -244,6 +452,29 @@ async function testSubscriptionUpdatedEvent(): Promise<void> {
   }
 }
 
+/**
+ * Test: add-on limits are summed over purchased quantities
+ */
+async function testAddonLimits(): Promise<void> {
+  console.log('  Verifying: addon_limits = sum of limits x quantity');
+
+  const total = sumAddonLimits([
+    { limits: { usage_limit: 500 }, quantity: 2 },
+    { limits: { usage_limit: 100, meters: { tokens: 1000 } }, quantity: 3 },
+    { limits: null, quantity: 1 },
+  ]);
+
+  if (total.usage_limit !== 1300) {
+    throw new Error(`Expected usage_limit 1300, got ${total.usage_limit}`);
+  }
+  if (total.meters?.['tokens'] !== 3000) {
+    throw new Error(`Expected tokens 3000, got ${total.meters?.['tokens']}`);
+  }
+  if (Object.keys(sumAddonLimits([])).length !== 0) {
+    throw new Error('Subscription without add-ons should have empty addon_limits');
+  }
+}
+
 /**
  * Test: customer.subscription.deleted event handling
  */
@@ -333,8 +564,13 @@ async function runAllTests(): Promise<void> {
 
   // Event handling tests
   results.push(await runTest('checkout.session.completed event', testCheckoutCompletedEvent));
+  results.push(await runTest('checkout.session.completed for a foreign team', testCheckoutCompletedForeignTeam));
   results.push(await runTest('invoice.paid event', testInvoicePaidEvent));
+  results.push(await runTest('invoice.payment_failed event', testInvoicePaymentFailedEvent));
+  results.push(await runTest('invoice.payment_failed dunning and final attempt', testInvoicePaymentFailedHandler));
+  results.push(await runTest('Lapsed grace restored on payment', testLapsedGraceRestoredOnPayment));
   results.push(await runTest('customer.subscription.updated event', testSubscriptionUpdatedEvent));
+  results.push(await runTest('Add-on limit aggregation', testAddonLimits));
   results.push(await runTest('customer.subscription.deleted event', testSubscriptionDeletedEvent));
   results.push(await runTest('Unhandled event type', testUnhandledEventType));
 
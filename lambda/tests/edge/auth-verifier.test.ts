@@ -0,0 +1,435 @@
+/**
+ * Edge Auth Verifier Tests
+ *
+ * Runs the Lambda@Edge viewer-request handler offline against a local JWKS
+ * fixture (file:// URL) including:
+ * - Signature verification by kid
+ * - iss / aud / client_id / token_use / exp validation
+ * - Key rotation
+ * - Silent refresh with the refresh_token cookie
+ * - Plan / feature routing rules
+ *
+ * Usage:
+ *   npx ts-node tests/edge/auth-verifier.test.ts
+ *
+ * @module tests/edge/auth-verifier.test
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import jwt from 'jsonwebtoken';
+import type { CloudFrontRequestEvent, CloudFrontRequest, CloudFrontResultResponse } from 'aws-lambda';
+import { handler } from '../../functions/edge/auth-verifier/handler.js';
+import { clearAuthConfig, AuthConfig } from '../../functions/edge/auth-verifier/config.js';
+import { clearJwksCache } from '../../functions/edge/auth-verifier/jwks.js';
+import { clearRoutingRules, loadRoutingRules, RoutingRuleSet } from '../../functions/edge/auth-verifier/rules.js';
+import { runTest, printResults, TestResult } from '../billing/test-utils.js';
+
+const ISSUER = 'https://cognito-idp.ap-northeast-1.amazonaws.com/ap-northeast-1_test';
+const CLIENT_ID = 'test-client-id';
+
+/**
+ * Signing key used for fixture tokens
+ */
+interface FixtureKey {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  jwk: crypto.JsonWebKey;
+}
+
+const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-verifier-'));
+const jwksPath = path.join(fixtureDir, 'jwks.json');
+const rulesPath = path.join(fixtureDir, 'routing-rules.json');
+const configPath = path.join(fixtureDir, 'auth-config.json');
+
+const authConfig: Partial<AuthConfig> = {
+  jwksUrl: pathToFileURL(jwksPath).href,
+  issuer: ISSUER,
+  clientIds: [CLIENT_ID],
+  cognitoDomain: 'auth.example.com',
+};
+
+/**
+ * Write the auth-config.json fixture
+ */
+function writeAuthConfig(config: Partial<AuthConfig>): void {
+  fs.writeFileSync(configPath, JSON.stringify(config));
+  clearAuthConfig();
+}
+
+const routingRules: RoutingRuleSet = {
+  productId: 'test-product',
+  rules: [
+    { path: '/pro/*', plans: ['pro', 'enterprise'] },
+    { path: '/reports/*', features: ['advanced_reports'], denied: { action: 'forbidden', forbiddenPage: '<p>No reports</p>' } },
+  ],
+  denied: { action: 'upgrade', upgradeUrl: 'https://example.com/pricing' },
+};
+
+/**
+ * Generate an RSA signing key
+ */
+function generateKey(kid: string): FixtureKey {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return {
+    kid,
+    privateKey,
+    jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' },
+  };
+}
+
+/**
+ * Write the JWKS fixture file
+ */
+function writeJwks(keys: FixtureKey[]): void {
+  fs.writeFileSync(jwksPath, JSON.stringify({ keys: keys.map(k => k.jwk) }));
+}
+
+/**
+ * Sign a Cognito-like ID token
+ */
+function signToken(key: FixtureKey, claims: Record<string, unknown> = {}, expiresIn = 3600): string {
+  return jwt.sign(
+    {
+      sub: 'test-user-001',
+      token_use: 'id',
+      aud: CLIENT_ID,
+      'custom:tenant_id': 'tenant-001',
+      ...claims,
+    },
+    key.privateKey,
+    { algorithm: 'RS256', keyid: key.kid, issuer: ISSUER, expiresIn }
+  );
+}
+
+/**
+ * Create CloudFront viewer-request event with auth_token cookie
+ */
+function createEdgeEvent(token?: string, refreshToken?: string): CloudFrontRequestEvent {
+  const cookies = [
+    token && `auth_token=${token}`,
+    refreshToken && `refresh_token=${refreshToken}`,
+  ].filter(Boolean).join('; ');
+
+  return {
+    Records: [
+      {
+        cf: {
+          config: {
+            distributionDomainName: 'd111111abcdef8.cloudfront.net',
+            distributionId: 'EDFDVBD6EXAMPLE',
+            eventType: 'viewer-request',
+            requestId: 'test-request-id',
+          },
+          request: {
+            clientIp: '203.0.113.178',
+            method: 'GET',
+            uri: '/dashboard',
+            querystring: 'tab=usage',
+            headers: cookies
+              ? { cookie: [{ key: 'Cookie', value: cookies }] }
+              : {},
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Assert that the handler forwarded the request with user headers
+ */
+async function expectAllowed(token: string): Promise<CloudFrontRequest> {
+  const result = await handler(createEdgeEvent(token));
+  const request = result as CloudFrontRequest;
+  if (!request.headers?.['x-user-id']) {
+    throw new Error(`Expected request to be forwarded, got status ${(result as CloudFrontResultResponse).status}`);
+  }
+  return request;
+}
+
+/**
+ * Assert that the handler redirected to login with the original URL
+ */
+async function expectRedirect(token?: string, refreshToken?: string): Promise<CloudFrontResultResponse> {
+  const result = (await handler(createEdgeEvent(token, refreshToken))) as CloudFrontResultResponse;
+  const location = result.headers?.location?.[0]?.value;
+  if (result.status !== '302' || location !== '/login?redirect_uri=%2Fdashboard%3Ftab%3Dusage') {
+    throw new Error(`Expected 302 redirect to login, got ${location}`);
+  }
+  return result;
+}
+
+/**
+ * Replace fetch with a stubbed Cognito token endpoint
+ */
+function stubTokenEndpoint(status: number, body: Record<string, unknown>): { calls: URLSearchParams[] } {
+  const stub = { calls: [] as URLSearchParams[] };
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    stub.calls.push(new URLSearchParams(String(init?.body)));
+    return new Response(JSON.stringify(body), { status });
+  }) as typeof fetch;
+  return stub;
+}
+
+const primaryKey = generateKey('key-1');
+const rotatedKey = generateKey('key-2');
+const unknownKey = generateKey('key-unknown');
+
+/**
+ * Test: Valid ID token is accepted and headers are forwarded
+ */
+async function testValidToken(): Promise<void> {
+  const request = await expectAllowed(signToken(primaryKey));
+  if (request.headers['x-user-id']?.[0]?.value !== 'test-user-001') {
+    throw new Error('X-User-Id mismatch');
+  }
+  if (request.headers['x-tenant-id']?.[0]?.value !== 'tenant-001') {
+    throw new Error('X-Tenant-Id mismatch');
+  }
+}
+
+/**
+ * Test: Missing cookie redirects to login
+ */
+async function testMissingToken(): Promise<void> {
+  await expectRedirect();
+}
+
+/**
+ * Test: Expired token is rejected
+ */
+async function testExpiredToken(): Promise<void> {
+  await expectRedirect(signToken(primaryKey, {}, -60));
+}
+
+/**
+ * Test: Wrong issuer is rejected
+ */
+async function testWrongIssuer(): Promise<void> {
+  const token = jwt.sign(
+    { sub: 'test-user-001', token_use: 'id', aud: CLIENT_ID },
+    primaryKey.privateKey,
+    { algorithm: 'RS256', keyid: primaryKey.kid, issuer: 'https://evil.example.com', expiresIn: 3600 }
+  );
+  await expectRedirect(token);
+}
+
+/**
+ * Test: Token issued for another app client is rejected
+ */
+async function testWrongAudience(): Promise<void> {
+  await expectRedirect(signToken(primaryKey, { aud: 'other-client-id' }));
+}
+
+/**
+ * Test: Access token is rejected when only ID tokens are allowed
+ */
+async function testWrongTokenUse(): Promise<void> {
+  await expectRedirect(signToken(primaryKey, { token_use: 'access', aud: undefined, client_id: CLIENT_ID }));
+}
+
+/**
+ * Test: Access token is accepted when tokenUse allows it
+ */
+async function testAccessTokenAllowed(): Promise<void> {
+  writeAuthConfig({ ...authConfig, tokenUse: ['id', 'access'] });
+  try {
+    await expectAllowed(signToken(primaryKey, { token_use: 'access', aud: undefined, client_id: CLIENT_ID }));
+  } finally {
+    writeAuthConfig(authConfig);
+  }
+}
+
+/**
+ * Test: Token signed by a key not in the JWKS is rejected
+ */
+async function testUnknownKey(): Promise<void> {
+  await expectRedirect(signToken(unknownKey));
+}
+
+/**
+ * Test: Token signed with a rotated-in key is accepted after refetch
+ */
+async function testKeyRotation(): Promise<void> {
+  clearJwksCache();
+  await expectAllowed(signToken(primaryKey));
+
+  writeJwks([primaryKey, rotatedKey]);
+  clearJwksCache();
+  await expectAllowed(signToken(rotatedKey));
+}
+
+/**
+ * Test: Expired token with refresh_token cookie is refreshed silently
+ */
+async function testSilentRefresh(): Promise<void> {
+  const newToken = signToken(primaryKey);
+  const stub = stubTokenEndpoint(200, { id_token: newToken, access_token: 'access', expires_in: 3600 });
+
+  const result = (await handler(
+    createEdgeEvent(signToken(primaryKey, {}, -60), 'refresh-token-value')
+  )) as CloudFrontResultResponse;
+
+  if (result.status !== '302' || result.headers?.location?.[0]?.value !== '/dashboard?tab=usage') {
+    throw new Error('Expected 302 redirect to the original URL');
+  }
+  if (result.headers?.['set-cookie']?.[0]?.value.startsWith(`auth_token=${newToken};`) !== true) {
+    throw new Error('Expected auth_token cookie with the refreshed token');
+  }
+  if (stub.calls[0]?.get('grant_type') !== 'refresh_token' || stub.calls[0]?.get('refresh_token') !== 'refresh-token-value') {
+    throw new Error('Token endpoint called with unexpected parameters');
+  }
+}
+
+/**
+ * Test: Rejected refresh token redirects to login and clears the cookie
+ */
+async function testRefreshRejected(): Promise<void> {
+  stubTokenEndpoint(400, { error: 'invalid_grant' });
+
+  const result = await expectRedirect(signToken(primaryKey, {}, -60), 'revoked-refresh-token');
+  if (result.headers?.['set-cookie']?.[0]?.value.startsWith('refresh_token=;') !== true) {
+    throw new Error('Expected refresh_token cookie to be cleared');
+  }
+}
+
+/**
+ * Test: Invalid (not expired) token is not refreshed
+ */
+async function testInvalidTokenNotRefreshed(): Promise<void> {
+  const stub = stubTokenEndpoint(200, {});
+  await expectRedirect(signToken(primaryKey, { aud: 'other-client-id' }), 'refresh-token-value');
+  if (stub.calls.length !== 0) {
+    throw new Error('Token endpoint should not be called');
+  }
+}
+
+/**
+ * Create an event for a path with a signed token
+ */
+function createPathEvent(uri: string, claims: Record<string, unknown>): CloudFrontRequestEvent {
+  const event = createEdgeEvent(signToken(primaryKey, claims));
+  event.Records[0].cf.request.uri = uri;
+  event.Records[0].cf.request.querystring = '';
+  return event;
+}
+
+/**
+ * Test: Plan and feature headers are forwarded
+ */
+async function testPlanHeadersForwarded(): Promise<void> {
+  const request = (await handler(
+    createPathEvent('/pro/dashboard', { 'custom:plan_id': 'pro', 'custom:features': 'export, advanced_reports' })
+  )) as CloudFrontRequest;
+
+  if (request.headers?.['x-plan-id']?.[0]?.value !== 'pro') {
+    throw new Error('X-Plan-Id mismatch');
+  }
+  if (request.headers?.['x-features']?.[0]?.value !== 'export,advanced_reports') {
+    throw new Error('X-Features mismatch');
+  }
+}
+
+/**
+ * Test: Plan rule denies lower plans with an upgrade redirect
+ */
+async function testPlanRuleUpgradeRedirect(): Promise<void> {
+  const result = (await handler(
+    createPathEvent('/pro/settings/billing', { 'custom:plan_id': 'free' })
+  )) as CloudFrontResultResponse;
+
+  const location = result.headers?.location?.[0]?.value;
+  if (result.status !== '302' || location !== 'https://example.com/pricing?redirect_uri=%2Fpro%2Fsettings%2Fbilling') {
+    throw new Error(`Expected upgrade redirect, got ${result.status} ${location}`);
+  }
+}
+
+/**
+ * Test: Feature rule returns the configured 403 page
+ */
+async function testFeatureRuleForbidden(): Promise<void> {
+  const denied = (await handler(
+    createPathEvent('/reports/monthly', { 'custom:plan_id': 'pro', 'custom:features': 'export' })
+  )) as CloudFrontResultResponse;
+
+  if (denied.status !== '403' || denied.body !== '<p>No reports</p>') {
+    throw new Error(`Expected 403 page, got ${denied.status}`);
+  }
+
+  const allowed = (await handler(
+    createPathEvent('/reports/monthly', { 'custom:plan_id': 'free', 'custom:features': 'advanced_reports' })
+  )) as CloudFrontRequest;
+
+  if (!allowed.headers?.['x-user-id']) {
+    throw new Error('Expected request with the feature to be forwarded');
+  }
+}
+
+/**
+ * Test: Without ROUTING_RULES_FILE the rules are looked up next to the module
+ * No routing-rules.json is deployed with the sources, so every path is allowed.
+ */
+async function testDefaultRulesLocation(): Promise<void> {
+  const rulesFile = process.env.ROUTING_RULES_FILE;
+  delete process.env.ROUTING_RULES_FILE;
+  clearRoutingRules();
+  try {
+    if (loadRoutingRules() !== null) {
+      throw new Error('Expected no routing rules next to the module');
+    }
+    await expectAllowed(signToken(primaryKey, { 'custom:plan_id': 'free' }));
+  } finally {
+    process.env.ROUTING_RULES_FILE = rulesFile;
+    clearRoutingRules();
+  }
+}
+
+/**
+ * Run all edge auth verifier tests
+ */
+async function runAllTests(): Promise<void> {
+  console.log('=== Edge Auth Verifier Tests ===\n');
+
+  writeJwks([primaryKey]);
+  process.env.AUTH_CONFIG_FILE = configPath;
+  writeAuthConfig(authConfig);
+  const originalFetch = globalThis.fetch;
+
+  fs.writeFileSync(rulesPath, JSON.stringify(routingRules));
+  process.env.ROUTING_RULES_FILE = rulesPath;
+  clearRoutingRules();
+
+  const results: TestResult[] = [];
+
+  results.push(await runTest('Valid ID token', testValidToken));
+  results.push(await runTest('Missing auth_token cookie', testMissingToken));
+  results.push(await runTest('Expired token', testExpiredToken));
+  results.push(await runTest('Wrong issuer', testWrongIssuer));
+  results.push(await runTest('Wrong audience', testWrongAudience));
+  results.push(await runTest('Wrong token_use', testWrongTokenUse));
+  results.push(await runTest('Access token allowed by tokenUse', testAccessTokenAllowed));
+  results.push(await runTest('Unknown signing key', testUnknownKey));
+  results.push(await runTest('Key rotation', testKeyRotation));
+  results.push(await runTest('Silent refresh', testSilentRefresh));
+  results.push(await runTest('Refresh token rejected', testRefreshRejected));
+  results.push(await runTest('Invalid token not refreshed', testInvalidTokenNotRefreshed));
+
+  globalThis.fetch = originalFetch;
+
+  results.push(await runTest('Plan and feature headers forwarded', testPlanHeadersForwarded));
+  results.push(await runTest('Plan rule upgrade redirect', testPlanRuleUpgradeRedirect));
+  results.push(await runTest('Feature rule 403 page', testFeatureRuleForbidden));
+  results.push(await runTest('Default routing rules location', testDefaultRulesLocation));
+
+  fs.rmSync(fixtureDir, { recursive: true, force: true });
+
+  printResults(results);
+}
+
+export { runAllTests };
+
+runAllTests().catch(console.error);
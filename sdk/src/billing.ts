@@ -1,7 +1,7 @@
 /**
  * Billing module - Stripe Checkout integration
  */
-import type { PlatformConfig, PlatformError, CheckoutRequest, CheckoutSession } from './types';
+import type { PlatformConfig, PlatformError, CheckoutRequest, CheckoutSession, Invoice, InvoiceLine, InvoiceList, InvoiceListOptions, PromotionCodeValidation, QualifiedInvoice } from './types';
 import { getIdToken } from './auth';
 
 let config: PlatformConfig | null = null;
@@ -45,8 +45,16 @@ export async function createCheckout(request: CheckoutRequest): Promise<Checkout
     body: JSON.stringify({
       plan_id: request.planId,
       product_id: config.productId,
+      currency: request.currency,
       success_url: request.successUrl,
       cancel_url: request.cancelUrl,
+      addons: request.addons?.map((addon) => ({
+        price_id: addon.priceId,
+        quantity: addon.quantity,
+      })),
+      team_id: request.teamId,
+      seats: request.seats,
+      promotion_code: request.promotionCode,
       metadata: request.metadata,
     }),
   });
@@ -89,6 +97,60 @@ export async function redirectToCheckout(request: CheckoutRequest): Promise<void
   }
 }
 
+/**
+ * プロモーションコードをプランに適用できるか確認 (ログイン不要)
+ *
+ * 確認したコードは `createCheckout({ promotionCode })` でそのまま渡せます。
+ * ユーザーごとの利用上限・初回購入限定のコードはチェックアウト作成時に確認されます。
+ *
+ * @example
+ * ```typescript
+ * const result = await PlatformSDK.validatePromotionCode('SPRING2026', 'price_xxx');
+ * if (result.valid) {
+ *   showPrice(result.discountedAmount, result.duration);
+ *   await PlatformSDK.redirectToCheckout({ planId: 'price_xxx', promotionCode: 'SPRING2026', successUrl, cancelUrl });
+ * } else {
+ *   showError(result.message);
+ * }
+ * ```
+ */
+export async function validatePromotionCode(code: string, planId: string): Promise<PromotionCodeValidation> {
+  if (!config) {
+    throw new Error('PlatformSDK not initialized');
+  }
+
+  const response = await fetch(`${config.apiUrl}/catalog/promotion-codes/validate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      code,
+      product_id: config.productId,
+      plan_id: planId,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || error.error || 'Failed to validate promotion code');
+  }
+
+  const data = await response.json();
+  return {
+    valid: data.valid,
+    code: data.code,
+    reason: data.reason,
+    message: data.message,
+    currency: data.currency,
+    originalAmount: data.original_amount,
+    discountAmount: data.discount_amount,
+    discountedAmount: data.discounted_amount,
+    percentOff: data.percent_off,
+    amountOff: data.amount_off,
+    duration: data.duration,
+    durationInMonths: data.duration_in_months,
+  };
+}
+
 /**
  * サブスクリプションをキャンセル（期間終了時に解約）
  *
@@ -137,3 +199,242 @@ export async function cancelSubscription(
 
   return response.json();
 }
+
+/**
+ * 請求書レスポンスをSDKの形式に変換
+ */
+function toInvoice(data: any): Invoice {
+  return {
+    id: data.id,
+    number: data.number,
+    status: data.status,
+    currency: data.currency,
+    subtotal: data.subtotal,
+    tax: data.tax,
+    total: data.total,
+    amountDue: data.amount_due,
+    amountPaid: data.amount_paid,
+    amountRemaining: data.amount_remaining,
+    createdAt: data.created_at,
+    periodStart: data.period_start,
+    periodEnd: data.period_end,
+    dueDate: data.due_date,
+    paidAt: data.paid_at,
+    subscriptionId: data.subscription_id,
+    invoicePdf: data.invoice_pdf,
+    hostedInvoiceUrl: data.hosted_invoice_url,
+    receiptUrl: data.receipt_url,
+    lines: (data.lines || []).map((line: any): InvoiceLine => ({
+      id: line.id,
+      description: line.description,
+      amount: line.amount,
+      quantity: line.quantity,
+      taxAmounts: (line.tax_amounts || []).map((tax: any) => ({
+        amount: tax.amount,
+        inclusive: tax.inclusive,
+        taxRate: tax.tax_rate,
+      })),
+      proration: line.proration,
+      periodStart: line.period_start,
+      periodEnd: line.period_end,
+      priceId: line.price_id,
+    })),
+    hasMoreLines: data.has_more_lines,
+  };
+}
+
+/**
+ * 請求書・領収書の一覧を取得 (新しい順)
+ *
+ * @example
+ * ```typescript
+ * const { invoices, nextCursor } = await PlatformSDK.getInvoices({ limit: 20 });
+ * invoices.forEach((invoice) => render(invoice.number, invoice.total, invoice.invoicePdf));
+ * const next = await PlatformSDK.getInvoices({ limit: 20, startingAfter: nextCursor! });
+ * ```
+ */
+export async function getInvoices(options: InvoiceListOptions = {}): Promise<InvoiceList> {
+  if (!config) {
+    throw new Error('PlatformSDK not initialized');
+  }
+
+  const token = await getIdToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const params = new URLSearchParams();
+  if (options.limit) {
+    params.set('limit', String(options.limit));
+  }
+  if (options.startingAfter) {
+    params.set('starting_after', options.startingAfter);
+  }
+  if (options.status) {
+    params.set('status', options.status);
+  }
+
+  const response = await fetch(`${config.apiUrl}/me/invoices?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || error.message || 'Failed to get invoices');
+  }
+
+  const data = await response.json();
+  return {
+    invoices: data.invoices.map(toInvoice),
+    hasMore: data.has_more,
+    nextCursor: data.next_cursor,
+  };
+}
+
+/**
+ * 請求書の詳細を取得 (全明細行を含む)
+ *
+ * @example
+ * ```typescript
+ * const invoice = await PlatformSDK.getInvoice('in_xxx');
+ * invoice.lines.forEach((line) => console.log(line.description, line.amount));
+ * ```
+ */
+export async function getInvoice(invoiceId: string): Promise<Invoice> {
+  if (!config) {
+    throw new Error('PlatformSDK not initialized');
+  }
+
+  const token = await getIdToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${config.apiUrl}/me/invoices/${encodeURIComponent(invoiceId)}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || error.message || 'Failed to get invoice');
+  }
+
+  return toInvoice(await response.json());
+}
+
+/**
+ * 適格請求書を取得 (支払済みの請求書のみ)
+ *
+ * 初回取得時に発行され、以降は同じ内容が返ります。
+ *
+ * @example
+ * ```typescript
+ * const invoice = await PlatformSDK.getQualifiedInvoice('in_xxx');
+ * console.log(invoice.issuer.registrationNumber); // T1234567890123
+ * invoice.taxBreakdown.forEach((b) => console.log(`${b.taxRate}%対象`, b.total, b.taxAmount));
+ * ```
+ */
+export async function getQualifiedInvoice(invoiceId: string): Promise<QualifiedInvoice> {
+  if (!config) {
+    throw new Error('PlatformSDK not initialized');
+  }
+
+  const token = await getIdToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${config.apiUrl}/me/invoices/${encodeURIComponent(invoiceId)}/qualified-invoice`,
+    {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || error.message || 'Failed to get qualified invoice');
+  }
+
+  const data = await response.json();
+  return {
+    documentNumber: data.document_number,
+    stripeInvoiceId: data.stripe_invoice_id,
+    issuedAt: data.issued_at,
+    transactionDate: data.transaction_date,
+    currency: data.currency,
+    issuer: {
+      name: data.issuer.name,
+      registrationNumber: data.issuer.registration_number,
+      address: data.issuer.address,
+      phone: data.issuer.phone,
+      email: data.issuer.email,
+    },
+    recipient: data.recipient,
+    lines: data.lines.map((line: any) => ({
+      description: line.description,
+      quantity: line.quantity,
+      amount: line.amount,
+      taxRate: line.tax_rate,
+      taxInclusive: line.tax_inclusive,
+      reducedRate: line.reduced_rate,
+    })),
+    taxBreakdown: data.tax_breakdown.map((breakdown: any) => ({
+      taxRate: breakdown.tax_rate,
+      taxInclusive: breakdown.tax_inclusive,
+      taxableAmount: breakdown.taxable_amount,
+      taxAmount: breakdown.tax_amount,
+      total: breakdown.total,
+    })),
+    subtotal: data.subtotal,
+    taxTotal: data.tax_total,
+    total: data.total,
+  };
+}
+
+/**
+ * 適格請求書のPDFを取得 (支払済みの請求書のみ)
+ *
+ * @example
+ * ```typescript
+ * const pdf = await PlatformSDK.getQualifiedInvoicePdf('in_xxx');
+ * window.open(URL.createObjectURL(pdf));
+ * ```
+ */
+export async function getQualifiedInvoicePdf(invoiceId: string): Promise<Blob> {
+  if (!config) {
+    throw new Error('PlatformSDK not initialized');
+  }
+
+  const token = await getIdToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(
+    `${config.apiUrl}/me/invoices/${encodeURIComponent(invoiceId)}/qualified-invoice?format=pdf`,
+    {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        // API Gateway returns the binary PDF only when it is accepted
+        'Accept': 'application/pdf',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || error.message || 'Failed to get qualified invoice PDF');
+  }
+
+  return response.blob();
+}
@@ -1,4 +1,4 @@
-import type { Entitlement, PlatformConfig, PlatformError, Plan } from './types';
+import type { Entitlement, MeterUsage, PlatformConfig, PlatformError, Plan, Trial } from './types';
 import { getIdToken } from './auth';
 
 let config: PlatformConfig | null = null;
@@ -50,6 +50,15 @@ export async function getEntitlement(forceRefresh = false): Promise<Entitlement>
   }
 
   const entitlement = await response.json();
+  if (entitlement.meters) {
+    entitlement.meters = toMeterUsageMap(entitlement.meters);
+  }
+  if (entitlement.grace_until) {
+    entitlement.graceUntil = entitlement.grace_until;
+  }
+  if (entitlement.credit_balance !== undefined) {
+    entitlement.creditBalance = entitlement.credit_balance;
+  }
   cachedEntitlement = entitlement;
   cacheExpiry = Date.now() + CACHE_TTL;
 
@@ -66,9 +75,19 @@ export async function hasFeature(featureName: string): Promise<boolean> {
 
 /**
  * 使用制限内かチェック
+ * 使用タイプ別メーター (例: 'tokens') があればその残量を返します。
  */
 export async function checkLimit(limitType: keyof Entitlement['limits']): Promise<{ allowed: boolean; remaining: number }> {
   const entitlement = await getEntitlement();
+
+  const meter = entitlement.meters?.[limitType];
+  if (meter) {
+    return {
+      allowed: meter.remaining > 0,
+      remaining: meter.remaining,
+    };
+  }
+
   const limit = entitlement.limits[limitType];
   const current = entitlement.currentUsage[limitType as keyof typeof entitlement.currentUsage] || 0;
 
@@ -85,13 +104,23 @@ export async function checkLimit(limitType: keyof Entitlement['limits']): Promis
 
 /**
  * プラン一覧を取得
+ *
+ * 価格は currency の通貨で返ります。省略時はブラウザの言語設定
+ * (Accept-Language) から通貨が選ばれます (en-US → USD, de-DE → EUR, ja → JPY)。
+ *
+ * @param currency - 表示通貨 (例: 'USD')
  */
-export async function getPlans(): Promise<Plan[]> {
+export async function getPlans(currency?: string): Promise<Plan[]> {
   if (!config) {
     throw new Error('PlatformSDK not initialized');
   }
 
-  const response = await fetch(`${config.apiUrl}/catalog/plans?productId=${config.productId}`, {
+  const params = new URLSearchParams({ productId: config.productId });
+  if (currency) {
+    params.set('currency', currency);
+  }
+
+  const response = await fetch(`${config.apiUrl}/catalog/plans?${params.toString()}`, {
     headers: { 'Content-Type': 'application/json' },
   });
 
@@ -102,6 +131,129 @@ export async function getPlans(): Promise<Plan[]> {
   return response.json();
 }
 
+/**
+ * APIのトライアル (snake_case) を Trial に変換
+ */
+function toTrial(data: any): Trial {
+  return {
+    id: data.id,
+    productId: data.product_id,
+    planId: data.plan_id,
+    status: data.status,
+    startedAt: data.started_at,
+    endsAt: data.ends_at,
+    daysRemaining: data.days_remaining,
+    convertedAt: data.converted_at,
+    convertedPlanId: data.converted_plan_id,
+  };
+}
+
+/**
+ * カード登録なしで無料トライアルを開始
+ *
+ * プランの trial_period_days の間、利用権が付与されます。
+ * トライアルはプロダクトごとに1回までです。
+ */
+export async function startTrial(planId: string): Promise<Trial> {
+  if (!config) {
+    throw new Error('PlatformSDK not initialized');
+  }
+
+  const token = await getIdToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${config.apiUrl}/me/trials`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      product_id: config.productId,
+      plan_id: planId,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw {
+      name: 'PlatformError',
+      message: error.message || 'Failed to start trial',
+      code: error.reason || 'TRIAL_ERROR',
+      statusCode: response.status,
+    } as PlatformError;
+  }
+
+  // トライアルの利用権を反映
+  clearEntitlementCache();
+
+  return toTrial(await response.json());
+}
+
+/**
+ * 無料トライアルの状態を取得 (トライアル未利用なら null)
+ */
+export async function getTrial(): Promise<Trial | null> {
+  if (!config) {
+    throw new Error('PlatformSDK not initialized');
+  }
+
+  const token = await getIdToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${config.apiUrl}/me/trials?productId=${config.productId}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw {
+      name: 'PlatformError',
+      message: error.message || 'Failed to get trial',
+      code: error.code || 'TRIAL_ERROR',
+      statusCode: response.status,
+    } as PlatformError;
+  }
+
+  return toTrial(await response.json());
+}
+
+/**
+ * APIのメーター情報 (snake_case) を MeterUsage に変換
+ */
+export function toMeterUsageMap(meters: Record<string, {
+  limit: number;
+  used: number;
+  remaining: number;
+  soft_limit: number;
+  reset_at: string;
+  reset: MeterUsage['reset'];
+}>): Record<string, MeterUsage> {
+  const result: Record<string, MeterUsage> = {};
+  for (const [name, meter] of Object.entries(meters)) {
+    result[name] = {
+      limit: meter.limit,
+      used: meter.used,
+      remaining: meter.remaining,
+      softLimit: meter.soft_limit,
+      resetAt: meter.reset_at,
+      reset: meter.reset,
+    };
+  }
+  return result;
+}
+
 /**
  * キャッシュをクリア
  */
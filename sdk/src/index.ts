@@ -5,9 +5,9 @@
 
 import type { PlatformConfig, AuthUser, Entitlement, Plan, UsageRecord, CheckoutRequest, CheckoutSession, UserProfile } from './types';
 import { initAuth, requireAuth, logout, getAuthState, setAuthTokens, handleAuthCallback, getAccessToken, getIdToken, requestPasswordReset, confirmPasswordReset, deleteAccount, login, signup, confirmSignup, type LoginResponse, type SignupResponse } from './auth';
-import { initEntitlement, getEntitlement, hasFeature, checkLimit, getPlans, clearEntitlementCache } from './entitlement';
-import { initUsage, recordUsage, recordUsageBatch, incrementUsage } from './usage';
-import { initBilling, createCheckout, redirectToCheckout, cancelSubscription } from './billing';
+import { initEntitlement, getEntitlement, hasFeature, checkLimit, getPlans, clearEntitlementCache, startTrial, getTrial } from './entitlement';
+import { initUsage, recordUsage, recordUsageBatch, incrementUsage, getUsageHistory } from './usage';
+import { initBilling, createCheckout, redirectToCheckout, validatePromotionCode, cancelSubscription, getInvoices, getInvoice, getQualifiedInvoice, getQualifiedInvoicePdf } from './billing';
 import { initProfile, getMe } from './profile';
 
 export * from './types';
@@ -200,17 +200,48 @@ export class PlatformSDK {
   static checkLimit = checkLimit;
 
   /**
-   * プラン一覧を取得
+   * プラン一覧を取得 (通貨省略時はブラウザの言語設定から選択)
+   * @example
+   * ```typescript
+   * const plans = await PlatformSDK.getPlans('USD');
+   * const { url } = await PlatformSDK.createCheckout({
+   *   planId: plans[0].stripe_price_id,
+   *   successUrl: 'https://myapp.com/success',
+   *   cancelUrl: 'https://myapp.com/pricing',
+   * });
+   * ```
    */
   static getPlans = getPlans;
 
+  /**
+   * カード登録なしで無料トライアルを開始
+   * @example
+   * ```typescript
+   * const trial = await PlatformSDK.startTrial('price_xxx');
+   * console.log(`トライアルは${trial.daysRemaining}日間です`);
+   * ```
+   */
+  static startTrial = startTrial;
+
+  /**
+   * 無料トライアルの状態を取得
+   * @example
+   * ```typescript
+   * const trial = await PlatformSDK.getTrial();
+   * if (trial?.status === 'active' && trial.daysRemaining <= 3) {
+   *   showUpgradeBanner();
+   * }
+   * ```
+   */
+  static getTrial = getTrial;
+
   /**
    * キャッシュをクリア
    */
   static clearCache = clearEntitlementCache;
 
   /**
-   * 使用量を記録
+   * 使用量を記録（冪等性キーを自動生成し、一時的なエラーは再試行）
    * @example
    * ```typescript
    * await PlatformSDK.recordUsage(1, 'generation');
@@ -219,10 +250,26 @@ export class PlatformSDK {
   static recordUsage = recordUsage;
 
   /**
-   * バッチで使用量を記録
+   * バッチで使用量を記録（1トランザクションで一括記録）
+   * @example
+   * ```typescript
+   * const { results, remaining } = await PlatformSDK.recordUsageBatch([
+   *   { type: 'tokens', amount: 1500, idempotencyKey: 'req_abc123' },
+   *   { type: 'api_call', amount: 1 },
+   * ]);
+   * ```
    */
   static recordUsageBatch = recordUsageBatch;
 
+  /**
+   * 使用履歴を取得（グラフ表示用の時間単位・日単位の集計）
+   * @example
+   * ```typescript
+   * const { buckets } = await PlatformSDK.getUsageHistory({ granularity: 'hour' });
+   * ```
+   */
+  static getUsageHistory = getUsageHistory;
+
   /**
    * 使用量をインクリメント（1を記録）
    * @example
@@ -260,6 +307,20 @@ export class PlatformSDK {
    */
   static redirectToCheckout = redirectToCheckout;
 
+  /**
+   * プロモーションコードをプランに適用できるか確認
+   * @example
+   * ```typescript
+   * const result = await PlatformSDK.validatePromotionCode('SPRING2026', 'price_xxx');
+   * if (result.valid) {
+   *   console.log(`${result.originalAmount} → ${result.discountedAmount}`);
+   * } else {
+   *   console.log(result.message);
+   * }
+   * ```
+   */
+  static validatePromotionCode = validatePromotionCode;
+
   /**
    * サブスクリプションをキャンセル（期間終了時に解約）
    * @example
@@ -269,6 +330,49 @@ export class PlatformSDK {
    * ```
    */
   static cancelSubscription = cancelSubscription;
+
+  /**
+   * 請求書・領収書の一覧を取得 (アプリ内の請求履歴ページ用)
+   * @example
+   * ```typescript
+   * const { invoices, hasMore, nextCursor } = await PlatformSDK.getInvoices({ limit: 20 });
+   * invoices.forEach((invoice) => {
+   *   console.log(invoice.number, invoice.total, invoice.tax, invoice.status);
+   *   console.log(invoice.invoicePdf, invoice.receiptUrl);
+   * });
+   * ```
+   */
+  static getInvoices = getInvoices;
+
+  /**
+   * 請求書の詳細を取得 (全明細行を含む)
+   * @example
+   * ```typescript
+   * const invoice = await PlatformSDK.getInvoice('in_xxx');
+   * invoice.lines.forEach((line) => console.log(line.description, line.amount));
+   * ```
+   */
+  static getInvoice = getInvoice;
+
+  /**
+   * 適格請求書を取得 (支払済みの請求書のみ)
+   * @example
+   * ```typescript
+   * const invoice = await PlatformSDK.getQualifiedInvoice('in_xxx');
+   * console.log(invoice.issuer.registrationNumber, invoice.taxBreakdown);
+   * ```
+   */
+  static getQualifiedInvoice = getQualifiedInvoice;
+
+  /**
+   * 適格請求書のPDFを取得
+   * @example
+   * ```typescript
+   * const pdf = await PlatformSDK.getQualifiedInvoicePdf('in_xxx');
+   * window.open(URL.createObjectURL(pdf));
+   * ```
+   */
+  static getQualifiedInvoicePdf = getQualifiedInvoicePdf;
 }
 
 // デフォルトエクスポート
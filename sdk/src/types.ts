@@ -44,18 +44,38 @@ export interface Entitlement {
   planId: string;
   /** プラン名 */
   planName: string;
-  /** ステータス */
-  status: 'active' | 'expired' | 'cancelled' | 'pending';
+  /** ステータス (grace: 支払い遅延中の猶予期間、graceUntilまで利用可能) */
+  status: 'active' | 'grace' | 'expired' | 'cancelled' | 'pending';
   /** 機能フラグ */
   features: Record<string, boolean | number | string>;
   /** 使用制限 */
   limits: UsageLimits;
   /** 現在の使用量 */
   currentUsage: CurrentUsage;
+  /** 使用タイプ別メーター (api_call を含む) */
+  meters?: Record<string, MeterUsage>;
   /** 有効期限 */
   expiresAt?: string;
   /** 解約予定日 (ISO 8601) - cancel_at_period_end=trueの場合のみ */
   cancelAt?: string;
+  /** 猶予期間の終了日時 (ISO 8601) - status='grace'の場合のみ */
+  graceUntil?: string;
+  /** 表示すべきバナー - status='grace'の場合のみ */
+  banner?: EntitlementBanner;
+  /** プリペイドクレジット残高 (プランの上限を超えた使用量に充当) */
+  creditBalance?: number;
+}
+
+/**
+ * 利用権に関するバナー表示のヒント
+ */
+export interface EntitlementBanner {
+  /** 種別 (payment_past_due: 支払い遅延中) */
+  type: 'payment_past_due';
+  /** 重要度 */
+  severity: 'warning';
+  /** 表示メッセージ */
+  message: string;
 }
 
 /**
@@ -86,6 +106,24 @@ export interface CurrentUsage {
   resetAt: string;
 }
 
+/**
+ * 使用タイプ別メーターの使用状況
+ */
+export interface MeterUsage {
+  /** 上限 */
+  limit: number;
+  /** 使用量 */
+  used: number;
+  /** 残り使用量 */
+  remaining: number;
+  /** ソフトリミット */
+  softLimit: number;
+  /** リセット日時 (ISO 8601、リセットしないメーターは空文字) */
+  resetAt: string;
+  /** リセット周期 */
+  reset: 'billing_period' | 'daily' | 'monthly' | 'never';
+}
+
 /**
  * 使用記録リクエスト
  */
@@ -96,6 +134,84 @@ export interface UsageRecord {
   amount: number;
   /** メタデータ */
   metadata?: Record<string, unknown>;
+  /** 冪等性キー (同じキーのレコードは二重に記録されません。省略時は自動生成) */
+  idempotencyKey?: string;
+}
+
+/**
+ * 使用履歴の取得オプション
+ */
+export interface UsageHistoryOptions {
+  /** 開始日時 (省略時は hour: 24時間前 / day: 30日前) */
+  from?: Date | string;
+  /** 終了日時 (含まない、省略時は現在) */
+  to?: Date | string;
+  /** 集計単位 (UTC、デフォルト: day) */
+  granularity?: 'hour' | 'day';
+  /** 使用タイプで絞り込み */
+  type?: string;
+}
+
+/**
+ * 使用履歴の集計バケット
+ */
+export interface UsageHistoryBucket {
+  /** バケット開始日時 (ISO 8601) */
+  start: string;
+  /** 使用タイプごとの使用量 */
+  usage: Record<string, number>;
+  /** 使用量の合計 */
+  total: number;
+  /** 記録回数 */
+  events: number;
+}
+
+/**
+ * 使用履歴
+ */
+export interface UsageHistory {
+  /** 開始日時 (ISO 8601) */
+  from: string;
+  /** 終了日時 (ISO 8601) */
+  to: string;
+  /** 集計単位 */
+  granularity: 'hour' | 'day';
+  /** バケット (古い順、使用量のない期間を含む) */
+  buckets: UsageHistoryBucket[];
+  /** 期間全体の使用タイプごとの使用量 */
+  totals: Record<string, number>;
+}
+
+/**
+ * バッチ記録のレコードごとの結果
+ */
+export interface UsageBatchRecordResult {
+  /** リクエスト内のインデックス */
+  index: number;
+  /** 冪等性キー */
+  idempotencyKey?: string;
+  /** applied: 記録済み, duplicate: 同じキーが記録済みのためスキップ */
+  status: 'applied' | 'duplicate';
+  /** 使用量 */
+  count: number;
+}
+
+/**
+ * バッチ記録の結果
+ */
+export interface UsageBatchResult {
+  /** レコードごとの結果 (リクエスト順) */
+  results: UsageBatchRecordResult[];
+  /** このバッチで記録された使用量の合計 */
+  appliedCount: number;
+  /** 記録後の使用量 (api_call) */
+  used: number;
+  /** 記録後の残り使用量 (api_call) */
+  remaining: number;
+  /** 上限超過フラグ (api_call) */
+  overLimit: boolean;
+  /** このバッチで記録された api_call 以外のメーターの使用状況 */
+  meters?: Record<string, MeterUsage>;
 }
 
 /**
@@ -108,16 +224,22 @@ export interface Plan {
   product_id: string;
   /** プラン名 */
   name: string;
-  /** Stripe Price ID */
+  /** Stripe Price ID (表示通貨の価格。チェックアウトの planId に指定) */
   stripe_price_id: string;
   /** 課金サイクル */
   billing_period: 'monthly' | 'yearly' | 'one_time';
-  /** 価格(円) */
+  /** 価格 (最小通貨単位。JPY は円、USD・EUR はセント) */
   price_amount: number;
-  /** 通貨 */
+  /** 通貨 (表示通貨。プランがその通貨で販売されていなければプランの通貨) */
   currency: string;
+  /** 全通貨の価格 (プランの通貨が先頭) */
+  prices?: PlanPrice[];
   /** トライアル期間(日) */
   trial_period_days?: number | null;
+  /** 消費税率 (%) */
+  tax_rate?: number;
+  /** 価格が税込か */
+  tax_inclusive?: boolean;
   /** 有効フラグ */
   is_active: boolean;
   /** メタデータ */
@@ -128,20 +250,86 @@ export interface Plan {
   updated_at: string;
 }
 
+/**
+ * プランの通貨別価格
+ */
+export interface PlanPrice {
+  /** 通貨 (ISO 4217、大文字) */
+  currency: string;
+  /** 価格 (最小通貨単位) */
+  price_amount: number;
+  /** Stripe Price ID */
+  stripe_price_id: string;
+  /** プランの通貨か */
+  is_default: boolean;
+}
+
+/**
+ * 無料トライアルの状態
+ * - active: トライアル中
+ * - expired: 購入せずに終了
+ * - converted: 有料プランを購入済み
+ */
+export type TrialStatus = 'active' | 'expired' | 'converted';
+
+/**
+ * カード登録なしの無料トライアル
+ */
+export interface Trial {
+  /** トライアルID */
+  id: string;
+  /** プロダクトID */
+  productId: string;
+  /** トライアル中のプラン (Stripe Price ID) */
+  planId: string | null;
+  /** 状態 */
+  status: TrialStatus;
+  /** 開始日時 (ISO 8601) */
+  startedAt: string;
+  /** 終了日時 (ISO 8601) */
+  endsAt: string;
+  /** 残り日数 (終了後は0) */
+  daysRemaining: number;
+  /** 有料プランの購入日時 (converted のみ) */
+  convertedAt?: string;
+  /** 購入したプラン (Stripe Price ID, converted のみ) */
+  convertedPlanId?: string;
+}
+
 /**
  * チェックアウトセッションリクエスト
  */
 export interface CheckoutRequest {
-  /** Stripe Price ID */
+  /** Stripe Price ID (プランのいずれかの通貨の価格) */
   planId: string;
+  /** 課金する通貨 (例: 'USD'。省略時は planId の価格の通貨) */
+  currency?: string;
   /** 成功時リダイレクトURL */
   successUrl: string;
   /** キャンセル時リダイレクトURL */
   cancelUrl: string;
+  /** 同時に購入するアドオン */
+  addons?: CheckoutAddon[];
+  /** サブスクリプションを所有するチーム (席数課金。チームのオーナーのみ) */
+  teamId?: string;
+  /** 席数 (デフォルト: 1) */
+  seats?: number;
+  /** 適用するプロモーションコード (指定時はCheckout画面でのコード入力なし) */
+  promotionCode?: string;
   /** 追加メタデータ */
   metadata?: Record<string, string>;
 }
 
+/**
+ * チェックアウト時に購入するアドオン
+ */
+export interface CheckoutAddon {
+  /** アドオンのStripe Price ID */
+  priceId: string;
+  /** 購入数 (デフォルト: 1) */
+  quantity?: number;
+}
+
 /**
  * チェックアウトセッションレスポンス
  */
@@ -152,6 +340,211 @@ export interface CheckoutSession {
   url: string;
 }
 
+/**
+ * プロモーションコードの確認結果
+ */
+export interface PromotionCodeValidation {
+  /** プランに適用できるか */
+  valid: boolean;
+  /** 入力されたコード */
+  code: string;
+  /** 適用できない理由 (例: `expired`, `not_applicable_to_plan`, `max_redemptions_reached`) */
+  reason: string | null;
+  /** 理由のメッセージ */
+  message: string | null;
+  /** 通貨 */
+  currency: string;
+  /** 割引前の価格 */
+  originalAmount: number;
+  /** 割引額 (請求1回あたり) */
+  discountAmount: number;
+  /** 割引後の価格 */
+  discountedAmount: number;
+  /** 割引率 (%) */
+  percentOff: number | null;
+  /** 割引額 (固定額クーポン) */
+  amountOff: number | null;
+  /** 割引の期間: once (初回のみ) / repeating (durationInMonths ヶ月) / forever */
+  duration: 'once' | 'repeating' | 'forever' | null;
+  /** 割引される月数 (repeating) */
+  durationInMonths: number | null;
+}
+
+/**
+ * 請求書のステータス
+ */
+export type InvoiceStatus = 'draft' | 'open' | 'paid' | 'uncollectible' | 'void';
+
+/**
+ * 請求書一覧の取得オプション
+ */
+export interface InvoiceListOptions {
+  /** 取得件数 (1〜100、デフォルト: 10) */
+  limit?: number;
+  /** 次ページの取得位置 (前回レスポンスの nextCursor) */
+  startingAfter?: string;
+  /** ステータスで絞り込み */
+  status?: InvoiceStatus;
+}
+
+/**
+ * 請求書の明細行
+ */
+export interface InvoiceLine {
+  /** 明細行ID */
+  id: string;
+  /** 説明 */
+  description: string | null;
+  /** 金額 (通貨の最小単位、クレジットは負数) */
+  amount: number;
+  /** 数量 */
+  quantity: number | null;
+  /** 税額 */
+  taxAmounts: Array<{ amount: number; inclusive: boolean; taxRate: string | null }>;
+  /** 日割り計算の明細か */
+  proration: boolean;
+  /** 対象期間の開始日時 (ISO 8601) */
+  periodStart: string;
+  /** 対象期間の終了日時 (ISO 8601) */
+  periodEnd: string;
+  /** Stripe Price ID */
+  priceId: string | null;
+}
+
+/**
+ * 請求書
+ */
+export interface Invoice {
+  /** Stripe Invoice ID */
+  id: string;
+  /** 請求書番号 */
+  number: string | null;
+  /** ステータス */
+  status: InvoiceStatus | null;
+  /** 通貨 */
+  currency: string;
+  /** 小計 (税抜) */
+  subtotal: number;
+  /** 税額 */
+  tax: number | null;
+  /** 合計 */
+  total: number;
+  /** 請求額 */
+  amountDue: number;
+  /** 支払済み額 */
+  amountPaid: number;
+  /** 未払い額 */
+  amountRemaining: number;
+  /** 発行日時 (ISO 8601) */
+  createdAt: string;
+  /** 請求対象期間の開始日時 (ISO 8601) */
+  periodStart: string;
+  /** 請求対象期間の終了日時 (ISO 8601) */
+  periodEnd: string;
+  /** 支払期日 (ISO 8601) */
+  dueDate: string | null;
+  /** 支払日時 (ISO 8601) */
+  paidAt: string | null;
+  /** Stripe Subscription ID (単発購入は null) */
+  subscriptionId: string | null;
+  /** 請求書PDFのURL */
+  invoicePdf: string | null;
+  /** Stripeの請求書ページURL (支払い・ダウンロード) */
+  hostedInvoiceUrl: string | null;
+  /** 領収書URL (支払済みのみ) */
+  receiptUrl: string | null;
+  /** 明細行 */
+  lines: InvoiceLine[];
+  /** 明細行が他にもあるか (一覧では先頭ページのみ。全件は getInvoice で取得) */
+  hasMoreLines: boolean;
+}
+
+/**
+ * 請求書一覧
+ */
+export interface InvoiceList {
+  /** 請求書 (新しい順) */
+  invoices: Invoice[];
+  /** 次のページがあるか */
+  hasMore: boolean;
+  /** 次ページ取得時に startingAfter に渡す値 */
+  nextCursor: string | null;
+}
+
+/**
+ * 適格請求書の明細行
+ */
+export interface QualifiedInvoiceLine {
+  /** 内容 */
+  description: string;
+  /** 数量 */
+  quantity: number | null;
+  /** 金額 (値引き後、taxInclusive なら税込) */
+  amount: number;
+  /** 税率 (%) */
+  taxRate: number;
+  /** 金額が税込か */
+  taxInclusive: boolean;
+  /** 軽減税率対象 (※印) */
+  reducedRate: boolean;
+}
+
+/**
+ * 適格請求書の税率ごとの集計
+ */
+export interface QualifiedInvoiceTaxBreakdown {
+  /** 税率 (%) */
+  taxRate: number;
+  /** 明細が税込か */
+  taxInclusive: boolean;
+  /** 税抜金額 */
+  taxableAmount: number;
+  /** 消費税額 (税率ごとに1回端数処理) */
+  taxAmount: number;
+  /** 税込金額 */
+  total: number;
+}
+
+/**
+ * 適格請求書 (支払済みの請求書から発行)
+ */
+export interface QualifiedInvoice {
+  /** 請求書番号 */
+  documentNumber: string;
+  /** Stripe Invoice ID */
+  stripeInvoiceId: string;
+  /** 発行日時 (ISO 8601) */
+  issuedAt: string;
+  /** 取引年月日 (支払日時、ISO 8601) */
+  transactionDate: string;
+  /** 通貨 */
+  currency: string;
+  /** 発行事業者 */
+  issuer: {
+    name: string;
+    /** 登録番号 (T + 13桁) */
+    registrationNumber: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+  /** 宛名 */
+  recipient: {
+    name: string;
+    email: string | null;
+  };
+  /** 明細行 */
+  lines: QualifiedInvoiceLine[];
+  /** 税率ごとの集計 */
+  taxBreakdown: QualifiedInvoiceTaxBreakdown[];
+  /** 小計 (税抜) */
+  subtotal: number;
+  /** 消費税合計 */
+  taxTotal: number;
+  /** 合計 (税込) */
+  total: number;
+}
+
 /**
  * ユーザープロフィール
  */
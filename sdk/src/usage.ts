@@ -1,9 +1,24 @@
-import type { PlatformConfig, UsageRecord } from './types';
+import type { PlatformConfig, UsageRecord, UsageBatchResult, UsageHistory, UsageHistoryOptions } from './types';
 import { getIdToken } from './auth';
-import { clearEntitlementCache } from './entitlement';
+import { clearEntitlementCache, toMeterUsageMap } from './entitlement';
 
 let config: PlatformConfig | null = null;
 
+/** 1リクエストあたりの最大レコード数 (APIの上限と同じ) */
+const MAX_BATCH_SIZE = 1000;
+
+/** 再試行設定 (lambda/shared/utils/retry.ts のデフォルトと同じ) */
+const RETRY_CONFIG = {
+  maxRetries: 3,
+  initialDelayMs: 100,
+  maxDelayMs: 10000,
+  backoffMultiplier: 2,
+  jitterFactor: 0.1,
+};
+
+/** 再試行するHTTPステータス */
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
 /**
  * SDK初期化
  */
@@ -13,8 +28,17 @@ export function initUsage(cfg: PlatformConfig): void {
 
 /**
  * 使用量を記録
+ * 冪等性キーを自動生成し、ネットワークエラーや一時的なサーバーエラー (429/5xx) は
+ * 同じキーで指数バックオフ再試行します。再試行で二重に記録されることはありません。
+ *
+ * @param idempotencyKey - 冪等性キー (省略時は自動生成)
  */
-export async function recordUsage(amount: number, type: string = 'api_call', metadata?: Record<string, unknown>): Promise<void> {
+export async function recordUsage(
+  amount: number,
+  type: string = 'api_call',
+  metadata?: Record<string, unknown>,
+  idempotencyKey: string = generateIdempotencyKey()
+): Promise<void> {
   if (!config) {
     throw new Error('PlatformSDK not initialized');
   }
@@ -28,20 +52,29 @@ export async function recordUsage(amount: number, type: string = 'api_call', met
     type,
     amount,
     metadata,
+    idempotencyKey,
   };
 
-  const response = await fetch(`${config.apiUrl}/me/usage`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      product_id: config.productId,
-      count: amount,
-      metadata,
-    }),
-  });
+  const apiUrl = config.apiUrl;
+  const productId = config.productId;
+
+  const response = await fetchWithRetry(() =>
+    fetch(`${apiUrl}/me/usage`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        'Idempotency-Key': record.idempotencyKey!,
+      },
+      body: JSON.stringify({
+        product_id: productId,
+        type: record.type,
+        count: record.amount,
+        metadata: record.metadata,
+        idempotency_key: record.idempotencyKey,
+      }),
+    })
+  );
 
   if (!response.ok) {
     const error = await response.json();
@@ -54,19 +87,204 @@ export async function recordUsage(amount: number, type: string = 'api_call', met
 
 /**
  * バッチで使用量を記録
- * 内部的には個別のAPIコールを順次実行します
+ * 1000件ごとに POST /me/usage/batch で送信し、各リクエストは1トランザクションで記録されます。
+ * 冪等性キーを省略したレコードにはキーを自動生成し、ネットワークエラーや
+ * 一時的なサーバーエラー (429/5xx) は recordUsage と同様に同じキーで再試行します。
+ *
+ * @example
+ * ```typescript
+ * const result = await recordUsageBatch([
+ *   { type: 'tokens', amount: 1500, idempotencyKey: 'req_abc123' },
+ *   { type: 'api_call', amount: 1 },
+ * ]);
+ * console.log(result.remaining);
+ * ```
+ */
+export async function recordUsageBatch(records: UsageRecord[]): Promise<UsageBatchResult> {
+  if (!config) {
+    throw new Error('PlatformSDK not initialized');
+  }
+
+  const token = await getIdToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const result: UsageBatchResult = {
+    results: [],
+    appliedCount: 0,
+    used: 0,
+    remaining: 0,
+    overLimit: false,
+  };
+
+  if (records.length === 0) {
+    return result;
+  }
+
+  // キーを先に確定させ、再試行で同じキーを送る (記録済みのレコードは duplicate になる)
+  const keyedRecords = records.map((record) => ({
+    ...record,
+    idempotencyKey: record.idempotencyKey || generateIdempotencyKey(),
+  }));
+
+  const apiUrl = config.apiUrl;
+  const productId = config.productId;
+
+  for (let offset = 0; offset < keyedRecords.length; offset += MAX_BATCH_SIZE) {
+    const chunk = keyedRecords.slice(offset, offset + MAX_BATCH_SIZE);
+
+    const response = await fetchWithRetry(() =>
+      fetch(`${apiUrl}/me/usage/batch`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          product_id: productId,
+          records: chunk.map((record) => ({
+            type: record.type,
+            count: record.amount,
+            idempotency_key: record.idempotencyKey,
+            metadata: record.metadata,
+          })),
+        }),
+      })
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to record usage batch');
+    }
+
+    const data = await response.json();
+
+    for (const r of data.results) {
+      result.results.push({
+        index: offset + r.index,
+        idempotencyKey: r.idempotency_key,
+        status: r.status,
+        count: r.count,
+      });
+    }
+    result.appliedCount += data.applied_count;
+    result.used = data.used;
+    result.remaining = data.remaining;
+    result.overLimit = data.over_limit;
+    if (data.meters) {
+      result.meters = { ...result.meters, ...toMeterUsageMap(data.meters) };
+    }
+  }
+
+  // キャッシュをクリアして次回取得時に最新を取得
+  clearEntitlementCache();
+
+  return result;
+}
+
+/**
+ * 使用履歴を取得 (時間単位・日単位の集計)
+ *
+ * @example
+ * ```typescript
+ * const history = await getUsageHistory({ granularity: 'day', type: 'tokens' });
+ * chart.setData(history.buckets.map((b) => ({ x: b.start, y: b.total })));
+ * ```
  */
-export async function recordUsageBatch(records: UsageRecord[]): Promise<void> {
+export async function getUsageHistory(options: UsageHistoryOptions = {}): Promise<UsageHistory> {
   if (!config) {
     throw new Error('PlatformSDK not initialized');
   }
 
-  // 各レコードを順次処理
-  for (const record of records) {
-    await recordUsage(record.amount, record.type, record.metadata);
+  const token = await getIdToken();
+  if (!token) {
+    throw new Error('Not authenticated');
+  }
+
+  const params = new URLSearchParams({ productId: config.productId });
+  if (options.from) {
+    params.set('from', new Date(options.from).toISOString());
+  }
+  if (options.to) {
+    params.set('to', new Date(options.to).toISOString());
+  }
+  if (options.granularity) {
+    params.set('granularity', options.granularity);
+  }
+  if (options.type) {
+    params.set('type', options.type);
+  }
+
+  const response = await fetch(`${config.apiUrl}/me/usage/history?${params.toString()}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to get usage history');
+  }
+
+  const data = await response.json();
+  return {
+    from: data.from,
+    to: data.to,
+    granularity: data.granularity,
+    buckets: data.buckets,
+    totals: data.totals,
+  };
+}
+
+/**
+ * 冪等性キーを生成
+ */
+function generateIdempotencyKey(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+/**
+ * 一時的な失敗を指数バックオフ (ジッター付き) で再試行
+ * 冪等性キー付きのリクエストにのみ使用してください。
+ */
+async function fetchWithRetry(request: () => Promise<Response>): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await request();
+      if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= RETRY_CONFIG.maxRetries) {
+        return response;
+      }
+    } catch (error) {
+      // fetch はネットワークエラー時に TypeError を投げる
+      if (!(error instanceof TypeError) || attempt >= RETRY_CONFIG.maxRetries) {
+        throw error;
+      }
+    }
+
+    await sleep(calculateDelay(attempt));
   }
 }
 
+/**
+ * 再試行までの待機時間 (ミリ秒)
+ */
+function calculateDelay(attempt: number): number {
+  const exponentialDelay = RETRY_CONFIG.initialDelayMs * Math.pow(RETRY_CONFIG.backoffMultiplier, attempt);
+  const clampedDelay = Math.min(exponentialDelay, RETRY_CONFIG.maxDelayMs);
+  const jitter = clampedDelay * RETRY_CONFIG.jitterFactor * (Math.random() * 2 - 1);
+
+  return Math.max(0, Math.floor(clampedDelay + jitter));
+}
+
+/**
+ * 指定ミリ秒待機
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 /**
  * 使用量をインクリメント（ショートハンド）
  */
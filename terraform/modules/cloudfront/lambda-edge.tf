@@ -132,8 +132,8 @@ resource "aws_lambda_function" "auth_verifier" {
   source_code_hash = data.archive_file.lambda_edge[0].output_base64sha256
 
   # Lambda@Edge cannot have environment variables
-  # Configuration is passed via SSM Parameter Store instead
-  # See aws_ssm_parameter.cognito_jwks_url and aws_ssm_parameter.cognito_issuer
+  # Configuration is bundled with the function (auth-config.json, routing-rules.json)
+  # See aws_ssm_parameter.cognito_jwks_url and aws_ssm_parameter.cognito_issuer for the values
 
   tags = merge(
     var.tags,